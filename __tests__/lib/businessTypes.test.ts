@@ -0,0 +1,120 @@
+/**
+ * Business Type Registry Test Suite
+ *
+ * Tests loading the registry from the business_types table, caching,
+ * alias and complement matching, and labels.
+ */
+
+import {
+  fetchBusinessTypes,
+  invalidateBusinessTypes,
+  matchBusinessType,
+  isComplement,
+  businessTypeLabel,
+} from '../../src/lib/businessTypes';
+import { setLogLevel } from '../../src/lib/logger';
+
+jest.mock('../../src/config/env', () => ({
+  EXPO_PUBLIC_SUPABASE_URL: 'https://example.supabase.co',
+  EXPO_PUBLIC_SUPABASE_ANON_KEY: 'anon-key',
+  EXPO_PUBLIC_REST_TIMEOUT_MS: 15000,
+}));
+
+const ROWS = [
+  {
+    id: 'gas_station',
+    label_ar: 'محطة وقود',
+    label_en: 'Gas Station',
+    icon: 'gas-pump',
+    weight_popularity: '0.5',
+    weight_ratings: 0.3,
+    weight_competition: 0.2,
+    place_types: ['gas_station', 'Gas Station'],
+    factor_weights: { complementary: 0.15, footfall: 2 },
+    complements: ['convenience_store', 'Car Wash'],
+  },
+  { id: 'cafe', label_ar: 'مقهى', label_en: 'Cafe', icon: null, place_types: null },
+];
+
+const respond = (body: unknown) => Promise.resolve(new Response(JSON.stringify(body), { status: 200 }));
+
+beforeAll(() => setLogLevel('silent'));
+
+beforeEach(() => {
+  invalidateBusinessTypes();
+  global.fetch = jest.fn(() => respond(ROWS)) as unknown as typeof fetch;
+});
+
+describe('fetchBusinessTypes', () => {
+  it('maps rows to definitions with defaults for missing columns', async () => {
+    const [gasStation, cafe] = await fetchBusinessTypes();
+
+    expect(gasStation).toEqual({
+      id: 'gas_station',
+      labels: { ar: 'محطة وقود', en: 'Gas Station' },
+      icon: 'gas-pump',
+      weights: { popularity: 0.5, ratings: 0.3, competition: 0.2, complementary: 0.15 },
+      aliases: ['gas_station', 'Gas Station'],
+      complements: ['convenience_store', 'Car Wash'],
+    });
+    expect(cafe).toMatchObject({
+      icon: 'store',
+      weights: { popularity: 1, ratings: 1, competition: 1 },
+      aliases: [],
+      complements: [],
+    });
+  });
+
+  it('asks only for active types in display order and caches the result', async () => {
+    await fetchBusinessTypes();
+    await fetchBusinessTypes();
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    const url = String((global.fetch as jest.Mock).mock.calls[0][0]);
+    expect(url).toContain('/business_types');
+    expect(url).toContain('active=eq.true');
+    expect(url).toContain('order=sort_order');
+  });
+
+  it('keeps the last loaded list when a reload fails', async () => {
+    await fetchBusinessTypes();
+    invalidateBusinessTypes();
+    global.fetch = jest.fn(() => Promise.reject(new TypeError('Network request failed'))) as unknown as typeof fetch;
+
+    await expect(fetchBusinessTypes()).resolves.toHaveLength(2);
+  });
+});
+
+describe('matchBusinessType', () => {
+  it('matches ids and aliases regardless of case and separators', async () => {
+    const types = await fetchBusinessTypes();
+
+    expect(matchBusinessType(types, 'Gas Station')?.id).toBe('gas_station');
+    expect(matchBusinessType(types, 'gas-station')?.id).toBe('gas_station');
+    expect(matchBusinessType(types, 'CAFE')?.id).toBe('cafe');
+    expect(matchBusinessType(types, 'bakery')).toBeUndefined();
+    expect(matchBusinessType(types, null)).toBeUndefined();
+  });
+});
+
+describe('isComplement', () => {
+  it('matches complementary place types regardless of case and separators', async () => {
+    const [gasStation, cafe] = await fetchBusinessTypes();
+
+    expect(isComplement(gasStation, 'car_wash')).toBe(true);
+    expect(isComplement(gasStation, 'Convenience Store')).toBe(true);
+    expect(isComplement(gasStation, 'gas_station')).toBe(false);
+    expect(isComplement(cafe, 'car_wash')).toBe(false);
+    expect(isComplement(gasStation, null)).toBe(false);
+  });
+});
+
+describe('businessTypeLabel', () => {
+  it('uses the Arabic label for Arabic and English otherwise', async () => {
+    const [gasStation] = await fetchBusinessTypes();
+
+    expect(businessTypeLabel(gasStation, 'ar')).toBe('محطة وقود');
+    expect(businessTypeLabel(gasStation, 'ar-SA')).toBe('محطة وقود');
+    expect(businessTypeLabel(gasStation, 'fr')).toBe('Gas Station');
+  });
+});
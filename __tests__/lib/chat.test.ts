@@ -0,0 +1,158 @@
+/**
+ * Chat Test Suite
+ *
+ * Tests reading realtime broadcasts, delivery through the local channel used in place of
+ * Supabase Realtime, merging and marking messages read, and keeping the conversations list
+ * and its unread counts in step with incoming messages.
+ */
+
+import {
+  parseChatEvent,
+  createLocalChatChannel,
+  mergeMessages,
+  applyReadReceipt,
+  applyMessageToConversations,
+  markConversationRead,
+  unreadTotal,
+  ChatEvent,
+} from '../../src/lib/chat';
+import { setLogLevel } from '../../src/lib/logger';
+import type { ChatMessage, Conversation } from '../../src/lib/supabase';
+
+const row = (id: number, senderRole = 'owner', createdAt = `2026-01-01T10:0${id}:00Z`) => ({
+  id,
+  conversation_id: 1,
+  sender_role: senderRole,
+  body: `رسالة ${id}`,
+  client_id: `client-${id}`,
+  read_at: null,
+  created_at: createdAt,
+});
+
+const message = (id: number, senderRole: 'entrepreneur' | 'owner' = 'owner'): ChatMessage => ({
+  id,
+  conversationId: 1,
+  senderRole,
+  body: `رسالة ${id}`,
+  clientId: `client-${id}`,
+  readAt: null,
+  createdAt: `2026-01-01T10:0${id}:00Z`,
+});
+
+const conversation = (id: number, overrides: Partial<Conversation> = {}): Conversation => ({
+  id,
+  listingId: String(100 + id),
+  listingTitle: `محل ${id}`,
+  listingImage: 'https://example.com/cover.jpg',
+  otherRole: 'owner',
+  otherName: 'مالك',
+  lastMessage: null,
+  lastSenderRole: null,
+  lastMessageAt: null,
+  unread: 0,
+  createdAt: '2026-01-01T09:00:00Z',
+  ...overrides,
+});
+
+beforeAll(() => setLogLevel('silent'));
+
+describe('parseChatEvent', () => {
+  it('reads message and read broadcasts', () => {
+    expect(parseChatEvent('message', { message: row(3) })).toEqual({ type: 'message', message: message(3) });
+    expect(parseChatEvent('read', {
+      conversation_id: 1,
+      reader_role: 'entrepreneur',
+      up_to: 3,
+      read_at: '2026-01-01T11:00:00Z',
+    })).toEqual({
+      type: 'read',
+      conversationId: 1,
+      readerRole: 'entrepreneur',
+      upTo: 3,
+      readAt: '2026-01-01T11:00:00Z',
+    });
+  });
+
+  it('ignores unknown events and malformed payloads', () => {
+    expect(parseChatEvent('typing', { message: row(1) })).toBeNull();
+    expect(parseChatEvent('message', {})).toBeNull();
+    expect(parseChatEvent('read', { conversation_id: 1 })).toBeNull();
+    expect(parseChatEvent('message', null)).toBeNull();
+  });
+});
+
+describe('local chat channel', () => {
+  it('delivers published events to the topic subscribers until they unsubscribe', () => {
+    const channel = createLocalChatChannel();
+    const mine: ChatEvent[] = [];
+    const others: ChatEvent[] = [];
+    const unsubscribe = channel.subscribe('chat:mine', event => mine.push(event));
+    channel.subscribe('chat:others', event => others.push(event));
+
+    channel.publish('chat:mine', 'message', { message: row(1) });
+    channel.publish('chat:mine', 'unknown', {});
+    unsubscribe();
+    channel.publish('chat:mine', 'message', { message: row(2) });
+
+    expect(mine).toEqual([{ type: 'message', message: message(1) }]);
+    expect(others).toEqual([]);
+  });
+});
+
+describe('messages', () => {
+  it('merges in id order and keeps a message that arrives twice once', () => {
+    const merged = mergeMessages([message(1), message(3)], [message(2), message(3)]);
+    expect(merged.map(entry => entry.id)).toEqual([1, 2, 3]);
+  });
+
+  it('does not undo a read receipt with an older copy of the message', () => {
+    const read = { ...message(1, 'entrepreneur'), readAt: '2026-01-01T11:00:00Z' };
+    expect(mergeMessages([read], [message(1, 'entrepreneur')])[0].readAt).toBe('2026-01-01T11:00:00Z');
+  });
+
+  it('marks only messages sent to the reader up to the id read', () => {
+    const messages = [message(1, 'entrepreneur'), message(2, 'owner'), message(3, 'entrepreneur')];
+    const updated = applyReadReceipt(messages, {
+      type: 'read',
+      conversationId: 1,
+      readerRole: 'owner',
+      upTo: 2,
+      readAt: '2026-01-01T11:00:00Z',
+    });
+    expect(updated.map(entry => entry.readAt)).toEqual(['2026-01-01T11:00:00Z', null, null]);
+  });
+});
+
+describe('conversations list', () => {
+  it('moves the conversation to the top and counts the message as unread', () => {
+    const list = [conversation(2), conversation(1)];
+    const updated = applyMessageToConversations(list, message(4), 'entrepreneur', null)!;
+
+    expect(updated.map(entry => entry.id)).toEqual([1, 2]);
+    expect(updated[0]).toMatchObject({ lastMessage: 'رسالة 4', lastSenderRole: 'owner', unread: 1 });
+    expect(unreadTotal(updated)).toBe(1);
+  });
+
+  it('does not count messages in the open conversation or sent by the user', () => {
+    const list = [conversation(1)];
+    expect(applyMessageToConversations(list, message(4), 'entrepreneur', 1)![0].unread).toBe(0);
+    expect(applyMessageToConversations(list, message(4, 'entrepreneur'), 'entrepreneur', null)![0].unread).toBe(0);
+  });
+
+  it('counts a broadcast received twice once', () => {
+    const once = applyMessageToConversations([conversation(1)], message(4), 'entrepreneur', null)!;
+    const twice = applyMessageToConversations(once, message(4), 'entrepreneur', null)!;
+    expect(twice[0].unread).toBe(1);
+  });
+
+  it('asks for a reload when the conversation is not loaded', () => {
+    expect(applyMessageToConversations([conversation(2)], message(4), 'entrepreneur', null)).toBeNull();
+  });
+
+  it('clears the unread count of a conversation that was read', () => {
+    const list = [conversation(1, { unread: 3 }), conversation(2, { unread: 2 })];
+    const updated = markConversationRead(list, 1);
+    expect(updated.map(entry => entry.unread)).toEqual([0, 2]);
+    expect(unreadTotal(updated)).toBe(2);
+  });
+});
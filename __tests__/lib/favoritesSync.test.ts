@@ -0,0 +1,191 @@
+/**
+ * Favorites Sync Test Suite
+ *
+ * Tests the device copy of favorites (including the older array format), collapsing and
+ * applying pending operations and note changes on top of the server list, refreshing saved
+ * listing cards, and replaying the queue until the network fails.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  parseStoredFavorites,
+  loadStoredFavorites,
+  saveStoredFavorites,
+  favoritesStorageKey,
+  queueOperation,
+  applyPending,
+  applyAnnotations,
+  buildFavoriteItems,
+  replayPending,
+  FavoriteOperation,
+} from '../../src/lib/favoritesSync';
+import { NetworkError } from '../../src/lib/restClient';
+import { setLogLevel } from '../../src/lib/logger';
+import type { MarketplaceItem } from '../../components/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../../src/config/env', () => ({
+  EXPO_PUBLIC_SUPABASE_URL: 'https://example.supabase.co',
+  EXPO_PUBLIC_SUPABASE_ANON_KEY: 'anon-key',
+  EXPO_PUBLIC_REST_TIMEOUT_MS: 15000,
+}));
+
+const card = (id: string, price = '50000 ريال'): MarketplaceItem => ({
+  id,
+  title: `محل ${id}`,
+  price,
+  size: null,
+  location: 'منطقة 1',
+  image: '',
+  businessName: `محل ${id}`,
+  businessType: 'property',
+});
+
+beforeAll(() => setLogLevel('silent'));
+
+describe('stored favorites', () => {
+  it('reads the older array format as favorites that never reached the server', () => {
+    const stored = parseStoredFavorites(JSON.stringify([card('1'), card('2')]));
+
+    expect(stored.items.map(item => item.id)).toEqual(['1', '2']);
+    expect(stored.pending).toEqual([]);
+    expect(stored.syncedAt).toBeNull();
+  });
+
+  it('saves and loads cards, pending operations and the sync time per user', async () => {
+    const favorites = {
+      items: [card('3')],
+      annotations: { '3': { note: 'اتصلت بالمالك', status: 'contacted' as const } },
+      pending: [{ kind: 'add', id: '3' } as FavoriteOperation],
+      syncedAt: 1000,
+    };
+    await saveStoredFavorites(7, favorites);
+
+    expect(favoritesStorageKey(7)).toBe('ruknapp_favorites_7');
+    await expect(loadStoredFavorites(7)).resolves.toEqual(favorites);
+    await expect(loadStoredFavorites(8)).resolves.toMatchObject({ items: [], syncedAt: null });
+    expect(parseStoredFavorites('not json').items).toEqual([]);
+    expect(await AsyncStorage.getItem('ruknapp_favorites_7')).toContain('"syncedAt":1000');
+  });
+});
+
+describe('pending operations', () => {
+  it('keeps only the latest operation per listing', () => {
+    let pending: FavoriteOperation[] = [];
+    pending = queueOperation(pending, { kind: 'add', id: '1' });
+    pending = queueOperation(pending, { kind: 'add', id: '2' });
+    pending = queueOperation(pending, { kind: 'remove', id: '1' });
+
+    expect(pending).toEqual([{ kind: 'add', id: '2' }, { kind: 'remove', id: '1' }]);
+  });
+
+  it('applies pending operations on top of the server list', () => {
+    const ids = applyPending(['5', '4', '3'], [
+      { kind: 'remove', id: '4' },
+      { kind: 'add', id: '9' },
+      { kind: 'add', id: '3' },
+    ]);
+
+    expect(ids).toEqual(['3', '9', '5']);
+  });
+
+  it('folds note and status changes into one operation and drops them on remove', () => {
+    let pending: FavoriteOperation[] = [];
+    pending = queueOperation(pending, { kind: 'add', id: '1' });
+    pending = queueOperation(pending, { kind: 'annotate', id: '1', changes: { status: 'contacted' } });
+    pending = queueOperation(pending, { kind: 'annotate', id: '1', changes: { note: 'زيارة الأحد' } });
+
+    expect(pending).toEqual([
+      { kind: 'add', id: '1' },
+      { kind: 'annotate', id: '1', changes: { status: 'contacted', note: 'زيارة الأحد' } },
+    ]);
+    expect(applyPending([], pending)).toEqual(['1']);
+
+    expect(queueOperation(pending, { kind: 'remove', id: '1' })).toEqual([{ kind: 'remove', id: '1' }]);
+  });
+
+  it('applies pending note changes on top of the server annotations', () => {
+    const annotations = applyAnnotations(
+      ['1', '2'],
+      [
+        { listingId: '1', note: 'قديم', status: 'visited', createdAt: '2026-01-01' },
+        { listingId: '3', note: 'محذوف', status: 'saved', createdAt: '2026-01-01' },
+      ],
+      [{ kind: 'annotate', id: '1', changes: { note: 'جديد' } }]
+    );
+
+    expect(annotations).toEqual({
+      '1': { note: 'جديد', status: 'visited' },
+      '2': { note: '', status: 'saved' },
+    });
+  });
+});
+
+describe('buildFavoriteItems', () => {
+  it('replaces saved cards with refreshed listings so price changes show', () => {
+    const items = buildFavoriteItems(['1', '2'], [card('1', '40000 ريال'), card('2')], {
+      ids: ['1', '2'],
+      items: [card('1', '45000 ريال'), card('2')],
+    });
+
+    expect(items.map(item => item.price)).toEqual(['45000 ريال', '50000 ريال']);
+  });
+
+  it('drops deleted listings but keeps saved cards that were not refreshed', () => {
+    const items = buildFavoriteItems(['1', '2', '3'], [card('1'), card('2'), card('3')], {
+      ids: ['1', '2'],
+      items: [card('1')],
+    });
+
+    expect(items.map(item => item.id)).toEqual(['1', '3']);
+    expect(buildFavoriteItems(['1', '4'], [card('1')]).map(item => item.id)).toEqual(['1']);
+  });
+});
+
+describe('replayPending', () => {
+  const queue = (operations: FavoriteOperation[]) => {
+    let pending = [...operations];
+    return {
+      next: () => pending[0],
+      settle: (operation: FavoriteOperation) => {
+        pending = pending.filter(queued => queued !== operation);
+      },
+      remaining: () => pending,
+    };
+  };
+
+  it('sends operations in order and settles each one', async () => {
+    const { next, settle, remaining } = queue([{ kind: 'add', id: '1' }, { kind: 'remove', id: '2' }]);
+    const send = jest.fn().mockResolvedValue(undefined);
+
+    await expect(replayPending(next, send, settle)).resolves.toBe(true);
+
+    expect(send.mock.calls.map(([operation]) => operation.id)).toEqual(['1', '2']);
+    expect(remaining()).toEqual([]);
+  });
+
+  it('stops at a network failure and keeps the rest queued', async () => {
+    const { next, settle, remaining } = queue([{ kind: 'add', id: '1' }, { kind: 'add', id: '2' }]);
+    const send = jest.fn()
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new NetworkError('Network request failed', { url: 'https://api.example.com' }));
+
+    await expect(replayPending(next, send, settle)).resolves.toBe(false);
+
+    expect(remaining()).toEqual([{ kind: 'add', id: '2' }]);
+  });
+
+  it('drops operations the server refuses for good and retries server failures', async () => {
+    const refused = Object.assign(new Error('معرف الإعلان غير صحيح'), { status: 400 });
+    const unavailable = Object.assign(new Error('boom'), { status: 503 });
+    const { next, settle, remaining } = queue([{ kind: 'add', id: 'x' }, { kind: 'add', id: '2' }]);
+    const send = jest.fn().mockRejectedValueOnce(refused).mockRejectedValueOnce(unavailable);
+
+    await expect(replayPending(next, send, settle)).resolves.toBe(false);
+
+    expect(remaining()).toEqual([{ kind: 'add', id: '2' }]);
+  });
+});
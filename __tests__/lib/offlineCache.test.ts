@@ -0,0 +1,118 @@
+/**
+ * Offline Cache Test Suite
+ *
+ * Tests persisting query results, expiry and least-recently-used eviction,
+ * clearing one account's queries, and stale-while-revalidate reads that fall back to the stored copy offline.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  readCache,
+  writeCache,
+  clearCache,
+  clearCacheByPrefix,
+  staleWhileRevalidate,
+  MAX_ENTRIES,
+  MAX_AGE_MS,
+} from '../../src/lib/offlineCache';
+import { NetworkError, ServerError } from '../../src/lib/restClient';
+import { setLogLevel } from '../../src/lib/logger';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../../src/config/env', () => ({
+  EXPO_PUBLIC_SUPABASE_URL: 'https://example.supabase.co',
+  EXPO_PUBLIC_SUPABASE_ANON_KEY: 'anon-key',
+  EXPO_PUBLIC_REST_TIMEOUT_MS: 15000,
+}));
+
+const offline = () => new NetworkError('Network request failed', { url: 'https://example.supabase.co' });
+
+beforeAll(() => setLogLevel('silent'));
+
+beforeEach(async () => {
+  jest.restoreAllMocks();
+  await clearCache();
+});
+
+describe('readCache / writeCache', () => {
+  it('stores values in AsyncStorage and reads them back', async () => {
+    await writeCache('listing:1', { id: 1, title: 'محل' });
+
+    await expect(readCache('listing:1')).resolves.toMatchObject({ value: { id: 1, title: 'محل' } });
+    expect(await AsyncStorage.getItem('offlineCache:listing:1')).toContain('محل');
+    await expect(readCache('listing:2')).resolves.toBeNull();
+  });
+
+  it('drops entries older than the maximum age', async () => {
+    const now = Date.now();
+    await writeCache('listing:1', { id: 1 });
+
+    jest.spyOn(Date, 'now').mockReturnValue(now + MAX_AGE_MS + 1);
+
+    await expect(readCache('listing:1')).resolves.toBeNull();
+  });
+
+  it('evicts the least recently used entries past the entry limit', async () => {
+    let now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => ++now);
+
+    for (let i = 0; i < MAX_ENTRIES; i++) {
+      await writeCache(`listing:${i}`, i);
+    }
+    await readCache('listing:0');
+    await writeCache('listing:new', 'new');
+
+    await expect(readCache('listing:0')).resolves.not.toBeNull();
+    await expect(readCache('listing:1')).resolves.toBeNull();
+    await expect(readCache('listing:new')).resolves.not.toBeNull();
+  });
+});
+
+describe('clearCacheByPrefix', () => {
+  it('removes only the queries under the prefix', async () => {
+    await writeCache('conversations:owner:1', [{ id: 1 }]);
+    await writeCache('conversations:owner:10', [{ id: 2 }]);
+    await writeCache('listing:1', { id: 1 });
+
+    await clearCacheByPrefix('conversations:');
+
+    await expect(readCache('conversations:owner:1')).resolves.toBeNull();
+    await expect(readCache('conversations:owner:10')).resolves.toBeNull();
+    expect(await AsyncStorage.getItem('offlineCache:conversations:owner:1')).toBeNull();
+    await expect(readCache('listing:1')).resolves.toMatchObject({ value: { id: 1 } });
+  });
+});
+
+describe('staleWhileRevalidate', () => {
+  it('shows the stored copy first, then returns and stores the fresh value', async () => {
+    await writeCache('listings:1', ['old']);
+    const onCached = jest.fn();
+
+    const slowFetch = () => new Promise<string[]>(resolve => setTimeout(() => resolve(['new']), 10));
+
+    const result = await staleWhileRevalidate('listings:1', slowFetch, onCached);
+
+    expect(onCached).toHaveBeenCalledWith(expect.objectContaining({ value: ['old'] }));
+    expect(result).toMatchObject({ value: ['new'], fromCache: false });
+    await expect(readCache('listings:1')).resolves.toMatchObject({ value: ['new'] });
+  });
+
+  it('returns the stored copy when the network is unreachable', async () => {
+    await writeCache('listing:7', { id: 7 });
+
+    const result = await staleWhileRevalidate('listing:7', () => Promise.reject(offline()));
+
+    expect(result).toMatchObject({ value: { id: 7 }, fromCache: true });
+  });
+
+  it('rethrows server errors and network errors with nothing stored', async () => {
+    await writeCache('listing:7', { id: 7 });
+    const serverError = new ServerError('boom', { url: 'https://example.supabase.co', status: 500 });
+
+    await expect(staleWhileRevalidate('listing:7', () => Promise.reject(serverError))).rejects.toBe(serverError);
+    await expect(staleWhileRevalidate('listing:8', () => Promise.reject(offline()))).rejects.toBeInstanceOf(NetworkError);
+  });
+});
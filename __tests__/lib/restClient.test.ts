@@ -0,0 +1,219 @@
+/**
+ * REST Client Test Suite
+ *
+ * Tests query building, header injection, error classification,
+ * retry with backoff and timeouts of the Supabase REST client.
+ */
+
+import {
+  createRestClient,
+  RestClientOptions,
+  NetworkError,
+  ClientError,
+  AuthError,
+  ServerError,
+} from '../../src/lib/restClient';
+import { setLogLevel } from '../../src/lib/logger';
+
+jest.mock('../../src/config/env', () => ({
+  EXPO_PUBLIC_SUPABASE_URL: 'https://example.supabase.co',
+  EXPO_PUBLIC_SUPABASE_ANON_KEY: 'anon-key',
+  EXPO_PUBLIC_REST_TIMEOUT_MS: 15000,
+}));
+
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(body === null ? null : JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+const setup = (responses: Array<Response | Error>, options: Partial<RestClientOptions> = {}) => {
+  const fetchMock = jest.fn(async (_input: RequestInfo | URL, _init?: RequestInit) => {
+    const next = responses.shift();
+    if (!next) throw new Error('Unexpected request');
+    if (next instanceof Error) throw next;
+    return next;
+  });
+
+  const client = createRestClient({
+    baseUrl: 'https://example.supabase.co/rest/v1/',
+    apiKey: 'anon-key',
+    retry: { retries: 2, baseDelayMs: 0, maxDelayMs: 0 },
+    fetch: fetchMock as unknown as typeof fetch,
+    ...options,
+  });
+
+  const call = (index: number) => {
+    const [input, init] = fetchMock.mock.calls[index];
+    return { url: decodeURIComponent(String(input)), init: init as RequestInit };
+  };
+
+  return { client, fetchMock, call };
+};
+
+beforeAll(() => setLogLevel('silent'));
+
+describe('Query building', () => {
+  it('translates select, filters, order and range into PostgREST parameters', async () => {
+    const { client, call } = setup([jsonResponse([])]);
+
+    await client
+      .from('Listings')
+      .select('Listing_ID,Title')
+      .gte('Price', 1000)
+      .eq('zone_id', '3')
+      .in('Listing_ID', [1, 2, 3])
+      .order('Price', { ascending: false })
+      .range(20, 39)
+      .find();
+
+    const { url, init } = call(0);
+    expect(init.method).toBe('GET');
+    expect(url.startsWith('https://example.supabase.co/rest/v1/Listings?')).toBe(true);
+    const params = new URL(url).searchParams;
+    expect(params.get('select')).toBe('Listing_ID,Title');
+    expect(params.get('Price')).toBe('gte.1000');
+    expect(params.get('zone_id')).toBe('eq.3');
+    expect(params.get('Listing_ID')).toBe('in.(1,2,3)');
+    expect(params.get('order')).toBe('Price.desc');
+    expect(params.get('offset')).toBe('20');
+    expect(params.get('limit')).toBe('20');
+  });
+
+  it('quotes list values that contain reserved characters', async () => {
+    const { client, call } = setup([jsonResponse([])]);
+
+    await client.from('Zones').in('district_name', ['Al Olaya', 'a,b']).find();
+
+    expect(new URL(call(0).url).searchParams.get('district_name')).toBe('in.("Al Olaya","a,b")');
+  });
+
+  it('reads the total from Content-Range when counting', async () => {
+    const { client, call } = setup([
+      jsonResponse([{ id: 1 }], 200, { 'Content-Range': '0-0/42' }),
+      new Response(null, { status: 200, headers: { 'Content-Range': '*/7' } }),
+    ]);
+
+    const page = await client.from('Listings').range(0, 0).findWithCount();
+    expect(page).toEqual({ rows: [{ id: 1 }], count: 42 });
+
+    const count = await client.from('favorites').eq('shop_id', 5).count();
+    expect(count).toBe(7);
+    expect(call(1).init.method).toBe('HEAD');
+    expect((call(1).init.headers as Record<string, string>)['Prefer']).toBe('count=exact');
+  });
+
+  it('sends only filters on writes', async () => {
+    const { client, call } = setup([new Response(null, { status: 204 })]);
+
+    await client.from('shops').eq('shop_id', 9).limit(1).update({ favorites_count: 3 });
+
+    const { url, init } = call(0);
+    expect(init.method).toBe('PATCH');
+    expect(init.body).toBe(JSON.stringify({ favorites_count: 3 }));
+    const params = new URL(url).searchParams;
+    expect(params.get('shop_id')).toBe('eq.9');
+    expect(params.has('limit')).toBe(false);
+    expect(params.has('select')).toBe(false);
+  });
+});
+
+describe('Header injection', () => {
+  it('sends the api key as both apikey and bearer token by default', async () => {
+    const { client, call } = setup([jsonResponse([])]);
+
+    await client.from('Zones').find();
+
+    const headers = call(0).init.headers as Record<string, string>;
+    expect(headers['apikey']).toBe('anon-key');
+    expect(headers['Authorization']).toBe('Bearer anon-key');
+  });
+
+  it('prefers the access token when one is available', async () => {
+    const { client, call } = setup([jsonResponse([])], { getAccessToken: () => 'user-token' });
+
+    await client.from('favorites').find({ headers: { 'Cache-Control': 'no-cache' } });
+
+    const headers = call(0).init.headers as Record<string, string>;
+    expect(headers['apikey']).toBe('anon-key');
+    expect(headers['Authorization']).toBe('Bearer user-token');
+    expect(headers['Cache-Control']).toBe('no-cache');
+  });
+});
+
+describe('Errors and retries', () => {
+  it('classifies 4xx, 401/403 and 5xx responses', async () => {
+    const { client } = setup([
+      jsonResponse({ message: 'bad filter', code: 'PGRST100' }, 400),
+      jsonResponse({ message: 'permission denied' }, 401),
+      jsonResponse({ message: 'boom' }, 500),
+      jsonResponse({ message: 'boom' }, 500),
+      jsonResponse({ message: 'boom' }, 500),
+    ]);
+
+    const badRequest = client.from('Listings').find();
+    await expect(badRequest).rejects.toBeInstanceOf(ClientError);
+    await expect(badRequest).rejects.toMatchObject({ status: 400, code: 'PGRST100', message: 'bad filter' });
+
+    const denied = client.from('Listings').find();
+    await expect(denied).rejects.toBeInstanceOf(AuthError);
+
+    const failed = client.from('Listings').find();
+    await expect(failed).rejects.toBeInstanceOf(ServerError);
+  });
+
+  it('retries reads on server and network errors', async () => {
+    const { client, fetchMock } = setup([
+      new TypeError('Network request failed'),
+      jsonResponse({ message: 'unavailable' }, 503),
+      jsonResponse([{ zone_id: 1 }]),
+    ]);
+
+    await expect(client.from('Zones').find()).resolves.toEqual([{ zone_id: 1 }]);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry client errors or writes', async () => {
+    const { client, fetchMock } = setup([
+      jsonResponse({ message: 'not found' }, 404),
+      jsonResponse({ message: 'unavailable' }, 503),
+    ]);
+
+    await expect(client.from('Zones').find()).rejects.toBeInstanceOf(ClientError);
+    await expect(client.from('favorites').insert({ shop_id: 1 })).rejects.toBeInstanceOf(ServerError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('aborts slow requests with a timed out NetworkError', async () => {
+    const fetchMock = jest.fn(
+      (_input: RequestInfo | URL, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(new Error('Aborted')));
+        })
+    );
+    const client = createRestClient({
+      baseUrl: 'https://example.supabase.co/rest/v1',
+      apiKey: 'anon-key',
+      timeoutMs: 10,
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    const request = client.from('Listings').find({ retries: 0 });
+    await expect(request).rejects.toBeInstanceOf(NetworkError);
+    await expect(request).rejects.toMatchObject({ timedOut: true });
+  });});
+
+describe('Connectivity', () => {
+  it('reports offline when the server cannot be reached and online when it answers', async () => {
+    const onConnectivity = jest.fn();
+    const { client } = setup(
+      [new TypeError('Network request failed'), jsonResponse({ message: 'nope' }, 404)],
+      { onConnectivity, retry: { retries: 0 } }
+    );
+
+    await expect(client.from('Listings').find()).rejects.toBeInstanceOf(NetworkError);
+    await expect(client.from('Listings').find()).rejects.toBeInstanceOf(ClientError);
+
+    expect(onConnectivity.mock.calls).toEqual([[false], [true]]);
+  });
+});
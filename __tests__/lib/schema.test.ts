@@ -0,0 +1,129 @@
+/**
+ * Table Schema Test Suite
+ *
+ * Tests coercion and rejection of Supabase rows by the table validators,
+ * and that the REST client applies them to reads.
+ */
+
+import {
+  ListingsTable,
+  ZonesTable,
+  CompetitorsTable,
+  SchemaError,
+  defineTable,
+  fields,
+} from '../../src/lib/schema';
+import { createRestClient } from '../../src/lib/restClient';
+import { setLogLevel } from '../../src/lib/logger';
+
+jest.mock('../../src/config/env', () => ({
+  EXPO_PUBLIC_SUPABASE_URL: 'https://example.supabase.co',
+  EXPO_PUBLIC_SUPABASE_ANON_KEY: 'anon-key',
+  EXPO_PUBLIC_REST_TIMEOUT_MS: 15000,
+}));
+
+beforeAll(() => setLogLevel('silent'));
+
+describe('Coercion', () => {
+  it('coerces numeric strings and blank values in listing rows', () => {
+    const row = ListingsTable.parse({
+      Listing_ID: '12',
+      Title: '  محل تجاري  ',
+      Price: '45,000',
+      Area: '',
+      Images: 'https://a.example/1.jpg | https://a.example/2.jpg',
+      zone_id: '3',
+      Latitude: '24.7136',
+      Longitude: 46.6753,
+    });
+
+    expect(row).toEqual({
+      Listing_ID: 12,
+      Title: 'محل تجاري',
+      Price: 45000,
+      Area: null,
+      Images: 'https://a.example/1.jpg | https://a.example/2.jpg',
+      zone_id: 3,
+      Latitude: 24.7136,
+      Longitude: 46.6753,
+      owner_id: null,
+      favorites_count: 0,
+    });
+  });
+
+  it('fills defaults for missing zone metrics', () => {
+    const zone = ZonesTable.parse({ zone_id: 4, district_name: 'العليا' });
+
+    expect(zone.total_popularity_score).toBe(0);
+    expect(zone.total_user_ratings).toBe(0);
+    expect(zone.number_of_businesses).toBe(0);
+    expect(zone.latitude_center).toBeNull();
+  });
+
+  it('drops columns that are not part of the schema', () => {
+    const competitor = CompetitorsTable.parse({
+      zone_id: 1,
+      business_type: 'barber',
+      number_of_same_type_businesses: '7',
+      unexpected: true,
+    });
+
+    expect(competitor).toEqual({ zone_id: 1, business_type: 'barber', number_of_same_type_businesses: 7 });
+  });
+});
+
+describe('Rejection', () => {
+  it('names the table, column and row in the error', () => {
+    expect.assertions(4);
+    try {
+      ListingsTable.parse({ Listing_ID: 7, Latitude: 'north' });
+    } catch (error) {
+      expect(error).toBeInstanceOf(SchemaError);
+      expect((error as SchemaError).table).toBe('Listings');
+      expect((error as SchemaError).column).toBe('Latitude');
+      expect((error as SchemaError).message).toBe('Listings.Latitude (row 7): expected a number, got "north"');
+    }
+  });
+
+  it('rejects missing required columns and out of range coordinates', () => {
+    expect(() => ListingsTable.parse({ Title: 'no id' })).toThrow('Listings.Listing_ID: is required');
+    expect(() => ListingsTable.parse({ Listing_ID: 1, Longitude: 200 })).toThrow(
+      'expected a longitude between -180 and 180'
+    );
+    expect(() => ListingsTable.parse({ Listing_ID: 1.5 })).toThrow('expected an integer');
+  });
+
+  it('skips invalid rows when parsing a list', () => {
+    const table = defineTable('Things', 'id', { id: fields.integer(), label: fields.optional(fields.string()) });
+
+    const rows = table.parseMany([{ id: 1 }, { id: 'x' }, { id: '3', label: 'ok' }]);
+
+    expect(rows).toEqual([
+      { id: 1, label: null },
+      { id: 3, label: 'ok' },
+    ]);
+  });
+});
+
+describe('REST client integration', () => {
+  const clientReturning = (body: unknown) =>
+    createRestClient({
+      baseUrl: 'https://example.supabase.co/rest/v1',
+      apiKey: 'anon-key',
+      fetch: (async () => new Response(JSON.stringify(body), { status: 200 })) as unknown as typeof fetch,
+    });
+
+  it('validates rows when the query starts from a table schema', async () => {
+    const client = clientReturning([{ zone_id: '2', business_type: 'gym', number_of_same_type_businesses: '5' }]);
+
+    await expect(client.from(CompetitorsTable).find()).resolves.toEqual([
+      { zone_id: 2, business_type: 'gym', number_of_same_type_businesses: 5 },
+    ]);
+  });
+
+  it('throws for a malformed single row', async () => {
+    const client = clientReturning([{ Listing_ID: 'abc' }]);
+
+    await expect(client.from(ListingsTable).eq('Listing_ID', 1).first()).rejects.toBeInstanceOf(SchemaError);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Search Test Suite
+ *
+ * Tests match scoring, ranking of loaded items and suggestions built
+ * from districts, business types and listing titles.
+ */
+
+import {
+  scoreMatch,
+  rankBySearch,
+  getSearchSuggestions,
+  resolveDistrictZoneIds,
+  invalidateSearchIndex,
+} from '../../src/lib/search';
+import { invalidateBusinessTypes } from '../../src/lib/businessTypes';
+import { normalizeSearchText } from '../../src/utils/arabicText';
+import { setLogLevel } from '../../src/lib/logger';
+
+jest.mock('../../src/config/env', () => ({
+  EXPO_PUBLIC_SUPABASE_URL: 'https://example.supabase.co',
+  EXPO_PUBLIC_SUPABASE_ANON_KEY: 'anon-key',
+  EXPO_PUBLIC_REST_TIMEOUT_MS: 15000,
+}));
+
+const ZONES = [
+  { zone_id: 1, district_name: 'العليا' },
+  { zone_id: 2, district_name: 'العليا' },
+  { zone_id: 3, district_name: 'الروضة' },
+];
+
+const LISTINGS = [
+  { Listing_ID: 10, Title: 'محل في العليا', zone_id: 1 },
+  { Listing_ID: 11, Title: 'مستودع', zone_id: 3 },
+];
+
+const BUSINESS_TYPES = [
+  { id: 'barber', label_ar: 'حلاق', label_en: 'Barber', icon: 'cut', place_types: ['hair_care'] },
+  { id: 'gym', label_ar: 'صالة رياضية', label_en: 'Gym', icon: 'dumbbell', place_types: [] },
+  { id: 'pharmacy', label_ar: 'صيدلية', label_en: 'Pharmacy', icon: 'pills', place_types: [] },
+];
+
+const tableOf = (url: string) => {
+  if (url.includes('/Zones')) return ZONES;
+  if (url.includes('/business_types')) return BUSINESS_TYPES;
+  return LISTINGS;
+};
+
+const respond = (body: unknown) => Promise.resolve(new Response(JSON.stringify(body), { status: 200 }));
+
+beforeAll(() => setLogLevel('silent'));
+
+beforeEach(() => {
+  invalidateSearchIndex();
+  invalidateBusinessTypes();
+  global.fetch = jest.fn((url: string) => respond(tableOf(String(url)))) as unknown as typeof fetch;
+});
+
+describe('scoreMatch', () => {
+  const score = (candidate: string, query: string) => scoreMatch(normalizeSearchText(candidate), normalizeSearchText(query));
+
+  it('ranks exact, prefix, word prefix and substring matches', () => {
+    expect(score('العليا', 'العليا')).toBe(1);
+    expect(score('العليا الشمالية', 'العليا')).toBe(0.8);
+    expect(score('حي العليا', 'عليا')).toBe(0.6);
+    expect(score('المعليا', 'علي')).toBe(0.4);
+    expect(score('الروضة', 'عليا')).toBe(0);
+  });
+
+  it('ignores the article on either side', () => {
+    expect(score('حي عليا', 'العليا')).toBe(0.6);
+  });
+});
+
+describe('rankBySearch', () => {
+  it('orders by relevance and keeps the original order for ties', () => {
+    const items = ['مستودع', 'محل العليا', 'العليا', 'محل'];
+
+    expect(rankBySearch(items, 'العليا', item => [item])).toEqual(['العليا', 'محل العليا', 'مستودع', 'محل']);
+  });
+});
+
+describe('suggestions', () => {
+  it('suggests districts from Arabic and transliterated text', async () => {
+    const [arabic] = await getSearchSuggestions('علي');
+    const [latin] = await getSearchSuggestions('Al-Olaya');
+
+    expect(arabic).toMatchObject({ kind: 'district', label: 'العليا', zoneIds: [1, 2] });
+    expect(latin).toMatchObject({ kind: 'district', label: 'العليا', score: 1 });
+  });
+
+  it('suggests business types in either language and listing titles', async () => {
+    const pharmacy = await getSearchSuggestions('صيدليه');
+    const gym = await getSearchSuggestions('gym');
+    const listing = await getSearchSuggestions('مستودع');
+
+    expect(pharmacy[0]).toMatchObject({
+      kind: 'businessType',
+      businessType: 'pharmacy',
+      labels: { ar: 'صيدلية', en: 'Pharmacy' },
+    });
+    expect(gym[0]).toMatchObject({ kind: 'businessType', businessType: 'gym' });
+    expect(listing[0]).toMatchObject({ kind: 'listing', listingId: 11 });
+  });
+
+  it('resolves district zone ids and loads the index once', async () => {
+    await expect(resolveDistrictZoneIds('rawdah')).resolves.toEqual([3]);
+    await expect(resolveDistrictZoneIds('مستودع')).resolves.toEqual([]);
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('still suggests the last loaded business types when the index cannot load', async () => {
+    await getSearchSuggestions('حلاق');
+    invalidateSearchIndex();
+    global.fetch = jest.fn(() => Promise.reject(new TypeError('Network request failed'))) as unknown as typeof fetch;
+
+    const results = await getSearchSuggestions('حلاق');
+
+    expect(results[0]).toMatchObject({ kind: 'businessType', businessType: 'barber' });
+  });
+});
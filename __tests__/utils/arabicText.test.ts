@@ -0,0 +1,64 @@
+/**
+ * Arabic Text Test Suite
+ *
+ * Tests normalization of search text and the regular expressions
+ * sent to PostgREST for Arabic-aware matching.
+ */
+
+import { normalizeSearchText, searchWords, toArabicMatchPattern } from '../../src/utils/arabicText';
+
+describe('normalizeSearchText', () => {
+  it('strips tashkeel and tatweel', () => {
+    expect(normalizeSearchText('مَحَلٌّ تِجَارِيّ')).toBe('محل تجاري');
+    expect(normalizeSearchText('العـــليا')).toBe('العليا');
+  });
+
+  it('unifies alef, hamza, ta marbuta and ya variants', () => {
+    expect(normalizeSearchText('أإآٱ')).toBe('اااا');
+    expect(normalizeSearchText('الروضة')).toBe('الروضه');
+    expect(normalizeSearchText('الندى')).toBe('الندي');
+    expect(normalizeSearchText('مؤسسة رائدة')).toBe('موسسه رايده');
+  });
+
+  it('converts Arabic-Indic digits', () => {
+    expect(normalizeSearchText('منطقة ١٢')).toBe('منطقه 12');
+    expect(normalizeSearchText('۳۴')).toBe('34');
+  });
+
+  it('lowercases Latin text, collapses punctuation and drops the Al- article', () => {
+    expect(normalizeSearchText('  Al-Olaya,  Riyadh ')).toBe('olaya riyadh');
+    expect(normalizeSearchText('El Malqa')).toBe('malqa');
+    expect(normalizeSearchText('Almond')).toBe('almond');
+  });
+});
+
+describe('searchWords', () => {
+  it('adds each word without its Arabic article', () => {
+    expect(searchWords('حي العليا')).toEqual(['حي', 'العليا', 'عليا']);
+  });
+});
+
+describe('toArabicMatchPattern', () => {
+  it('matches stored spelling variants', () => {
+    const pattern = new RegExp(toArabicMatchPattern('الروضه')!, 'i');
+
+    expect(pattern.test('حي الرَّوْضَة')).toBe(true);
+    expect(pattern.test('الروضه')).toBe(true);
+    expect(pattern.test('الربوة')).toBe(false);
+  });
+
+  it('matches digits in either script', () => {
+    const pattern = new RegExp(toArabicMatchPattern('١٢')!);
+
+    expect(pattern.test('محل 12')).toBe(true);
+    expect(pattern.test('محل ١٢')).toBe(true);
+  });
+
+  it('contains no characters that break a PostgREST or=() filter', () => {
+    expect(toArabicMatchPattern('a,b.(c):d\\e')).not.toMatch(/[,.():\\]/);
+  });
+
+  it('returns null when nothing searchable is left', () => {
+    expect(toArabicMatchPattern(' ... ')).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Listing Comparison Test Suite
+ *
+ * Tests reading the compared ids from the screen parameter, pairing listings with their
+ * zone's recommendation, price per m², and marking the best listing on each row.
+ */
+
+import {
+  parseComparisonIds,
+  pricePerSqm,
+  buildComparison,
+  bestOnFigure,
+} from '../../src/utils/listingComparison';
+import type { MarketplaceItem } from '../../components/types';
+import type { ZoneRecommendation } from '../../src/utils/zoneRecommendations';
+
+const listing = (id: string, priceValue: number | null, area: number | null, zone_id?: number): MarketplaceItem => ({
+  id,
+  title: `محل ${id}`,
+  price: priceValue ? `${priceValue} ريال` : '',
+  priceValue,
+  size: area ? `${area} م²` : null,
+  area,
+  location: zone_id ? `منطقة ${zone_id}` : '',
+  image: '',
+  businessName: `محل ${id}`,
+  businessType: 'property',
+  zone_id,
+});
+
+const zone = (zone_id: number, zone_score: number, competitors: number): ZoneRecommendation => ({
+  zone_id,
+  zone_score,
+  // Not read by the comparison
+  explanation: {} as ZoneRecommendation['explanation'],
+  total_popularity_score: 0,
+  total_user_ratings: 0,
+  number_of_same_type_businesses: competitors,
+  listing_count: 1,
+});
+
+describe('parseComparisonIds', () => {
+  it('splits, trims and de-duplicates ids in order', () => {
+    expect(parseComparisonIds('3, 1,3,,2')).toEqual(['3', '1', '2']);
+    expect(parseComparisonIds(['5', '6,7'])).toEqual(['5', '6', '7']);
+    expect(parseComparisonIds(undefined)).toEqual([]);
+  });
+
+  it('keeps at most four listings', () => {
+    expect(parseComparisonIds('1,2,3,4,5')).toEqual(['1', '2', '3', '4']);
+  });
+});
+
+describe('buildComparison', () => {
+  it('keeps the chosen order and attaches each zone', () => {
+    const compared = buildComparison(
+      ['2', '1', '9'],
+      [listing('1', 60000, 120, 4), listing('2', 40000, null, 7)],
+      [zone(4, 82, 3)]
+    );
+
+    expect(compared.map(entry => entry.item.id)).toEqual(['2', '1']);
+    expect(compared[0].zone).toBeNull();
+    expect(compared[1].zone?.zone_score).toBe(82);
+    expect(compared[1].pricePerSqm).toBe(500);
+  });
+
+  it('has no price per m² without both price and area', () => {
+    expect(pricePerSqm(listing('1', null, 100))).toBeNull();
+    expect(pricePerSqm(listing('1', 50000, null))).toBeNull();
+  });
+});
+
+describe('bestOnFigure', () => {
+  const compared = buildComparison(
+    ['1', '2', '3'],
+    [listing('1', 60000, 120, 4), listing('2', 40000, 80, 7), listing('3', null, 120, 9)],
+    [zone(4, 82, 3), zone(7, 65, 1), zone(9, 82, 5)]
+  );
+
+  it('prefers lower prices and competitor counts, and larger areas and scores', () => {
+    expect(bestOnFigure(compared, 'price')).toEqual(['2']);
+    expect(bestOnFigure(compared, 'competitors')).toEqual(['2']);
+    expect(bestOnFigure(compared, 'area')).toEqual(['1', '3']);
+    expect(bestOnFigure(compared, 'zoneScore')).toEqual(['1', '3']);
+  });
+
+  it('marks nothing when values are equal or only one listing has the figure', () => {
+    const sameSize = buildComparison(['1', '2'], [listing('1', 1, 100), listing('2', 2, 100)], []);
+
+    expect(bestOnFigure(sameSize, 'area')).toEqual([]);
+    expect(bestOnFigure(sameSize, 'zoneScore')).toEqual([]);
+  });
+});
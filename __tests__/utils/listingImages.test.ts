@@ -0,0 +1,63 @@
+/**
+ * Listing Images Test Suite
+ *
+ * Tests normalization of the Listings.Images column into a cover image
+ * and an ordered, de-duplicated gallery of valid URLs.
+ */
+
+import { normalizeListingImages } from '../../src/utils/listingImages';
+
+jest.mock('../../src/config/env', () => ({
+  PLACEHOLDER_IMAGE_URL: 'https://placeholder.example/none.jpg',
+}));
+
+const A = 'https://images.example/a.jpg';
+const B = 'https://images.example/b.jpg';
+const C = 'https://images.example/c.webp';
+
+describe('normalizeListingImages', () => {
+  it('keeps an array of URLs in order', () => {
+    expect(normalizeListingImages([A, B, C])).toEqual({ cover: A, gallery: [A, B, C], hasPhotos: true });
+  });
+
+  it('splits pipe, comma and newline separated strings', () => {
+    expect(normalizeListingImages(`${A} | ${B}|${C}`).gallery).toEqual([A, B, C]);
+    expect(normalizeListingImages(`${A},${B}`).gallery).toEqual([A, B]);
+    expect(normalizeListingImages(`${A}\n${B}`).gallery).toEqual([A, B]);
+  });
+
+  it('parses JSON arrays and objects stored as text', () => {
+    expect(normalizeListingImages(JSON.stringify([A, B])).gallery).toEqual([A, B]);
+    expect(normalizeListingImages(JSON.stringify({ 0: A, 1: B })).gallery).toEqual([A, B]);
+  });
+
+  it('reads URLs from object values', () => {
+    expect(normalizeListingImages({ main: A, extra: [B, C] }).gallery).toEqual([A, B, C]);
+  });
+
+  it('falls back to separated text when bracketed JSON is malformed', () => {
+    expect(normalizeListingImages(`["${A}", "${B}"`).gallery).toEqual([A, B]);
+  });
+
+  it('removes duplicates, blanks, quotes and invalid URLs', () => {
+    const raw = [A, ` "${A}" `, '', 'not a url', 'ftp://images.example/x.jpg', `'${B}'`, null, 42];
+    expect(normalizeListingImages(raw).gallery).toEqual([A, B]);
+  });
+
+  it('returns the placeholder when there are no photos', () => {
+    const expected = {
+      cover: 'https://placeholder.example/none.jpg',
+      gallery: ['https://placeholder.example/none.jpg'],
+      hasPhotos: false,
+    };
+
+    expect(normalizeListingImages(null)).toEqual(expected);
+    expect(normalizeListingImages('')).toEqual(expected);
+    expect(normalizeListingImages('[]')).toEqual(expected);
+    expect(normalizeListingImages({ note: 'no photos yet' })).toEqual(expected);
+  });
+
+  it('accepts a custom placeholder', () => {
+    expect(normalizeListingImages(undefined, 'https://other.example/p.png').cover).toBe('https://other.example/p.png');
+  });
+});
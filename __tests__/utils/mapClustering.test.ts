@@ -0,0 +1,88 @@
+/**
+ * Map Clustering Test Suite
+ *
+ * Tests grid clustering of pins, the region helpers used by the map tab, and when a tapped
+ * cluster is previewed rather than zoomed into.
+ */
+
+import {
+  clusterPoints,
+  regionToBounds,
+  zoomIntoCluster,
+  canZoomIntoCluster,
+  MIN_REGION_DELTA,
+} from '../../src/utils/mapClustering';
+
+const REGION = { latitude: 24.7, longitude: 46.7, latitudeDelta: 0.6, longitudeDelta: 0.6 };
+
+const point = (latitude: number, longitude: number, item: string) => ({ latitude, longitude, item });
+
+const cluster = (items: string[], stacked: boolean) => ({ id: 'x', latitude: 24.8, longitude: 46.6, items, stacked });
+
+describe('clusterPoints', () => {
+  it('groups nearby pins and keeps distant ones apart', () => {
+    const clusters = clusterPoints(
+      [point(24.701, 46.701, 'a'), point(24.702, 46.702, 'b'), point(24.95, 46.45, 'c')],
+      REGION
+    );
+
+    expect(clusters.map(cluster => cluster.items.sort())).toEqual(expect.arrayContaining([['a', 'b'], ['c']]));
+  });
+
+  it('places a cluster at the mean of its pins', () => {
+    const [cluster] = clusterPoints([point(24.701, 46.701, 'a'), point(24.703, 46.703, 'b')], REGION);
+
+    expect(cluster.latitude).toBeCloseTo(24.702);
+    expect(cluster.longitude).toBeCloseTo(46.702);
+  });
+
+  it('splits clusters when zoomed in', () => {
+    const points = [point(24.701, 46.701, 'a'), point(24.709, 46.709, 'b')];
+    const zoomed = { ...REGION, latitudeDelta: 0.01, longitudeDelta: 0.01 };
+
+    expect(clusterPoints(points, REGION)).toHaveLength(1);
+    expect(clusterPoints(points, zoomed)).toHaveLength(2);
+  });
+
+  it('marks pins that share one position as stacked at any zoom', () => {
+    const building = [point(24.7011, 46.7011, 'a'), point(24.7011, 46.7011, 'b'), point(24.7011, 46.7011, 'c')];
+    const closest = { ...REGION, latitudeDelta: MIN_REGION_DELTA, longitudeDelta: MIN_REGION_DELTA };
+
+    expect(clusterPoints(building, REGION)[0].stacked).toBe(true);
+    expect(clusterPoints(building, closest)).toEqual([expect.objectContaining({ stacked: true })]);
+    expect(clusterPoints([...building, point(24.7012, 46.7011, 'd')], REGION)[0].stacked).toBe(false);
+  });
+});
+
+describe('region helpers', () => {
+  it('converts a region to its bounding box', () => {
+    const bounds = regionToBounds(REGION);
+
+    expect(bounds.north).toBeCloseTo(25.0);
+    expect(bounds.south).toBeCloseTo(24.4);
+    expect(bounds.east).toBeCloseTo(47.0);
+    expect(bounds.west).toBeCloseTo(46.4);
+  });
+
+  it('zooms into a cluster center', () => {
+    const region = zoomIntoCluster(cluster(['a', 'b'], false), REGION);
+
+    expect(region).toMatchObject({ latitude: 24.8, longitude: 46.6 });
+    expect(region.latitudeDelta).toBeCloseTo(0.2);
+    expect(region.longitudeDelta).toBeCloseTo(0.2);
+  });
+
+  it('does not zoom in past the closest region', () => {
+    const close = { ...REGION, latitudeDelta: 0.004, longitudeDelta: 0.004 };
+    expect(zoomIntoCluster(cluster(['a', 'b'], false), close).latitudeDelta).toBe(MIN_REGION_DELTA);
+  });
+
+  it('previews clusters that zooming cannot split instead of zooming in', () => {
+    const closest = { ...REGION, latitudeDelta: MIN_REGION_DELTA, longitudeDelta: MIN_REGION_DELTA };
+
+    expect(canZoomIntoCluster(cluster(['a', 'b'], false), REGION)).toBe(true);
+    expect(canZoomIntoCluster(cluster(['a', 'b'], true), REGION)).toBe(false);
+    expect(canZoomIntoCluster(cluster(['a', 'b'], false), closest)).toBe(false);
+    expect(canZoomIntoCluster(cluster(['a'], true), REGION)).toBe(false);
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Zone Recommendations Test Suite
+ *
+ * Tests that zones come from the backend endpoint, are revalidated with
+ * their ETag, and are scored on the device only when the backend is offline.
+ */
+
+import { fetchZoneRecommendations } from '../../src/utils/zoneRecommendations';
+import { setLogLevel } from '../../src/lib/logger';
+import { invalidateBusinessTypes } from '../../src/lib/businessTypes';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../../src/config/env', () => ({
+  EXPO_PUBLIC_SUPABASE_URL: 'https://example.supabase.co',
+  EXPO_PUBLIC_SUPABASE_ANON_KEY: 'anon-key',
+  EXPO_PUBLIC_API_URL: 'https://api.example.com',
+  EXPO_PUBLIC_REST_TIMEOUT_MS: 15000,
+}));
+
+const explanation = {
+  factors: {
+    popularity: { raw: 900, normalized: 1, weight: 0.4, contribution: 40 },
+    ratings: { raw: 12000, normalized: 1, weight: 0.2, contribution: 20 },
+    competition: { raw: 0, normalized: 1, weight: 0.4, contribution: 40 },
+  },
+  confidence: 0.75,
+  confidenceLevel: 'high',
+  sampleSize: 30,
+};
+
+const SERVER_ZONE = {
+  zone_id: 7,
+  zone_name: 'العليا',
+  zone_score: 100,
+  explanation,
+  total_popularity_score: 900,
+  total_user_ratings: 12000,
+  number_of_same_type_businesses: 0,
+  listing_count: 4,
+  district_name: 'العليا',
+  latitude_center: 24.69,
+  longitude_center: null,
+};
+
+const json = (body: unknown, init: ResponseInit = {}) =>
+  Promise.resolve(new Response(JSON.stringify(body), { status: 200, ...init }));
+
+const offline = () => Promise.reject(new TypeError('Network request failed'));
+
+const fetchMock = () => global.fetch as unknown as jest.Mock;
+
+beforeAll(() => setLogLevel('silent'));
+
+describe('fetchZoneRecommendations', () => {
+  it('asks the backend and maps its zones', async () => {
+    global.fetch = jest.fn(() => json({ success: true, recommendations: [SERVER_ZONE] })) as unknown as typeof fetch;
+
+    const [zone] = await fetchZoneRecommendations('barber', 3);
+
+    expect(String(fetchMock().mock.calls[0][0])).toBe('https://api.example.com/api/recommendations/barber?count=3');
+    expect(zone).toMatchObject({ zone_id: 7, zone_score: 100, listing_count: 4, district_name: 'العليا' });
+    expect(zone.longitude_center).toBeUndefined();
+    expect(zone.explanation.confidenceLevel).toBe('high');
+  });
+
+  it('revalidates with the ETag and reuses the zones on 304', async () => {
+    global.fetch = jest.fn(() =>
+      json({ success: true, recommendations: [SERVER_ZONE] }, { headers: { ETag: '"abc"' } })
+    ) as unknown as typeof fetch;
+    await fetchZoneRecommendations('gym', 5);
+
+    global.fetch = jest.fn(() => Promise.resolve(new Response(null, { status: 304 }))) as unknown as typeof fetch;
+    const zones = await fetchZoneRecommendations('gym', 5);
+
+    expect(fetchMock().mock.calls[0][1].headers['If-None-Match']).toBe('"abc"');
+    expect(zones.map(zone => zone.zone_id)).toEqual([7]);
+  });
+
+  it('keeps the last backend answer when it goes offline', async () => {
+    global.fetch = jest.fn(() => json({ success: true, recommendations: [SERVER_ZONE] })) as unknown as typeof fetch;
+    await fetchZoneRecommendations('laundry', 5);
+
+    global.fetch = jest.fn(offline) as unknown as typeof fetch;
+    const zones = await fetchZoneRecommendations('laundry', 5);
+
+    expect(zones.map(zone => zone.zone_id)).toEqual([7]);
+    expect(fetchMock()).toHaveBeenCalledTimes(1);
+  });
+
+  it('scores zones on the device when the backend is unreachable', async () => {
+    global.fetch = jest.fn((url: string) => {
+      if (url.startsWith('https://api.example.com')) return offline();
+      if (url.includes('/business_types')) {
+        return json([{ id: 'pharmacy', label_ar: 'صيدلية', label_en: 'Pharmacy', weight_popularity: 1, weight_ratings: 0, weight_competition: 0 }]);
+      }
+      if (url.includes('/Zones')) {
+        return json([
+          { zone_id: 1, total_popularity_score: 10, total_user_ratings: 5, number_of_businesses: 3 },
+          { zone_id: 2, total_popularity_score: 50, total_user_ratings: 1, number_of_businesses: 40 },
+        ]);
+      }
+      if (url.includes('/Competitors')) return json([{ zone_id: 2, business_type: 'Pharmacy', number_of_same_type_businesses: 2 }]);
+      return json([{ Listing_ID: 1, zone_id: 2 }, { Listing_ID: 2, zone_id: 2 }]);
+    }) as unknown as typeof fetch;
+
+    const zones = await fetchZoneRecommendations('pharmacy', 5);
+
+    expect(zones.map(zone => zone.zone_id)).toEqual([2, 1]);
+    expect(zones[0]).toMatchObject({ zone_score: 100, listing_count: 2, number_of_same_type_businesses: 2 });
+  });
+
+  it('sends custom weights, budget and anchor to the backend', async () => {
+    global.fetch = jest.fn(() => json({ success: true, recommendations: [SERVER_ZONE] })) as unknown as typeof fetch;
+
+    await fetchZoneRecommendations('bakery', 5, {
+      weights: { popularity: 0.5, rent: 0.5 },
+      budget: 60000,
+      anchor: { latitude: 24.7, longitude: 46.6 },
+    });
+
+    const url = new URL(String(fetchMock().mock.calls[0][0]));
+    expect(url.searchParams.get('weights')).toBe('popularity:0.5,rent:0.5');
+    expect(url.searchParams.get('budget')).toBe('60000');
+    expect(url.searchParams.get('lat')).toBe('24.7');
+    expect(url.searchParams.get('lng')).toBe('46.6');
+  });
+
+  it('scores rent against the budget when scoring on the device', async () => {
+    global.fetch = jest.fn((url: string) => {
+      if (url.startsWith('https://api.example.com')) return offline();
+      if (url.includes('/business_types')) {
+        return json([{ id: 'florist', label_ar: 'محل ورد', label_en: 'Florist', weight_popularity: 1, weight_ratings: 0, weight_competition: 0 }]);
+      }
+      if (url.includes('/Zones')) {
+        return json([
+          { zone_id: 1, total_popularity_score: 10, total_user_ratings: 5, number_of_businesses: 3 },
+          { zone_id: 2, total_popularity_score: 50, total_user_ratings: 1, number_of_businesses: 40 },
+        ]);
+      }
+      if (url.includes('/Competitors')) return json([]);
+      return json([{ Listing_ID: 1, zone_id: 1, Price: 40000 }, { Listing_ID: 2, zone_id: 2, Price: 200000 }]);
+    }) as unknown as typeof fetch;
+
+    const zones = await fetchZoneRecommendations('florist', 5, { weights: { rent: 1 }, budget: 50000 });
+
+    expect(zones.map(zone => zone.zone_id)).toEqual([1, 2]);
+    expect(zones[0].explanation.factors.rent).toMatchObject({ raw: 40000, normalized: 1, weight: 1 });
+  });
+
+  it('counts complementary businesses on the device when the type weighs them', async () => {
+    invalidateBusinessTypes();
+    global.fetch = jest.fn((url: string) => {
+      if (url.startsWith('https://api.example.com')) return offline();
+      if (url.includes('/business_types')) {
+        return json([{
+          id: 'cafe', label_ar: 'مقهى', label_en: 'Cafe',
+          weight_popularity: 0, weight_ratings: 0, weight_competition: 0,
+          factor_weights: { complementary: 1 }, complements: ['supermarket'],
+        }]);
+      }
+      if (url.includes('/Zones')) {
+        return json([
+          { zone_id: 1, total_popularity_score: 50, total_user_ratings: 5, number_of_businesses: 3 },
+          { zone_id: 2, total_popularity_score: 10, total_user_ratings: 1, number_of_businesses: 4 },
+        ]);
+      }
+      if (url.includes('/Competitors')) return json([]);
+      if (url.includes('/Businesses')) {
+        return json([
+          { business_id: 1, zone_id: 2, business_type: 'supermarket' },
+          { business_id: 2, zone_id: 2, business_type: 'Supermarket' },
+          { business_id: 3, zone_id: 1, business_type: 'cafe' },
+        ]);
+      }
+      return json([]);
+    }) as unknown as typeof fetch;
+
+    const zones = await fetchZoneRecommendations('cafe', 5);
+
+    expect(zones.map(zone => zone.zone_id)).toEqual([2, 1]);
+    expect(zones[0].explanation.factors.complementary).toMatchObject({ raw: 2, weight: 1 });
+  });
+
+  it('rejects when the backend answers with an error', async () => {
+    global.fetch = jest.fn(() => json({ success: false, error: 'boom' }, { status: 500 })) as unknown as typeof fetch;
+
+    await expect(fetchZoneRecommendations('supermarket', 5)).rejects.toThrow('boom');
+  });
+
+  it('returns nothing without a business type', async () => {
+    global.fetch = jest.fn() as unknown as typeof fetch;
+
+    await expect(fetchZoneRecommendations('none')).resolves.toEqual([]);
+    expect(fetchMock()).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Zone Scoring Test Suite
+ *
+ * Tests normalization, weighting, explanations and confidence of the
+ * zone scoring model against a small set of fixture zones, and that the
+ * backend's copy of the model scores the same fixtures identically.
+ */
+
+import {
+  scoreZones,
+  normalizeMinMax,
+  normalizeZScore,
+  normalizeWeights,
+  confidenceFor,
+  ZoneFactorInput,
+  SCORING_FACTORS,
+  FACTOR_DEFINITIONS,
+} from '../../src/utils/zoneScoring';
+
+// The backend scores zones with its own CommonJS copy of the model
+const backendScoring = require('../../backend/utils/zoneScoring');
+
+// Olaya: busy and well rated but crowded; Malqa: quieter with no competitors;
+// Rawdah: average everywhere; Aqiq: little data
+const ZONES: ZoneFactorInput[] = [
+  { zone_id: 1, popularity: 900, ratings: 12000, competitors: 14, sampleSize: 60 },
+  { zone_id: 2, popularity: 600, ratings: 4000, competitors: 0, sampleSize: 25 },
+  { zone_id: 3, popularity: 500, ratings: 6000, competitors: 7, sampleSize: 30 },
+  { zone_id: 4, popularity: 100, ratings: 200, competitors: 1, sampleSize: 2 },
+];
+
+const BARBER = { popularity: 0.4, ratings: 0.2, competition: 0.4 };
+
+const byId = (zones: ReturnType<typeof scoreZones>) => new Map(zones.map(zone => [zone.zone_id, zone]));
+
+describe('normalization', () => {
+  it('rescales to 0-1 with min-max', () => {
+    expect(normalizeMinMax([10, 20, 30])).toEqual([0, 0.5, 1]);
+  });
+
+  it('maps z-scores to 0-1 around 0.5', () => {
+    const [low, mid, high] = normalizeZScore([10, 20, 30]);
+
+    expect(mid).toBeCloseTo(0.5);
+    expect(low).toBeLessThan(0.5);
+    expect(high).toBeGreaterThan(0.5);
+    expect(low + high).toBeCloseTo(1);
+  });
+
+  it('gives every zone the neutral value when a factor does not vary', () => {
+    expect(normalizeMinMax([5, 5, 5])).toEqual([0.5, 0.5, 0.5]);
+    expect(normalizeZScore([5, 5])).toEqual([0.5, 0.5]);
+  });
+
+  it('scales weights to sum to 1', () => {
+    expect(normalizeWeights({ popularity: 1, ratings: 1, competition: 2 })).toEqual({
+      popularity: 0.25,
+      ratings: 0.25,
+      competition: 0.5,
+      rent: 0,
+      pricePerSqm: 0,
+      complementary: 0,
+      distance: 0,
+    });
+    expect(normalizeWeights({ popularity: 0, ratings: 0, competition: 0 }).ratings).toBeCloseTo(1 / 3);
+    expect(normalizeWeights({}).rent).toBe(0);
+  });
+});
+
+describe('scoreZones', () => {
+  it('ranks zones best first on a 0-100 scale', () => {
+    const scored = scoreZones(ZONES, BARBER);
+
+    expect(scored.map(zone => zone.zone_id)).toEqual([2, 1, 3, 4]);
+    scored.forEach(zone => {
+      expect(zone.score).toBeGreaterThanOrEqual(0);
+      expect(zone.score).toBeLessThanOrEqual(100);
+    });
+  });
+
+  it('does not let the largest raw column dominate', () => {
+    // Ratings are in the thousands, competitors in single digits; with equal weights a zone
+    // that is best on two of three factors must win
+    const zones: ZoneFactorInput[] = [
+      { zone_id: 1, popularity: 10, ratings: 9000, competitors: 9, sampleSize: 20 },
+      { zone_id: 2, popularity: 20, ratings: 8000, competitors: 1, sampleSize: 20 },
+    ];
+
+    expect(scoreZones(zones, { popularity: 1, ratings: 1, competition: 1 })[0].zone_id).toBe(2);
+  });
+
+  it('explains each factor with its normalized value and weighted contribution', () => {
+    const olaya = byId(scoreZones(ZONES, BARBER)).get(1)!;
+    const { popularity, ratings, competition } = olaya.explanation.factors;
+
+    expect(popularity).toEqual({ raw: 900, normalized: 1, weight: 0.4, contribution: 40 });
+    expect(ratings).toEqual({ raw: 12000, normalized: 1, weight: 0.2, contribution: 20 });
+    // Most competitors of all zones, so competition adds nothing
+    expect(competition).toEqual({ raw: 14, normalized: 0, weight: 0.4, contribution: 0 });
+    expect(olaya.score).toBeCloseTo(popularity.contribution + ratings.contribution + competition.contribution);
+  });
+
+  it('reports confidence from the sample size', () => {
+    const zones = byId(scoreZones(ZONES, BARBER));
+
+    expect(zones.get(1)!.explanation.confidenceLevel).toBe('high');
+    expect(zones.get(4)!.explanation.confidenceLevel).toBe('low');
+    expect(confidenceFor(10).confidence).toBeCloseTo(0.5);
+    expect(confidenceFor(0)).toEqual({ confidence: 0, confidenceLevel: 'low' });
+  });
+
+  it('breaks score ties by confidence', () => {
+    const zones: ZoneFactorInput[] = [
+      { zone_id: 1, popularity: 5, ratings: 5, competitors: 1, sampleSize: 1 },
+      { zone_id: 2, popularity: 5, ratings: 5, competitors: 1, sampleSize: 50 },
+    ];
+
+    expect(scoreZones(zones, BARBER).map(zone => zone.zone_id)).toEqual([2, 1]);
+  });
+
+  it('supports z-score normalization and empty input', () => {
+    expect(scoreZones(ZONES, BARBER, { normalization: 'zScore' })[0].zone_id).toBe(2);
+    expect(scoreZones([], BARBER)).toEqual([]);
+  });
+});
+
+describe('rent and distance', () => {
+  const zones: ZoneFactorInput[] = [
+    { zone_id: 1, popularity: 1, ratings: 1, competitors: 0, sampleSize: 10, rent: 120000, distanceKm: 9 },
+    { zone_id: 2, popularity: 1, ratings: 1, competitors: 0, sampleSize: 10, rent: 60000, distanceKm: 1 },
+    { zone_id: 3, popularity: 1, ratings: 1, competitors: 0, sampleSize: 10, rent: null, distanceKm: null },
+  ];
+
+  it('do not count without a weight', () => {
+    const scored = scoreZones(zones, BARBER);
+
+    expect(new Set(scored.map(zone => zone.score)).size).toBe(1);
+    expect(scored[0].explanation.factors.rent.contribution).toBe(0);
+  });
+
+  it('prefer cheaper and closer zones and treat unknown values as neutral', () => {
+    const rent = byId(scoreZones(zones, { rent: 1 }));
+    const distance = byId(scoreZones(zones, { distance: 1 }));
+
+    expect(rent.get(2)!.score).toBe(100);
+    expect(rent.get(1)!.score).toBe(0);
+    expect(rent.get(3)!.explanation.factors.rent).toMatchObject({ raw: null, normalized: 0.5 });
+    expect(distance.get(2)!.score).toBe(100);
+    expect(distance.get(3)!.score).toBe(50);
+  });
+
+  it('score rent against a budget when one is given', () => {
+    const scored = byId(scoreZones(zones, { rent: 1 }, { budget: 80000 }));
+
+    expect(scored.get(2)!.explanation.factors.rent.normalized).toBe(1);
+    expect(scored.get(1)!.explanation.factors.rent.normalized).toBeCloseTo(0.5);
+  });
+});
+
+describe('site selection factors', () => {
+  const zones: ZoneFactorInput[] = [
+    { zone_id: 1, popularity: 1, ratings: 1, competitors: 0, sampleSize: 10, pricePerSqm: 900, complementary: 0 },
+    { zone_id: 2, popularity: 1, ratings: 1, competitors: 0, sampleSize: 10, pricePerSqm: 300, complementary: 6 },
+  ];
+
+  it('prefer zones with cheaper floor space and more complementary businesses', () => {
+    const price = byId(scoreZones(zones, { pricePerSqm: 1 }));
+    const complements = byId(scoreZones(zones, { complementary: 1 }));
+
+    expect(price.get(2)!.score).toBe(100);
+    expect(price.get(1)!.explanation.factors.pricePerSqm).toMatchObject({ raw: 900, normalized: 0 });
+    expect(complements.get(2)!.score).toBe(100);
+    expect(complements.get(1)!.score).toBe(0);
+  });
+
+  it('share the weight of a factor no zone has data for among the others', () => {
+    const scored = scoreZones(zones, { complementary: 1, distance: 1 });
+
+    expect(scored[0].explanation.factors.distance.weight).toBe(0);
+    expect(scored[0].explanation.factors.complementary.weight).toBe(1);
+    expect(scored.map(zone => zone.score)).toEqual([100, 0]);
+  });
+
+  it('are listed with how to read them and which direction is better', () => {
+    expect(SCORING_FACTORS).toEqual(Object.keys(FACTOR_DEFINITIONS));
+    expect(FACTOR_DEFINITIONS.pricePerSqm.lowerIsBetter).toBe(true);
+    expect(FACTOR_DEFINITIONS.complementary.lowerIsBetter).toBe(false);
+    expect(FACTOR_DEFINITIONS.complementary.value({ ...zones[0], complementary: undefined })).toBeNull();
+  });
+});
+
+describe('backend copy', () => {
+  const MIXED: ZoneFactorInput[] = [
+    { zone_id: 1, popularity: 900, ratings: 12000, competitors: 14, sampleSize: 60, rent: 150000, pricePerSqm: 1200, complementary: 3, distanceKm: 4.2 },
+    { zone_id: 2, popularity: 600, ratings: 4000, competitors: 0, sampleSize: 25, rent: 70000, pricePerSqm: null, complementary: 9, distanceKm: 0.8 },
+    { zone_id: 3, popularity: 500, ratings: 6000, competitors: 7, sampleSize: 30, rent: null, pricePerSqm: 600, complementary: null, distanceKm: null },
+    { zone_id: 4, popularity: 100, ratings: 200, competitors: 1, sampleSize: 2, rent: 90000, pricePerSqm: 450, complementary: 0, distanceKm: 12 },
+  ];
+
+  const ALL_FACTORS = { popularity: 0.3, ratings: 0.1, competition: 0.2, rent: 0.15, pricePerSqm: 0.1, complementary: 0.1, distance: 0.05 };
+
+  const CASES: [string, ZoneFactorInput[], Record<string, number>, { budget?: number | null }][] = [
+    ['base factors', ZONES, BARBER, {}],
+    ['every factor with missing values', MIXED, ALL_FACTORS, {}],
+    ['rent against a budget', MIXED, ALL_FACTORS, { budget: 80000 }],
+    ['no weights', MIXED, {}, {}],
+    ['negative and unknown weights', MIXED, { popularity: -1, ratings: 2, unknown: 5 }, {}],
+    ['a factor no zone has data for', ZONES, { popularity: 1, distance: 3 }, {}],
+    ['a single zone', [MIXED[1]], ALL_FACTORS, { budget: 50000 }],
+    ['no zones', [], BARBER, {}],
+  ];
+
+  it('knows the same factors', () => {
+    expect(backendScoring.FACTORS).toEqual(SCORING_FACTORS);
+  });
+
+  it.each(CASES)('gives the same scores and explanations for %s', (_name, zones, weights, options) => {
+    expect(backendScoring.scoreZones(zones, weights, options)).toEqual(scoreZones(zones, weights, options));
+  });
+});
@@ -1,5 +1,5 @@
 import { router } from "expo-router";
-import React, { useState, useRef } from "react";
+import React, { useState, useRef, useEffect, useCallback } from "react";
 import {
   View,
   Text,
@@ -9,37 +9,167 @@ import {
   Platform,
   TextInput as RNTextInput,
   Image,
+  Alert,
+  ActivityIndicator,
+  TouchableOpacity,
 } from "react-native";
+import { useTranslation } from "react-i18next";
+import { useAuth } from "@/src/context/AuthContext";
+import { supabaseApi, PhoneVerificationState } from "@lib/supabase";
+import { createLogger } from "@lib/logger";
+import { getRateLimitMessage } from "@/src/utils/rateLimit";
+
+const log = createLogger("Verification");
+
+const CODE_LENGTH = 6;
+
+const emptyCode = () => Array.from({ length: CODE_LENGTH }, () => "");
+
+// mm:ss for the expiry countdown
+const formatCountdown = (totalSeconds: number): string => {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+const secondsUntil = (isoTime: string | undefined, now: number): number =>
+  isoTime ? Math.max(0, Math.ceil((new Date(isoTime).getTime() - now) / 1000)) : 0;
 
 const verificationScreen: React.FC = () => {
-  const [code, setCode] = useState<string[]>(["", "", "", ""]);
+  const { t } = useTranslation();
+  const { user, refreshUser } = useAuth();
+  const [code, setCode] = useState<string[]>(emptyCode);
+  const [verification, setVerification] = useState<PhoneVerificationState | null>(null);
+  const [now, setNow] = useState<number>(Date.now());
+  const [loading, setLoading] = useState<boolean>(true);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
 
   // Create refs for each TextInput with explicit type annotations
-  const inputRefs = [
-    useRef<RNTextInput>(null),
-    useRef<RNTextInput>(null),
-    useRef<RNTextInput>(null),
-    useRef<RNTextInput>(null),
-  ];
+  const inputRefs = useRef<(RNTextInput | null)[]>([]);
+
+  const expiresIn = secondsUntil(verification?.expires_at, now);
+  const resendIn = secondsUntil(verification?.resend_available_at, now);
+  const attemptsRemaining = verification?.attempts_remaining ?? 0;
+  const canSubmit = !!verification && expiresIn > 0 && attemptsRemaining > 0;
+
+  const finish = useCallback(async () => {
+    await refreshUser();
+    router.replace("/(tabs)/profile");
+  }, [refreshUser]);
+
+  const requestCode = useCallback(async () => {
+    setError(null);
+    const result = await supabaseApi.resendVerificationCode();
+
+    if (result.success) {
+      setVerification(result.verification ?? null);
+      setCode(emptyCode());
+      inputRefs.current[0]?.focus();
+    } else if (result.code === "already_verified") {
+      await finish();
+    } else if (result.code === "resend_cooldown" && result.retryAfter) {
+      // Keep the current code usable and just show when a new one can be requested
+      const availableAt = new Date(Date.now() + result.retryAfter * 1000).toISOString();
+      setVerification(prev => (prev ? { ...prev, resend_available_at: availableAt } : prev));
+      setError(getRateLimitMessage(t, result.code, result.retryAfter));
+    } else {
+      setError(getRateLimitMessage(t, result.code, result.retryAfter) || result.error || t("auth.verificationFailed"));
+    }
+  }, [finish, t]);
+
+  // Pick up a code that is still valid (e.g. sent at sign-up) or request a fresh one
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const status = await supabaseApi.getVerificationStatus();
+
+        if (status.verified) {
+          await finish();
+          return;
+        }
+
+        const pending = status.verification;
+        const usable = pending && secondsUntil(pending.expires_at, Date.now()) > 0 && pending.attempts_remaining > 0;
+        if (usable) {
+          setVerification(pending);
+        } else {
+          await requestCode();
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    // Without a status there is no code to type into, so say why instead of leaving the boxes disabled
+    load().catch(loadError => {
+      log.error("Error loading status:", loadError);
+      setError(t("auth.verificationFailed"));
+    });
+  }, []);
+
+  // Tick once a second while a countdown is running
+  useEffect(() => {
+    if (expiresIn <= 0 && resendIn <= 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [expiresIn > 0, resendIn > 0]);
+
+  const submitCode = async (value: string) => {
+    try {
+      setSubmitting(true);
+      setError(null);
+
+      const result = await supabaseApi.verifyPhone(value);
+
+      if (result.success) {
+        Alert.alert(t("common.ok"), t("auth.phoneVerified"));
+        await finish();
+        return;
+      }
+
+      if (result.code === "too_many_attempts") {
+        setVerification(prev => (prev ? { ...prev, attempts_remaining: 0 } : prev));
+      } else if (result.attemptsRemaining !== undefined) {
+        setVerification(prev => (prev ? { ...prev, attempts_remaining: result.attemptsRemaining! } : prev));
+      }
+
+      setError(getRateLimitMessage(t, result.code, result.retryAfter) || result.error || t("auth.verificationFailed"));
+      setCode(emptyCode());
+      inputRefs.current[0]?.focus();
+    } finally {
+      setSubmitting(false);
+    }
+  };
 
   const handleChange = (value: string, index: number): void => {
+    const digit = value.replace(/\D/g, "").slice(-1);
     const newCode = [...code];
-    newCode[index] = value;
+    newCode[index] = digit;
     setCode(newCode);
 
     // Automatically focus the next field if a value is entered.
-    if (value !== "" && index < inputRefs.length - 1) {
-      inputRefs[index + 1].current?.focus();
+    if (digit !== "" && index < CODE_LENGTH - 1) {
+      inputRefs.current[index + 1]?.focus();
     }
 
-    // Once all four digits are entered, log the concatenated code.
-    if (newCode.every((digit) => digit !== "")) {
-      console.log("The user entered:", newCode.join(""));
-      // Add further logic here (e.g., API call or navigation)
-      router.replace("/sign-up");
+    // Once all six digits are entered, submit the code.
+    if (newCode.every((d) => d !== "") && canSubmit && !submitting) {
+      submitCode(newCode.join(""));
     }
   };
 
+  let statusMessage: string | null = null;
+  if (verification) {
+    if (expiresIn <= 0) {
+      statusMessage = t("auth.codeExpired");
+    } else if (attemptsRemaining <= 0) {
+      statusMessage = t("auth.tooManyAttempts");
+    } else {
+      statusMessage = `${t("auth.codeExpiresIn", { time: formatCountdown(expiresIn) })} · ${t("auth.attemptsRemaining", { count: attemptsRemaining })}`;
+    }
+  }
+
   return (
     <KeyboardAvoidingView
       behavior={Platform.OS === "ios" ? "padding" : "height"}
@@ -49,27 +179,55 @@ const verificationScreen: React.FC = () => {
       <View style={styles.logoContainer}>
         <Image
           style={styles.logo}
-          source={
-            require("../../assets/images/logo.png") // Dummy logo URI
-          }
+          source={require("../../assets/images/logo.png")}
           resizeMode="contain"
         />
       </View>
 
-      {/* Four numeric input fields */}
-      <View style={styles.codeContainer}>
-        {code.map((digit, index) => (
-          <TextInput
-            key={index}
-            ref={inputRefs[index]}
-            value={digit}
-            onChangeText={(val: string) => handleChange(val, index)}
-            keyboardType="number-pad"
-            maxLength={1}
-            style={styles.codeBox}
-          />
-        ))}
-      </View>
+      <Text style={styles.title}>{t("auth.verifyPhoneTitle")}</Text>
+      <Text style={styles.description}>
+        {t("auth.verifyPhoneDescription", { phone: user?.phone || "" })}
+      </Text>
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#F5A623" />
+      ) : (
+        <>
+          {/* Six numeric input fields */}
+          <View style={styles.codeContainer}>
+            {code.map((digit, index) => (
+              <TextInput
+                key={index}
+                ref={(ref) => { inputRefs.current[index] = ref; }}
+                value={digit}
+                onChangeText={(val: string) => handleChange(val, index)}
+                keyboardType="number-pad"
+                maxLength={1}
+                editable={canSubmit && !submitting}
+                style={[styles.codeBox, !canSubmit && styles.codeBoxDisabled]}
+              />
+            ))}
+          </View>
+
+          {submitting ? <ActivityIndicator color="#F5A623" style={styles.spacer} /> : null}
+          {statusMessage ? <Text style={styles.statusText}>{statusMessage}</Text> : null}
+          {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+          <TouchableOpacity
+            onPress={requestCode}
+            disabled={resendIn > 0 || submitting}
+            style={styles.spacer}
+          >
+            <Text style={[styles.linkText, resendIn > 0 && styles.linkTextDisabled]}>
+              {resendIn > 0 ? t("auth.resendIn", { seconds: resendIn }) : t("auth.resendCode")}
+            </Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity onPress={() => router.replace("/(tabs)/profile")} style={styles.spacer}>
+            <Text style={styles.skipText}>{t("auth.skipForNow")}</Text>
+          </TouchableOpacity>
+        </>
+      )}
     </KeyboardAvoidingView>
   );
 };
@@ -82,28 +240,72 @@ const styles = StyleSheet.create({
     backgroundColor: "#FFFFFF",
     //justifyContent: "center",
     alignItems: "center",
+    paddingHorizontal: 16,
   },
   logoContainer: {
     alignItems: "center",
     justifyContent: "center",
   },
+  title: {
+    fontSize: 22,
+    fontWeight: "700",
+    color: "#333",
+    marginBottom: 8,
+  },
+  description: {
+    fontSize: 14,
+    color: "#666",
+    textAlign: "center",
+    marginBottom: 24,
+  },
   codeContainer: {
     flexDirection: "row",
     justifyContent: "space-between",
   },
   codeBox: {
-    width: 60,
-    height: 60,
-    marginHorizontal: 8,
+    width: 46,
+    height: 56,
+    marginHorizontal: 5,
     borderWidth: 1,
     borderColor: "#F5A623",
     backgroundColor: "#F5F5F5",
     textAlign: "center",
     fontSize: 24,
-    borderRadius: 15,
+    borderRadius: 12,
+  },
+  codeBoxDisabled: {
+    borderColor: "#DDD",
+    opacity: 0.6,
+  },
+  statusText: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 16,
+    textAlign: "center",
+  },
+  errorText: {
+    fontSize: 13,
+    color: "#D32F2F",
+    marginTop: 8,
+    textAlign: "center",
+  },
+  linkText: {
+    fontSize: 15,
+    color: "#F5A623",
+    fontWeight: "600",
+  },
+  linkTextDisabled: {
+    color: "#AAA",
+  },
+  skipText: {
+    fontSize: 14,
+    color: "#888",
+  },
+  spacer: {
+    marginTop: 16,
   },
   logo: {
-    height: 400,
-    marginBottom: -90,
+    height: 300,
+    marginBottom: -70,
   },
 });
@@ -18,6 +18,10 @@ const AuthLayout = () => {
           name="sign-up"
           options={{ headerShown: false, presentation: "modal" }}
         />
+        <Stack.Screen
+          name="forgot-password"
+          options={{ headerShown: false, presentation: "modal" }}
+        />
       </Stack>
       <StatusBar backgroundColor="#F6F4F0" style="dark" />
     </>
@@ -0,0 +1,182 @@
+import { router } from "expo-router";
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  SafeAreaView,
+} from "react-native";
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '@/src/context/AuthContext';
+import { getRateLimitMessage } from '@/src/utils/rateLimit';
+import { useThemedStyles } from '../../src/context/ThemeContext';
+import { Button, TextInput } from '../../components/design-system';
+import { spacing, typography, colors } from '../../constants/design-tokens';
+
+const ForgotPasswordScreen = () => {
+  const { t } = useTranslation();
+  const [email, setEmail] = useState<string>("");
+  const [code, setCode] = useState<string>("");
+  const [newPassword, setNewPassword] = useState<string>("");
+  const [codeSent, setCodeSent] = useState<boolean>(false);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const { requestPasswordReset, resetPassword } = useAuth();
+
+  const handleSendCode = async () => {
+    if (!email.trim() || !email.includes('@')) {
+      Alert.alert(t('common.error'), t('auth.emailRequired'));
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const result = await requestPasswordReset(email.trim());
+
+      if (result.success) {
+        setCodeSent(true);
+        Alert.alert(t('auth.verificationCode'), t('auth.resetCodeSent'));
+      } else {
+        setError(getRateLimitMessage(t, result.code, result.retryAfter) || result.error || t('common.error'));
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResetPassword = async () => {
+    if (!code.trim()) {
+      Alert.alert(t('common.error'), t('auth.verificationCode'));
+      return;
+    }
+    if (!newPassword || newPassword.length < 6) {
+      Alert.alert(t('common.error'), t('auth.passwordTooShort'));
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const result = await resetPassword(email.trim(), code.trim(), newPassword);
+
+      if (result.success) {
+        Alert.alert(t('auth.resetPasswordTitle'), t('auth.passwordResetSuccess'));
+        router.replace("/sign-in");
+      } else {
+        setError(getRateLimitMessage(t, result.code, result.retryAfter) || result.error || t('auth.verificationFailed'));
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const styles = useThemedStyles((theme) =>
+    StyleSheet.create({
+      safeArea: {
+        flex: 1,
+        backgroundColor: theme.background.primary,
+      },
+      container: {
+        flex: 1,
+        paddingHorizontal: spacing[4],
+        paddingTop: spacing[12],
+        alignItems: 'center',
+      },
+      title: {
+        ...typography.heading.h1,
+        color: theme.text.primary,
+        marginBottom: spacing[3],
+        textAlign: 'center',
+      },
+      description: {
+        ...typography.body.medium,
+        color: theme.text.secondary,
+        marginBottom: spacing[6],
+        textAlign: 'center',
+      },
+      inputContainer: {
+        width: '100%',
+        marginBottom: spacing[4],
+      },
+      errorText: {
+        ...typography.body.small,
+        color: colors.error[500],
+        marginBottom: spacing[4],
+        textAlign: 'center',
+      },
+    })
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <Text style={styles.title}>{t('auth.resetPasswordTitle')}</Text>
+        <Text style={styles.description}>{t('auth.resetPasswordDescription')}</Text>
+
+        <View style={styles.inputContainer}>
+          <TextInput
+            label={t('auth.email')}
+            keyboardType="email-address"
+            value={email}
+            onChangeText={setEmail}
+            autoCapitalize="none"
+            editable={!codeSent}
+            containerStyle={{ marginBottom: spacing[3] }}
+          />
+
+          {codeSent ? (
+            <>
+              <TextInput
+                label={t('auth.verificationCode')}
+                keyboardType="number-pad"
+                maxLength={6}
+                value={code}
+                onChangeText={setCode}
+                containerStyle={{ marginBottom: spacing[3] }}
+              />
+              <TextInput
+                label={t('auth.newPassword')}
+                secureTextEntry
+                value={newPassword}
+                onChangeText={setNewPassword}
+              />
+            </>
+          ) : null}
+        </View>
+
+        {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+        <Button
+          variant="primary"
+          size="large"
+          onPress={codeSent ? handleResetPassword : handleSendCode}
+          loading={loading}
+          style={{ width: '100%', marginBottom: spacing[4] }}
+        >
+          {codeSent ? t('auth.resetPassword') : t('auth.sendCode')}
+        </Button>
+
+        {codeSent ? (
+          <Button variant="ghost" size="small" onPress={handleSendCode} disabled={loading}>
+            {t('auth.resendCode')}
+          </Button>
+        ) : null}
+
+        <Button variant="ghost" size="medium" onPress={() => router.replace("/sign-in")}>
+          {t('auth.backToSignIn')}
+        </Button>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+export default ForgotPasswordScreen;
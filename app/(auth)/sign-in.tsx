@@ -11,12 +11,15 @@ import {
   ScrollView,
   SafeAreaView,
 } from "react-native";
+import { useTranslation } from 'react-i18next';
 import { useAuth } from '@/src/context/AuthContext';
+import { getRateLimitMessage } from '@/src/utils/rateLimit';
 import { useTheme, useThemedStyles } from '../../src/context/ThemeContext';
 import { Button, TextInput, Card } from '../../components/design-system';
 import { spacing, typography, colors } from '../../constants/design-tokens';
 
 const SignInScreen = () => {
+  const { t } = useTranslation();
   const [email, setEmail] = useState<string>("");
   const [password, setPassword] = useState<string>("");
   const [showPassword, setShowPassword] = useState<boolean>(false);
@@ -48,23 +51,14 @@ const SignInScreen = () => {
 
       if (result.success) {
         console.log("Sign in successful!");
-
-        // Check if this is a legacy user (without password verification)
-        if (result.isLegacyUser) {
-          // Show a security notification
-          Alert.alert(
-            "Security Notice",
-            "For your security, we recommend you update your password in the next version of the app.",
-            [{ text: "OK", onPress: () => router.replace("/(tabs)/home") }]
-          );
-        } else {
-          // Standard successful login
-          router.replace("/(tabs)/home"); // Redirect to home screen
-        }
+        router.replace("/(tabs)/home"); // Redirect to home screen
       } else {
-        // Handle error
-        setError(result.error || "Invalid email or password. Please try again.");
-        Alert.alert("Error", result.error || "Invalid email or password");
+        // Handle error; lockouts and rate limits come back with a wait time to show
+        const message = getRateLimitMessage(t, result.code, result.retryAfter)
+          || result.error
+          || "Invalid email or password. Please try again.";
+        setError(message);
+        Alert.alert("Error", message);
       }
     } catch (e: any) {
       console.error("Sign in error:", e);
@@ -228,7 +222,7 @@ const SignInScreen = () => {
         <Button
           variant="ghost"
           size="small"
-          onPress={() => Alert.alert('Info', 'Forgot password functionality coming soon!')}
+          onPress={() => router.push("/forgot-password")}
           style={styles.forgotPasswordLink}
         >
           Forgot Password?
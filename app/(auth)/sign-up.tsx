@@ -111,8 +111,8 @@ const SignUpScreen = () => {
 
       if (result.success) {
         console.log("Signup successful!");
-        // Navigate to main app
-        router.replace("/(tabs)/profile");
+        // The backend has texted a code to the new number; confirm it before continuing
+        router.replace("/Verification");
       } else {
         // Handle error
         setError(result.error || "Failed to create account. Please try again.");
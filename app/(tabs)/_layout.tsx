@@ -3,6 +3,7 @@ import React, { useState } from "react";
 import { Tabs, Stack } from "expo-router";
 import { useTranslation } from 'react-i18next';
 import { icons } from "../../constants";
+import { useChat } from "../../src/context/ChatContext";
 
 interface TabIconProps {
   icon: any; // The source of the icon (e.g., from require() or a URI)
@@ -44,6 +45,7 @@ const TabIcon: React.FC<TabIconProps> = ({ icon, color, name, focused }) => {
 
 const TabsLayout = () => {
   const { t } = useTranslation();
+  const { unreadCount } = useChat();
 
   return (
     <Tabs
@@ -90,7 +92,7 @@ const TabsLayout = () => {
           ),
         }}
       />
-      {/* <Tabs.Screen
+      <Tabs.Screen
         name="map"
         options={{
           title: "Map",
@@ -104,8 +106,8 @@ const TabsLayout = () => {
             />
           ),
         }}
-      /> */}
-      {/* <Tabs.Screen
+      />
+      <Tabs.Screen
         name="recommendation"
         options={{
           title: "Recommendation",
@@ -114,17 +116,18 @@ const TabsLayout = () => {
             <TabIcon
               icon={icons.idea}
               color={color}
-              name={"Best Locations"}
+              name={"Recommendation"}
               focused={focused}
             />
           ),
         }}
-      /> */}
-      {/* <Tabs.Screen
+      />
+      <Tabs.Screen
         name="chat"
         options={{
           title: "Chat",
           headerShown: false,
+          tabBarBadge: unreadCount > 0 ? unreadCount : undefined,
           tabBarIcon: ({ color, focused }) => (
             <TabIcon
               icon={icons.chat}
@@ -134,7 +137,7 @@ const TabsLayout = () => {
             />
           ),
         }}
-      /> */}
+      />
       <Tabs.Screen
         name="profile"
         options={{
@@ -0,0 +1,174 @@
+// chat.tsx - Conversations between entrepreneurs and listing owners, newest first
+import React, { FC, useState, useCallback } from "react";
+import {
+  View,
+  SafeAreaView,
+  StyleSheet,
+  FlatList,
+  Image,
+  Text,
+  RefreshControl,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { useTranslation } from "react-i18next";
+import { useRouter, useFocusEffect } from "expo-router";
+
+import { useChat } from "@context/ChatContext";
+import { useAuth } from "@context/AuthContext";
+import { useTheme } from "@context/ThemeContext";
+import { useRTL } from "@hooks/useRTL";
+import { Conversation } from "@lib/supabase";
+import { Button } from "@components/design-system/Button";
+import { spacing, typography } from "../../constants/design-tokens";
+
+const ChatTab: FC = () => {
+  const { t, i18n } = useTranslation();
+  const router = useRouter();
+  const { theme } = useTheme();
+  const { textAlign, flexDirection } = useRTL();
+  const { user } = useAuth();
+  const { available, conversations, loading, refreshConversations } = useChat();
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Catch up on anything missed while the tab was in the background
+  useFocusEffect(
+    useCallback(() => {
+      refreshConversations();
+    }, [refreshConversations])
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await refreshConversations();
+    setRefreshing(false);
+  };
+
+  // Today's messages show the time, older ones the date
+  const formatWhen = (value: string | null) => {
+    if (!value) return "";
+    const date = new Date(value);
+    return date.toDateString() === new Date().toDateString()
+      ? date.toLocaleTimeString(i18n.language, { hour: "2-digit", minute: "2-digit" })
+      : date.toLocaleDateString(i18n.language);
+  };
+
+  const renderConversation = ({ item }: { item: Conversation }) => {
+    const preview = item.lastMessage
+      ? item.lastSenderRole === user?.role
+        ? t("chat.youPrefix", { message: item.lastMessage })
+        : item.lastMessage
+      : t("chat.noMessages");
+
+    return (
+      <TouchableOpacity
+        style={[styles.row, { flexDirection: flexDirection("row"), borderBottomColor: theme.border.primary }]}
+        onPress={() =>
+          router.push({ pathname: "/chatScreen", params: { conversationId: String(item.id), name: item.otherName } })
+        }
+      >
+        <Image source={{ uri: item.listingImage }} style={styles.cover} />
+        <View style={styles.body}>
+          <View style={[styles.line, { flexDirection: flexDirection("row") }]}>
+            <Text style={[styles.name, { color: theme.text.primary, textAlign: textAlign("right") }]} numberOfLines={1}>
+              {item.otherName || t(`chat.roles.${item.otherRole}`)}
+            </Text>
+            <Text style={[styles.time, { color: theme.text.secondary }]}>{formatWhen(item.lastMessageAt)}</Text>
+          </View>
+          <Text style={[styles.listing, { color: theme.text.secondary, textAlign: textAlign("right") }]} numberOfLines={1}>
+            {item.listingTitle}
+          </Text>
+          <View style={[styles.line, { flexDirection: flexDirection("row") }]}>
+            <Text
+              style={[
+                styles.preview,
+                { color: item.unread > 0 ? theme.text.primary : theme.text.secondary, textAlign: textAlign("right") },
+                item.unread > 0 && styles.previewUnread,
+              ]}
+              numberOfLines={1}
+            >
+              {preview}
+            </Text>
+            {item.unread > 0 && (
+              <View style={[styles.badge, { backgroundColor: theme.brand.primary }]}>
+                <Text style={styles.badgeText}>{item.unread > 99 ? "99+" : item.unread}</Text>
+              </View>
+            )}
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background.primary }]}>
+      <Text style={[styles.title, { color: theme.text.primary, textAlign: textAlign("right") }]}>
+        {t("chat.title")}
+      </Text>
+
+      {!available ? (
+        <View style={styles.empty}>
+          <Text style={[styles.emptyText, { color: theme.text.secondary }]}>{t("chat.signInRequired")}</Text>
+          <Button onPress={() => router.push("/sign-in")}>{t("chat.signIn")}</Button>
+        </View>
+      ) : (
+        <FlatList
+          data={conversations}
+          keyExtractor={item => String(item.id)}
+          renderItem={renderConversation}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+          ListEmptyComponent={
+            loading ? (
+              <ActivityIndicator style={{ margin: 40 }} color={theme.brand.primary} />
+            ) : (
+              <View style={styles.empty}>
+                <Text style={[styles.emptyText, { color: theme.text.secondary }]}>{t("chat.empty")}</Text>
+              </View>
+            )
+          }
+          contentContainerStyle={{ paddingBottom: spacing[6] }}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  title: {
+    fontSize: typography.heading.h3.fontSize,
+    fontWeight: "600",
+    paddingTop: 60,
+    paddingHorizontal: 24,
+    paddingBottom: 12,
+  },
+  row: {
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: 12,
+  },
+  cover: { width: 56, height: 56, borderRadius: 8, backgroundColor: "#E5E7EB" },
+  body: { flex: 1, gap: 2 },
+  line: { alignItems: "center", gap: 8 },
+  name: { flex: 1, fontSize: typography.body.medium.fontSize, fontWeight: "600" },
+  time: { fontSize: typography.body.small.fontSize },
+  listing: { fontSize: typography.body.small.fontSize },
+  preview: { flex: 1, fontSize: typography.body.small.fontSize },
+  previewUnread: { fontWeight: "600" },
+  badge: {
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 6,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  badgeText: { color: "#FFF", fontSize: 11, fontWeight: "700" },
+  empty: { alignItems: "center", padding: 24, gap: 12 },
+  emptyText: { fontSize: typography.body.medium.fontSize, textAlign: "center" },
+});
+
+export default ChatTab;
@@ -13,13 +13,27 @@ import {
   ScrollView,
   Image,
   Text,
+  RefreshControl,
+  TouchableOpacity,
+  Alert,
+  Share,
 } from "react-native";
 import { useTranslation } from 'react-i18next';
+import { useFocusEffect } from "expo-router";
+import * as Linking from "expo-linking";
+import { FontAwesome } from "@expo/vector-icons";
 import SearchBar from "../../components/SearchBar";
 import MarketCard from "../../components/MarketCard";
 import IdeaHeader from "../../components/ideaHeader";
 import { MarketplaceItem, images } from "../../components/types";
+import FavoriteDetailsModal, { STATUS_COLORS } from "../../components/FavoriteDetailsModal";
+import FavoriteCollectionModal from "../../components/FavoriteCollectionModal";
 import { useFavorites } from "../../src/context/FavoritesContext";
+import { useFavoriteCollections } from "../../src/hooks/useFavoriteCollections";
+import { useComparison } from "../../src/context/ComparisonContext";
+import { MAX_COMPARED } from "../../src/utils/listingComparison";
+import { FavoriteCollection } from "../../src/lib/supabase";
+import { DEFAULT_ANNOTATION } from "../../src/lib/favoritesSync";
 
 const { width, height } = Dimensions.get("window");
 const HEADER_HEIGHT = 300; // Height reserved for the image slider
@@ -28,22 +42,48 @@ const CARD_TOP_OFFSET = HEADER_HEIGHT; // Card shows a little of the image slide
 const favorite: FC = () => {
   const { t } = useTranslation();
   // Get favorites from context
-  const { favorites } = useFavorites();
+  const { favorites, pendingCount, refreshFavorites, annotations, annotateFavorite } = useFavorites();
+  const collectionsApi = useFavoriteCollections();
+  const { isCompared, toggleCompared } = useComparison();
+  const { collections } = collectionsApi;
   const [searchQuery, setSearchQuery] = useState('');
+  const [refreshing, setRefreshing] = useState(false);
+  const [selectedCollectionId, setSelectedCollectionId] = useState<number | null>(null);
+  // Collection sheet: undefined is closed, null creates a new collection
+  const [editingCollection, setEditingCollection] = useState<FavoriteCollection | null | undefined>(undefined);
+  const [detailsItem, setDetailsItem] = useState<MarketplaceItem | null>(null);
+
+  const selectedCollection = collections.find(collection => collection.id === selectedCollectionId) ?? null;
+
+  // Reload the saved listings whenever the tab is opened, so price changes show up
+  useFocusEffect(
+    useCallback(() => {
+      refreshFavorites();
+    }, [refreshFavorites])
+  );
+
+  const handleRefresh = useCallback(() => {
+    setRefreshing(true);
+    Promise.all([refreshFavorites(), collectionsApi.reload()]).finally(() => setRefreshing(false));
+  }, [refreshFavorites, collectionsApi.reload]);
   
-  // Filter favorites based on search query
+  // Filter favorites by the selected collection and the search query
   const filteredFavorites = useMemo(() => {
+    const inCollection = selectedCollection
+      ? favorites.filter(item => selectedCollection.listingIds.includes(item.id))
+      : favorites;
+
     if (!searchQuery.trim()) {
-      return favorites;
+      return inCollection;
     }
     
     const query = searchQuery.trim().toLowerCase();
-    return favorites.filter(item => {
+    return inCollection.filter(item => {
       const nameMatch = item.businessName?.toLowerCase().includes(query);
       const typeMatch = item.businessType?.toLowerCase().includes(query);
       return nameMatch || typeMatch;
     });
-  }, [favorites, searchQuery]);
+  }, [favorites, searchQuery, selectedCollection]);
   
   // Handle search functionality
   const handleSearch = useCallback((query: string) => {
@@ -55,6 +95,99 @@ const favorite: FC = () => {
     setSearchQuery('');
   }, []);
 
+  const saveCollection = useCallback(async (name: string) => {
+    try {
+      if (editingCollection) {
+        await collectionsApi.rename(editingCollection.id, name);
+      } else {
+        const created = await collectionsApi.create(name);
+        setSelectedCollectionId(created.id);
+      }
+      setEditingCollection(undefined);
+    } catch (error: any) {
+      Alert.alert(t('favoriteCollections.saveError'), error.message);
+    }
+  }, [editingCollection, collectionsApi.rename, collectionsApi.create, t]);
+
+  // Shares a read-only link; the partner opens it in the app without signing in
+  const shareCollection = useCallback(async (collection: FavoriteCollection) => {
+    try {
+      const shared = collection.shareToken ? collection : await collectionsApi.setShared(collection.id, true);
+      const url = Linking.createURL('sharedCollection', { queryParams: { token: shared.shareToken! } });
+      setEditingCollection(shared);
+      await Share.share({ message: t('favoriteCollections.shareMessage', { name: shared.name, url }) });
+    } catch (error: any) {
+      Alert.alert(t('favoriteCollections.shareError'), error.message);
+    }
+  }, [collectionsApi.setShared, t]);
+
+  const stopSharing = useCallback(async (collection: FavoriteCollection) => {
+    try {
+      setEditingCollection(await collectionsApi.setShared(collection.id, false));
+    } catch (error: any) {
+      Alert.alert(t('favoriteCollections.shareError'), error.message);
+    }
+  }, [collectionsApi.setShared, t]);
+
+  const deleteCollection = useCallback((collection: FavoriteCollection) => {
+    Alert.alert(t('favoriteCollections.deleteTitle'), t('favoriteCollections.deleteMessage', { name: collection.name }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await collectionsApi.remove(collection.id);
+            setEditingCollection(undefined);
+            if (selectedCollectionId === collection.id) setSelectedCollectionId(null);
+          } catch (error: any) {
+            Alert.alert(t('favoriteCollections.deleteError'), error.message);
+          }
+        }
+      }
+    ]);
+  }, [collectionsApi.remove, selectedCollectionId, t]);
+
+  const toggleInCollection = useCallback(
+    (collection: FavoriteCollection, included: boolean) =>
+      collectionsApi.setListing(collection.id, detailsItem!.id, included),
+    [collectionsApi.setListing, detailsItem]
+  );
+
+  // Picks the listing for the comparison screen (the tray above the tab bar opens it)
+  const compareFavorite = useCallback((item: MarketplaceItem) => {
+    if (!toggleCompared(item)) {
+      Alert.alert(t('comparison.fullTitle'), t('comparison.fullMessage', { max: MAX_COMPARED }));
+    }
+  }, [toggleCompared, t]);
+
+  const renderFavorite = useCallback(({ item }: { item: MarketplaceItem }) => {
+    const annotation = annotations[item.id] ?? DEFAULT_ANNOTATION;
+    return (
+      <View>
+        <MarketCard item={item} />
+        <TouchableOpacity style={styles.annotationRow} onPress={() => setDetailsItem(item)}>
+          <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[annotation.status] }]}>
+            <Text style={styles.statusBadgeText}>{t(`favoriteCollections.status.${annotation.status}`)}</Text>
+          </View>
+          <Text style={styles.notePreview} numberOfLines={1}>
+            {annotation.note || t('favoriteCollections.addNote')}
+          </Text>
+          <FontAwesome name="pencil" size={14} color="#888" />
+          <TouchableOpacity
+            onPress={() => compareFavorite(item)}
+            style={[styles.compareToggle, isCompared(item.id) && styles.activeChip]}
+          >
+            <FontAwesome name="columns" size={12} color={isCompared(item.id) ? '#fff' : '#555'} />
+            <Text style={[styles.chipText, isCompared(item.id) && styles.activeChipText]}>
+              {t('comparison.compare')}
+            </Text>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </View>
+    );
+  }, [annotations, isCompared, compareFavorite, t]);
+
   return (
     <SafeAreaView style={styles.container}>
       {/* Fixed Search Bar */}
@@ -80,7 +213,53 @@ const favorite: FC = () => {
         contentContainerStyle={styles.scrollViewContent}
         scrollEventThrottle={16}
         showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
       >
+        {/* Collections: tap to filter, long-press to rename, share or delete */}
+        {collectionsApi.available && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.collectionBar}
+          >
+            <TouchableOpacity
+              style={[styles.collectionChip, selectedCollectionId === null && styles.activeChip]}
+              onPress={() => setSelectedCollectionId(null)}
+            >
+              <Text style={[styles.chipText, selectedCollectionId === null && styles.activeChipText]}>
+                {t('favoriteCollections.all')}
+              </Text>
+            </TouchableOpacity>
+            {collections.map(collection => {
+              const active = collection.id === selectedCollectionId;
+              return (
+                <TouchableOpacity
+                  key={collection.id}
+                  style={[styles.collectionChip, active && styles.activeChip]}
+                  onPress={() => setSelectedCollectionId(active ? null : collection.id)}
+                  onLongPress={() => setEditingCollection(collection)}
+                >
+                  {collection.shareToken && (
+                    <FontAwesome name="share-alt" size={11} color={active ? '#fff' : '#1C64F2'} />
+                  )}
+                  <Text style={[styles.chipText, active && styles.activeChipText]}>
+                    {collection.name} ({collection.listingIds.length})
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+            <TouchableOpacity style={styles.collectionChip} onPress={() => setEditingCollection(null)}>
+              <FontAwesome name="plus" size={11} color="#555" />
+              <Text style={styles.chipText}>{t('favoriteCollections.new')}</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        )}
+
+        {pendingCount > 0 && (
+          <Text style={styles.pendingText}>
+            {t('favorites.pendingSync', { count: pendingCount })}
+          </Text>
+        )}
         {favorites.length === 0 ? (
           // Display a message when no favorites are available
           <View style={styles.emptyFavoritesContainer}>
@@ -91,6 +270,11 @@ const favorite: FC = () => {
               {t('favorites.noFavoritesCurrentDescription')}
             </Text>
           </View>
+        ) : filteredFavorites.length === 0 && selectedCollection && !searchQuery.trim() ? (
+          <View style={styles.emptyFavoritesContainer}>
+            <Text style={styles.emptyFavoritesText}>{selectedCollection.name}</Text>
+            <Text style={styles.emptyFavoritesSubText}>{t('favoriteCollections.empty')}</Text>
+          </View>
         ) : filteredFavorites.length === 0 ? (
           // Display a message when no search results
           <View style={styles.emptyFavoritesContainer}>
@@ -105,12 +289,32 @@ const favorite: FC = () => {
           // Display the filtered list of favorites
           <FlatList
             data={filteredFavorites}
-            renderItem={({ item }) => <MarketCard item={item} />}
+            renderItem={renderFavorite}
             keyExtractor={(item) => item.id}
             scrollEnabled={false} // The outer ScrollView manages scrolling
           />
         )}
       </ScrollView>
+
+      <FavoriteDetailsModal
+        item={detailsItem}
+        annotation={detailsItem ? annotations[detailsItem.id] ?? DEFAULT_ANNOTATION : DEFAULT_ANNOTATION}
+        collections={collections}
+        collectionsAvailable={collectionsApi.available}
+        onAnnotate={changes => detailsItem && annotateFavorite(detailsItem.id, changes)}
+        onToggleCollection={toggleInCollection}
+        onClose={() => setDetailsItem(null)}
+      />
+
+      <FavoriteCollectionModal
+        visible={editingCollection !== undefined}
+        collection={editingCollection ?? null}
+        onSave={saveCollection}
+        onShare={shareCollection}
+        onStopSharing={stopSharing}
+        onDelete={deleteCollection}
+        onClose={() => setEditingCollection(undefined)}
+      />
     </SafeAreaView>
   );
 };
@@ -173,6 +377,74 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 10,
   },
+  collectionBar: {
+    flexDirection: 'row-reverse',
+    gap: 8,
+    paddingHorizontal: 10,
+    paddingBottom: 12,
+  },
+  collectionChip: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 6,
+    borderWidth: 1,
+    borderColor: '#D0D0D0',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  activeChip: {
+    backgroundColor: '#fbb507',
+    borderColor: '#fbb507',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#555',
+  },
+  activeChipText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  annotationRow: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 16,
+    marginTop: -6,
+    marginBottom: 14,
+  },
+  compareToggle: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 4,
+    borderWidth: 1,
+    borderColor: '#D0D0D0',
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+  },
+  statusBadge: {
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  statusBadgeText: {
+    fontSize: 11,
+    color: '#fff',
+    fontWeight: '600',
+  },
+  notePreview: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'right',
+  },
+  pendingText: {
+    fontSize: 12,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 10,
+  },
   emptyFavoritesSubText: {
     fontSize: 14,
     color: '#666',
@@ -1,5 +1,5 @@
 // MarketScreen.tsx
-import React, { FC, useState, useEffect, useCallback, useMemo } from "react";
+import React, { FC, useState, useEffect, useCallback, useMemo, useRef } from "react";
 import {
   View,
   SafeAreaView,
@@ -11,6 +11,7 @@ import {
   Dimensions,
 } from "react-native";
 import { useTranslation } from "react-i18next";
+import { useRouter } from "expo-router";
 import Animated, { 
   useAnimatedStyle, 
   useSharedValue, 
@@ -24,28 +25,18 @@ import SearchBar from "@components/SearchBar";
 import MarketCard from "@components/MarketCard";
 import FilterHeader from "@components/FilterHeader";
 import { supabaseApi } from "@lib/supabase";
+import { staleWhileRevalidate } from "@lib/offlineCache";
+import { getSearchSuggestions, SearchSuggestion } from "@lib/search";
 import { useFilters } from "@context/FilterContext";
 import { useTheme } from "@context/ThemeContext";
 import { useRTL } from "@hooks/useRTL";
 import { MarketplaceItem } from "@components/types";
 import { Button } from "@components/design-system/Button";
 import { spacing, typography } from "../../constants/design-tokens";
-import { PLACEHOLDER_IMAGE_URL } from "@config/env";
 
 const { height } = Dimensions.get("window");
 
-const normalizeItem = (raw: any): MarketplaceItem => ({
-  id: String(raw?.id ?? raw?.uuid ?? raw?.listing_id ?? Math.random()),
-  title: raw?.title ?? raw?.name ?? "",
-  businessName: raw?.businessName ?? raw?.company ?? "",
-  location: raw?.location ?? [raw?.city, raw?.district].filter(Boolean).join(" - "),
-  price: String(raw?.price ?? raw?.amount ?? ""),
-  size: raw?.size ? String(raw.size) : null,
-  zone_id: raw?.zone_id ?? undefined,
-  image: raw?.image?.startsWith("http") ? raw.image : PLACEHOLDER_IMAGE_URL,
-  businessType: raw?.businessType ?? "",
-  originalData: raw,
-});
+const PAGE_SIZE = 20;
 
 const SkeletonCard = () => {
   const { theme } = useTheme();
@@ -79,50 +70,86 @@ const MarketScreen: FC = () => {
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [page, setPage] = useState(1);
-  const [search, setSearch] = useState("");
+  const [hasMore, setHasMore] = useState(true);
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
 
   const { t } = useTranslation();
-  const { applyFilters } = useFilters();
+  const router = useRouter();
+  const { applyFilters, listingQuery, searchText, setSearchText, setSelectedBusinessType } = useFilters();
   const { theme } = useTheme();
 
   const scrollY = useSharedValue(0);
 
+  // Bumped on every fresh load so responses for an older query are dropped
+  const requestId = useRef(0);
+
   const fetchData = async (pageNum = 1, append = false) => {
+    const id = append ? requestId.current : ++requestId.current;
     try {
       if (!append) setLoading(true);
-      const raw = await supabaseApi.fetchListings(pageNum, 20);
-      const normalized = raw.map(normalizeItem);
-      setData(prev => (append ? [...prev, ...normalized] : normalized));
+      // The saved first page shows at once and is replaced when the network answers
+      const { value: items } = await staleWhileRevalidate(
+        `listings:${JSON.stringify(listingQuery)}:${pageNum}`,
+        () => supabaseApi.fetchListings(pageNum, PAGE_SIZE, listingQuery),
+        cached => {
+          if (append || id !== requestId.current) return;
+          setData(cached.value);
+          setLoading(false);
+        }
+      );
+      if (id !== requestId.current) return;
+      setData(prev => (append ? [...prev, ...items] : items));
       setPage(pageNum);
+      setHasMore(items.length === PAGE_SIZE);
       setError(null);
     } catch (e) {
+      if (id !== requestId.current) return;
       setError("Failed to fetch data");
     } finally {
-      setLoading(false);
-      setMoreLoading(false);
-      setRefreshing(false);
+      if (id === requestId.current) {
+        setLoading(false);
+        setMoreLoading(false);
+        setRefreshing(false);
+      }
     }
   };
 
+  // Filters, sort and search are applied by the server, so any change restarts from page 1
   useEffect(() => {
     fetchData(1);
-  }, []);
-
-  const filtered = useMemo(() => {
-    const s = search.toLowerCase();
-    return applyFilters(
-      data.filter(d =>
-        d.title.toLowerCase().includes(s) ||
-        d.businessName.toLowerCase().includes(s) ||
-        d.location.toLowerCase().includes(s)
-      )
-    );
-  }, [data, search, applyFilters]);
+  }, [listingQuery]);
+
+  const filtered = useMemo(() => applyFilters(data), [data, applyFilters]);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!searchText.trim()) {
+      setSuggestions([]);
+      return;
+    }
+    getSearchSuggestions(searchText).then(results => {
+      if (!cancelled) setSuggestions(results);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [searchText]);
+
+  const handleSelectSuggestion = (suggestion: SearchSuggestion) => {
+    if (suggestion.kind === "listing" && suggestion.listingId !== undefined) {
+      router.push({ pathname: "/placeDetails", params: { id: String(suggestion.listingId) } });
+    } else if (suggestion.kind === "businessType" && suggestion.businessType) {
+      setSearchText("");
+      setSelectedBusinessType(suggestion.businessType);
+    } else {
+      setSearchText(suggestion.label);
+    }
+  };
 
   const handleScroll = (e: any) => {
     scrollY.value = e.nativeEvent.contentOffset.y;
     if (e.nativeEvent.contentOffset.y + e.nativeEvent.layoutMeasurement.height >= e.nativeEvent.contentSize.height - 100) {
-      if (!moreLoading) {
+      if (!moreLoading && !loading && hasMore) {
         setMoreLoading(true);
         fetchData(page + 1, true);
       }
@@ -140,7 +167,13 @@ const MarketScreen: FC = () => {
     <SafeAreaView style={[styles.container, { backgroundColor: theme.background.primary }]}>
       {/* Header */}
       <Animated.View style={[styles.header, headerStyle]}>
-        <SearchBar value={search} onSearch={setSearch} onClear={() => setSearch("")} />
+        <SearchBar
+          value={searchText}
+          onSearch={setSearchText}
+          onClear={() => setSearchText("")}
+          suggestions={suggestions}
+          onSelectSuggestion={handleSelectSuggestion}
+        />
         <FilterHeader />
       </Animated.View>
 
@@ -0,0 +1,378 @@
+// MapScreen.tsx
+import React, { FC, useState, useEffect, useMemo, useRef, useCallback } from "react";
+import {
+  View,
+  SafeAreaView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+} from "react-native";
+import MapView, { Marker, Circle, Region } from "react-native-maps";
+import { FontAwesome } from "@expo/vector-icons";
+import { useTranslation } from "react-i18next";
+
+import MarketCard from "@components/MarketCard";
+import FilterHeader from "@components/FilterHeader";
+import { supabaseApi } from "@lib/supabase";
+import { createLogger } from "@lib/logger";
+import { useFilters } from "@context/FilterContext";
+import { useTheme } from "@context/ThemeContext";
+import { MarketplaceItem } from "@components/types";
+import {
+  clusterPoints,
+  regionToBounds,
+  zoomIntoCluster,
+  canZoomIntoCluster,
+  MapCluster,
+  MapPoint,
+} from "@utils/mapClustering";
+import { spacing } from "../../constants/design-tokens";
+
+const log = createLogger('map');
+
+// Central Riyadh, wide enough to show most listings
+const INITIAL_REGION: Region = {
+  latitude: 24.7136,
+  longitude: 46.6753,
+  latitudeDelta: 0.3,
+  longitudeDelta: 0.3,
+};
+
+// Pins loaded per "search this area"; the map is not paginated
+const MAP_PAGE_SIZE = 200;
+
+// Zones only have a center point, so each is drawn as a circle of this radius
+const ZONE_RADIUS_METERS = 900;
+
+// Low to high zone score
+const LOW_SCORE_RGB = [255, 224, 138];
+const HIGH_SCORE_RGB = [214, 69, 69];
+
+const scoreColor = (ratio: number, alpha: number) => {
+  const [r, g, b] = LOW_SCORE_RGB.map((low, i) => Math.round(low + (HIGH_SCORE_RGB[i] - low) * ratio));
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+};
+
+const MapScreen: FC = () => {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+  const {
+    listingQuery,
+    recommendedZones,
+    selectedBusinessType,
+    recommendationOptions,
+    applyRecommendationOptions,
+  } = useFilters();
+
+  const mapRef = useRef<MapView>(null);
+  const [region, setRegion] = useState<Region>(INITIAL_REGION);
+  const [items, setItems] = useState<MarketplaceItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [areaChanged, setAreaChanged] = useState(false);
+  const [showZones, setShowZones] = useState(false);
+  // Listings in the preview card: the tapped pin, or every listing of a cluster that cannot be split
+  const [selected, setSelected] = useState<MarketplaceItem[]>([]);
+
+  // Bumped on every search so a slow response for an older area is dropped
+  const requestId = useRef(0);
+
+  const searchArea = useCallback(async (area: Region) => {
+    const id = ++requestId.current;
+    setLoading(true);
+    setAreaChanged(false);
+    try {
+      const results = await supabaseApi.fetchListings(1, MAP_PAGE_SIZE, {
+        ...listingQuery,
+        bounds: regionToBounds(area),
+      });
+      if (id !== requestId.current) return;
+      setItems(results);
+      setError(null);
+    } catch (e) {
+      if (id !== requestId.current) return;
+      log.error('Error loading listings for map area:', e);
+      setError(t('map.loadError'));
+    } finally {
+      if (id === requestId.current) setLoading(false);
+    }
+  }, [listingQuery, t]);
+
+  // Filters from the home tab apply here too; reload the current area when they change
+  useEffect(() => {
+    searchArea(region);
+  }, [listingQuery]);
+
+  const clusters = useMemo(() => {
+    const points: MapPoint<MarketplaceItem>[] = items
+      .filter(item => item.latitude !== undefined && item.longitude !== undefined)
+      .map(item => ({ latitude: item.latitude!, longitude: item.longitude!, item }));
+    return clusterPoints(points, region);
+  }, [items, region]);
+
+  const zones = useMemo(() => {
+    const located = recommendedZones.filter(
+      zone => zone.latitude_center !== undefined && zone.longitude_center !== undefined
+    );
+    const maxScore = Math.max(...located.map(zone => zone.zone_score), 0);
+    return located.map(zone => ({ ...zone, ratio: maxScore > 0 ? zone.zone_score / maxScore : 0 }));
+  }, [recommendedZones]);
+
+  const handleRegionChange = (next: Region) => {
+    setRegion(next);
+    setAreaChanged(true);
+  };
+
+  const handleClusterPress = (cluster: MapCluster<MarketplaceItem>) => {
+    if (!canZoomIntoCluster(cluster, region)) {
+      setSelected(cluster.items);
+      return;
+    }
+    mapRef.current?.animateToRegion(zoomIntoCluster(cluster, region));
+  };
+
+  // Long-pressing the map sets the point zones are scored by distance from; tapping its pin clears it
+  const anchor = recommendationOptions.anchor ?? null;
+  const setAnchor = (point: { latitude: number; longitude: number } | null) => {
+    applyRecommendationOptions({ ...recommendationOptions, anchor: point });
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background.primary }]}>
+      <MapView
+        ref={mapRef}
+        style={StyleSheet.absoluteFill}
+        initialRegion={INITIAL_REGION}
+        onRegionChangeComplete={handleRegionChange}
+        onPress={() => setSelected([])}
+        onLongPress={event => setAnchor(event.nativeEvent.coordinate)}
+        showsUserLocation
+      >
+        {anchor && (
+          <Marker
+            coordinate={anchor}
+            pinColor="#1C64F2"
+            title={t("weightTuning.anchor")}
+            onPress={() => setAnchor(null)}
+          />
+        )}
+
+        {showZones && zones.map(zone => (
+          <Circle
+            key={`zone-${zone.zone_id}`}
+            center={{ latitude: zone.latitude_center!, longitude: zone.longitude_center! }}
+            radius={ZONE_RADIUS_METERS}
+            fillColor={scoreColor(zone.ratio, 0.45)}
+            strokeColor={scoreColor(zone.ratio, 0.9)}
+            strokeWidth={1}
+          />
+        ))}
+
+        {clusters.map(cluster =>
+          cluster.items.length === 1 ? (
+            <Marker
+              key={cluster.id}
+              coordinate={{ latitude: cluster.latitude, longitude: cluster.longitude }}
+              pinColor={theme.brand.primary}
+              onPress={() => handleClusterPress(cluster)}
+            />
+          ) : (
+            <Marker
+              key={cluster.id}
+              coordinate={{ latitude: cluster.latitude, longitude: cluster.longitude }}
+              onPress={() => handleClusterPress(cluster)}
+              tracksViewChanges={false}
+            >
+              <View style={[styles.cluster, { backgroundColor: theme.brand.primary }]}>
+                <Text style={styles.clusterText}>{cluster.items.length}</Text>
+              </View>
+            </Marker>
+          )
+        )}
+      </MapView>
+
+      {/* Header */}
+      <View style={styles.header}>
+        <FilterHeader />
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={[styles.chip, showZones && styles.activeChip]}
+            onPress={() => setShowZones(current => !current)}
+          >
+            <FontAwesome name="th" size={14} color={showZones ? "#F5A623" : "#626262"} />
+            <Text style={styles.chipText}>{showZones ? t('map.hideZones') : t('map.showZones')}</Text>
+          </TouchableOpacity>
+
+          {areaChanged && !loading && (
+            <TouchableOpacity style={[styles.chip, styles.searchChip]} onPress={() => searchArea(region)}>
+              <FontAwesome name="search" size={14} color="#fff" />
+              <Text style={[styles.chipText, { color: "#fff" }]}>{t('map.searchThisArea')}</Text>
+            </TouchableOpacity>
+          )}
+
+          {loading && <ActivityIndicator color={theme.brand.primary} />}
+        </View>
+
+        {showZones && selectedBusinessType === 'none' && (
+          <Text style={styles.notice}>{t('map.pickBusinessType')}</Text>
+        )}
+        {showZones && zones.length > 0 && (
+          <View style={styles.legend}>
+            <Text style={styles.legendText}>{t('map.lowScore')}</Text>
+            {[0, 0.25, 0.5, 0.75, 1].map(ratio => (
+              <View key={ratio} style={[styles.legendSwatch, { backgroundColor: scoreColor(ratio, 0.9) }]} />
+            ))}
+            <Text style={styles.legendText}>{t('map.highScore')}</Text>
+          </View>
+        )}
+        {error ? (
+          <Text style={styles.notice}>{error}</Text>
+        ) : !loading && !areaChanged && items.length === 0 ? (
+          <Text style={styles.notice}>{t('map.noListingsInArea')}</Text>
+        ) : null}
+      </View>
+
+      {/* Preview card for the tapped pin; pressing it opens placeDetails */}
+      {selected.length === 1 && (
+        <View style={styles.preview}>
+          <TouchableOpacity style={styles.closePreview} onPress={() => setSelected([])}>
+            <FontAwesome name="times" size={16} color="#666" />
+          </TouchableOpacity>
+          <MarketCard item={selected[0]} />
+        </View>
+      )}
+
+      {/* Listings sharing one spot, e.g. units in the same building, are swiped through instead */}
+      {selected.length > 1 && (
+        <View style={styles.preview}>
+          <View style={styles.previewHeader}>
+            <Text style={styles.previewCount}>{t('map.listingsHere', { count: selected.length })}</Text>
+            <TouchableOpacity style={styles.closeList} onPress={() => setSelected([])}>
+              <FontAwesome name="times" size={16} color="#666" />
+            </TouchableOpacity>
+          </View>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.previewList}>
+            {selected.map(item => (
+              <View key={item.id} style={styles.previewItem}>
+                <MarketCard item={item} />
+              </View>
+            ))}
+          </ScrollView>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    position: "absolute",
+    top: 0, left: 0, right: 0,
+    paddingTop: 60,
+    paddingHorizontal: 16,
+    zIndex: 10,
+  },
+  actions: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 8,
+  },
+  chip: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "#fff",
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    elevation: 2,
+    shadowColor: "#000",
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  activeChip: { borderWidth: 1, borderColor: "#F5A623" },
+  searchChip: { backgroundColor: "#1E2A38" },
+  chipText: { fontSize: 12, color: "#2A3644", fontWeight: "500" },
+  notice: {
+    alignSelf: "flex-end",
+    marginTop: 8,
+    backgroundColor: "rgba(255, 255, 255, 0.9)",
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    fontSize: 12,
+    color: "#2A3644",
+  },
+  legend: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    alignSelf: "flex-end",
+    gap: 4,
+    marginTop: 8,
+    backgroundColor: "rgba(255, 255, 255, 0.9)",
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  legendSwatch: { width: 14, height: 10, borderRadius: 2 },
+  legendText: { fontSize: 11, color: "#2A3644" },
+  cluster: {
+    minWidth: 34,
+    height: 34,
+    borderRadius: 17,
+    paddingHorizontal: 6,
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 2,
+    borderColor: "#fff",
+  },
+  clusterText: { color: "#fff", fontWeight: "bold", fontSize: 13 },
+  preview: {
+    position: "absolute",
+    left: spacing[3],
+    right: spacing[3],
+    bottom: spacing[4],
+  },
+  previewHeader: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: spacing[2],
+  },
+  previewCount: {
+    backgroundColor: "rgba(255, 255, 255, 0.9)",
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    fontSize: 12,
+    color: "#2A3644",
+  },
+  previewList: { gap: spacing[2] },
+  previewItem: { width: 280 },
+  closeList: {
+    backgroundColor: "#fff",
+    borderRadius: 14,
+    width: 28,
+    height: 28,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  closePreview: {
+    position: "absolute",
+    top: 8,
+    left: 8,
+    zIndex: 1,
+    backgroundColor: "#fff",
+    borderRadius: 14,
+    width: 28,
+    height: 28,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
+
+export default MapScreen;
@@ -92,20 +92,8 @@ const ProfileScreen = () => {
         return;
       }
       
-      // Update profile based on user role
-      if (userProfile.role === "entrepreneur") {
-        await supabaseApi.updateEntrepreneurProfile(
-          userProfile.id,
-          formData,
-          session.access_token
-        );
-      } else if (userProfile.role === "owner") {
-        await supabaseApi.updateOwnerProfile(
-          userProfile.id,
-          formData,
-          session.access_token
-        );
-      }
+      // The backend keeps only editable fields; changing the phone number requires re-verification
+      await supabaseApi.updateProfile(formData);
       
       // Refresh user profile
       loadUserProfile();
@@ -158,11 +146,7 @@ const ProfileScreen = () => {
       const randomImage = `${RANDOM_AVATAR_BASE_URL}${timestamp}`;
       
       // Update the avatar in the database
-      await supabaseApi.updateProfileAvatar(
-        userProfile!.id,
-        userProfile!.role,
-        randomImage
-      );
+      await supabaseApi.updateProfile({ avatar_url: randomImage });
       
       // Update local user profile state
       setUserProfile({
@@ -275,6 +259,11 @@ const ProfileScreen = () => {
           <Text style={styles.userName}>{userProfile?.name || "User"}</Text>
           <Text style={styles.userEmail}>{userProfile?.email || ""}</Text>
           <Text style={styles.userPhone}>{userProfile?.phone || t('profile.noPhoneNumber')}</Text>
+          {userProfile?.phone && !userProfile.phone_verified ? (
+            <TouchableOpacity onPress={() => router.push("/Verification")}>
+              <Text style={styles.verifyPhoneLink}>{t('profile.verifyPhone')}</Text>
+            </TouchableOpacity>
+          ) : null}
           <Text style={styles.userRole}>
             {userProfile?.role === "entrepreneur" ? t('profile.entrepreneur') : t('profile.shopOwner')}
           </Text>
@@ -525,6 +514,12 @@ const styles = StyleSheet.create({
     color: "#666",
     marginTop: 2,
   },
+  verifyPhoneLink: {
+    fontSize: 13,
+    color: "#F5A623",
+    fontWeight: "600",
+    marginTop: 4,
+  },
   userRole: {
     fontSize: 14,
     color: "#F5A623",
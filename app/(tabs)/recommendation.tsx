@@ -0,0 +1,289 @@
+// RecommendationScreen.tsx
+import React, { FC, useState, useEffect, useRef } from "react";
+import {
+  View,
+  SafeAreaView,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  Text,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { FontAwesome5 } from "@expo/vector-icons";
+import { useTranslation } from "react-i18next";
+import { useRouter } from "expo-router";
+
+import { useFilters, BusinessType } from "@context/FilterContext";
+import { businessTypeLabel } from "@lib/businessTypes";
+import { useTheme } from "@context/ThemeContext";
+import { useRTL } from "@hooks/useRTL";
+import {
+  fetchZoneRecommendations,
+  readCachedZoneRecommendations,
+  ZoneRecommendation,
+} from "@utils/zoneRecommendations";
+import { ScoringFactor, ConfidenceLevel, BASE_FACTORS } from "@utils/zoneScoring";
+import { Button } from "@components/design-system/Button";
+import { spacing, typography } from "../../constants/design-tokens";
+
+// Zones shown for the chosen business type
+const TOP_ZONES = 10;
+
+const CONTRIBUTION_ROWS: { key: ScoringFactor; labelKey: string; color: string }[] = [
+  { key: 'popularity', labelKey: 'recommendation.popularity', color: '#F5A623' },
+  { key: 'ratings', labelKey: 'recommendation.ratings', color: '#1C64F2' },
+  { key: 'competition', labelKey: 'recommendation.competition', color: '#D64545' },
+  { key: 'rent', labelKey: 'recommendation.rent', color: '#2E9E5B' },
+  { key: 'pricePerSqm', labelKey: 'recommendation.pricePerSqm', color: '#0E9F9A' },
+  { key: 'complementary', labelKey: 'recommendation.complementary', color: '#E57A1F' },
+  { key: 'distance', labelKey: 'recommendation.distance', color: '#7E57C2' },
+];
+
+const CONFIDENCE_COLORS: Record<ConfidenceLevel, string> = {
+  low: '#D64545',
+  medium: '#F5A623',
+  high: '#2E9E5B',
+};
+
+const formatScore = (value: number) => value.toFixed(1);
+
+const ZoneCard: FC<{ zone: ZoneRecommendation; rank: number; onViewListings: () => void }> = ({
+  zone,
+  rank,
+  onViewListings,
+}) => {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+  const { textAlign } = useRTL();
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.surface.primary }]}>
+      <View style={styles.cardHeader}>
+        <View style={[styles.rank, { backgroundColor: theme.brand.primary }]}>
+          <Text style={styles.rankText}>{rank}</Text>
+        </View>
+        <View style={styles.cardTitle}>
+          <Text style={[styles.zoneName, { color: theme.text.primary, textAlign: textAlign("right") }]} numberOfLines={1}>
+            {zone.district_name || t("recommendation.zoneLabel", { id: zone.zone_id })}
+          </Text>
+          {zone.district_name ? (
+            <Text style={[styles.zoneMeta, { color: theme.text.secondary, textAlign: textAlign("right") }]}>
+              {t("recommendation.zoneLabel", { id: zone.zone_id })}
+            </Text>
+          ) : null}
+        </View>
+        <View style={styles.score}>
+          <Text style={[styles.scoreValue, { color: theme.text.primary }]}>{formatScore(zone.zone_score)}</Text>
+          <Text style={[styles.zoneMeta, { color: theme.text.secondary }]}>{t("recommendation.score")}</Text>
+        </View>
+      </View>
+
+      {/* Score breakdown: the bar is how the zone compares to the others (0-1),
+          the number is the points that factor adds to the 0-100 score */}
+      {CONTRIBUTION_ROWS.map(row => {
+        const factor = zone.explanation.factors[row.key];
+        // Factors beyond the base three only show once the business type or the user gives them a weight
+        if (!BASE_FACTORS.includes(row.key) && factor.weight === 0) return null;
+        return (
+          <View key={row.key} style={styles.contributionRow}>
+            <Text style={[styles.contributionLabel, { color: theme.text.secondary }]}>
+              {t(row.labelKey)} {Math.round(factor.weight * 100)}%
+            </Text>
+            <View style={[styles.barTrack, { backgroundColor: theme.surface.secondary }]}>
+              <View style={[styles.barFill, { width: `${factor.normalized * 100}%`, backgroundColor: row.color }]} />
+            </View>
+            <Text style={[styles.contributionValue, { color: theme.text.primary }]}>
+              +{formatScore(factor.contribution)}
+            </Text>
+          </View>
+        );
+      })}
+
+      <Text style={[styles.confidence, { color: CONFIDENCE_COLORS[zone.explanation.confidenceLevel] }]}>
+        {t("recommendation.confidence", {
+          level: t(`recommendation.confidenceLevels.${zone.explanation.confidenceLevel}`),
+          count: zone.explanation.sampleSize,
+        })}
+      </Text>
+
+      <View style={styles.cardFooter}>
+        <Text style={[styles.zoneMeta, { color: theme.text.secondary }]}>
+          {t("recommendation.competitors", { count: zone.number_of_same_type_businesses })}
+          {"  ·  "}
+          {t("recommendation.availableListings", { count: zone.listing_count })}
+        </Text>
+        <Button size="small" onPress={onViewListings} disabled={zone.listing_count === 0}>
+          {t("recommendation.viewListings")}
+        </Button>
+      </View>
+    </View>
+  );
+};
+
+const RecommendationScreen: FC = () => {
+  const { t, i18n } = useTranslation();
+  const router = useRouter();
+  const { theme } = useTheme();
+  const { textAlign } = useRTL();
+  const { selectedBusinessType, businessTypes, recommendationOptions } = useFilters();
+
+  // Starts from the type chosen on the home tab, but picking one here does not re-sort the feed
+  const [businessType, setBusinessType] = useState<BusinessType>(selectedBusinessType);
+  const [zones, setZones] = useState<ZoneRecommendation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Bumped on every load so a slow response for a previous business type is dropped
+  const requestId = useRef(0);
+
+  const loadZones = async (type: BusinessType) => {
+    const id = ++requestId.current;
+    if (type === 'none') {
+      setZones([]);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    // Tuned weights belong to the type chosen on the home tab; other types use their defaults
+    const options = type === selectedBusinessType ? recommendationOptions : {};
+    // The last saved ranking shows while the fresh one loads
+    let answered = false;
+    readCachedZoneRecommendations(type, TOP_ZONES, options).then(cached => {
+      if (cached && !answered && id === requestId.current) {
+        setZones(cached);
+        setLoading(false);
+      }
+    });
+    try {
+      const results = await fetchZoneRecommendations(type, TOP_ZONES, options);
+      answered = true;
+      if (id === requestId.current) setZones(results);
+    } catch (e) {
+      answered = true;
+      if (id === requestId.current) setError(t("recommendation.loadError"));
+    } finally {
+      if (id === requestId.current) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadZones(businessType);
+  }, [businessType, recommendationOptions]);
+
+  const openZoneListings = (zone: ZoneRecommendation) => {
+    router.push({
+      pathname: "/zoneListings",
+      params: {
+        zoneId: String(zone.zone_id),
+        title: zone.district_name || t("recommendation.zoneLabel", { id: zone.zone_id }),
+      },
+    });
+  };
+
+  const renderEmpty = () => {
+    if (loading) {
+      return <ActivityIndicator style={{ margin: 40 }} color={theme.brand.primary} />;
+    }
+    const message = businessType === 'none'
+      ? t("recommendation.chooseBusinessType")
+      : error ?? t("recommendation.noZones");
+    return (
+      <View style={styles.empty}>
+        <Text style={[styles.emptyText, { color: theme.text.secondary }]}>{message}</Text>
+        {error ? <Button onPress={() => loadZones(businessType)}>{t("home.retryButton")}</Button> : null}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background.primary }]}>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: theme.text.primary, textAlign: textAlign("right") }]}>
+          {t("recommendation.title")}
+        </Text>
+        <Text style={[styles.subtitle, { color: theme.text.secondary, textAlign: textAlign("right") }]}>
+          {t("recommendation.subtitle")}
+        </Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+          {businessTypes.map(type => {
+            const active = type.id === businessType;
+            return (
+              <TouchableOpacity
+                key={type.id}
+                style={[styles.chip, active && { backgroundColor: theme.brand.primary, borderColor: theme.brand.primary }]}
+                onPress={() => setBusinessType(type.id)}
+              >
+                <FontAwesome5 name={type.icon} size={12} color={active ? "#fff" : "#626262"} />
+                <Text style={[styles.chipText, active && { color: "#fff" }]}>{businessTypeLabel(type, i18n.language)}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      </View>
+
+      <FlatList
+        data={loading ? [] : zones}
+        keyExtractor={zone => String(zone.zone_id)}
+        renderItem={({ item, index }) => (
+          <ZoneCard
+            zone={item}
+            rank={index + 1}
+            onViewListings={() => openZoneListings(item)}
+          />
+        )}
+        ListEmptyComponent={renderEmpty}
+        contentContainerStyle={{ paddingHorizontal: spacing[3], paddingBottom: spacing[6] }}
+        showsVerticalScrollIndicator={false}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: { paddingTop: 60, paddingHorizontal: 16, paddingBottom: 8 },
+  title: { fontSize: typography.heading.h2.fontSize, fontWeight: "700" },
+  subtitle: { fontSize: typography.body.small.fontSize, marginTop: 4 },
+  chips: { flexDirection: "row-reverse", gap: 8, paddingVertical: 12 },
+  chip: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 6,
+    borderWidth: 1,
+    borderColor: "#DDD",
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: "#fff",
+  },
+  chipText: { fontSize: 12, color: "#2A3644", fontWeight: "500" },
+  card: {
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: spacing[3],
+    elevation: 2,
+    shadowColor: "#000",
+    shadowOpacity: 0.08,
+    shadowRadius: 4,
+  },
+  cardHeader: { flexDirection: "row-reverse", alignItems: "center", marginBottom: 10 },
+  rank: { width: 30, height: 30, borderRadius: 15, alignItems: "center", justifyContent: "center" },
+  rankText: { color: "#fff", fontWeight: "bold" },
+  cardTitle: { flex: 1, marginHorizontal: 10 },
+  zoneName: { fontSize: 16, fontWeight: "600" },
+  zoneMeta: { fontSize: 12 },
+  score: { alignItems: "center" },
+  scoreValue: { fontSize: 18, fontWeight: "bold" },
+  contributionRow: { flexDirection: "row-reverse", alignItems: "center", marginVertical: 3 },
+  contributionLabel: { width: 100, fontSize: 12, textAlign: "right" },
+  barTrack: { flex: 1, height: 8, borderRadius: 4, marginHorizontal: 8, overflow: "hidden", flexDirection: "row-reverse" },
+  barFill: { height: "100%", borderRadius: 4 },
+  contributionValue: { width: 56, fontSize: 12, textAlign: "left" },
+  confidence: { fontSize: 12, fontWeight: "500", textAlign: "right", marginTop: 6 },
+  cardFooter: { flexDirection: "row-reverse", alignItems: "center", justifyContent: "space-between", marginTop: 10 },
+  empty: { alignItems: "center", padding: 24, gap: 12 },
+  emptyText: { fontSize: typography.body.medium.fontSize, textAlign: "center" },
+});
+
+export default RecommendationScreen;
@@ -23,8 +23,12 @@ import { GestureHandlerRootView } from 'react-native-gesture-handler';
 
 import { useColorScheme } from "@hooks/useColorScheme";
 import ReanimatedConfig from "@/components/ReanimatedConfig";
+import OfflineBanner from "@/components/OfflineBanner";
+import ComparisonTray from "@/components/ComparisonTray";
 import { AuthProvider } from "@/src/context/AuthContext";
 import { FavoritesProvider } from "@/src/context/FavoritesContext";
+import { ChatProvider } from "@/src/context/ChatContext";
+import { ComparisonProvider } from "@/src/context/ComparisonContext";
 import { FilterProvider } from "@/src/context/FilterContext";
 import { ThemeProvider } from "@/src/context/ThemeContext";
 
@@ -72,25 +76,34 @@ function RootLayoutNav() {
   return (
     <ThemeProvider defaultMode="system">
       <AuthProvider>
-        <FavoritesProvider>
-          <FilterProvider>
-            <GestureHandlerRootView style={{ flex: 1 }}>
-              <NavigationThemeProvider value={colorScheme === "dark" ? DarkTheme : DefaultTheme}>
-
-                <Stack>
-                  <Stack.Screen name="index" options={{ headerShown: false }} />
-                  <Stack.Screen
-                    name="(auth)"
-                    options={{ presentation: "modal", headerShown: false }}
-                  />
-                  <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-                  <Stack.Screen name="chatScreen" options={{ headerShown: false }} />
-                  <Stack.Screen name="placeDetails" options={{ headerShown: false }} />
-                </Stack>
-              </NavigationThemeProvider>
-            </GestureHandlerRootView>
-          </FilterProvider>
-        </FavoritesProvider>
+        <ChatProvider>
+          <FavoritesProvider>
+            <ComparisonProvider>
+              <FilterProvider>
+                <GestureHandlerRootView style={{ flex: 1 }}>
+                  <NavigationThemeProvider value={colorScheme === "dark" ? DarkTheme : DefaultTheme}>
+  
+                    <Stack>
+                      <Stack.Screen name="index" options={{ headerShown: false }} />
+                      <Stack.Screen
+                        name="(auth)"
+                        options={{ presentation: "modal", headerShown: false }}
+                      />
+                      <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                      <Stack.Screen name="chatScreen" options={{ headerShown: false }} />
+                      <Stack.Screen name="placeDetails" options={{ headerShown: false }} />
+                      <Stack.Screen name="zoneListings" options={{ headerShown: false }} />
+                      <Stack.Screen name="sharedCollection" options={{ headerShown: false }} />
+                      <Stack.Screen name="compareListings" options={{ headerShown: false }} />
+                    </Stack>
+                    <ComparisonTray />
+                    <OfflineBanner />
+                  </NavigationThemeProvider>
+                </GestureHandlerRootView>
+              </FilterProvider>
+            </ComparisonProvider>
+          </FavoritesProvider>
+        </ChatProvider>
       </AuthProvider>
     </ThemeProvider>
   );
@@ -1,93 +1,198 @@
-import React, { useState } from "react";
+import React, { useState, useEffect, useCallback, useMemo } from "react";
 import {
   View,
   Text,
   StyleSheet,
   TouchableOpacity,
   TextInput,
-  ScrollView,
+  FlatList,
   KeyboardAvoidingView,
   Platform,
-  SafeAreaView,
+  ActivityIndicator,
 } from "react-native";
-import { useRoute, useNavigation } from "@react-navigation/native";
-import Ionicons from "react-native-vector-icons/Ionicons";
-
-interface Message {
-  id: string;
-  text: string;
-  time: string;
-  sender: string; // "You" or contact name
+import { FontAwesome } from "@expo/vector-icons";
+import { useTranslation } from "react-i18next";
+import { useRouter, useLocalSearchParams, useFocusEffect } from "expo-router";
+import { supabaseApi, ChatMessage, Conversation } from "../src/lib/supabase";
+import { useAuth } from "../src/context/AuthContext";
+import { useChat } from "../src/context/ChatContext";
+import { useRTL } from "../src/hooks/useRTL";
+import { createClientMessageId, mergeMessages, applyReadReceipt } from "../src/lib/chat";
+
+// A message typed on this device that the backend has not confirmed yet
+interface OutgoingMessage {
+  clientId: string;
+  body: string;
+  createdAt: string;
+  failed: boolean;
 }
 
-// Sample conversation messages
-const initialMessages: Message[] = [
-  {
-    id: "1",
-    text: "فاضي نتقابل يمديك؟",
-    time: "10:15 AM",
-    sender: "محمد",
-  },
-  {
-    id: "2",
-    text: "نبي نشوف المحل اذا يمديك",
-    time: "10:17 AM",
-    sender: "محمد",
-  },
-  {
-    id: "3",
-    text: "تمام",
-    time: "10:17 AM",
-    sender: "You",
-  },
-  {
-    id: "4",
-    text: "حياك الله",
-    time: "10:20 AM",
-    sender: "محمد",
-  },
-];
+type Row =
+  | { kind: "message"; message: ChatMessage }
+  | { kind: "outgoing"; message: OutgoingMessage };
+
+// Matches the backend's page size; a shorter page means the start of the conversation
+const PAGE_SIZE = 30;
 
 const ChatScreen: React.FC = () => {
-  const route = useRoute();
-  const navigation = useNavigation();
-  const { name } = (route.params as any) || {}; // contact name passed from ConversationsScreen
+  const router = useRouter();
+  const { t, i18n } = useTranslation();
+  const { textAlign } = useRTL();
+  const { user } = useAuth();
+  const { subscribeChatEvents, setOpenConversation, markRead } = useChat();
+  const params = useLocalSearchParams<{ conversationId: string; name?: string }>();
+  const conversationId = Number(params.conversationId);
 
-  const [messages, setMessages] = useState<Message[]>(initialMessages);
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [outgoing, setOutgoing] = useState<OutgoingMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [hasOlder, setHasOlder] = useState(false);
   const [inputText, setInputText] = useState("");
 
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const page = await supabaseApi.getMessages(conversationId);
+      setConversation(page.conversation);
+      setMessages(current => mergeMessages(current, page.messages));
+      setHasOlder(page.messages.length >= PAGE_SIZE);
+      setLoadError(false);
+    } catch {
+      setLoadError(true);
+    } finally {
+      setLoading(false);
+    }
+  }, [conversationId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Live messages and read receipts for this conversation
+  useEffect(() => subscribeChatEvents(event => {
+    if (event.type === "message" && event.message.conversationId === conversationId) {
+      setMessages(current => mergeMessages(current, [event.message]));
+      setOutgoing(current => current.filter(entry => entry.clientId !== event.message.clientId));
+    } else if (event.type === "read" && event.conversationId === conversationId) {
+      setMessages(current => applyReadReceipt(current, event));
+    }
+  }), [subscribeChatEvents, conversationId]);
+
+  // While on screen, arriving messages are read rather than counted as unread
+  useFocusEffect(useCallback(() => {
+    setOpenConversation(conversationId);
+    // Messages missed while this screen was in the background
+    load();
+    return () => setOpenConversation(null);
+  }, [conversationId, setOpenConversation, load]));
+
+  // Read receipt for the latest message from the other side
+  const lastUnreadId = useMemo(() => {
+    const unread = messages.filter(message => message.senderRole !== user?.role && !message.readAt);
+    return unread.length > 0 ? unread[unread.length - 1].id : null;
+  }, [messages, user?.role]);
+
+  useEffect(() => {
+    if (lastUnreadId === null) return;
+    markRead(conversationId, lastUnreadId);
+    const readAt = new Date().toISOString();
+    setMessages(current => current.map(message =>
+      message.senderRole !== user?.role && message.id <= lastUnreadId && !message.readAt
+        ? { ...message, readAt }
+        : message
+    ));
+  }, [lastUnreadId, conversationId, markRead, user?.role]);
+
+  const loadOlder = async () => {
+    if (!hasOlder || loadingOlder || messages.length === 0) return;
+    setLoadingOlder(true);
+    try {
+      const page = await supabaseApi.getMessages(conversationId, messages[0].id);
+      setMessages(current => mergeMessages(current, page.messages));
+      setHasOlder(page.messages.length >= PAGE_SIZE);
+    } catch {
+      // Scrolling up again retries
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  // Sending again after a failure reuses the client id, so the backend stores the message once
+  const deliver = async (message: OutgoingMessage) => {
+    setOutgoing(current => current.map(entry => (entry.clientId === message.clientId ? { ...entry, failed: false } : entry)));
+    try {
+      const sent = await supabaseApi.sendMessage(conversationId, message.body, message.clientId);
+      setMessages(current => mergeMessages(current, [sent]));
+      setOutgoing(current => current.filter(entry => entry.clientId !== message.clientId));
+    } catch {
+      setOutgoing(current => current.map(entry => (entry.clientId === message.clientId ? { ...entry, failed: true } : entry)));
+    }
+  };
+
   const handleSend = () => {
-    if (inputText.trim().length === 0) {
+    const body = inputText.trim();
+    if (body.length === 0) {
       return;
     }
-    const newMessage: Message = {
-      id: Math.random().toString(),
-      text: inputText.trim(),
-      time: "10:25 AM", // or use moment.js / dayjs for actual time
-      sender: "You",
+    const message: OutgoingMessage = {
+      clientId: createClientMessageId(),
+      body,
+      createdAt: new Date().toISOString(),
+      failed: false,
     };
-    setMessages((prev) => [...prev, newMessage]);
+    setOutgoing(current => [...current, message]);
     setInputText("");
+    deliver(message);
   };
 
-  const renderMessages = () => {
-    return messages.map((msg) => {
-      const isUser = msg.sender === "You";
-      return (
-        <View
-          key={msg.id}
-          style={[
-            styles.messageBubble,
-            isUser ? styles.userBubble : styles.otherBubble,
-          ]}
-        >
-          <Text style={styles.bubbleText}>{msg.text}</Text>
-          <Text style={styles.timestamp}>{msg.time}</Text>
-        </View>
+  const formatTime = (value: string) =>
+    new Date(value).toLocaleTimeString(i18n.language, { hour: "2-digit", minute: "2-digit" });
+
+  // Newest first for the inverted list, which keeps the latest message at the bottom
+  const rows = useMemo<Row[]>(() => [
+    ...messages.map(message => ({ kind: "message" as const, message })),
+    ...outgoing.map(message => ({ kind: "outgoing" as const, message })),
+  ].reverse(), [messages, outgoing]);
+
+  const renderRow = ({ item }: { item: Row }) => {
+    const isUser = item.kind === "outgoing" || item.message.senderRole === user?.role;
+    const failed = item.kind === "outgoing" && item.message.failed;
+
+    let receipt: React.ReactNode = null;
+    if (item.kind === "outgoing") {
+      receipt = failed
+        ? <FontAwesome name="exclamation-circle" size={11} color="#D64545" />
+        : <FontAwesome name="clock-o" size={11} color="#666" />;
+    } else if (isUser) {
+      receipt = (
+        <Text style={[styles.receipt, item.message.readAt && styles.receiptRead]}>
+          {item.message.readAt ? "✓✓" : "✓"}
+        </Text>
       );
-    });
+    }
+
+    return (
+      <TouchableOpacity
+        activeOpacity={failed ? 0.6 : 1}
+        disabled={!failed}
+        onPress={() => item.kind === "outgoing" && deliver(item.message)}
+        style={[styles.messageBubble, isUser ? styles.userBubble : styles.otherBubble]}
+      >
+        <Text style={styles.bubbleText}>{item.message.body}</Text>
+        <View style={styles.meta}>
+          {failed ? <Text style={styles.failedText}>{t("chat.tapToRetry")}</Text> : null}
+          <Text style={styles.timestamp}>{formatTime(item.message.createdAt)}</Text>
+          {receipt}
+        </View>
+      </TouchableOpacity>
+    );
   };
 
+  const title = conversation?.otherName || params.name || t("chat.title");
+
   return (
     <KeyboardAvoidingView
       style={styles.container}
@@ -96,38 +201,71 @@ const ChatScreen: React.FC = () => {
     >
       {/* Header */}
       <View style={styles.header}>
-        <TouchableOpacity
-          style={styles.backButton}
-          onPress={() => navigation.goBack()}
-        >
-          <Ionicons name="arrow-back" size={24} color="#000" />
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <FontAwesome name="arrow-right" size={20} color="#000" />
         </TouchableOpacity>
-        <Text style={styles.chatTitle}>{name || "Chat"}</Text>
+        <View style={styles.headerText}>
+          <Text style={[styles.chatTitle, { textAlign: textAlign("right") }]} numberOfLines={1}>{title}</Text>
+          {conversation?.listingTitle ? (
+            <TouchableOpacity
+              onPress={() => router.push({ pathname: "/placeDetails", params: { id: conversation.listingId } })}
+            >
+              <Text style={[styles.listingLink, { textAlign: textAlign("right") }]} numberOfLines={1}>
+                {conversation.listingTitle}
+              </Text>
+            </TouchableOpacity>
+          ) : null}
+        </View>
       </View>
 
       {/* Messages */}
-      <ScrollView
-        style={styles.messagesContainer}
-        contentContainerStyle={{ padding: 16 }}
-      >
-        {renderMessages()}
-      </ScrollView>
+      {loading && rows.length === 0 ? (
+        <ActivityIndicator style={{ margin: 40 }} color="#F5A623" />
+      ) : loadError && rows.length === 0 ? (
+        <View style={styles.empty}>
+          <Text style={styles.emptyText}>{t("chat.loadError")}</Text>
+          <TouchableOpacity onPress={load}>
+            <Text style={styles.retryText}>{t("common.retry")}</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          style={styles.messagesContainer}
+          contentContainerStyle={{ padding: 16 }}
+          data={rows}
+          inverted
+          keyExtractor={item => (item.kind === "message" ? `m-${item.message.id}` : `o-${item.message.clientId}`)}
+          renderItem={renderRow}
+          onEndReached={loadOlder}
+          onEndReachedThreshold={0.3}
+          ListFooterComponent={loadingOlder ? <ActivityIndicator style={{ margin: 12 }} color="#F5A623" /> : null}
+          ListEmptyComponent={
+            <Text style={[styles.emptyText, styles.invertedEmpty]}>{t("chat.noMessages")}</Text>
+          }
+        />
+      )}
 
       {/* Input Area */}
       <View style={styles.inputContainer}>
         <TextInput
           style={styles.textInput}
-          placeholder="Type your message here..."
+          placeholder={t("chat.placeholder")}
           placeholderTextColor="#999"
           value={inputText}
           onChangeText={setInputText}
+          textAlign="right"
+          maxLength={2000}
+          multiline
         />
-        <TouchableOpacity style={styles.sendButton} onPress={handleSend}>
-          <Text style={styles.sendButtonText}>Send</Text>
+        <TouchableOpacity
+          style={[styles.sendButton, inputText.trim().length === 0 && styles.disabled]}
+          onPress={handleSend}
+          disabled={inputText.trim().length === 0}
+        >
+          <Text style={styles.sendButtonText}>{t("chat.send")}</Text>
         </TouchableOpacity>
       </View>
     </KeyboardAvoidingView>
-    
   );
 };
 
@@ -137,14 +275,13 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: "#fff",
-    paddingTop:40,
-    
+    paddingTop: 40,
   },
   // Header
   header: {
-    flexDirection: "row",
+    flexDirection: "row-reverse",
     alignItems: "center",
-    height: 50,
+    minHeight: 50,
     backgroundColor: "#FFF",
     elevation: 2,
     shadowColor: "#000",
@@ -152,16 +289,25 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.1,
     shadowRadius: 2,
     paddingHorizontal: 16,
+    paddingVertical: 6,
   },
   backButton: {
-    marginRight: 16,
+    marginLeft: 16,
     padding: 4,
   },
+  headerText: {
+    flex: 1,
+  },
   chatTitle: {
     fontSize: 18,
     fontWeight: "600",
     color: "#000",
   },
+  listingLink: {
+    fontSize: 12,
+    color: "#1C64F2",
+    marginTop: 2,
+  },
   // Messages
   messagesContainer: {
     flex: 1,
@@ -186,31 +332,70 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: "#000",
   },
+  meta: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-end",
+    gap: 4,
+    marginTop: 4,
+  },
   timestamp: {
     fontSize: 10,
     color: "#666",
-    marginTop: 4,
-    alignSelf: "flex-end",
+  },
+  receipt: {
+    fontSize: 10,
+    color: "#666",
+  },
+  receiptRead: {
+    color: "#1C64F2",
+    fontWeight: "700",
+  },
+  failedText: {
+    fontSize: 10,
+    color: "#D64545",
+  },
+  empty: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#666",
+    textAlign: "center",
+  },
+  // The inverted list draws its empty component upside down
+  invertedEmpty: {
+    transform: [{ scaleY: -1 }],
+    marginTop: 40,
+  },
+  retryText: {
+    color: "#F5A623",
+    fontWeight: "600",
   },
   // Input
   inputContainer: {
-    flexDirection: "row",
+    flexDirection: "row-reverse",
     alignItems: "center",
     backgroundColor: "#FFF",
     borderTopWidth: 1,
     borderTopColor: "#E2E2E2",
     paddingHorizontal: 8,
     paddingVertical: 6,
-    paddingBottom:40,
+    paddingBottom: 40,
   },
   textInput: {
     flex: 1,
-    height: 40,
+    minHeight: 40,
+    maxHeight: 120,
     borderRadius: 8,
     borderColor: "#CCC",
     borderWidth: 1,
     paddingHorizontal: 10,
-    marginRight: 6,
+    paddingVertical: 8,
+    marginLeft: 6,
     fontSize: 14,
     color: "#000",
   },
@@ -225,4 +410,7 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: "500",
   },
+  disabled: {
+    opacity: 0.5,
+  },
 });
@@ -0,0 +1,261 @@
+// CompareListingsScreen.tsx - 2 to 4 listings side by side, opened from the comparison tray
+import React, { FC, useState, useEffect, useMemo } from "react";
+import {
+  View,
+  SafeAreaView,
+  StyleSheet,
+  ScrollView,
+  Text,
+  Image,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { FontAwesome } from "@expo/vector-icons";
+import { useTranslation } from "react-i18next";
+import { useRouter, useLocalSearchParams, Stack } from "expo-router";
+
+import { supabaseApi } from "@lib/supabase";
+import { businessTypeLabel } from "@lib/businessTypes";
+import { useTheme } from "@context/ThemeContext";
+import { useFilters } from "@context/FilterContext";
+import { useFavorites } from "@context/FavoritesContext";
+import { useComparison } from "@context/ComparisonContext";
+import { useRTL } from "@hooks/useRTL";
+import { MarketplaceItem } from "@components/types";
+import { Button } from "@components/design-system/Button";
+import { normalizeListingImages } from "@utils/listingImages";
+import { fetchZoneRecommendations, ZoneRecommendation } from "@utils/zoneRecommendations";
+import {
+  parseComparisonIds,
+  buildComparison,
+  bestOnFigure,
+  figureValue,
+  ComparedListing,
+  ComparisonFigure,
+} from "@utils/listingComparison";
+import { spacing, typography } from "../constants/design-tokens";
+
+// The backend's maximum, so the zone of almost every listing is in the ranking
+const RANKED_ZONES = 50;
+
+const UNKNOWN = "—";
+
+const formatNumber = (value: number) => Math.round(value).toLocaleString("en-US");
+
+const CompareListingsScreen: FC = () => {
+  const { t, i18n } = useTranslation();
+  const router = useRouter();
+  const { theme } = useTheme();
+  const { textAlign, flexDirection } = useRTL();
+  const { selectedBusinessType, businessTypes, recommendationOptions } = useFilters();
+  const { favorites } = useFavorites();
+  const { compared, toggleCompared } = useComparison();
+  const params = useLocalSearchParams<{ ids: string }>();
+  const ids = useMemo(() => parseComparisonIds(params.ids), [params.ids]);
+
+  // Cards already on the device are shown until fresh listings arrive, and when offline
+  const [items, setItems] = useState<MarketplaceItem[]>(() =>
+    [...compared, ...favorites].filter(item => ids.includes(item.id))
+  );
+  const [zones, setZones] = useState<ZoneRecommendation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasBusinessType = selectedBusinessType !== "none";
+  const businessType = businessTypes.find(type => type.id === selectedBusinessType);
+
+  const load = async () => {
+    setLoading(true);
+    const [listings, ranking] = await Promise.allSettled([
+      supabaseApi.fetchListingsByIds(ids),
+      hasBusinessType
+        ? fetchZoneRecommendations(selectedBusinessType, RANKED_ZONES, recommendationOptions)
+        : Promise.resolve([]),
+    ]);
+
+    if (listings.status === "fulfilled") {
+      setItems(listings.value);
+      setError(null);
+    } else {
+      setError(t("comparison.loadError"));
+    }
+    setZones(ranking.status === "fulfilled" ? ranking.value : []);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    load();
+  }, [ids.join(","), selectedBusinessType, recommendationOptions]);
+
+  const listings = useMemo(() => buildComparison(ids, items, zones), [ids, items, zones]);
+
+  const removeListing = (listing: ComparedListing) => {
+    if (compared.some(item => item.id === listing.item.id)) {
+      toggleCompared(listing.item);
+    }
+    router.setParams({ ids: ids.filter(id => id !== listing.item.id).join(",") });
+  };
+
+  const row = flexDirection("row");
+
+  // One aligned row per figure, the best listing highlighted
+  const renderFigure = (
+    figure: ComparisonFigure,
+    label: string,
+    format: (value: number) => string
+  ) => {
+    const best = bestOnFigure(listings, figure);
+    return (
+      <View style={[styles.section, { borderColor: theme.border.primary }]} key={figure}>
+        <Text style={[styles.label, { color: theme.text.secondary, textAlign: textAlign("right") }]}>{label}</Text>
+        <View style={[styles.cells, { flexDirection: row }]}>
+          {listings.map(listing => {
+            const value = figureValue(listing, figure);
+            const isBest = best.includes(listing.item.id);
+            return (
+              <View key={listing.item.id} style={styles.cell}>
+                <Text style={[styles.value, { color: isBest ? "#2E9E5B" : theme.text.primary }, isBest && styles.bestValue]}>
+                  {value === null ? UNKNOWN : format(value)}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background.primary }]}>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <FontAwesome name="arrow-right" size={18} color={theme.text.primary} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: theme.text.primary, textAlign: textAlign("right") }]} numberOfLines={1}>
+          {t("comparison.title")}
+        </Text>
+      </View>
+
+      {loading && listings.length === 0 ? (
+        <ActivityIndicator style={{ margin: 40 }} color={theme.brand.primary} />
+      ) : listings.length === 0 ? (
+        <View style={styles.empty}>
+          <Text style={[styles.emptyText, { color: theme.text.secondary }]}>
+            {error ?? t("comparison.noListings")}
+          </Text>
+          {error ? <Button onPress={load}>{t("home.retryButton")}</Button> : null}
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+          <Text style={[styles.note, { color: theme.text.secondary, textAlign: textAlign("right") }]}>
+            {hasBusinessType
+              ? t("comparison.scoredFor", { type: businessType ? businessTypeLabel(businessType, i18n.language) : selectedBusinessType })
+              : t("comparison.chooseBusinessType")}
+          </Text>
+          {error ? (
+            <Text style={[styles.note, { color: theme.text.secondary, textAlign: textAlign("right") }]}>{error}</Text>
+          ) : null}
+
+          {/* Photos and titles */}
+          <View style={[styles.cells, { flexDirection: row }]}>
+            {listings.map(listing => (
+              <View key={listing.item.id} style={styles.cell}>
+                <TouchableOpacity
+                  style={styles.photoButton}
+                  onPress={() => router.push({ pathname: "/placeDetails", params: { id: listing.item.id } })}
+                >
+                  <Image
+                    source={{ uri: normalizeListingImages(listing.item.images ?? listing.item.image).cover }}
+                    style={styles.photo}
+                    resizeMode="cover"
+                  />
+                  <Text style={[styles.listingTitle, { color: theme.text.primary }]} numberOfLines={2}>
+                    {listing.item.title}
+                  </Text>
+                </TouchableOpacity>
+                {listings.length > 1 ? (
+                  <TouchableOpacity onPress={() => removeListing(listing)} style={styles.removeButton}>
+                    <FontAwesome name="times" size={10} color="#fff" />
+                  </TouchableOpacity>
+                ) : null}
+              </View>
+            ))}
+          </View>
+
+          {renderFigure("price", t("comparison.price"), formatNumber)}
+          {renderFigure("pricePerSqm", t("comparison.pricePerSqm"), formatNumber)}
+          {renderFigure("area", t("comparison.area"), value => `${formatNumber(value)} m²`)}
+
+          <View style={[styles.section, { borderColor: theme.border.primary }]}>
+            <Text style={[styles.label, { color: theme.text.secondary, textAlign: textAlign("right") }]}>
+              {t("comparison.zone")}
+            </Text>
+            <View style={[styles.cells, { flexDirection: row }]}>
+              {listings.map(listing => (
+                <View key={listing.item.id} style={styles.cell}>
+                  <Text style={[styles.value, { color: theme.text.primary }]} numberOfLines={2}>
+                    {listing.zone?.district_name
+                      || (listing.item.zone_id !== undefined ? t("recommendation.zoneLabel", { id: listing.item.zone_id }) : UNKNOWN)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </View>
+
+          {hasBusinessType ? (
+            <>
+              {renderFigure("zoneScore", t("comparison.zoneScore"), value => `${Math.round(value)}/100`)}
+              {renderFigure("competitors", t("comparison.competitors"), formatNumber)}
+              {listings.some(listing => listing.zone === null) && !loading ? (
+                <Text style={[styles.note, { color: theme.text.secondary, textAlign: textAlign("right") }]}>
+                  {t("comparison.notRanked")}
+                </Text>
+              ) : null}
+            </>
+          ) : null}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    paddingTop: 60,
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  backButton: { padding: 8 },
+  title: { flex: 1, fontSize: typography.heading.h3.fontSize, fontWeight: "600", marginRight: 8 },
+  content: { paddingHorizontal: spacing[3], paddingBottom: spacing[6] },
+  note: { fontSize: typography.body.small.fontSize, marginBottom: spacing[3] },
+  cells: { gap: 8 },
+  cell: { flex: 1, alignItems: "center" },
+  photoButton: { width: "100%" },
+  photo: { width: "100%", aspectRatio: 1, borderRadius: 8, backgroundColor: "#E5E5E5" },
+  listingTitle: { fontSize: typography.body.small.fontSize, fontWeight: "600", textAlign: "center", marginTop: 6 },
+  removeButton: {
+    position: "absolute",
+    top: 4,
+    right: 4,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(0, 0, 0, 0.55)",
+  },
+  section: { borderTopWidth: StyleSheet.hairlineWidth, paddingVertical: spacing[3], marginTop: spacing[2] },
+  label: { fontSize: typography.body.small.fontSize, marginBottom: 6 },
+  value: { fontSize: typography.body.medium.fontSize, textAlign: "center" },
+  bestValue: { fontWeight: "700" },
+  empty: { alignItems: "center", padding: 24, gap: 12 },
+  emptyText: { fontSize: typography.body.medium.fontSize, textAlign: "center" },
+});
+
+export default CompareListingsScreen;
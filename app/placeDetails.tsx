@@ -1,9 +1,17 @@
 import React, { useState, useEffect, useRef, memo, useMemo, useCallback } from 'react';
-import { View, Text, ScrollView, StyleSheet, TouchableOpacity, Image, Dimensions, NativeSyntheticEvent, NativeScrollEvent, StatusBar, ActivityIndicator } from 'react-native';
+import { View, Text, ScrollView, StyleSheet, TouchableOpacity, Image, Dimensions, NativeSyntheticEvent, NativeScrollEvent, StatusBar, ActivityIndicator, Alert } from 'react-native';
 import { useRouter, useLocalSearchParams, Stack } from 'expo-router';
 import { MarketplaceItem, images } from '../components/types';
 import { useFavorites } from '../src/context/FavoritesContext';
-import { EXPO_PUBLIC_SUPABASE_URL, EXPO_PUBLIC_SUPABASE_ANON_KEY, PLACEHOLDER_IMAGE_URL } from '@config/env';
+import { useAuth } from '../src/context/AuthContext';
+import { useChat } from '../src/context/ChatContext';
+import { rest } from '@lib/restClient';
+import { ListingsTable, ListingRow } from '@lib/schema';
+import { staleWhileRevalidate } from '@lib/offlineCache';
+import { normalizeListingImages } from '@utils/listingImages';
+import { createLogger } from '@lib/logger';
+
+const log = createLogger('placeDetails');
 
 const { width } = Dimensions.get('window');
 
@@ -24,8 +32,8 @@ const OptimizedDetailImage = memo(({ uri, index }: { uri: string; index: number
       source={{ uri }}
       style={{ width, height: '100%' }}
       resizeMode="cover"
-      onLoad={() => console.log(`Image ${index} loaded successfully in details view`)}
-      onError={() => console.log(`Error loading image ${index} in details view`)}
+      onLoad={() => log.debug(`Image ${index} loaded successfully in details view`)}
+      onError={() => log.debug(`Error loading image ${index} in details view`)}
       defaultSource={require('../assets/images/dummy1.png')}
     />
   );
@@ -45,6 +53,9 @@ export default function PlaceDetails() {
   const router = useRouter();
   const { id } = useLocalSearchParams();
   const { isFavorite, addFavorite, removeFavorite } = useFavorites();
+  const { user } = useAuth();
+  const { openConversationForListing } = useChat();
+  const [openingChat, setOpeningChat] = useState(false);
   const sliderRef = React.useRef<ScrollView>(null);
   const [showActionsInHeader, setShowActionsInHeader] = React.useState(false);
   const [place, setPlace] = useState<MarketplaceItem | null>(null);
@@ -52,164 +63,69 @@ export default function PlaceDetails() {
   const [propertyImages, setPropertyImages] = useState<string[]>([]);
   const [activeImageIndex, setActiveImageIndex] = useState(0);
   
-  // Fetch the specific listing details and similar listings
+  // Fetch the specific listing details; a saved copy shows at once and keeps the screen usable offline
   useEffect(() => {
+    const showListing = (listing: ListingRow) => {
+      // Format the listing data to match MarketplaceItem structure
+      const { cover, gallery } = normalizeListingImages(listing.Images);
+      log.debug(`Found ${gallery.length} images for property details`);
+      setPropertyImages(gallery);
+
+      // Format price with thousand separators; left empty when the listing has no price
+      const price = listing.Price !== null
+        ? `${new Intl.NumberFormat('ar-SA').format(listing.Price)} ريال`
+        : '';
+
+      const formattedListing: MarketplaceItem = {
+        id: listing.Listing_ID.toString(),
+        title: listing.Title || '',
+        price: price,
+        priceValue: listing.Price,
+        size: listing.Area ? `${listing.Area} م²` : '',
+        area: listing.Area,
+        location: `منطقة ${listing.zone_id || '1'}`,
+        image: cover,
+        businessName: listing.Title || '',
+        businessType: 'property',
+        latitude: listing.Latitude ?? undefined,
+        longitude: listing.Longitude ?? undefined,
+        zone_id: listing.zone_id ?? undefined,
+        favorites_count: listing.favorites_count,
+        images: gallery,
+        originalData: listing
+      };
+
+      setPlace(formattedListing);
+    };
+
     const fetchBusinessDetails = async () => {
       try {
         setIsLoading(true);
-        
-        console.log('Fetching real-time listing details for ID:', id);
-        const response = await fetch(
-          `${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/Listings?Listing_ID=eq.${id}`,
-          {
-            method: 'GET',
-            headers: {
-              'apikey': EXPO_PUBLIC_SUPABASE_ANON_KEY,
-              'Authorization': `Bearer ${EXPO_PUBLIC_SUPABASE_ANON_KEY}`,
-              'Content-Type': 'application/json',
-              'Cache-Control': 'no-cache, no-store' // Ensure we get fresh data every time
+
+        log.debug('Fetching listing details for ID:', id);
+        const { value: listing } = await staleWhileRevalidate(
+          `listing:${id}`,
+          () => rest.from(ListingsTable).eq('Listing_ID', String(id)).first(),
+          cached => {
+            if (cached.value) {
+              showListing(cached.value);
+              setIsLoading(false);
             }
           }
         );
-        
-        if (!response.ok) {
-          throw new Error(`Error fetching listing: ${response.status}`);
-        }
-        
-        const data = await response.json();
-        console.log('Fetched listing data:', data);
-        
-        if (data && data.length > 0) {
-          // Format the listing data to match MarketplaceItem structure
-          const listing = data[0];
-          
-          // Enhanced image handling for details page
-          let imageSource: string = 'PLACEHOLDER_IMAGE_URL';
-          
-          console.log('Property details images field:', listing.Images);
-          
-          try {
-            // Check if Images exists and parse it appropriately
-            if (listing.Images) {
-              // Handle array format
-              if (Array.isArray(listing.Images) && listing.Images.length > 0) {
-                imageSource = listing.Images[0];
-                console.log('Using image from array in details view:', imageSource);
-              }
-              // Handle string format
-              else if (typeof listing.Images === 'string') {
-                const imagesString = listing.Images as string;
-                
-                // Try to parse as JSON if it looks like JSON
-                if (imagesString.startsWith('[')) {
-                  try {
-                    const parsedImages = JSON.parse(imagesString);
-                    if (Array.isArray(parsedImages) && parsedImages.length > 0) {
-                      imageSource = parsedImages[0];
-                      console.log('Using image from parsed JSON in details view:', imageSource);
-                    } else if (imagesString.includes('http')) {
-                      // Use the string directly if it's a URL
-                      imageSource = imagesString;
-                      console.log('Using image string directly in details view:', imageSource);
-                    }
-                  } catch (e) {
-                    // If it fails to parse but looks like a URL, use it directly
-                    if (imagesString.includes('http')) {
-                      imageSource = imagesString;
-                      console.log('Using string as URL in details view after parse fail:', imageSource);
-                    }
-                  }
-                } else if (imagesString.includes('http')) {
-                  // Use the string directly if it's a URL and not JSON
-                  imageSource = imagesString;
-                  console.log('Using string URL directly in details view:', imageSource);
-                }
-              }
-              // Handle object format
-              else if (typeof listing.Images === 'object' && listing.Images !== null) {
-                try {
-                  const imagesObject = listing.Images as Record<string, any>;
-                  // Find any URL in the object
-                  const possibleUrl = Object.values(imagesObject).find(val => 
-                    typeof val === 'string' && val.includes('http'));
-                  
-                  if (possibleUrl && typeof possibleUrl === 'string') {
-                    imageSource = possibleUrl;
-                    console.log('Found URL in object for details view:', imageSource);
-                  }
-                } catch (error) {
-                  console.error('Error extracting image URL from object in details view:', error);
-                }
-              }
-            }
-            
-            // Final check to ensure the URL is valid
-            if (!imageSource || !imageSource.includes('http')) {
-              imageSource = 'PLACEHOLDER_IMAGE_URL';
-              console.log('Using placeholder in details view - no valid URL found');
-            }
-          } catch (error) {
-            console.error('Error processing image in details view:', error);
-            imageSource = 'PLACEHOLDER_IMAGE_URL';
-          }
-          
-          // Format price with thousand separators if it's a number
-          const price = typeof listing.Price === 'number' 
-            ? `${new Intl.NumberFormat('ar-SA').format(listing.Price)} ريال` 
-            : listing.Price || '0 ريال';
-          
-          // Extract all available images for this property
-          let allImages: string[] = [];
-          
-          // First check for processedImages from our API processing
-          if (listing.processedImages && Array.isArray(listing.processedImages)) {
-            allImages = listing.processedImages;
-          }
-          // If we don't have processedImages, check if the image is a pipe-separated string
-          else if (typeof imageSource === 'string' && imageSource.includes('|')) {
-            allImages = imageSource.split(/\s*\|\s*/).filter(url => url.includes('http'));
-          }
-          // Single image
-          else if (typeof imageSource === 'string' && imageSource.includes('http')) {
-            allImages = [imageSource];
-          }
-          
-          // If we still don't have any images, use a placeholder
-          if (allImages.length === 0) {
-            allImages = ['PLACEHOLDER_IMAGE_URL'];
-          }
-          
-          console.log(`Found ${allImages.length} images for property details`);
-          setPropertyImages(allImages);
-          
-          const formattedListing: MarketplaceItem = {
-            id: listing.Listing_ID.toString(),
-            title: listing.Title || '',
-            price: price,
-            size: listing.Area ? `${listing.Area} م²` : '',
-            location: `منطقة ${listing.zone_id || '1'}`,
-            image: imageSource,
-            businessName: listing.Title || '',
-            businessType: 'property',
-            latitude: listing.Latitude,
-            longitude: listing.Longitude,
-            zone_id: listing.zone_id,
-            originalData: listing
-          };
-          
-          setPlace(formattedListing);
+
+        if (listing) {
+          showListing(listing);
         } else {
-          console.error('No business found with ID:', id);
+          log.error('No business found with ID:', id);
         }
       } catch (error) {
-        console.error('Error fetching business details:', error);
+        log.error('Error fetching business details:', error);
       } finally {
         setIsLoading(false);
       }
     };
-    
-    // No similar properties feature as requested
-    
+
     if (id) {
       fetchBusinessDetails();
     }
@@ -242,6 +158,27 @@ export default function PlaceDetails() {
     }
   }, [place, isFavorite, addFavorite, removeFavorite]);
 
+  const ownerId = (place?.originalData as ListingRow | undefined)?.owner_id;
+  const isOwnListing = user?.role === 'owner' && ownerId != null && ownerId === user.id;
+  // Entrepreneurs can message the owner of a listing that has one
+  const canMessageOwner = user?.role === 'entrepreneur' && ownerId != null;
+
+  const handleMessageOwner = async () => {
+    if (!place || openingChat) return;
+    setOpeningChat(true);
+    try {
+      const conversation = await openConversationForListing(place.id);
+      router.push({
+        pathname: '/chatScreen',
+        params: { conversationId: String(conversation.id), name: conversation.otherName }
+      });
+    } catch (error: any) {
+      Alert.alert('تعذر بدء المحادثة', error?.message || 'حاول مرة أخرى لاحقاً');
+    } finally {
+      setOpeningChat(false);
+    }
+  };
+
   // Show loading state while fetching data
   if (isLoading) {
     return (
@@ -394,13 +331,26 @@ export default function PlaceDetails() {
           {/* Price with Saudi Riyal Symbol */}
           <View style={styles.priceContainer}>
             <Image source={saudiRiyalSymbol} style={styles.riyalSymbol} resizeMode="contain" />
-            <Text style={styles.price}>{place.price ? place.price.toString().replace('ريال', '').trim() : ''}</Text>
+            <Text style={styles.price}>{place.price ? place.price.toString().replace('ريال', '').trim() : 'السعر غير متوفر'}</Text>
           </View>
 
           {/* Location and Size */}
           <Text style={styles.location}>{place.location}</Text>
           <Text style={styles.areaSize}>{place.size}</Text>
+
+          {/* How many entrepreneurs saved it, shown to the listing's owner */}
+          {isOwnListing && (
+            <Text style={styles.savedBy}>حفظه {place.favorites_count ?? 0} من رواد الأعمال في المفضلة</Text>
+          )}
           
+          {canMessageOwner && (
+            <TouchableOpacity style={styles.messageOwnerButton} onPress={handleMessageOwner} disabled={openingChat}>
+              {openingChat
+                ? <ActivityIndicator color="white" />
+                : <Text style={styles.messageOwnerText}>مراسلة المالك</Text>}
+            </TouchableOpacity>
+          )}
+
           {/* Coordinates if available */}
           {place.latitude && place.longitude && (
             <Text style={styles.coordinates}>الإحداثيات: {place.latitude}, {place.longitude}</Text>
@@ -577,6 +527,24 @@ const styles = StyleSheet.create({
     marginBottom: 10,
     textAlign: 'right',
   },
+  savedBy: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 10,
+    textAlign: 'right',
+  },
+  messageOwnerButton: {
+    backgroundColor: '#F5A623',
+    paddingVertical: 12,
+    borderRadius: 6,
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  messageOwnerText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   coordinates: {
     fontSize: 14,
     color: '#64748B',
@@ -0,0 +1,118 @@
+// SharedCollectionScreen.tsx - Read-only view of a favorite collection opened from a shared link
+import React, { FC, useState, useEffect } from "react";
+import {
+  View,
+  SafeAreaView,
+  StyleSheet,
+  FlatList,
+  Text,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { FontAwesome } from "@expo/vector-icons";
+import { useTranslation } from "react-i18next";
+import { useRouter, useLocalSearchParams, Stack } from "expo-router";
+
+import MarketCard from "@components/MarketCard";
+import { supabaseApi, SharedCollection } from "@lib/supabase";
+import { useTheme } from "@context/ThemeContext";
+import { useRTL } from "@hooks/useRTL";
+import { Button } from "@components/design-system/Button";
+import { spacing, typography } from "../constants/design-tokens";
+
+const SharedCollectionScreen: FC = () => {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { theme } = useTheme();
+  const { textAlign } = useRTL();
+  const { token } = useLocalSearchParams<{ token: string }>();
+
+  const [collection, setCollection] = useState<SharedCollection | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // A stopped share or a mistyped link is not worth retrying
+  const [notFound, setNotFound] = useState(false);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      setCollection(await supabaseApi.getSharedCollection(token ?? ""));
+      setError(null);
+      setNotFound(false);
+    } catch (e: any) {
+      if (e?.status === 400 || e?.status === 404) {
+        setNotFound(true);
+      } else {
+        setError(t("recommendation.listingsLoadError"));
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [token]);
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background.primary }]}>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => (router.canGoBack() ? router.back() : router.replace("/"))} style={styles.backButton}>
+          <FontAwesome name="arrow-right" size={18} color={theme.text.primary} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: theme.text.primary, textAlign: textAlign("right") }]} numberOfLines={1}>
+          {collection?.name ?? t("favoriteCollections.sharedTitle")}
+        </Text>
+      </View>
+      {collection && (
+        <Text style={[styles.readOnly, { color: theme.text.secondary, textAlign: textAlign("right") }]}>
+          {t("favoriteCollections.sharedReadOnly")}
+        </Text>
+      )}
+
+      <FlatList
+        data={collection?.listings ?? []}
+        keyExtractor={item => item.id}
+        renderItem={({ item }) => <MarketCard item={item} />}
+        ListEmptyComponent={
+          loading ? (
+            <ActivityIndicator style={{ margin: 40 }} color={theme.brand.primary} />
+          ) : (
+            <View style={styles.empty}>
+              <Text style={[styles.emptyText, { color: theme.text.secondary }]}>
+                {notFound
+                  ? t("favoriteCollections.sharedNotFound")
+                  : error ?? t("favoriteCollections.empty")}
+              </Text>
+              {error && !notFound ? (
+                <Button onPress={load}>{t("home.retryButton")}</Button>
+              ) : null}
+            </View>
+          )
+        }
+        contentContainerStyle={{ paddingHorizontal: spacing[3], paddingBottom: spacing[6] }}
+        showsVerticalScrollIndicator={false}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    paddingTop: 60,
+    paddingHorizontal: 16,
+    paddingBottom: 4,
+  },
+  backButton: { padding: 8 },
+  title: { flex: 1, fontSize: typography.heading.h3.fontSize, fontWeight: "600", marginRight: 8 },
+  readOnly: { fontSize: typography.body.small.fontSize, paddingHorizontal: 24, paddingBottom: 12 },
+  empty: { alignItems: "center", padding: 24, gap: 12 },
+  emptyText: { fontSize: typography.body.medium.fontSize, textAlign: "center" },
+});
+
+export default SharedCollectionScreen;
@@ -0,0 +1,135 @@
+// ZoneListingsScreen.tsx - Listings available in one zone, opened from the Best Locations tab
+import React, { FC, useState, useEffect, useRef } from "react";
+import {
+  View,
+  SafeAreaView,
+  StyleSheet,
+  FlatList,
+  Text,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { FontAwesome } from "@expo/vector-icons";
+import { useTranslation } from "react-i18next";
+import { useRouter, useLocalSearchParams, Stack } from "expo-router";
+
+import MarketCard from "@components/MarketCard";
+import { supabaseApi } from "@lib/supabase";
+import { useTheme } from "@context/ThemeContext";
+import { useRTL } from "@hooks/useRTL";
+import { MarketplaceItem } from "@components/types";
+import { Button } from "@components/design-system/Button";
+import { spacing, typography } from "../constants/design-tokens";
+
+const PAGE_SIZE = 20;
+
+const ZoneListingsScreen: FC = () => {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { theme } = useTheme();
+  const { textAlign } = useRTL();
+  const { zoneId, title } = useLocalSearchParams<{ zoneId: string; title?: string }>();
+
+  const [items, setItems] = useState<MarketplaceItem[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [moreLoading, setMoreLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Guards against a second load-more while the first is in flight
+  const loadingMore = useRef(false);
+
+  const fetchPage = async (pageNum: number) => {
+    const zone = Number(zoneId);
+    if (!Number.isInteger(zone)) {
+      setLoading(false);
+      setHasMore(false);
+      return;
+    }
+    try {
+      const results = await supabaseApi.fetchListings(pageNum, PAGE_SIZE, { zoneIds: [zone] });
+      setItems(prev => (pageNum === 1 ? results : [...prev, ...results]));
+      setPage(pageNum);
+      setHasMore(results.length === PAGE_SIZE);
+      setError(null);
+    } catch (e) {
+      setError(t("recommendation.listingsLoadError"));
+    } finally {
+      setLoading(false);
+      setMoreLoading(false);
+      loadingMore.current = false;
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    fetchPage(1);
+  }, [zoneId]);
+
+  const loadMore = () => {
+    if (!hasMore || loading || loadingMore.current) return;
+    loadingMore.current = true;
+    setMoreLoading(true);
+    fetchPage(page + 1);
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background.primary }]}>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <FontAwesome name="arrow-right" size={18} color={theme.text.primary} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: theme.text.primary, textAlign: textAlign("right") }]} numberOfLines={1}>
+          {title || t("recommendation.zoneLabel", { id: zoneId })}
+        </Text>
+      </View>
+
+      <FlatList
+        data={items}
+        keyExtractor={item => item.id}
+        renderItem={({ item }) => <MarketCard item={item} />}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListEmptyComponent={
+          loading ? (
+            <ActivityIndicator style={{ margin: 40 }} color={theme.brand.primary} />
+          ) : (
+            <View style={styles.empty}>
+              <Text style={[styles.emptyText, { color: theme.text.secondary }]}>
+                {error ?? t("recommendation.noListings")}
+              </Text>
+              {error ? (
+                <Button onPress={() => { setLoading(true); fetchPage(1); }}>{t("home.retryButton")}</Button>
+              ) : null}
+            </View>
+          )
+        }
+        ListFooterComponent={
+          moreLoading ? <ActivityIndicator style={{ margin: 20 }} color={theme.brand.primary} /> : null
+        }
+        contentContainerStyle={{ paddingHorizontal: spacing[3], paddingBottom: spacing[6] }}
+        showsVerticalScrollIndicator={false}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    paddingTop: 60,
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  backButton: { padding: 8 },
+  title: { flex: 1, fontSize: typography.heading.h3.fontSize, fontWeight: "600", marginRight: 8 },
+  empty: { alignItems: "center", padding: 24, gap: 12 },
+  emptyText: { fontSize: typography.body.medium.fontSize, textAlign: "center" },
+});
+
+export default ZoneListingsScreen;
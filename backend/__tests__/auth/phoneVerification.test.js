@@ -0,0 +1,178 @@
+/**
+ * Phone Verification Flow Test Suite
+ *
+ * Drives register → resend → verify-phone through the auth routes with the outbox SMS
+ * provider and an in-memory Supabase, so the whole OTP flow runs without network access.
+ * Also checks that parallel wrong guesses cannot go past the attempt limit.
+ */
+
+const os = require('os');
+const path = require('path');
+const http = require('http');
+
+process.env.SUPABASE_URL = 'http://supabase.test';
+process.env.SUPABASE_KEY = 'service-role-key';
+process.env.JWT_SECRET = 'test-access-secret';
+process.env.JWT_REFRESH_SECRET = 'test-refresh-secret';
+process.env.SMS_PROVIDER = 'outbox';
+process.env.SMS_OUTBOX_PATH = path.join(os.tmpdir(), `rukn-sms-outbox-${process.pid}-verification.json`);
+
+jest.mock('@supabase/supabase-js', () => require('../helpers/fakeSupabase'));
+
+const express = require('express');
+const { db } = require('../helpers/fakeSupabase');
+const outbox = require('../../utils/sms/providers/outbox');
+const verificationCodes = require('../../models/verificationCodes');
+const authRoutes = require('../../routes/auth');
+
+let server;
+let baseUrl;
+
+const request = async (method, route, { body, token } = {}) => {
+  const response = await fetch(`${baseUrl}${route}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept-Language': 'en',
+      ...(token ? { Authorization: `Bearer ${token}` } : {})
+    },
+    body: body ? JSON.stringify(body) : undefined
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+// الرمز من آخر رسالة في صندوق الرسائل
+const lastCodeSentTo = (phone) => {
+  const message = outbox.lastMessageTo(phone);
+  return message ? message.body.match(/\d{6}/)[0] : null;
+};
+
+const otherCode = (code) => String((Number(code) + 1) % 1000000).padStart(6, '0');
+
+const register = (email, phone) =>
+  request('POST', '/auth/register', {
+    body: { email, password: 'secret123', name: 'رائد', phone, role: 'entrepreneur' }
+  });
+
+// تجاوز فترة الانتظار بين طلبات إعادة الإرسال
+const expireResendCooldown = () => {
+  db.rows('verification_codes').forEach(row => {
+    row.sent_at = new Date(Date.now() - 5 * 60 * 1000).toISOString();
+  });
+};
+
+beforeAll(async () => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  const app = express();
+  app.use(express.json());
+  app.use('/auth', authRoutes);
+  server = http.createServer(app);
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  outbox.clearOutbox();
+  require('fs').unlinkSync(outbox.path);
+  jest.restoreAllMocks();
+});
+
+beforeEach(() => {
+  db.reset();
+  outbox.clearOutbox();
+});
+
+describe('phone verification flow', () => {
+  it('registers, resends after the cooldown and verifies the phone with the latest code', async () => {
+    const registered = await register('flow@example.com', '0512345678');
+    expect(registered.status).toBe(201);
+    expect(registered.body.verification_required).toBe(true);
+    expect(registered.body.user).not.toHaveProperty('password_hash');
+    const token = registered.body.session.access_token;
+
+    // الرمز أُرسل بلغة الطلب إلى الرقم بالصيغة الدولية
+    const firstCode = lastCodeSentTo('+966512345678');
+    expect(firstCode).toMatch(/^\d{6}$/);
+    expect(outbox.lastMessageTo('+966512345678').body).toContain('Your Rukn verification code');
+
+    const tooSoon = await request('POST', '/auth/resend-verification', { token });
+    expect(tooSoon.status).toBe(429);
+    expect(tooSoon.body.code).toBe('resend_cooldown');
+
+    expireResendCooldown();
+    const resent = await request('POST', '/auth/resend-verification', { token });
+    expect(resent.status).toBe(200);
+    expect(resent.body.verification.attempts_remaining).toBe(5);
+    expect(outbox.readOutbox()).toHaveLength(2);
+    const latestCode = lastCodeSentTo('+966512345678');
+
+    const wrong = await request('POST', '/auth/verify-phone', { token, body: { code: otherCode(latestCode) } });
+    expect(wrong.status).toBe(400);
+    expect(wrong.body).toMatchObject({ code: 'invalid_code', attempts_remaining: 4 });
+
+    const verified = await request('POST', '/auth/verify-phone', { token, body: { code: latestCode } });
+    expect(verified.status).toBe(200);
+    expect(verified.body.verified).toBe(true);
+
+    const status = await request('GET', '/auth/verification-status', { token });
+    expect(status.body).toMatchObject({ verified: true, verification: null });
+    expect(db.rows('entrepreneurs')[0].phone_verified).toBe(true);
+
+    // الرمز لا يُستخدم مرتين
+    const reused = await request('POST', '/auth/verify-phone', { token, body: { code: latestCode } });
+    expect(reused.status).toBe(400);
+    expect(reused.body.code).toBe('no_code');
+  });
+
+  it('does not resend a code to a verified phone', async () => {
+    const registered = await register('done@example.com', '0512345679');
+    const token = registered.body.session.access_token;
+    await request('POST', '/auth/verify-phone', { token, body: { code: lastCodeSentTo('+966512345679') } });
+
+    expireResendCooldown();
+    const resent = await request('POST', '/auth/resend-verification', { token });
+    expect(resent.status).toBe(400);
+    expect(resent.body.code).toBe('already_verified');
+  });
+
+  it('requires a session for the verification routes', async () => {
+    const response = await request('POST', '/auth/verify-phone', { body: { code: '123456' } });
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('verification attempts', () => {
+  it('counts parallel wrong guesses atomically and rejects the right code after the limit', async () => {
+    const user = { id: 1, role: 'entrepreneur' };
+    db.rows('entrepreneurs').push({ id: 1, email: 'guess@example.com', phone: '+966512340000' });
+    const record = await verificationCodes.createOrUpdateVerificationCode(user, '+966512340000');
+
+    const results = await Promise.all(
+      Array.from({ length: 8 }, () => verificationCodes.verifyCode(user, otherCode(record.code)))
+    );
+
+    expect(results.filter(result => result.reason === 'invalid_code')).toHaveLength(5);
+    expect(results.filter(result => result.reason === 'too_many_attempts')).toHaveLength(3);
+    expect(db.rows('verification_codes')[0].attempts).toBe(5);
+
+    const correct = await verificationCodes.verifyCode(user, record.code);
+    expect(correct).toMatchObject({ valid: false, reason: 'too_many_attempts' });
+  });
+
+  it('does not use an expired code', async () => {
+    const user = { id: 2, role: 'owner' };
+    const record = await verificationCodes.createOrUpdateVerificationCode(user, '+966512340001');
+    db.rows('verification_codes')[0].expires_at = new Date(Date.now() - 1000).toISOString();
+
+    const result = await verificationCodes.verifyCode(user, record.code);
+    expect(result).toMatchObject({ valid: false, reason: 'code_expired' });
+    expect(db.rows('verification_codes')[0].attempts).toBe(0);
+  });
+
+  it('generates six-digit codes', () => {
+    for (let i = 0; i < 50; i++) {
+      expect(verificationCodes.generateVerificationCode()).toMatch(/^\d{6}$/);
+    }
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Session Revocation Test Suite
+ *
+ * Tests that a refresh token works only once and stops working after logout or a password
+ * reset, while the account's other sessions survive a logout, and that the server refuses to
+ * start without a separate refresh token secret.
+ */
+
+process.env.SUPABASE_URL = 'http://supabase.test';
+process.env.SUPABASE_KEY = 'service-role-key';
+process.env.JWT_SECRET = 'test-access-secret';
+process.env.JWT_REFRESH_SECRET = 'test-refresh-secret';
+process.env.SMS_PROVIDER = 'console';
+
+jest.mock('@supabase/supabase-js', () => require('../helpers/fakeSupabase'));
+
+const http = require('http');
+const express = require('express');
+const { db } = require('../helpers/fakeSupabase');
+const { hashPassword } = require('../../utils/password');
+const verificationCodes = require('../../models/verificationCodes');
+const authRoutes = require('../../routes/auth');
+
+let server;
+let baseUrl;
+
+const request = async (route, body) => {
+  const response = await fetch(`${baseUrl}${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+const login = async (password = 'secret123') => {
+  const response = await request('/auth/login', { email: 'owner@example.com', password });
+  expect(response.status).toBe(200);
+  return response.body.session;
+};
+
+const refresh = (session) => request('/auth/refresh', { refresh_token: session.refresh_token });
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/auth', authRoutes);
+  server = http.createServer(app);
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(async () => {
+  db.reset();
+  db.rows('owners').push({
+    id: 1,
+    email: 'owner@example.com',
+    phone: '+966512345678',
+    password_hash: await hashPassword('secret123')
+  });
+});
+
+describe('logout', () => {
+  it('revokes the refresh token it is given and leaves other sessions signed in', async () => {
+    const phone = await login();
+    const tablet = await login();
+
+    const loggedOut = await request('/auth/logout', { refresh_token: phone.refresh_token });
+    expect(loggedOut.status).toBe(200);
+
+    expect((await refresh(phone)).status).toBe(401);
+    const renewed = await refresh(tablet);
+    expect(renewed.status).toBe(200);
+    expect((await refresh(renewed.body.session)).status).toBe(200);
+  });
+
+  it('ends the whole session when the newest token logs out', async () => {
+    const first = await login();
+    const renewed = await refresh(first);
+    expect(renewed.status).toBe(200);
+
+    await request('/auth/logout', { refresh_token: renewed.body.session.refresh_token });
+
+    expect((await refresh(first)).status).toBe(401);
+    expect((await refresh(renewed.body.session)).status).toBe(401);
+  });
+
+  it('drops revocations whose tokens have expired', async () => {
+    db.rows('revoked_refresh_tokens').push({ jti: 'old', expires_at: new Date(Date.now() - 1000).toISOString() });
+    const session = await login();
+
+    await request('/auth/logout', { refresh_token: session.refresh_token });
+
+    expect(db.rows('revoked_refresh_tokens').map(row => row.jti)).not.toContain('old');
+    expect(db.rows('revoked_refresh_tokens')).toHaveLength(1);
+  });
+
+  it('succeeds without a token or with an invalid one', async () => {
+    expect((await request('/auth/logout', {})).status).toBe(200);
+    expect((await request('/auth/logout', { refresh_token: 'not-a-token' })).status).toBe(200);
+    expect(db.rows('revoked_refresh_tokens')).toHaveLength(0);
+  });
+});
+
+describe('refresh', () => {
+  it('accepts each refresh token once', async () => {
+    const session = await login();
+
+    expect((await refresh(session)).status).toBe(200);
+    expect((await refresh(session)).status).toBe(401);
+  });
+});
+
+describe('password reset', () => {
+  it('ends every session issued before the reset', async () => {
+    const session = await login();
+    const user = { id: 1, role: 'owner' };
+    const { code } = await verificationCodes.createOrUpdateVerificationCode(
+      user, '+966512345678', verificationCodes.PURPOSES.PASSWORD_RESET
+    );
+
+    const reset = await request('/auth/reset-password', {
+      email: 'owner@example.com',
+      code,
+      new_password: 'new-secret'
+    });
+    expect(reset.status).toBe(200);
+
+    expect((await refresh(session)).status).toBe(401);
+    expect((await refresh(await login('new-secret'))).status).toBe(200);
+  });
+
+  it('does not expose the token version in the profile', async () => {
+    db.rows('owners')[0].token_version = 3;
+    const response = await request('/auth/login', { email: 'owner@example.com', password: 'secret123' });
+    expect(response.body.user).not.toHaveProperty('token_version');
+    expect((await refresh(response.body.session)).status).toBe(200);
+  });
+});
+
+describe('configuration', () => {
+  it('requires a separate refresh token secret', () => {
+    const secret = process.env.JWT_REFRESH_SECRET;
+    delete process.env.JWT_REFRESH_SECRET;
+    try {
+      jest.isolateModules(() => {
+        expect(() => require('../../utils/tokens')).toThrow('JWT_REFRESH_SECRET environment variable is required');
+      });
+    } finally {
+      process.env.JWT_REFRESH_SECRET = secret;
+    }
+  });
+});
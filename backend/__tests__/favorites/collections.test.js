@@ -0,0 +1,94 @@
+/**
+ * Favorite Collections Test Suite
+ *
+ * Tests that collections stay a subset of the owner's favorites: a listing can only be added
+ * to a collection once it is a favorite, and removing the favorite takes it out of every
+ * collection.
+ */
+
+process.env.SUPABASE_URL = 'http://supabase.test';
+process.env.SUPABASE_KEY = 'service-role-key';
+process.env.JWT_SECRET = 'test-access-secret';
+process.env.JWT_REFRESH_SECRET = 'test-refresh-secret';
+
+jest.mock('@supabase/supabase-js', () => require('../helpers/fakeSupabase'));
+
+const http = require('http');
+const express = require('express');
+const { db } = require('../helpers/fakeSupabase');
+const tokens = require('../../utils/tokens');
+const favoritesRoutes = require('../../routes/favorites');
+const collectionsRoutes = require('../../routes/favoriteCollections');
+
+const USER = { id: 1, role: 'entrepreneur', email: 'saver@example.com' };
+
+let server;
+let baseUrl;
+
+const request = async (method, route, body) => {
+  const response = await fetch(`${baseUrl}${route}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${tokens.issueTokens(USER).access_token}`
+    },
+    body: body ? JSON.stringify(body) : undefined
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+const itemsOf = (collectionId) =>
+  db.rows('favorite_collection_items')
+    .filter(item => item.collection_id === collectionId)
+    .map(item => item.listing_id);
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api', favoritesRoutes);
+  app.use('/api', collectionsRoutes);
+  server = http.createServer(app);
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => db.reset());
+
+describe('collections and favorites', () => {
+  it('refuses a listing that is not a favorite', async () => {
+    const { body } = await request('POST', '/api/favorite-collections', { name: 'خيارات الخبر' });
+    const collectionId = body.collection.id;
+
+    const added = await request('PUT', `/api/favorite-collections/${collectionId}/listings/42`);
+
+    expect(added.status).toBe(409);
+    expect(added.body.code).toBe('not_favorite');
+    expect(itemsOf(collectionId)).toEqual([]);
+  });
+
+  it('adds a favorite and drops it from the collection when it is unfavorited', async () => {
+    const { body } = await request('POST', '/api/favorite-collections', { name: 'خيارات الخبر' });
+    const collectionId = body.collection.id;
+
+    expect((await request('PUT', '/api/favorites/42')).status).toBe(200);
+    expect((await request('PUT', `/api/favorite-collections/${collectionId}/listings/42`)).status).toBe(200);
+    expect(itemsOf(collectionId)).toEqual([42]);
+
+    expect((await request('DELETE', '/api/favorites/42')).status).toBe(200);
+    expect(itemsOf(collectionId)).toEqual([]);
+    expect((await request('PUT', `/api/favorite-collections/${collectionId}/listings/42`)).status).toBe(409);
+  });
+
+  it('does not count another user\'s favorite', async () => {
+    db.rows('favorites').push({ entrepreneur_id: 2, listing_id: 42 });
+    const { body } = await request('POST', '/api/favorite-collections', { name: 'خيارات الخبر' });
+
+    const added = await request('PUT', `/api/favorite-collections/${body.collection.id}/listings/42`);
+
+    expect(added.status).toBe(409);
+  });
+});
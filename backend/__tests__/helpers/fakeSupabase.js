@@ -0,0 +1,144 @@
+// نسخة في الذاكرة من عميل Supabase تكفي لاستعلامات النماذج في الاختبارات دون شبكة
+// تُستخدم مع jest.mock('@supabase/supabase-js', () => require('../helpers/fakeSupabase'))
+//
+// تدعم from().select/insert/upsert/update/delete مع eq و lt و in و limit، واستدعاءات rpc المعرفة في RPC أدناه.
+// كل النماذج تشترك في قاعدة واحدة داخل ملف الاختبار، ويمكن قراءتها أو تعديلها عبر db.
+
+const tables = new Map();
+const sequences = new Map();
+
+const copy = (value) => JSON.parse(JSON.stringify(value));
+
+// PostgREST يحوّل قيم الفلاتر إلى نص، لذلك 5 و '5' متساويان
+const COMPARE = {
+  eq: (left, right) => String(left) === String(right),
+  lt: (left, right) => left < right,
+  in: (left, values) => values.some(value => String(left) === String(value))
+};
+
+const matches = (row, filters) => filters.every(([op, column, value]) => COMPARE[op](row[column], value));
+
+const rowsOf = (table) => {
+  if (!tables.has(table)) tables.set(table, []);
+  return tables.get(table);
+};
+
+const nextId = (table) => {
+  const id = (sequences.get(table) || 0) + 1;
+  sequences.set(table, id);
+  return id;
+};
+
+// دوال قاعدة البيانات كما في الترحيلات
+const RPC = {
+  claim_verification_attempt: ({ code_id, max_attempts }) =>
+    rowsOf('verification_codes')
+      .filter(row => String(row.id) === String(code_id) && row.attempts < max_attempts)
+      .map(row => {
+        row.attempts += 1;
+        return copy(row);
+      })
+};
+
+const execute = ({ table, operation, payload, options, filters, limit }) => {
+  const rows = rowsOf(table);
+
+  // upsert يدعم ignoreDuplicates فقط، وهو ما تستخدمه النماذج
+  if (operation === 'upsert') {
+    const columns = options.onConflict.split(',');
+    const fresh = (Array.isArray(payload) ? payload : [payload])
+      .filter(values => !rows.some(row => columns.every(column => COMPARE.eq(row[column], values[column]))));
+    return execute({ table, operation: 'insert', payload: fresh });
+  }
+
+  if (operation === 'insert') {
+    const inserted = (Array.isArray(payload) ? payload : [payload]).map(values => ({
+      id: nextId(table),
+      created_at: new Date().toISOString(),
+      ...copy(values)
+    }));
+    rows.push(...inserted);
+    return copy(inserted);
+  }
+
+  const found = rows.filter(row => matches(row, filters));
+
+  if (operation === 'update') {
+    found.forEach(row => Object.assign(row, copy(payload)));
+  }
+
+  if (operation === 'delete') {
+    tables.set(table, rows.filter(row => !found.includes(row)));
+  }
+
+  return copy(limit === undefined ? found : found.slice(0, limit));
+};
+
+const query = (table) => {
+  const state = { table, operation: 'select', payload: null, options: {}, filters: [], limit: undefined };
+
+  const builder = {
+    select() {
+      return builder;
+    },
+    insert(payload) {
+      Object.assign(state, { operation: 'insert', payload });
+      return builder;
+    },
+    upsert(payload, options = {}) {
+      Object.assign(state, { operation: 'upsert', payload, options });
+      return builder;
+    },
+    update(payload) {
+      Object.assign(state, { operation: 'update', payload });
+      return builder;
+    },
+    delete() {
+      state.operation = 'delete';
+      return builder;
+    },
+    eq(column, value) {
+      state.filters.push(['eq', column, value]);
+      return builder;
+    },
+    lt(column, value) {
+      state.filters.push(['lt', column, value]);
+      return builder;
+    },
+    in(column, values) {
+      state.filters.push(['in', column, values]);
+      return builder;
+    },
+    limit(count) {
+      state.limit = count;
+      return builder;
+    },
+    then(resolve, reject) {
+      return Promise.resolve()
+        .then(() => ({ data: execute(state), error: null }))
+        .then(resolve, reject);
+    }
+  };
+  return builder;
+};
+
+const client = {
+  from: query,
+  rpc: async (name, args) => {
+    if (!RPC[name]) {
+      return { data: null, error: new Error(`Unknown function ${name}`) };
+    }
+    return { data: RPC[name](args), error: null };
+  }
+};
+
+exports.createClient = () => client;
+
+// الوصول المباشر إلى الجداول لتجهيز حالة الاختبار أو فحصها
+exports.db = {
+  rows: rowsOf,
+  reset() {
+    tables.clear();
+    sequences.clear();
+  }
+};
@@ -0,0 +1,202 @@
+/**
+ * Rate Limit Test Suite
+ *
+ * Tests the sliding-window request limit, the lockout that doubles after repeated failures,
+ * the 429 responses with Retry-After, and the cap and sweep that keep both in-memory maps
+ * bounded. Times are passed in explicitly, or set with fake timers for the middleware.
+ */
+
+const { rateLimit, createLockout } = require('../../middleware/rateLimit');
+const { createSlidingWindow } = require('../../utils/slidingWindow');
+
+const START = Date.UTC(2026, 0, 1);
+
+// رد بسيط يسجل الحالة والهيدرات والجسم
+const fakeRes = () => ({
+  statusCode: 200,
+  headers: {},
+  set(name, value) {
+    this.headers[name] = value;
+    return this;
+  },
+  status(code) {
+    this.statusCode = code;
+    return this;
+  },
+  json(payload) {
+    this.body = payload;
+    return this;
+  }
+});
+
+// تشغيل الميدلوير وإرجاع الرد وهل مرّ الطلب
+const run = (middleware, req) => {
+  const res = fakeRes();
+  const next = jest.fn();
+  middleware(req, res, next);
+  return { res, passed: next.mock.calls.length === 1 };
+};
+
+beforeAll(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+describe('sliding window', () => {
+  it('allows up to the limit inside the window and frees slots as hits leave it', () => {
+    const window = createSlidingWindow({ max: 3, windowMs: 60000 });
+
+    expect(window.hit('a', START)).toEqual({ allowed: true, remaining: 2, retryAfter: 0 });
+    window.hit('a', START + 10000);
+    window.hit('a', START + 20000);
+    expect(window.hit('a', START + 30000)).toEqual({ allowed: false, remaining: 0, retryAfter: 30 });
+    expect(window.hit('b', START + 30000).allowed).toBe(true);
+
+    // الطلب الأول خرج من النافذة
+    expect(window.hit('a', START + 60000).allowed).toBe(true);
+  });
+
+  it('does not count rejected hits', () => {
+    const window = createSlidingWindow({ max: 1, windowMs: 60000 });
+    window.hit('a', START);
+    window.hit('a', START + 30000);
+    expect(window.hit('a', START + 60000).allowed).toBe(true);
+  });
+
+  it('clears a key on reset', () => {
+    const window = createSlidingWindow({ max: 1, windowMs: 60000 });
+    window.hit('a', START);
+    window.reset('a');
+    expect(window.hit('a', START + 1000).allowed).toBe(true);
+  });
+
+  it('sweeps keys whose hits have left the window and caps the number of keys', () => {
+    const window = createSlidingWindow({ max: 5, windowMs: 60000, maxKeys: 3 });
+    window.hit('old', START);
+    window.hit('recent', START + 50000);
+    window.hit('new', START + 70000);
+    expect(window.size).toBe(2);
+
+    window.hit('more', START + 71000);
+    window.hit('most', START + 72000);
+    expect(window.size).toBe(3);
+    // الأقدم يُحذف أولاً فيبدأ من جديد
+    expect(window.hit('recent', START + 73000).remaining).toBe(4);
+  });
+});
+
+describe('rateLimit middleware', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: START });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('answers 429 with Retry-After once the limit is reached', () => {
+    const limit = rateLimit({ name: 'test', max: 2, windowSeconds: 60, key: req => req.ip });
+    const req = { ip: '10.0.0.1' };
+
+    expect(run(limit, req).res.headers['X-RateLimit-Remaining']).toBe('1');
+    jest.advanceTimersByTime(15000);
+    expect(run(limit, req).passed).toBe(true);
+
+    const { res, passed } = run(limit, req);
+    expect(passed).toBe(false);
+    expect(res.statusCode).toBe(429);
+    expect(res.headers['Retry-After']).toBe('45');
+    expect(res.body).toMatchObject({ code: 'rate_limited', retry_after: 45 });
+  });
+
+  it('skips requests without a key', () => {
+    const limit = rateLimit({ name: 'test', max: 1, windowSeconds: 60, key: () => null });
+    expect(run(limit, {}).passed).toBe(true);
+    expect(run(limit, {}).passed).toBe(true);
+  });
+});
+
+describe('lockout', () => {
+  const create = (options = {}) =>
+    createLockout({ name: 'test', threshold: 3, baseSeconds: 60, maxSeconds: 600, ...options });
+
+  it('locks the key once failures reach the threshold', () => {
+    const lockout = create();
+    lockout.recordFailure('a', START);
+    lockout.recordFailure('a', START);
+    expect(lockout.retryAfter('a', START)).toBe(0);
+
+    lockout.recordFailure('a', START);
+    expect(lockout.retryAfter('a', START)).toBe(60);
+    expect(lockout.retryAfter('a', START + 45000)).toBe(15);
+    expect(lockout.retryAfter('a', START + 60000)).toBe(0);
+    expect(lockout.retryAfter('b', START)).toBe(0);
+  });
+
+  it('doubles the lock with each further failure up to maxSeconds', () => {
+    const lockout = create();
+    const locks = [];
+    for (let failure = 1; failure <= 7; failure++) {
+      lockout.recordFailure('a', START);
+      locks.push(lockout.retryAfter('a', START));
+    }
+    expect(locks).toEqual([0, 0, 60, 120, 240, 480, 600]);
+  });
+
+  it('starts over after a success', () => {
+    const lockout = create();
+    for (let failure = 0; failure < 3; failure++) lockout.recordFailure('a', START);
+
+    lockout.recordSuccess('a');
+
+    expect(lockout.retryAfter('a', START)).toBe(0);
+    lockout.recordFailure('a', START);
+    expect(lockout.retryAfter('a', START)).toBe(0);
+  });
+
+  it('forgets failures after maxSeconds without new attempts', () => {
+    const lockout = create();
+    for (let failure = 0; failure < 3; failure++) lockout.recordFailure('a', START);
+
+    lockout.recordFailure('a', START + 601000);
+    lockout.recordFailure('a', START + 601000);
+    expect(lockout.retryAfter('a', START + 601000)).toBe(0);
+  });
+
+  it('sweeps expired keys and caps the number of keys', () => {
+    const lockout = create({ maxKeys: 2 });
+    lockout.recordFailure('old', START);
+    lockout.recordFailure('recent', START + 500000);
+    lockout.recordFailure('new', START + 700000);
+    expect(lockout.size).toBe(2);
+
+    lockout.recordFailure('newest', START + 701000);
+    expect(lockout.size).toBe(2);
+  });
+
+  it('guard answers 429 with Retry-After while the key is locked', () => {
+    jest.useFakeTimers({ now: START });
+    try {
+      const lockout = create();
+      const guard = lockout.guard(req => req.body.email);
+      const req = { body: { email: 'owner@example.com' } };
+
+      expect(run(guard, req).passed).toBe(true);
+      for (let failure = 0; failure < 3; failure++) lockout.recordFailure('owner@example.com');
+
+      const { res, passed } = run(guard, req);
+      expect(passed).toBe(false);
+      expect(res.statusCode).toBe(429);
+      expect(res.headers['Retry-After']).toBe('60');
+      expect(res.body).toMatchObject({ code: 'account_locked', retry_after: 60 });
+
+      jest.advanceTimersByTime(60000);
+      expect(run(guard, req).passed).toBe(true);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
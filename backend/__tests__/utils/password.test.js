@@ -0,0 +1,148 @@
+/**
+ * Password Hashing Test Suite
+ *
+ * Tests the versioned PBKDF2 hash format, per-user salting, rehashing hashes made with
+ * fewer iterations, the upgrade path for legacy `hash_<password>_<timestamp>` records
+ * when their owner signs in, and that an unknown email costs the same hashing work as a
+ * wrong password.
+ */
+
+const crypto = require('crypto');
+
+process.env.SUPABASE_URL = 'http://supabase.test';
+process.env.SUPABASE_KEY = 'service-role-key';
+process.env.JWT_SECRET = 'test-access-secret';
+process.env.JWT_REFRESH_SECRET = 'test-refresh-secret';
+process.env.SMS_PROVIDER = 'console';
+
+jest.mock('@supabase/supabase-js', () => require('../helpers/fakeSupabase'));
+
+const { hashPassword, verifyPassword } = require('../../utils/password');
+const { db } = require('../helpers/fakeSupabase');
+const authController = require('../../controllers/authController');
+
+// تجزئة بصيغة pbkdf2_sha256 بعدد تكرارات أقل من السياسة الحالية
+const hashWithIterations = (password, iterations) => {
+  const salt = crypto.randomBytes(16);
+  const key = crypto.pbkdf2Sync(password, salt, iterations, 32, 'sha256');
+  return `pbkdf2_sha256$${iterations}$${salt.toString('hex')}$${key.toString('hex')}`;
+};
+
+// استدعاء المعالج بطلب ورد بسيطين
+const callLogin = async (body) => {
+  const res = {
+    statusCode: 200,
+    status(code) {
+      this.statusCode = code;
+      return this;
+    },
+    json(payload) {
+      this.body = payload;
+      return this;
+    }
+  };
+  await authController.login({ body, headers: {} }, res);
+  return res;
+};
+
+describe('hashPassword', () => {
+  it('produces a versioned hash string', async () => {
+    const [algorithm, iterations, salt, key] = (await hashPassword('s3cret!')).split('$');
+
+    expect(algorithm).toBe('pbkdf2_sha256');
+    expect(Number(iterations)).toBeGreaterThanOrEqual(100000);
+    expect(salt).toMatch(/^[0-9a-f]{32}$/);
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('never stores the plain-text password', async () => {
+    expect(await hashPassword('s3cret!')).not.toContain('s3cret!');
+  });
+
+  it('salts each hash independently', async () => {
+    expect(await hashPassword('same-password')).not.toBe(await hashPassword('same-password'));
+  });
+});
+
+describe('verifyPassword', () => {
+  it('accepts the correct password without asking for a rehash', async () => {
+    const hash = await hashPassword('correct horse');
+    expect(await verifyPassword('correct horse', hash)).toEqual({ valid: true, needsRehash: false });
+  });
+
+  it('rejects an incorrect password', async () => {
+    const hash = await hashPassword('correct horse');
+    expect(await verifyPassword('battery staple', hash)).toEqual({ valid: false, needsRehash: false });
+  });
+
+  it('asks for a rehash when iterations are below the current policy', async () => {
+    const hash = hashWithIterations('correct horse', 1000);
+    expect(await verifyPassword('correct horse', hash)).toEqual({ valid: true, needsRehash: true });
+    expect(await verifyPassword('wrong', hash)).toEqual({ valid: false, needsRehash: false });
+  });
+
+  it('rejects missing or malformed hashes', async () => {
+    expect((await verifyPassword('anything', null)).valid).toBe(false);
+    expect((await verifyPassword('anything', '')).valid).toBe(false);
+    expect((await verifyPassword('anything', 'plaintext')).valid).toBe(false);
+    expect((await verifyPassword('anything', 'pbkdf2_sha256$abc$00$00')).valid).toBe(false);
+    expect((await verifyPassword('anything', 'pbkdf2_sha256$1000$00$')).valid).toBe(false);
+    expect((await verifyPassword(undefined, await hashPassword('x'))).valid).toBe(false);
+  });
+});
+
+describe('legacy hashes', () => {
+  it('accepts and flags a matching legacy hash for upgrade', async () => {
+    expect(await verifyPassword('mypassword', 'hash_mypassword_1712345678901')).toEqual({ valid: true, needsRehash: true });
+  });
+
+  it('handles legacy passwords containing underscores', async () => {
+    expect((await verifyPassword('my_pass_word', 'hash_my_pass_word_1712345678901')).valid).toBe(true);
+  });
+
+  it('rejects a non-matching legacy hash', async () => {
+    expect(await verifyPassword('wrong', 'hash_mypassword_1712345678901')).toEqual({ valid: false, needsRehash: false });
+  });
+});
+
+describe('sign-in upgrade', () => {
+  beforeEach(() => db.reset());
+
+  it('replaces a legacy hash with a PBKDF2 hash when the owner signs in', async () => {
+    db.rows('owners').push({ id: 7, email: 'legacy@example.com', password_hash: 'hash_old_pass_1712345678901' });
+
+    const response = await callLogin({ email: 'legacy@example.com', password: 'old_pass' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body.user).toMatchObject({ id: 7, role: 'owner' });
+    expect(response.body.user).not.toHaveProperty('password_hash');
+    const upgraded = db.rows('owners')[0].password_hash;
+    expect(upgraded).toMatch(/^pbkdf2_sha256\$/);
+    expect(await verifyPassword('old_pass', upgraded)).toEqual({ valid: true, needsRehash: false });
+  });
+
+  it('leaves the stored hash alone when the password is wrong', async () => {
+    db.rows('entrepreneurs').push({ id: 3, email: 'legacy2@example.com', password_hash: 'hash_old_pass_1712345678901' });
+
+    const response = await callLogin({ email: 'legacy2@example.com', password: 'guess' });
+
+    expect(response.statusCode).toBe(401);
+    expect(db.rows('entrepreneurs')[0].password_hash).toBe('hash_old_pass_1712345678901');
+  });
+
+  it('derives a key for an unknown email as it does for a wrong password', async () => {
+    db.rows('owners').push({ id: 8, email: 'known@example.com', password_hash: await hashPassword('right') });
+    const pbkdf2 = jest.spyOn(crypto, 'pbkdf2');
+
+    try {
+      const wrongPassword = await callLogin({ email: 'known@example.com', password: 'guess' });
+      const unknownEmail = await callLogin({ email: 'nobody@example.com', password: 'guess' });
+
+      expect(unknownEmail).toMatchObject({ statusCode: 401, body: wrongPassword.body });
+      expect(pbkdf2).toHaveBeenCalledTimes(2);
+      expect(pbkdf2.mock.calls[1][2]).toBe(pbkdf2.mock.calls[0][2]);
+    } finally {
+      pbkdf2.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * SMS Test Suite
+ *
+ * Tests choosing the provider from SMS_PROVIDER and the Twilio settings, rendering message
+ * templates in the request's language, and the per-number message limit, using the outbox
+ * provider so nothing is sent over the network.
+ */
+
+const os = require('os');
+const path = require('path');
+const fs = require('fs');
+
+const OUTBOX_PATH = path.join(os.tmpdir(), `rukn-sms-outbox-${process.pid}-sms.json`);
+const ENV_KEYS = [
+  'SMS_PROVIDER',
+  'SMS_OUTBOX_PATH',
+  'SMS_RATE_LIMIT_MAX',
+  'TWILIO_ACCOUNT_SID',
+  'TWILIO_AUTH_TOKEN',
+  'TWILIO_PHONE_NUMBER'
+];
+const originalEnv = { ...process.env };
+
+// تحميل وحدة الرسائل من جديد بإعدادات بيئة مختلفة
+const loadSms = (env = {}) => {
+  ENV_KEYS.forEach(key => delete process.env[key]);
+  Object.assign(process.env, { SMS_OUTBOX_PATH: OUTBOX_PATH }, env);
+  let modules;
+  jest.isolateModules(() => {
+    modules = {
+      sms: require('../../utils/sms'),
+      smsService: require('../../utils/smsService'),
+      outbox: require('../../utils/sms/providers/outbox')
+    };
+  });
+  return modules;
+};
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+  if (fs.existsSync(OUTBOX_PATH)) fs.unlinkSync(OUTBOX_PATH);
+});
+
+describe('provider selection', () => {
+  it('uses the provider named in SMS_PROVIDER', () => {
+    expect(loadSms({ SMS_PROVIDER: 'outbox' }).sms.getProvider().name).toBe('outbox');
+    expect(loadSms({ SMS_PROVIDER: 'console' }).sms.getProvider().name).toBe('console');
+  });
+
+  it('rejects an unknown provider at startup', () => {
+    expect(() => loadSms({ SMS_PROVIDER: 'pigeon' })).toThrow('Unknown SMS_PROVIDER "pigeon"');
+  });
+
+  it('falls back to Twilio when it is configured and to the console otherwise', () => {
+    expect(loadSms().sms.getProvider().name).toBe('console');
+    expect(loadSms({ TWILIO_ACCOUNT_SID: 'not-a-sid', TWILIO_AUTH_TOKEN: 'token', TWILIO_PHONE_NUMBER: '+15550000000' })
+      .sms.getProvider().name).toBe('console');
+    expect(loadSms({ TWILIO_ACCOUNT_SID: 'AC123', TWILIO_AUTH_TOKEN: 'token', TWILIO_PHONE_NUMBER: '+15550000000' })
+      .sms.getProvider().name).toBe('twilio');
+  });
+});
+
+describe('templates', () => {
+  const templates = require('../../utils/sms/templates');
+
+  it('picks the language from an Accept-Language value and defaults to Arabic', () => {
+    expect(templates.resolveLanguage('en-US,en;q=0.9')).toBe('en');
+    expect(templates.resolveLanguage('ar')).toBe('ar');
+    expect(templates.resolveLanguage('fr-FR')).toBe('ar');
+    expect(templates.resolveLanguage(undefined)).toBe('ar');
+  });
+
+  it('fills in the template values and keeps unknown placeholders', () => {
+    expect(templates.render('verificationCode', { code: '012345' }, 'en'))
+      .toBe('Your Rukn verification code is 012345. Do not share this code with anyone.');
+    expect(templates.render('verificationCode', { code: '012345' })).toContain('012345');
+    expect(templates.render('passwordReset', {}, 'en')).toContain('{{code}}');
+  });
+
+  it('throws for an unknown template', () => {
+    expect(() => templates.render('missing', {})).toThrow('Unknown SMS template: missing');
+  });
+});
+
+describe('sending', () => {
+  it('writes codes to the outbox with the template for their purpose', async () => {
+    const { smsService, outbox } = loadSms({ SMS_PROVIDER: 'outbox' });
+
+    await smsService.sendVerificationSMS('966512345678', '111111', { language: 'en' });
+    await smsService.sendVerificationSMS('+966512345678', '222222', { purpose: 'password_reset', language: 'ar' });
+
+    const messages = outbox.readOutbox();
+    expect(messages.map(message => message.to)).toEqual(['+966512345678', '+966512345678']);
+    expect(messages[0].body).toContain('verification code is 111111');
+    expect(messages[1].body).toContain('إعادة تعيين كلمة المرور');
+    expect(messages[1].body).toContain('222222');
+  });
+
+  it('limits messages per number', async () => {
+    const { sms, outbox } = loadSms({ SMS_PROVIDER: 'outbox', SMS_RATE_LIMIT_MAX: '2' });
+
+    await sms.sendSMS('+966500000001', 'one');
+    await sms.sendSMS('+966500000001', 'two');
+    await expect(sms.sendSMS('+966500000001', 'three')).rejects.toMatchObject({ code: 'sms_rate_limited' });
+    await sms.sendSMS('+966500000002', 'other number');
+
+    expect(outbox.readOutbox().map(message => message.body)).toEqual(['one', 'two', 'other number']);
+  });
+});
+
+describe('phone numbers', () => {
+  const smsService = require('../../utils/smsService');
+
+  it('accepts Saudi mobile numbers and formats them internationally', () => {
+    expect(smsService.validatePhoneNumber('0512345678')).toBe(true);
+    expect(smsService.validatePhoneNumber('+966512345678')).toBe(true);
+    expect(smsService.validatePhoneNumber('0412345678')).toBe(false);
+    expect(smsService.formatPhoneNumber('051 234-5678')).toBe('+966512345678');
+    expect(smsService.formatPhoneNumber('966512345678')).toBe('+966512345678');
+  });
+});
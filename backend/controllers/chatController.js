@@ -0,0 +1,148 @@
+const conversations = require('../models/conversations');
+const { topicFor, broadcast } = require('../utils/realtime');
+
+const notFound = (res) =>
+  res.status(404).json({ success: false, message: 'لم يتم العثور على المحادثة' });
+
+// بث الحدث لطرفي المحادثة، فيصل المرسل أيضاً على أجهزته الأخرى
+const broadcastToParticipants = (row, event, payload) => {
+  const participants = conversations.participants(row);
+  return broadcast(Object.entries(participants).map(([role, id]) => ({
+    topic: topicFor(role, id),
+    event,
+    payload
+  })));
+};
+
+// قناة Supabase Realtime الخاصة بالمستخدم الحالي
+exports.getRealtimeTopic = (req, res) => {
+  res.json({ success: true, topic: topicFor(req.user.role, req.user.id) });
+};
+
+// محادثات المستخدم الحالي مع عدد غير المقروء في كل منها
+exports.listConversations = async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      conversations: await conversations.listFor(req.user)
+    });
+  } catch (error) {
+    console.error('Error listing conversations:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'حدث خطأ أثناء جلب المحادثات'
+    });
+  }
+};
+
+// بدء محادثة مع مالك إعلان (لرواد الأعمال فقط)
+exports.openConversation = async (req, res) => {
+  try {
+    const listingId = conversations.toId((req.body || {}).listing_id);
+    if (!listingId) {
+      return res.status(400).json({ success: false, message: 'معرف الإعلان غير صحيح' });
+    }
+
+    const { conversation, error } = await conversations.openForListing(req.user.id, listingId);
+    if (error === 'listing_not_found') {
+      return res.status(404).json({ success: false, message: 'لم يتم العثور على الإعلان' });
+    }
+    if (error === 'no_owner') {
+      return res.status(409).json({
+        success: false,
+        code: 'no_owner',
+        message: 'لا يوجد مالك مسجل لهذا الإعلان'
+      });
+    }
+
+    res.json({ success: true, conversation });
+  } catch (error) {
+    console.error('Error opening conversation:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'حدث خطأ أثناء بدء المحادثة'
+    });
+  }
+};
+
+exports.listMessages = async (req, res) => {
+  try {
+    const id = conversations.toId(req.params.id);
+    const found = id && await conversations.findFor(req.user, id);
+    if (!found) return notFound(res);
+
+    res.json({
+      success: true,
+      conversation: found.conversation,
+      messages: await conversations.messagesFor(id, req.query)
+    });
+  } catch (error) {
+    console.error('Error listing messages:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'حدث خطأ أثناء جلب الرسائل'
+    });
+  }
+};
+
+exports.sendMessage = async (req, res) => {
+  try {
+    const id = conversations.toId(req.params.id);
+    const found = id && await conversations.findFor(req.user, id);
+    if (!found) return notFound(res);
+
+    const { body, error } = conversations.validateBody((req.body || {}).body);
+    if (error) {
+      return res.status(400).json({ success: false, message: error });
+    }
+    const clientId = (req.body || {}).client_id;
+    if (!conversations.isValidClientId(clientId)) {
+      return res.status(400).json({ success: false, message: 'معرف الرسالة غير صحيح' });
+    }
+
+    const { message, created } = await conversations.addMessage(id, req.user.role, body, clientId);
+    if (created) {
+      await broadcastToParticipants(found.row, 'message', { message });
+    }
+
+    res.status(created ? 201 : 200).json({ success: true, message });
+  } catch (error) {
+    console.error('Error sending message:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'حدث خطأ أثناء إرسال الرسالة'
+    });
+  }
+};
+
+// إيصال القراءة: يعلّم رسائل الطرف الآخر حتى up_to كمقروءة
+exports.markRead = async (req, res) => {
+  try {
+    const id = conversations.toId(req.params.id);
+    const found = id && await conversations.findFor(req.user, id);
+    if (!found) return notFound(res);
+
+    const upTo = conversations.toId((req.body || {}).up_to);
+    if (!upTo) {
+      return res.status(400).json({ success: false, message: 'معرف الرسالة غير صحيح' });
+    }
+
+    const readAt = await conversations.markRead(id, req.user.role, upTo);
+    if (readAt) {
+      await broadcastToParticipants(found.row, 'read', {
+        conversation_id: id,
+        reader_role: req.user.role,
+        up_to: upTo,
+        read_at: readAt
+      });
+    }
+
+    res.json({ success: true, read_at: readAt });
+  } catch (error) {
+    console.error('Error marking conversation read:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'حدث خطأ أثناء تحديث حالة القراءة'
+    });
+  }
+};
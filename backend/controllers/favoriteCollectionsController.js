@@ -0,0 +1,179 @@
+const collections = require('../models/favoriteCollections');
+const favorites = require('../models/favorites');
+
+const toCollectionId = (value) => {
+  const id = Number(value);
+  return Number.isInteger(id) ? id : null;
+};
+
+const notFound = (res) =>
+  res.status(404).json({ success: false, message: 'لم يتم العثور على المجموعة' });
+
+// مجموعات المفضلة للمستخدم الحالي
+exports.listCollections = async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      collections: await collections.listFor(req.user.id)
+    });
+  } catch (error) {
+    console.error('Error listing favorite collections:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'حدث خطأ أثناء جلب المجموعات'
+    });
+  }
+};
+
+exports.createCollection = async (req, res) => {
+  try {
+    const { name, error } = collections.validateName((req.body || {}).name);
+    if (error) {
+      return res.status(400).json({ success: false, message: error });
+    }
+
+    if (await collections.countFor(req.user.id) >= collections.MAX_COLLECTIONS) {
+      return res.status(400).json({
+        success: false,
+        code: 'collection_limit',
+        message: `لا يمكن إنشاء أكثر من ${collections.MAX_COLLECTIONS} مجموعة`
+      });
+    }
+
+    const collection = await collections.create(req.user.id, name);
+
+    res.status(201).json({ success: true, collection });
+  } catch (error) {
+    if (collections.isDuplicateName(error)) {
+      return res.status(409).json({ success: false, code: 'duplicate_name', message: 'توجد مجموعة بهذا الاسم' });
+    }
+    console.error('Error creating favorite collection:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'حدث خطأ أثناء إنشاء المجموعة'
+    });
+  }
+};
+
+exports.renameCollection = async (req, res) => {
+  try {
+    const id = toCollectionId(req.params.id);
+    if (id === null) return notFound(res);
+
+    const { name, error } = collections.validateName((req.body || {}).name);
+    if (error) {
+      return res.status(400).json({ success: false, message: error });
+    }
+
+    const collection = await collections.rename(req.user.id, id, name);
+    if (!collection) return notFound(res);
+
+    res.json({ success: true, collection });
+  } catch (error) {
+    if (collections.isDuplicateName(error)) {
+      return res.status(409).json({ success: false, code: 'duplicate_name', message: 'توجد مجموعة بهذا الاسم' });
+    }
+    console.error('Error renaming favorite collection:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'حدث خطأ أثناء تعديل المجموعة'
+    });
+  }
+};
+
+exports.deleteCollection = async (req, res) => {
+  try {
+    const id = toCollectionId(req.params.id);
+    if (id === null) return notFound(res);
+
+    const removed = await collections.remove(req.user.id, id);
+    if (!removed) return notFound(res);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting favorite collection:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'حدث خطأ أثناء حذف المجموعة'
+    });
+  }
+};
+
+// إضافة إعلان إلى المجموعة أو إزالته منها
+// المجموعات جزء من المفضلة: حذف الإعلان من المفضلة يخرجه من المجموعات، فلا يضاف إليها إلا من المفضلة
+const changeListing = (change, { requireFavorite = false } = {}) => async (req, res) => {
+  try {
+    const id = toCollectionId(req.params.id);
+    const listingId = favorites.toListingId(req.params.listingId);
+    if (id === null) return notFound(res);
+    if (!listingId) {
+      return res.status(400).json({ success: false, message: 'معرف الإعلان غير صحيح' });
+    }
+
+    if (requireFavorite && !(await favorites.isFavorite(req.user.id, listingId))) {
+      return res.status(409).json({
+        success: false,
+        code: 'not_favorite',
+        message: 'أضف الإعلان إلى المفضلة أولاً'
+      });
+    }
+
+    const collection = await collections[change](req.user.id, id, listingId);
+    if (!collection) return notFound(res);
+
+    res.json({ success: true });
+  } catch (error) {
+    if (favorites.isMissingListing(error)) {
+      return res.status(404).json({ success: false, message: 'لم يتم العثور على الإعلان' });
+    }
+    console.error('Error updating favorite collection listings:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'حدث خطأ أثناء تعديل المجموعة'
+    });
+  }
+};
+
+exports.addListing = changeListing('addListing', { requireFavorite: true });
+exports.removeListing = changeListing('removeListing');
+
+// إنشاء رابط مشترك للقراءة فقط أو إلغاؤه
+const changeSharing = (change) => async (req, res) => {
+  try {
+    const id = toCollectionId(req.params.id);
+    if (id === null) return notFound(res);
+
+    const collection = await collections[change](req.user.id, id);
+    if (!collection) return notFound(res);
+
+    res.json({ success: true, collection });
+  } catch (error) {
+    console.error('Error changing favorite collection sharing:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'حدث خطأ أثناء مشاركة المجموعة'
+    });
+  }
+};
+
+exports.shareCollection = changeSharing('share');
+exports.unshareCollection = changeSharing('unshare');
+
+// عرض مجموعة مشتركة لأي شخص يحمل الرابط
+exports.getSharedCollection = async (req, res) => {
+  try {
+    const token = String(req.params.token || '');
+    const shared = /^[0-9a-f]{32}$/.test(token) ? await collections.findShared(token) : null;
+    if (!shared) {
+      return res.status(404).json({ success: false, message: 'الرابط غير صالح أو أُلغيت مشاركته' });
+    }
+
+    res.json({ success: true, collection: shared });
+  } catch (error) {
+    console.error('Error getting shared collection:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'حدث خطأ أثناء جلب المجموعة'
+    });
+  }
+};
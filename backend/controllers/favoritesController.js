@@ -0,0 +1,110 @@
+const favorites = require('../models/favorites');
+
+// مفضلة المستخدم الحالي
+exports.listFavorites = async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      favorites: await favorites.listFor(req.user.id)
+    });
+  } catch (error) {
+    console.error('Error listing favorites:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'حدث خطأ أثناء جلب المفضلة'
+    });
+  }
+};
+
+// الإضافة والحذف متكرران بأمان حتى تعيد الأجهزة إرسال العمليات المعلقة دون تعارض
+exports.addFavorite = async (req, res) => {
+  try {
+    const id = favorites.toListingId(req.params.listingId);
+    if (!id) {
+      return res.status(400).json({ success: false, message: 'معرف الإعلان غير صحيح' });
+    }
+
+    await favorites.addMany(req.user.id, [id]);
+
+    res.json({ success: true });
+  } catch (error) {
+    if (favorites.isMissingListing(error)) {
+      return res.status(404).json({ success: false, message: 'لم يتم العثور على الإعلان' });
+    }
+    console.error('Error adding favorite:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'حدث خطأ أثناء إضافة الإعلان إلى المفضلة'
+    });
+  }
+};
+
+// الملاحظة والحالة لإعلان في المفضلة
+exports.updateFavorite = async (req, res) => {
+  try {
+    const id = favorites.toListingId(req.params.listingId);
+    if (!id) {
+      return res.status(400).json({ success: false, message: 'معرف الإعلان غير صحيح' });
+    }
+
+    const { changes, error } = favorites.validateAnnotation(req.body || {});
+    if (error) {
+      return res.status(400).json({ success: false, message: error });
+    }
+
+    const updated = await favorites.annotate(req.user.id, id, changes);
+    if (!updated) {
+      return res.status(404).json({ success: false, message: 'الإعلان غير موجود في المفضلة' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error updating favorite:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'حدث خطأ أثناء حفظ الملاحظة'
+    });
+  }
+};
+
+exports.removeFavorite = async (req, res) => {
+  try {
+    const id = favorites.toListingId(req.params.listingId);
+    if (!id) {
+      return res.status(400).json({ success: false, message: 'معرف الإعلان غير صحيح' });
+    }
+
+    await favorites.remove(req.user.id, id);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error removing favorite:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'حدث خطأ أثناء حذف الإعلان من المفضلة'
+    });
+  }
+};
+
+// دمج المفضلة المحفوظة على الجهاز فقط عند أول تسجيل دخول، ثم إعادة القائمة كاملة
+exports.mergeFavorites = async (req, res) => {
+  try {
+    const { ids, error } = favorites.validateIds((req.body || {}).listing_ids);
+    if (error) {
+      return res.status(400).json({ success: false, message: error });
+    }
+
+    await favorites.addMany(req.user.id, await favorites.existingListingIds(ids));
+
+    res.json({
+      success: true,
+      favorites: await favorites.listFor(req.user.id)
+    });
+  } catch (error) {
+    console.error('Error merging favorites:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'حدث خطأ أثناء دمج المفضلة'
+    });
+  }
+};
@@ -0,0 +1,62 @@
+const { createClient } = require('@supabase/supabase-js');
+
+// إعداد Supabase
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_KEY;
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const recommendationData = require('../models/recommendationData');
+
+// نشر عقار جديد باسم المالك الحالي
+exports.createListing = async (req, res) => {
+  try {
+    const { title, price, area, images, zone_id, latitude, longitude } = req.body;
+
+    if (!title || price === undefined || price === null) {
+      return res.status(400).json({
+        success: false,
+        message: 'عنوان العقار وسعره مطلوبان'
+      });
+    }
+
+    const numericPrice = Number(price);
+    if (!Number.isFinite(numericPrice) || numericPrice <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'سعر العقار غير صحيح'
+      });
+    }
+
+    const { data, error } = await supabase
+      .from('Listings')
+      .insert({
+        Title: title,
+        Price: numericPrice,
+        Area: area !== undefined && area !== null ? Number(area) : null,
+        Images: Array.isArray(images) ? images : [],
+        zone_id: zone_id || null,
+        Latitude: latitude !== undefined && latitude !== null ? String(latitude) : null,
+        Longitude: longitude !== undefined && longitude !== null ? String(longitude) : null,
+        owner_id: req.user.id
+      })
+      .select();
+
+    if (error) throw error;
+
+    // عدد العقارات في المنطقة جزء من التوصيات
+    recommendationData.invalidate();
+
+    res.status(201).json({
+      success: true,
+      message: 'تم نشر العقار بنجاح',
+      listing: data[0]
+    });
+
+  } catch (error) {
+    console.error('Error creating listing:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'حدث خطأ أثناء نشر العقار'
+    });
+  }
+};
@@ -0,0 +1,76 @@
+const profiles = require('../models/recommendationProfiles');
+const businessTypes = require('../models/businessTypes');
+
+// ملفات التوصية المحفوظة للمستخدم الحالي
+exports.listProfiles = async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      profiles: await profiles.listFor(req.user.id)
+    });
+  } catch (error) {
+    console.error('Error listing recommendation profiles:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'حدث خطأ أثناء جلب الملفات المحفوظة'
+    });
+  }
+};
+
+// حفظ ملف جديد أو استبدال ملف بالاسم نفسه
+exports.saveProfile = async (req, res) => {
+  try {
+    const { row, error } = profiles.validate(req.body || {});
+    if (error) {
+      return res.status(400).json({ success: false, message: error });
+    }
+
+    const type = await businessTypes.findById(row.business_type);
+    if (!type) {
+      return res.status(400).json({ success: false, message: 'نوع النشاط غير مدعوم' });
+    }
+    row.business_type = type.id;
+
+    const existing = await profiles.listFor(req.user.id);
+    const replacing = existing.some(profile => profile.name === row.name);
+    if (!replacing && existing.length >= profiles.MAX_PROFILES) {
+      return res.status(400).json({
+        success: false,
+        code: 'profile_limit',
+        message: `لا يمكن حفظ أكثر من ${profiles.MAX_PROFILES} ملفاً`
+      });
+    }
+
+    const profile = await profiles.save(req.user.id, row);
+
+    res.status(replacing ? 200 : 201).json({ success: true, profile });
+  } catch (error) {
+    console.error('Error saving recommendation profile:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'حدث خطأ أثناء حفظ الملف'
+    });
+  }
+};
+
+exports.deleteProfile = async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ success: false, message: 'معرف الملف غير صحيح' });
+    }
+
+    const removed = await profiles.remove(req.user.id, id);
+    if (!removed) {
+      return res.status(404).json({ success: false, message: 'لم يتم العثور على الملف' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting recommendation profile:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'حدث خطأ أثناء حذف الملف'
+    });
+  }
+};
@@ -0,0 +1,134 @@
+const { createSlidingWindow } = require('../utils/slidingWindow');
+
+// العدادات محفوظة في ذاكرة العملية، لذلك تنطبق الحدود على كل نسخة من الخادم على حدة
+
+// رد موحد عند تجاوز الحد يمكن للتطبيق ترجمته حسب الرمز
+const sendTooManyRequests = (res, code, retryAfter) => {
+  res.set('Retry-After', String(retryAfter));
+  return res.status(429).json({
+    success: false,
+    code,
+    retry_after: retryAfter,
+    message: code === 'account_locked'
+      ? 'تم إيقاف المحاولات مؤقتاً بسبب كثرة المحاولات الفاشلة. يرجى المحاولة لاحقاً'
+      : 'عدد كبير من الطلبات. يرجى المحاولة لاحقاً'
+  });
+};
+
+// مفاتيح شائعة للحدود
+exports.byIp = (req) => req.ip;
+exports.byEmail = (req) => (typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : null);
+exports.byUser = (req) => (req.user ? `${req.user.role}:${req.user.id}` : null);
+exports.byResetEmail = (req) => {
+  const email = exports.byEmail(req);
+  return email ? `reset:${email}` : null;
+};
+
+/**
+ * ميدلوير يحد عدد الطلبات لكل مفتاح داخل نافذة زمنية منزلقة
+ * @param {{ name: string, max: number, windowSeconds: number, key: Function }} options
+ * - key: دالة تعيد مفتاح الحد من الطلب (عنوان IP أو الحساب)، وإذا أعادت null لا يُطبق الحد
+ */
+exports.rateLimit = ({ name, max, windowSeconds, key }) => {
+  const window = createSlidingWindow({ max, windowMs: windowSeconds * 1000 });
+
+  return (req, res, next) => {
+    const value = key(req);
+    if (!value) return next();
+
+    const result = window.hit(value);
+    res.set('X-RateLimit-Limit', String(max));
+    res.set('X-RateLimit-Remaining', String(result.remaining));
+
+    if (!result.allowed) {
+      console.warn(`Rate limit "${name}" exceeded for ${value}`);
+      return sendTooManyRequests(res, 'rate_limited', result.retryAfter);
+    }
+
+    next();
+  };
+};
+
+/**
+ * إيقاف مؤقت بعد تكرار المحاولات الفاشلة، تتضاعف مدته مع كل فشل إضافي
+ * @param {{ name: string, threshold: number, baseSeconds: number, maxSeconds: number, maxKeys?: number }} options
+ * - threshold: عدد المحاولات الفاشلة المسموح بها قبل الإيقاف
+ * - maxKeys: أقصى عدد للمفاتيح المحفوظة، حتى لا تملأ مفاتيح عشوائية الذاكرة
+ */
+exports.createLockout = ({ name, threshold, baseSeconds, maxSeconds, maxKeys = 100000 }) => {
+  // مرتبة حسب آخر فشل (كل فشل يعيد المفتاح إلى آخر القائمة)، فالمنتهية في أولها
+  const failures = new Map();
+
+  // حذف المفاتيح التي مضت عليها أطول مدة إيقاف، ثم الأقدم إن زاد العدد عن الحد
+  const sweep = (now) => {
+    for (const [keyValue, entry] of failures) {
+      if (now - entry.lastFailureAt <= maxSeconds * 1000) break;
+      failures.delete(keyValue);
+    }
+    while (failures.size > maxKeys) {
+      failures.delete(failures.keys().next().value);
+    }
+  };
+
+  // ننسى الإخفاقات بعد أطول مدة إيقاف دون محاولات جديدة
+  const current = (keyValue, now) => {
+    const entry = failures.get(keyValue);
+    if (entry && now - entry.lastFailureAt > maxSeconds * 1000) {
+      failures.delete(keyValue);
+      return null;
+    }
+    return entry || null;
+  };
+
+  return {
+    // عدد الثواني المتبقية على الإيقاف (0 إذا لم يكن المفتاح موقوفاً)
+    retryAfter(keyValue, now = Date.now()) {
+      const entry = current(keyValue, now);
+      if (!entry || !entry.lockedUntil) return 0;
+      return Math.max(0, Math.ceil((entry.lockedUntil - now) / 1000));
+    },
+
+    recordFailure(keyValue, now = Date.now()) {
+      if (!keyValue) return;
+      const entry = current(keyValue, now) || { count: 0, lockedUntil: 0 };
+      entry.count += 1;
+      entry.lastFailureAt = now;
+
+      if (entry.count >= threshold) {
+        const seconds = Math.min(maxSeconds, baseSeconds * 2 ** (entry.count - threshold));
+        entry.lockedUntil = now + seconds * 1000;
+        console.warn(`Lockout "${name}" for ${keyValue}: ${seconds}s after ${entry.count} failures`);
+      }
+
+      failures.delete(keyValue);
+      failures.set(keyValue, entry);
+      sweep(now);
+    },
+
+    recordSuccess(keyValue) {
+      if (keyValue) failures.delete(keyValue);
+    },
+
+    // عدد المفاتيح المحفوظة
+    get size() {
+      return failures.size;
+    },
+
+    // ميدلوير يرفض الطلب ما دام المفتاح موقوفاً
+    guard(key) {
+      return (req, res, next) => {
+        const retryAfter = this.retryAfter(key(req));
+        if (retryAfter > 0) {
+          return sendTooManyRequests(res, 'account_locked', retryAfter);
+        }
+        next();
+      };
+    }
+  };
+};
+
+// إيقاف تسجيل الدخول لكل بريد إلكتروني: بعد 5 محاولات فاشلة يبدأ الإيقاف بدقيقة ويتضاعف حتى ساعة
+exports.loginLockout = exports.createLockout({ name: 'login', threshold: 5, baseSeconds: 60, maxSeconds: 3600 });
+
+// إيقاف إدخال رموز التحقق لكل حساب (التحقق من الهاتف وإعادة تعيين كلمة المرور)
+exports.otpLockout = exports.createLockout({ name: 'otp', threshold: 5, baseSeconds: 300, maxSeconds: 6 * 3600 });
@@ -0,0 +1,56 @@
+-- الحسابات تُنشأ الآن من الخادم في جدولي entrepreneurs و owners بدلاً من Supabase Auth،
+-- لذلك تنتقل حالة التحقق من الهاتف إلى هذين الجدولين وتُربط رموز التحقق بالدور والمعرف.
+
+alter table entrepreneurs add column if not exists phone text;
+alter table entrepreneurs add column if not exists phone_verified boolean not null default false;
+alter table owners add column if not exists phone_verified boolean not null default false;
+
+create table if not exists verification_codes (
+  id bigserial primary key,
+  user_id text not null,
+  phone text not null,
+  code text not null,
+  expires_at timestamptz not null,
+  attempts integer not null default 0,
+  verified boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+-- كان user_id معرف مستخدم Supabase Auth (uuid)؛ أصبح معرف الملف الشخصي
+alter table verification_codes alter column user_id type text using user_id::text;
+alter table verification_codes add column if not exists user_role text not null default 'entrepreneur';
+alter table verification_codes add column if not exists purpose text not null default 'phone_verification';
+
+alter table verification_codes drop constraint if exists verification_codes_user_role_check;
+alter table verification_codes add constraint verification_codes_user_role_check
+  check (user_role in ('entrepreneur', 'owner'));
+
+alter table verification_codes drop constraint if exists verification_codes_purpose_check;
+alter table verification_codes add constraint verification_codes_purpose_check
+  check (purpose in ('phone_verification', 'password_reset'));
+
+create unique index if not exists verification_codes_user_purpose_idx
+  on verification_codes (user_role, user_id, purpose);
+
+-- البريد الإلكتروني يحدد الحساب عند تسجيل الدخول
+create unique index if not exists entrepreneurs_email_idx on entrepreneurs (email);
+create unique index if not exists owners_email_idx on owners (email);
+
+-- الحسابات ورموز التحقق لا يصل إليها إلا الخادم بمفتاح الخدمة؛ دون سياسات لا يقرأ مفتاح anon
+-- المضمّن في التطبيق تجزئات كلمات المرور ولا رموز إعادة التعيين
+alter table entrepreneurs enable row level security;
+alter table owners enable row level security;
+alter table verification_codes enable row level security;
+
+-- حجز محاولة قبل مقارنة الرمز في خطوة واحدة، حتى لا تتجاوز التخمينات المتوازية حد المحاولات.
+-- لا يعيد صفاً إذا استُنفدت المحاولات
+create or replace function claim_verification_attempt(code_id bigint, max_attempts integer)
+returns setof verification_codes
+language sql as $$
+  update verification_codes
+  set attempts = attempts + 1
+  where id = code_id and attempts < max_attempts
+  returning *;
+$$;
+
+revoke execute on function claim_verification_attempt(bigint, integer) from public, anon, authenticated;
@@ -0,0 +1,6 @@
+-- وقت آخر إرسال للرمز، لتطبيق فترة الانتظار بين طلبات إعادة الإرسال
+alter table verification_codes add column if not exists sent_at timestamptz not null default now();
+
+-- ربط العقارات بالمالك الذي نشرها
+alter table "Listings" add column if not exists owner_id bigint references owners (id) on delete set null;
+create index if not exists listings_owner_id_idx on "Listings" (owner_id);
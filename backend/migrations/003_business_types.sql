@@ -0,0 +1,31 @@
+-- سجل أنواع الأنشطة: مصدر واحد للأسماء والأيقونات وأوزان التوصية، يقرأه التطبيق والخادم.
+-- إضافة نشاط جديد (مثل مقهى أو مخبز) تكون بإضافة صف هنا دون تعديل الكود.
+
+create table if not exists business_types (
+  id text primary key,                         -- معرف ثابت مثل gas_station
+  label_ar text not null,
+  label_en text not null,
+  icon text not null default 'store',          -- اسم أيقونة FontAwesome5
+  weight_popularity numeric not null default 1,
+  weight_ratings numeric not null default 1,
+  weight_competition numeric not null default 1,
+  -- أنواع أماكن Google والأسماء القديمة التي تُحسب من هذا النشاط في جدول Competitors
+  place_types text[] not null default '{}',
+  sort_order integer not null default 0,
+  active boolean not null default true
+);
+
+-- الأوزان نسبية ويُعاد قياسها لتصبح مجموعها 1 عند الحساب
+insert into business_types (id, label_ar, label_en, icon, weight_popularity, weight_ratings, weight_competition, place_types, sort_order) values
+  ('barber', 'حلاق', 'Barber', 'cut', 0.40, 0.20, 0.40, '{hair_care,barber_shop,Barber}', 1),
+  ('gym', 'صالة رياضية', 'Gym', 'dumbbell', 0.30, 0.40, 0.30, '{gym,fitness_center,Gym}', 2),
+  ('gas_station', 'محطة وقود', 'Gas Station', 'gas-pump', 0.50, 0.30, 0.20, '{gas_station,Gas Station}', 3),
+  ('laundry', 'مغسلة', 'Laundry', 'tshirt', 0.50, 0.10, 0.40, '{laundry,Laundry}', 4),
+  ('pharmacy', 'صيدلية', 'Pharmacy', 'pills', 0.40, 0.40, 0.20, '{pharmacy,drugstore,Pharmacy}', 5),
+  ('supermarket', 'سوبر ماركت', 'Supermarket', 'shopping-cart', 0.60, 0.20, 0.20, '{supermarket,grocery_or_supermarket,Supermarket}', 6)
+on conflict (id) do nothing;
+
+-- السجل عام للقراءة؛ التعديل من لوحة Supabase فقط
+alter table business_types enable row level security;
+drop policy if exists business_types_read on business_types;
+create policy business_types_read on business_types for select using (true);
@@ -0,0 +1,23 @@
+-- ملفات التوصية المحفوظة لرواد الأعمال: أوزان مخصصة وميزانية ونقطة مرجعية للمسافة
+-- يقرؤها ويكتبها الخادم فقط (/api/recommendation-profiles)
+
+create table if not exists recommendation_profiles (
+  id bigserial primary key,
+  entrepreneur_id bigint not null references entrepreneurs (id) on delete cascade,
+  name text not null,
+  business_type text not null references business_types (id) on update cascade,
+  -- الأوزان: popularity و ratings و competition و rent و distance
+  weights jsonb not null default '{}'::jsonb,
+  budget numeric,                              -- ميزانية الإيجار السنوي بالريال
+  anchor_latitude double precision,
+  anchor_longitude double precision,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  -- الحفظ باسم موجود يستبدل الملف القديم
+  unique (entrepreneur_id, name)
+);
+
+create index if not exists recommendation_profiles_entrepreneur_idx on recommendation_profiles (entrepreneur_id);
+
+-- دون سياسات: الملفات خاصة بأصحابها ولا يصل إليها مفتاح anon المضمّن في التطبيق
+alter table recommendation_profiles enable row level security;
@@ -0,0 +1,39 @@
+-- عوامل إضافية لاختيار الموقع بوزن خاص لكل نشاط:
+-- pricePerSqm (وسيط الإيجار للمتر المربع من Listings) و complementary (الأنشطة المكملة من Businesses)
+-- و distance (المسافة من نقطة يختارها المستخدم)
+
+-- أوزان العوامل غير الأساسية، مثل {"complementary": 0.2}؛ العامل الغائب وزنه صفر
+alter table business_types add column if not exists factor_weights jsonb not null default '{}';
+
+-- أنواع أماكن Google في جدول Businesses التي تجلب الزبائن لهذا النشاط (مثل سوبر ماركت قرب صالة رياضية)
+alter table business_types add column if not exists complements text[] not null default '{}';
+
+update business_types set
+  factor_weights = '{"complementary": 0.20, "pricePerSqm": 0.10}',
+  complements = '{laundry,gym,shopping_mall}'
+where id = 'barber';
+
+update business_types set
+  factor_weights = '{"complementary": 0.25, "pricePerSqm": 0.15}',
+  complements = '{supermarket,grocery_or_supermarket,shopping_mall}'
+where id = 'gym';
+
+update business_types set
+  factor_weights = '{"complementary": 0.15}',
+  complements = '{convenience_store,car_wash,restaurant}'
+where id = 'gas_station';
+
+update business_types set
+  factor_weights = '{"complementary": 0.20, "pricePerSqm": 0.10}',
+  complements = '{supermarket,grocery_or_supermarket,barber_shop,hair_care}'
+where id = 'laundry';
+
+update business_types set
+  factor_weights = '{"complementary": 0.30}',
+  complements = '{hospital,doctor,dentist,supermarket}'
+where id = 'pharmacy';
+
+update business_types set
+  factor_weights = '{"complementary": 0.15, "pricePerSqm": 0.10}',
+  complements = '{pharmacy,bakery,gym}'
+where id = 'supermarket';
@@ -0,0 +1,67 @@
+-- المفضلة تشير إلى جدول Listings وحده، وعدد مرات الحفظ يُحدَّث داخل قاعدة البيانات
+-- كان العمود shop_id يحمل Listing_ID بينما يُقرأ العدد ويُكتب في جدول shops من التطبيق،
+-- فيضيع التحديث عند حفظ مستخدمين للإعلان نفسه في الوقت ذاته
+
+create table if not exists favorites (
+  entrepreneur_id bigint not null references entrepreneurs (id) on delete cascade,
+  listing_id bigint not null,
+  created_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_name = 'favorites' and column_name = 'shop_id'
+  ) then
+    alter table favorites rename column shop_id to listing_id;
+  end if;
+end $$;
+
+-- إزالة التكرار والإعلانات المحذوفة قبل إضافة القيود
+delete from favorites f
+using favorites d
+where f.ctid > d.ctid
+  and f.entrepreneur_id = d.entrepreneur_id
+  and f.listing_id = d.listing_id;
+
+delete from favorites f
+where not exists (select 1 from "Listings" l where l."Listing_ID" = f.listing_id);
+
+alter table favorites drop constraint if exists favorites_entrepreneur_listing_key;
+alter table favorites add constraint favorites_entrepreneur_listing_key unique (entrepreneur_id, listing_id);
+
+alter table favorites drop constraint if exists favorites_listing_id_fkey;
+alter table favorites add constraint favorites_listing_id_fkey
+  foreign key (listing_id) references "Listings" ("Listing_ID") on delete cascade;
+
+create index if not exists favorites_listing_idx on favorites (listing_id);
+
+-- عدد رواد الأعمال الذين حفظوا الإعلان، يعرضه التطبيق لمالك الإعلان
+alter table "Listings" add column if not exists favorites_count integer not null default 0;
+
+-- التحديث في جملة واحدة يقفل صف الإعلان، فلا تتداخل الإضافات المتزامنة
+-- الإضافة المكررة (on conflict do nothing) لا تُطلق المشغل، فلا يزيد العدد مرتين
+create or replace function favorites_count_sync() returns trigger
+language plpgsql as $$
+begin
+  if tg_op = 'INSERT' then
+    update "Listings" set favorites_count = favorites_count + 1
+    where "Listing_ID" = new.listing_id;
+    return new;
+  end if;
+
+  update "Listings" set favorites_count = greatest(favorites_count - 1, 0)
+  where "Listing_ID" = old.listing_id;
+  return old;
+end $$;
+
+drop trigger if exists favorites_count_sync on favorites;
+create trigger favorites_count_sync
+  after insert or delete on favorites
+  for each row execute function favorites_count_sync();
+
+-- حساب الأعداد الحالية من جديد
+update "Listings" l set favorites_count = coalesce(
+  (select count(*) from favorites f where f.listing_id = l."Listing_ID"), 0
+);
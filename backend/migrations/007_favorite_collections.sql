@@ -0,0 +1,36 @@
+-- مجموعات المفضلة (مثل "قائمة العليا") وملاحظات خاصة وحالة لكل إعلان محفوظ
+-- يقرؤها ويكتبها الخادم فقط (/api/favorites و /api/favorite-collections)
+
+-- الملاحظة والحالة خاصتان بصاحب المفضلة ولا تظهران في الرابط المشترك
+alter table favorites add column if not exists note text not null default '';
+alter table favorites add column if not exists status text not null default 'saved';
+alter table favorites add column if not exists updated_at timestamptz not null default now();
+
+alter table favorites drop constraint if exists favorites_status_check;
+alter table favorites add constraint favorites_status_check
+  check (status in ('saved', 'contacted', 'visited', 'rejected'));
+
+create table if not exists favorite_collections (
+  id bigserial primary key,
+  entrepreneur_id bigint not null references entrepreneurs (id) on delete cascade,
+  name text not null,
+  -- رمز الرابط المشترك للقراءة فقط؛ null يعني أن المجموعة غير مشتركة
+  share_token text unique,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (entrepreneur_id, name)
+);
+
+create index if not exists favorite_collections_entrepreneur_idx on favorite_collections (entrepreneur_id);
+
+create table if not exists favorite_collection_items (
+  collection_id bigint not null references favorite_collections (id) on delete cascade,
+  listing_id bigint not null references "Listings" ("Listing_ID") on delete cascade,
+  added_at timestamptz not null default now(),
+  primary key (collection_id, listing_id)
+);
+
+-- دون سياسات: مفتاح anon المضمّن في التطبيق لا يقرأ الملاحظات ولا رموز المشاركة، والخادم يستخدم مفتاح الخدمة
+alter table favorites enable row level security;
+alter table favorite_collections enable row level security;
+alter table favorite_collection_items enable row level security;
@@ -0,0 +1,69 @@
+-- المحادثات بين رائد الأعمال ومالك الإعلان، محادثة واحدة لكل إعلان ورائد أعمال
+-- يقرؤها ويكتبها الخادم فقط (/api/conversations)، ويصل الجديد للتطبيق عبر بث Supabase Realtime
+
+create table if not exists conversations (
+  id bigserial primary key,
+  listing_id bigint not null references "Listings" ("Listing_ID") on delete cascade,
+  entrepreneur_id bigint not null references entrepreneurs (id) on delete cascade,
+  owner_id bigint not null references owners (id) on delete cascade,
+  -- آخر رسالة لعرض قائمة المحادثات دون قراءة الرسائل
+  last_message text,
+  last_sender_role text,
+  last_message_at timestamptz,
+  -- الرسائل غير المقروءة لكل طرف، يحدّثها المشغل messages_conversation_sync
+  entrepreneur_unread integer not null default 0,
+  owner_unread integer not null default 0,
+  created_at timestamptz not null default now(),
+  unique (listing_id, entrepreneur_id)
+);
+
+create index if not exists conversations_entrepreneur_idx on conversations (entrepreneur_id, last_message_at desc);
+create index if not exists conversations_owner_idx on conversations (owner_id, last_message_at desc);
+
+create table if not exists messages (
+  id bigserial primary key,
+  conversation_id bigint not null references conversations (id) on delete cascade,
+  sender_role text not null check (sender_role in ('entrepreneur', 'owner')),
+  body text not null check (char_length(body) between 1 and 2000),
+  -- معرف يولده التطبيق، فإعادة إرسال الرسالة بعد انقطاع الاتصال لا تكررها
+  client_id text not null,
+  read_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (conversation_id, client_id)
+);
+
+create index if not exists messages_conversation_idx on messages (conversation_id, id desc);
+
+-- دون سياسات: مفتاح anon في التطبيق لا يقرأ المحادثات، والخادم يستخدم مفتاح الخدمة
+alter table conversations enable row level security;
+alter table messages enable row level security;
+
+-- آخر رسالة وعدد غير المقروء يتغيران في نفس المعاملة مع الرسالة، فلا ينحرف العدد مع الإرسال المتزامن
+-- الإرسال المكرر (on conflict do nothing) لا يُطلق المشغل
+create or replace function messages_conversation_sync() returns trigger
+language plpgsql as $$
+begin
+  if tg_op = 'INSERT' then
+    update conversations set
+      last_message = new.body,
+      last_sender_role = new.sender_role,
+      last_message_at = new.created_at,
+      entrepreneur_unread = entrepreneur_unread + (case when new.sender_role = 'owner' then 1 else 0 end),
+      owner_unread = owner_unread + (case when new.sender_role = 'entrepreneur' then 1 else 0 end)
+    where id = new.conversation_id;
+    return new;
+  end if;
+
+  if old.read_at is null and new.read_at is not null then
+    update conversations set
+      entrepreneur_unread = greatest(entrepreneur_unread - (case when new.sender_role = 'owner' then 1 else 0 end), 0),
+      owner_unread = greatest(owner_unread - (case when new.sender_role = 'entrepreneur' then 1 else 0 end), 0)
+    where id = new.conversation_id;
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists messages_conversation_sync on messages;
+create trigger messages_conversation_sync
+  after insert or update of read_at on messages
+  for each row execute function messages_conversation_sync();
@@ -0,0 +1,16 @@
+-- إبطال توكنات التحديث قبل انتهاء صلاحيتها
+-- token_version يُضمَّن في كل توكن تحديث، وزيادته (عند إعادة تعيين كلمة المرور) تبطل كل جلسات الحساب
+alter table entrepreneurs add column if not exists token_version integer not null default 0;
+alter table owners add column if not exists token_version integer not null default 0;
+
+-- توكنات التحديث التي أُنهيت بتسجيل الخروج، بمعرفها (jti) حتى تنتهي صلاحيتها ثم تُحذف
+create table if not exists revoked_refresh_tokens (
+  jti uuid primary key,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists revoked_refresh_tokens_expires_idx on revoked_refresh_tokens (expires_at);
+
+-- لا يصل إليه إلا الخادم بمفتاح الخدمة
+alter table revoked_refresh_tokens enable row level security;
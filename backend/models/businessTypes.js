@@ -0,0 +1,76 @@
+const { createClient } = require('@supabase/supabase-js');
+const { FACTORS } = require('../utils/zoneScoring');
+
+// إعداد Supabase
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_KEY;
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+// السجل نادراً ما يتغير، لذلك يُحفظ في الذاكرة لخمس دقائق
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+let cache = null;
+let cachedAt = 0;
+
+// أوزان العوامل الإضافية من عمود factor_weights (مثل complementary و pricePerSqm)، والمفاتيح غير المعروفة تُتجاهل
+const extraWeights = (factorWeights) => Object.entries(factorWeights || {}).reduce((weights, [factor, value]) => {
+  const weight = Number(value);
+  if (FACTORS.includes(factor) && Number.isFinite(weight) && weight >= 0) {
+    weights[factor] = weight;
+  }
+  return weights;
+}, {});
+
+// تحويل صف الجدول إلى الشكل الذي يرجعه الخادم للتطبيق
+const toBusinessType = (row) => ({
+  id: row.id,
+  labels: { ar: row.label_ar, en: row.label_en },
+  icon: row.icon,
+  weights: {
+    ...extraWeights(row.factor_weights),
+    popularity: Number(row.weight_popularity) || 0,
+    ratings: Number(row.weight_ratings) || 0,
+    competition: Number(row.weight_competition) || 0
+  },
+  aliases: row.place_types || [],
+  complements: row.complements || []
+});
+
+// أنواع الأنشطة المفعلة بترتيب العرض
+exports.list = async () => {
+  if (cache && Date.now() - cachedAt < CACHE_TTL_MS) {
+    return cache;
+  }
+
+  const { data, error } = await supabase
+    .from('business_types')
+    .select('*')
+    .eq('active', true)
+    .order('sort_order', { ascending: true });
+
+  if (error) throw error;
+
+  cache = (data || []).map(toBusinessType);
+  cachedAt = Date.now();
+  return cache;
+};
+
+// توحيد الاسم للمقارنة: "Gas Station" و gas_station متطابقان
+const normalizeKey = (value) => String(value || '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+// يطابق المعرف أو أحد الأسماء البديلة (أنواع أماكن Google أو الأسماء القديمة)
+exports.matches = (type, value) => {
+  const key = normalizeKey(value);
+  return normalizeKey(type.id) === key || type.aliases.some(alias => normalizeKey(alias) === key);
+};
+
+// هل يجلب هذا النوع من الأنشطة الزبائن للنشاط؟ (مثل سوبر ماركت قرب صالة رياضية)
+exports.complements = (type, value) => {
+  const key = normalizeKey(value);
+  return type.complements.some(complement => normalizeKey(complement) === key);
+};
+
+exports.findById = async (id) => {
+  const types = await exports.list();
+  return types.find(type => exports.matches(type, id)) || null;
+};
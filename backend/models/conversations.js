@@ -0,0 +1,216 @@
+const { createClient } = require('@supabase/supabase-js');
+
+// إعداد Supabase
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_KEY;
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+exports.MAX_MESSAGE_LENGTH = 2000;
+
+// عدد الرسائل في الصفحة الواحدة عند فتح المحادثة أو تحميل الأقدم
+const PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+
+// عمود كل طرف في جدول المحادثات
+const PARTICIPANT_COLUMNS = {
+  entrepreneur: 'entrepreneur_id',
+  owner: 'owner_id'
+};
+
+const OTHER_ROLE = {
+  entrepreneur: 'owner',
+  owner: 'entrepreneur'
+};
+
+exports.otherRole = (role) => OTHER_ROLE[role];
+
+const CONVERSATION_COLUMNS =
+  'id, listing_id, entrepreneur_id, owner_id, last_message, last_sender_role, last_message_at, ' +
+  'entrepreneur_unread, owner_unread, created_at, Listings (Title, Images), entrepreneurs (name), owners (name)';
+
+const MESSAGE_COLUMNS = 'id, conversation_id, sender_role, body, client_id, read_at, created_at';
+
+/**
+ * التحقق من نص الرسالة
+ * @returns {{ body?: string, error?: string }} - رسالة الخطأ بالعربية عند رفض النص
+ */
+exports.validateBody = (value) => {
+  const body = typeof value === 'string' ? value.trim() : '';
+  if (!body || body.length > exports.MAX_MESSAGE_LENGTH) {
+    return { error: `نص الرسالة مطلوب ولا يتجاوز ${exports.MAX_MESSAGE_LENGTH} حرف` };
+  }
+  return { body };
+};
+
+// معرف الرسالة من التطبيق (UUID أو ما يشبهه) لمنع تكرار الإرسال
+exports.isValidClientId = (value) => typeof value === 'string' && /^[\w-]{8,64}$/.test(value);
+
+const toId = (value) => {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+exports.toId = toId;
+
+// المحادثة كما يراها أحد طرفيها: اسم الطرف الآخر وعدد ما لم يقرأه هو
+const toConversation = (row, role) => {
+  const other = OTHER_ROLE[role];
+  const otherProfile = row[other === 'owner' ? 'owners' : 'entrepreneurs'];
+  return {
+    id: row.id,
+    listing_id: row.listing_id,
+    listing_title: row.Listings ? row.Listings.Title : null,
+    listing_images: row.Listings ? row.Listings.Images : null,
+    other_role: other,
+    other_name: otherProfile ? otherProfile.name : null,
+    last_message: row.last_message,
+    last_sender_role: row.last_sender_role,
+    last_message_at: row.last_message_at,
+    unread: row[`${role}_unread`],
+    created_at: row.created_at
+  };
+};
+
+// معرفا طرفي المحادثة لبث الأحداث لهما
+exports.participants = (conversation) => ({
+  entrepreneur: conversation.entrepreneur_id,
+  owner: conversation.owner_id
+});
+
+// محادثات المستخدم من الأحدث رسالةً
+exports.listFor = async (user) => {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select(CONVERSATION_COLUMNS)
+    .eq(PARTICIPANT_COLUMNS[user.role], user.id)
+    .order('last_message_at', { ascending: false, nullsFirst: false })
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(row => toConversation(row, user.role));
+};
+
+// محادثة يشارك فيها المستخدم؛ null إن لم توجد أو لم يكن طرفاً فيها
+const findRow = async (user, id) => {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select(CONVERSATION_COLUMNS)
+    .eq('id', id)
+    .eq(PARTICIPANT_COLUMNS[user.role], user.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+exports.findFor = async (user, id) => {
+  const row = await findRow(user, id);
+  return row ? { row, conversation: toConversation(row, user.role) } : null;
+};
+
+/**
+ * فتح محادثة رائد الأعمال مع مالك الإعلان، أو إعادة الموجودة
+ * @returns {{ conversation?: object, error?: 'listing_not_found' | 'no_owner' }}
+ */
+exports.openForListing = async (entrepreneurId, listingId) => {
+  const { data: listing, error: listingError } = await supabase
+    .from('Listings')
+    .select('Listing_ID, owner_id')
+    .eq('Listing_ID', listingId)
+    .maybeSingle();
+
+  if (listingError) throw listingError;
+  if (!listing) return { error: 'listing_not_found' };
+  if (!listing.owner_id) return { error: 'no_owner' };
+
+  // فتح المحادثة مرتين (من جهازين مثلاً) يعيد نفس المحادثة
+  const { error } = await supabase
+    .from('conversations')
+    .upsert(
+      { listing_id: listingId, entrepreneur_id: entrepreneurId, owner_id: listing.owner_id },
+      { onConflict: 'listing_id,entrepreneur_id', ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+
+  const { data, error: findError } = await supabase
+    .from('conversations')
+    .select(CONVERSATION_COLUMNS)
+    .eq('listing_id', listingId)
+    .eq('entrepreneur_id', entrepreneurId)
+    .single();
+
+  if (findError) throw findError;
+  return { conversation: toConversation(data, 'entrepreneur') };
+};
+
+/**
+ * صفحة من رسائل المحادثة بترتيب الإرسال
+ * @param {{ before?: number, limit?: number }} options - before لتحميل الرسائل الأقدم من معرف معين
+ */
+exports.messagesFor = async (conversationId, { before, limit } = {}) => {
+  const pageSize = Math.min(toId(limit) || PAGE_SIZE, MAX_PAGE_SIZE);
+  let query = supabase
+    .from('messages')
+    .select(MESSAGE_COLUMNS)
+    .eq('conversation_id', conversationId)
+    .order('id', { ascending: false })
+    .limit(pageSize);
+
+  const beforeId = toId(before);
+  if (beforeId) {
+    query = query.lt('id', beforeId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).reverse();
+};
+
+/**
+ * حفظ رسالة؛ إعادة إرسال نفس client_id تعيد الرسالة المحفوظة دون تكرارها
+ * @returns {{ message: object, created: boolean }}
+ */
+exports.addMessage = async (conversationId, senderRole, body, clientId) => {
+  const { data: inserted, error } = await supabase
+    .from('messages')
+    .upsert(
+      { conversation_id: conversationId, sender_role: senderRole, body, client_id: clientId },
+      { onConflict: 'conversation_id,client_id', ignoreDuplicates: true }
+    )
+    .select(MESSAGE_COLUMNS);
+
+  if (error) throw error;
+  if (inserted && inserted.length > 0) {
+    return { message: inserted[0], created: true };
+  }
+
+  const { data, error: findError } = await supabase
+    .from('messages')
+    .select(MESSAGE_COLUMNS)
+    .eq('conversation_id', conversationId)
+    .eq('client_id', clientId)
+    .single();
+
+  if (findError) throw findError;
+  return { message: data, created: false };
+};
+
+/**
+ * تعليم رسائل الطرف الآخر حتى معرف معين كمقروءة
+ * @returns {Promise<string|null>} - وقت القراءة، أو null إن لم تتغير أي رسالة
+ */
+exports.markRead = async (conversationId, readerRole, upTo) => {
+  const readAt = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('messages')
+    .update({ read_at: readAt })
+    .eq('conversation_id', conversationId)
+    .eq('sender_role', OTHER_ROLE[readerRole])
+    .is('read_at', null)
+    .lte('id', upTo)
+    .select('id');
+
+  if (error) throw error;
+  return data && data.length > 0 ? readAt : null;
+};
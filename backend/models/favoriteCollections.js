@@ -0,0 +1,158 @@
+const crypto = require('crypto');
+const { createClient } = require('@supabase/supabase-js');
+
+// إعداد Supabase
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_KEY;
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+// أقصى عدد للمجموعات لكل مستخدم
+exports.MAX_COLLECTIONS = 30;
+
+// أعمدة الإعلان المعروضة في الرابط المشترك
+const SHARED_LISTING_COLUMNS = 'Listing_ID,Title,Price,Area,Images,zone_id,Latitude,Longitude';
+
+/**
+ * التحقق من اسم المجموعة
+ * @returns {{ name?: string, error?: string }} - رسالة الخطأ بالعربية عند رفض الاسم
+ */
+exports.validateName = (value) => {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (!name || name.length > 60) {
+    return { error: 'اسم المجموعة مطلوب ولا يتجاوز 60 حرفاً' };
+  }
+  return { name };
+};
+
+// رمز PostgreSQL لانتهاك القيد الفريد: اسم مكرر
+exports.isDuplicateName = (error) => Boolean(error && error.code === '23505');
+
+const toCollection = (row) => ({
+  id: row.id,
+  name: row.name,
+  share_token: row.share_token,
+  updated_at: row.updated_at,
+  listing_ids: (row.favorite_collection_items || []).map(item => item.listing_id)
+});
+
+// مجموعات المستخدم من الأحدث تعديلاً مع معرفات إعلاناتها
+exports.listFor = async (entrepreneurId) => {
+  const { data, error } = await supabase
+    .from('favorite_collections')
+    .select('id, name, share_token, updated_at, favorite_collection_items (listing_id)')
+    .eq('entrepreneur_id', entrepreneurId)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(toCollection);
+};
+
+exports.countFor = async (entrepreneurId) => {
+  const { count, error } = await supabase
+    .from('favorite_collections')
+    .select('id', { count: 'exact', head: true })
+    .eq('entrepreneur_id', entrepreneurId);
+
+  if (error) throw error;
+  return count || 0;
+};
+
+exports.create = async (entrepreneurId, name) => {
+  const { data, error } = await supabase
+    .from('favorite_collections')
+    .insert({ entrepreneur_id: entrepreneurId, name })
+    .select('id, name, share_token, updated_at');
+
+  if (error) throw error;
+  return toCollection(data[0]);
+};
+
+// تعديل مجموعة يملكها المستخدم؛ يعيد null إن لم توجد
+const updateOwned = async (entrepreneurId, id, changes) => {
+  const { data, error } = await supabase
+    .from('favorite_collections')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('entrepreneur_id', entrepreneurId)
+    .select('id, name, share_token, updated_at, favorite_collection_items (listing_id)');
+
+  if (error) throw error;
+  return data.length > 0 ? toCollection(data[0]) : null;
+};
+
+exports.rename = (entrepreneurId, id, name) => updateOwned(entrepreneurId, id, { name });
+
+// رمز جديد في كل مشاركة، فإلغاء المشاركة ثم إعادتها يبطل الرابط القديم
+exports.share = (entrepreneurId, id) =>
+  updateOwned(entrepreneurId, id, { share_token: crypto.randomBytes(16).toString('hex') });
+
+exports.unshare = (entrepreneurId, id) => updateOwned(entrepreneurId, id, { share_token: null });
+
+exports.remove = async (entrepreneurId, id) => {
+  const { data, error } = await supabase
+    .from('favorite_collections')
+    .delete()
+    .eq('id', id)
+    .eq('entrepreneur_id', entrepreneurId)
+    .select('id');
+
+  if (error) throw error;
+  return data.length > 0;
+};
+
+// إضافة إعلان إلى مجموعة يملكها المستخدم؛ الإضافة المكررة لا تغير شيئاً
+exports.addListing = async (entrepreneurId, id, listingId) => {
+  const collection = await updateOwned(entrepreneurId, id, {});
+  if (!collection) return null;
+
+  const { error } = await supabase
+    .from('favorite_collection_items')
+    .upsert({ collection_id: id, listing_id: listingId }, { onConflict: 'collection_id,listing_id', ignoreDuplicates: true });
+
+  if (error) throw error;
+  return collection;
+};
+
+exports.removeListing = async (entrepreneurId, id, listingId) => {
+  const collection = await updateOwned(entrepreneurId, id, {});
+  if (!collection) return null;
+
+  const { error } = await supabase
+    .from('favorite_collection_items')
+    .delete()
+    .eq('collection_id', id)
+    .eq('listing_id', listingId);
+
+  if (error) throw error;
+  return collection;
+};
+
+// المجموعة المشتركة للقراءة فقط: الاسم والإعلانات دون الملاحظات والحالات وصاحبها
+exports.findShared = async (token) => {
+  const { data, error } = await supabase
+    .from('favorite_collections')
+    .select('id, name, updated_at, favorite_collection_items (listing_id, added_at)')
+    .eq('share_token', token)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const items = (data.favorite_collection_items || [])
+    .sort((a, b) => String(b.added_at).localeCompare(String(a.added_at)));
+  const ids = items.map(item => item.listing_id);
+
+  let listings = [];
+  if (ids.length > 0) {
+    const { data: rows, error: listingsError } = await supabase
+      .from('Listings')
+      .select(SHARED_LISTING_COLUMNS)
+      .in('Listing_ID', ids);
+
+    if (listingsError) throw listingsError;
+    const byId = new Map((rows || []).map(row => [row.Listing_ID, row]));
+    listings = ids.map(id => byId.get(id)).filter(Boolean);
+  }
+
+  return { name: data.name, updated_at: data.updated_at, listings };
+};
@@ -0,0 +1,166 @@
+const { createClient } = require('@supabase/supabase-js');
+
+// إعداد Supabase
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_KEY;
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+// أقصى عدد من المفضلة يُدمج في طلب واحد
+exports.MAX_MERGE = 500;
+
+// معرف الإعلان المحفوظ (Listing_ID)
+const toListingId = (value) => {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+exports.toListingId = toListingId;
+
+/**
+ * التحقق من قائمة المعرفات المرسلة للدمج
+ * @returns {{ ids?: number[], error?: string }} - رسالة الخطأ بالعربية عند رفض البيانات
+ */
+exports.validateIds = (value) => {
+  if (!Array.isArray(value)) {
+    return { error: 'قائمة المفضلة مطلوبة' };
+  }
+  if (value.length > exports.MAX_MERGE) {
+    return { error: `لا يمكن دمج أكثر من ${exports.MAX_MERGE} عنصر` };
+  }
+
+  const ids = value.map(toListingId);
+  if (ids.some(id => id === null)) {
+    return { error: 'معرف الإعلان غير صحيح' };
+  }
+  return { ids: [...new Set(ids)] };
+};
+
+// حالات الإعلان المحفوظ أثناء البحث عن موقع
+exports.STATUSES = ['saved', 'contacted', 'visited', 'rejected'];
+
+// أقصى طول للملاحظة الخاصة
+exports.MAX_NOTE_LENGTH = 1000;
+
+/**
+ * التحقق من تعديل الملاحظة أو الحالة
+ * @returns {{ changes?: object, error?: string }} - الحقول المرسلة فقط، أو رسالة الخطأ بالعربية
+ */
+exports.validateAnnotation = (body) => {
+  const changes = {};
+
+  if (body.note !== undefined) {
+    if (typeof body.note !== 'string' || body.note.length > exports.MAX_NOTE_LENGTH) {
+      return { error: `الملاحظة نص لا يتجاوز ${exports.MAX_NOTE_LENGTH} حرف` };
+    }
+    changes.note = body.note.trim();
+  }
+
+  if (body.status !== undefined) {
+    if (!exports.STATUSES.includes(body.status)) {
+      return { error: 'حالة الإعلان غير صحيحة' };
+    }
+    changes.status = body.status;
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return { error: 'لا توجد تعديلات' };
+  }
+  return { changes };
+};
+
+// مفضلة المستخدم من الأحدث إضافة
+exports.listFor = async (entrepreneurId) => {
+  const { data, error } = await supabase
+    .from('favorites')
+    .select('listing_id, note, status, created_at')
+    .eq('entrepreneur_id', entrepreneurId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// إضافة عدة إعلانات في طلب واحد؛ الموجود مسبقاً يتجاهله القيد الفريد ولا يتغير عدده
+exports.addMany = async (entrepreneurId, listingIds) => {
+  if (listingIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('favorites')
+    .upsert(
+      listingIds.map(id => ({ entrepreneur_id: entrepreneurId, listing_id: id })),
+      { onConflict: 'entrepreneur_id,listing_id', ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+};
+
+// تعديل الملاحظة أو الحالة؛ يعيد false إن لم يكن الإعلان في المفضلة
+exports.annotate = async (entrepreneurId, listingId, changes) => {
+  const { data, error } = await supabase
+    .from('favorites')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('entrepreneur_id', entrepreneurId)
+    .eq('listing_id', listingId)
+    .select('listing_id');
+
+  if (error) throw error;
+  return data.length > 0;
+};
+
+// هل الإعلان في مفضلة المستخدم؟
+exports.isFavorite = async (entrepreneurId, listingId) => {
+  const { data, error } = await supabase
+    .from('favorites')
+    .select('listing_id')
+    .eq('entrepreneur_id', entrepreneurId)
+    .eq('listing_id', listingId)
+    .limit(1);
+
+  if (error) throw error;
+  return data.length > 0;
+};
+
+// المعرفات التي ما زالت إعلاناتها موجودة، فلا يفشل الدمج بسبب إعلان حُذف بعد حفظه
+exports.existingListingIds = async (listingIds) => {
+  if (listingIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('Listings')
+    .select('Listing_ID')
+    .in('Listing_ID', listingIds);
+
+  if (error) throw error;
+  return (data || []).map(row => row.Listing_ID);
+};
+
+// رمز PostgreSQL لانتهاك المفتاح الأجنبي: الإعلان غير موجود
+exports.isMissingListing = (error) => Boolean(error && error.code === '23503');
+
+// الحذف لا يفشل إن لم يكن الإعلان في المفضلة، فإعادة إرسال العملية من جهاز آخر آمنة؛
+// المشغل favorites_count_sync ينقص العدد عند حذف صف فعلاً فقط
+// ويخرج الإعلان من مجموعات المستخدم أيضاً
+exports.remove = async (entrepreneurId, listingId) => {
+  const { error } = await supabase
+    .from('favorites')
+    .delete()
+    .eq('entrepreneur_id', entrepreneurId)
+    .eq('listing_id', listingId);
+
+  if (error) throw error;
+
+  const { data: collections, error: collectionsError } = await supabase
+    .from('favorite_collections')
+    .select('id')
+    .eq('entrepreneur_id', entrepreneurId);
+
+  if (collectionsError) throw collectionsError;
+  if (!collections || collections.length === 0) return;
+
+  const { error: itemsError } = await supabase
+    .from('favorite_collection_items')
+    .delete()
+    .eq('listing_id', listingId)
+    .in('collection_id', collections.map(collection => collection.id));
+
+  if (itemsError) throw itemsError;
+};
@@ -0,0 +1,114 @@
+const crypto = require('crypto');
+const { createClient } = require('@supabase/supabase-js');
+
+// إعداد Supabase
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_KEY;
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+// البيانات تُجلب مرة كل دقيقة على الأكثر مهما كان عدد الطلبات
+const SNAPSHOT_TTL_MS = 60 * 1000;
+
+let snapshot = null;
+let pending = null;
+
+// عدد العقارات المتاحة في كل منطقة
+const countListingsByZone = (listings) => listings.reduce((counts, listing) => {
+  if (listing.zone_id !== null && listing.zone_id !== undefined) {
+    counts[listing.zone_id] = (counts[listing.zone_id] || 0) + 1;
+  }
+  return counts;
+}, {});
+
+const median = (values) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// وسيط قيمة لعقارات كل منطقة، والعقارات التي ليس لها قيمة موجبة لا تُحسب
+const medianByZone = (listings, valueOf) => {
+  const values = {};
+  listings.forEach(listing => {
+    const value = valueOf(listing);
+    if (listing.zone_id === null || listing.zone_id === undefined || !(value > 0)) return;
+    (values[listing.zone_id] = values[listing.zone_id] || []).push(value);
+  });
+  return Object.fromEntries(Object.entries(values).map(([zoneId, zoneValues]) => [zoneId, median(zoneValues)]));
+};
+
+// عدد الأنشطة من كل نوع في كل منطقة، لحساب الأنشطة المكملة لكل نشاط
+const countBusinessesByZone = (businesses) => businesses.reduce((counts, business) => {
+  if (business.zone_id === null || business.zone_id === undefined || !business.business_type) return counts;
+  const zone = counts[business.zone_id] = counts[business.zone_id] || {};
+  zone[business.business_type] = (zone[business.business_type] || 0) + 1;
+  return counts;
+}, {});
+
+const fetchSnapshot = async () => {
+  const [{ data: zones, error: errZones },
+         { data: competitors, error: errCompetitors },
+         { data: listings, error: errListings },
+         { data: businesses, error: errBusinesses }] = await Promise.all([
+    supabase.from('Zones').select('*'),
+    supabase.from('Competitors').select('*'),
+    supabase.from('Listings').select('Listing_ID,zone_id,Price,Area'),
+    supabase.from('Businesses').select('zone_id,business_type')
+  ]);
+
+  if (errZones) throw errZones;
+  if (errCompetitors) throw errCompetitors;
+  if (errListings) throw errListings;
+  if (errBusinesses) throw errBusinesses;
+
+  const listingCounts = countListingsByZone(listings);
+  const medianRents = medianByZone(listings, listing => Number(listing.Price));
+  const medianPricesPerSqm = medianByZone(listings, listing =>
+    Number(listing.Area) > 0 ? Number(listing.Price) / Number(listing.Area) : null);
+  const businessCounts = countBusinessesByZone(businesses);
+
+  // إصدار البيانات: يتغير عندما يتغير أي شيء يدخل في الحساب، ويُستخدم في مفاتيح التخزين المؤقت
+  const version = crypto
+    .createHash('sha1')
+    .update(JSON.stringify([zones, competitors, listingCounts, medianRents, medianPricesPerSqm, businessCounts]))
+    .digest('hex')
+    .slice(0, 12);
+
+  console.log(`${zones.length} zones fetched, of which ${zones.filter(z => z.number_of_businesses === 0).length} are empty (version ${version})`);
+
+  return {
+    zones,
+    competitors,
+    listingCounts,
+    medianRents,
+    medianPricesPerSqm,
+    businessCounts,
+    version,
+    loadedAt: Date.now()
+  };
+};
+
+// المناطق والمنافسون، ولكل منطقة عدد العقارات ووسيط الإيجار وسعر المتر وعدد الأنشطة من كل نوع، مع إصدار البيانات
+exports.load = async () => {
+  if (snapshot && Date.now() - snapshot.loadedAt < SNAPSHOT_TTL_MS) {
+    return snapshot;
+  }
+
+  if (!pending) {
+    pending = fetchSnapshot()
+      .then(result => {
+        snapshot = result;
+        return result;
+      })
+      .finally(() => {
+        pending = null;
+      });
+  }
+
+  return pending;
+};
+
+// يُستدعى بعد تعديل البيانات (مثل نشر عقار) حتى يُعاد الجلب في الطلب التالي
+exports.invalidate = () => {
+  snapshot = null;
+};
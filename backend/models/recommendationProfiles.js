@@ -0,0 +1,108 @@
+const { createClient } = require('@supabase/supabase-js');
+
+// إعداد Supabase
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_KEY;
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const { FACTORS: WEIGHT_FACTORS } = require('../utils/zoneScoring');
+
+// أقصى عدد للملفات المحفوظة لكل مستخدم
+exports.MAX_PROFILES = 20;
+
+const toNumberOrNull = (value) => {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : NaN;
+};
+
+/**
+ * التحقق من بيانات الملف وتحويلها إلى صف في الجدول
+ * @returns {{ row?: object, error?: string }} - رسالة الخطأ بالعربية عند رفض البيانات
+ */
+exports.validate = (body) => {
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > 60) {
+    return { error: 'اسم الملف مطلوب ولا يتجاوز 60 حرفاً' };
+  }
+
+  if (typeof body.business_type !== 'string' || !body.business_type) {
+    return { error: 'نوع النشاط مطلوب' };
+  }
+
+  const weights = {};
+  for (const factor of WEIGHT_FACTORS) {
+    const weight = toNumberOrNull(body.weights && body.weights[factor]);
+    if (weight === null) continue;
+    if (Number.isNaN(weight) || weight < 0 || weight > 1) {
+      return { error: 'الأوزان يجب أن تكون بين 0 و1' };
+    }
+    weights[factor] = weight;
+  }
+  if (!Object.values(weights).some(weight => weight > 0)) {
+    return { error: 'يجب أن يكون وزن عامل واحد على الأقل أكبر من صفر' };
+  }
+
+  const budget = toNumberOrNull(body.budget);
+  if (Number.isNaN(budget) || (budget !== null && budget <= 0)) {
+    return { error: 'الميزانية غير صحيحة' };
+  }
+
+  const latitude = toNumberOrNull(body.anchor_latitude);
+  const longitude = toNumberOrNull(body.anchor_longitude);
+  const anchorGiven = latitude !== null || longitude !== null;
+  if (anchorGiven && (latitude === null || longitude === null || Number.isNaN(latitude) || Number.isNaN(longitude) ||
+      Math.abs(latitude) > 90 || Math.abs(longitude) > 180)) {
+    return { error: 'موقع النقطة المرجعية غير صحيح' };
+  }
+
+  return {
+    row: {
+      name,
+      business_type: body.business_type,
+      weights,
+      budget,
+      anchor_latitude: latitude,
+      anchor_longitude: longitude
+    }
+  };
+};
+
+// ملفات المستخدم من الأحدث تعديلاً
+exports.listFor = async (entrepreneurId) => {
+  const { data, error } = await supabase
+    .from('recommendation_profiles')
+    .select('*')
+    .eq('entrepreneur_id', entrepreneurId)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// حفظ الملف؛ الاسم المكرر يستبدل الملف السابق بالاسم نفسه
+exports.save = async (entrepreneurId, row) => {
+  const { data, error } = await supabase
+    .from('recommendation_profiles')
+    .upsert(
+      { ...row, entrepreneur_id: entrepreneurId, updated_at: new Date().toISOString() },
+      { onConflict: 'entrepreneur_id,name' }
+    )
+    .select();
+
+  if (error) throw error;
+  return data[0];
+};
+
+// حذف ملف يملكه المستخدم؛ يعيد false إن لم يوجد
+exports.remove = async (entrepreneurId, id) => {
+  const { data, error } = await supabase
+    .from('recommendation_profiles')
+    .delete()
+    .eq('id', id)
+    .eq('entrepreneur_id', entrepreneurId)
+    .select('id');
+
+  if (error) throw error;
+  return data.length > 0;
+};
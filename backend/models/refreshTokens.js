@@ -0,0 +1,43 @@
+const { createClient } = require('@supabase/supabase-js');
+
+// إعداد Supabase
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_KEY;
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+/**
+ * إبطال توكن تحديث حتى نهاية صلاحيته
+ * @param {string} jti - معرف التوكن
+ * @param {Date} expiresAt - وقت انتهاء صلاحية التوكن
+ */
+exports.revoke = async (jti, expiresAt) => {
+  // التوكنات المنتهية لا تُقبل أصلاً، فلا حاجة لإبقائها في القائمة
+  const { error: purgeError } = await supabase
+    .from('revoked_refresh_tokens')
+    .delete()
+    .lt('expires_at', new Date().toISOString());
+
+  if (purgeError) throw purgeError;
+
+  const { error } = await supabase
+    .from('revoked_refresh_tokens')
+    .upsert({ jti, expires_at: expiresAt.toISOString() }, { onConflict: 'jti', ignoreDuplicates: true });
+
+  if (error) throw error;
+};
+
+/**
+ * هل أُبطل توكن التحديث بتسجيل الخروج؟
+ * @param {string} jti - معرف التوكن
+ * @returns {Promise<boolean>}
+ */
+exports.isRevoked = async (jti) => {
+  const { data, error } = await supabase
+    .from('revoked_refresh_tokens')
+    .select('jti')
+    .eq('jti', jti)
+    .limit(1);
+
+  if (error) throw error;
+  return data.length > 0;
+};
@@ -0,0 +1,88 @@
+const { createClient } = require('@supabase/supabase-js');
+
+// إعداد Supabase
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_KEY;
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+// جدول الملفات الشخصية لكل دور
+const PROFILE_TABLES = {
+  entrepreneur: 'entrepreneurs',
+  owner: 'owners'
+};
+
+// الحقول التي يسمح للمستخدم بتعديلها في ملفه الشخصي
+const EDITABLE_FIELDS = ['name', 'phone', 'city', 'country', 'avatar_url', 'dob', 'gender', 'address'];
+
+exports.ROLES = Object.keys(PROFILE_TABLES);
+
+exports.isValidRole = (role) => Object.prototype.hasOwnProperty.call(PROFILE_TABLES, role);
+
+// إزالة الحقول الحساسة قبل إرجاع الملف الشخصي
+exports.toPublicProfile = (record, role) => {
+  const { password_hash, token_version, ...profile } = record;
+  return { ...profile, role, phone_verified: record.phone_verified || false };
+};
+
+// البحث عن المستخدم في جدولي رواد الأعمال والملاك
+exports.findByEmail = async (email) => {
+  for (const role of exports.ROLES) {
+    const { data, error } = await supabase
+      .from(PROFILE_TABLES[role])
+      .select('*')
+      .eq('email', email)
+      .limit(1);
+
+    if (error) throw error;
+    if (data && data.length > 0) {
+      return { record: data[0], role };
+    }
+  }
+  return null;
+};
+
+// جلب الملف الشخصي بالمعرف والدور (كما في توكن الجلسة)
+exports.findById = async (role, id) => {
+  const { data, error } = await supabase
+    .from(PROFILE_TABLES[role])
+    .select('*')
+    .eq('id', id)
+    .limit(1);
+
+  if (error) throw error;
+  return data && data.length > 0 ? data[0] : null;
+};
+
+// إنشاء ملف شخصي جديد في جدول الدور المطلوب
+exports.create = async (role, profile) => {
+  const { data, error } = await supabase
+    .from(PROFILE_TABLES[role])
+    .insert(profile)
+    .select();
+
+  if (error) throw error;
+  return data[0];
+};
+
+// تحديث الملف الشخصي وإرجاع السجل بعد التعديل
+exports.update = async (role, id, changes) => {
+  const { data, error } = await supabase
+    .from(PROFILE_TABLES[role])
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select();
+
+  if (error) throw error;
+  return data && data.length > 0 ? data[0] : null;
+};
+
+// اختيار الحقول القابلة للتعديل فقط من جسم الطلب
+exports.pickEditableFields = (body) => {
+  const changes = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== undefined) {
+      changes[field] = body[field];
+    }
+  }
+  return changes;
+};
@@ -3,18 +3,28 @@ const router = express.Router();
 const authController = require('../controllers/authController');
 const verificationController = require('../controllers/verificationController');
 const { checkAuth } = require('../middleware/auth');
+const { rateLimit, byEmail, byUser, byResetEmail, loginLockout, otpLockout } = require('../middleware/rateLimit');
+
+// حدود لكل حساب إضافة إلى حد عنوان IP العام في server.js
+const accountLimit = rateLimit({ name: 'auth-account', max: 10, windowSeconds: 15 * 60, key: byEmail });
+const resetRequestLimit = rateLimit({ name: 'forgot-password', max: 3, windowSeconds: 60 * 60, key: byEmail });
+const otpLimit = rateLimit({ name: 'otp-user', max: 10, windowSeconds: 15 * 60, key: byUser });
 
 // مسارات المصادقة
-router.post('/register', authController.register);
-router.post('/login', authController.login);
+router.post('/register', accountLimit, authController.register);
+router.post('/login', accountLimit, loginLockout.guard(byEmail), authController.login);
 router.post('/logout', authController.logout);
-router.post('/forgot-password', authController.forgotPassword);
-router.post('/reset-password', authController.resetPassword);
-router.get('/user', authController.getUser);
+router.post('/forgot-password', resetRequestLimit, authController.forgotPassword);
+router.post('/reset-password', accountLimit, otpLockout.guard(byResetEmail), authController.resetPassword);
+router.get('/user', checkAuth, authController.getUser);
+router.patch('/profile', checkAuth, authController.updateProfile);
+
+// مسارات جلسات التطبيق (توكنات JWT)
+router.post('/refresh', authController.refresh); // تجديد الجلسة قبل انتهاء صلاحيتها
 
 // مسارات التحقق من رقم الهاتف
-router.post('/verify-phone', checkAuth, verificationController.verifyPhoneCode); // التحقق من رقم الهاتف
-router.post('/resend-verification', checkAuth, verificationController.resendVerificationCode); // إعادة إرسال رمز التحقق
+router.post('/verify-phone', checkAuth, otpLimit, otpLockout.guard(byUser), verificationController.verifyPhoneCode); // التحقق من رقم الهاتف
+router.post('/resend-verification', checkAuth, otpLimit, verificationController.resendVerificationCode); // إعادة إرسال رمز التحقق
 router.get('/verification-status', checkAuth, verificationController.checkVerificationStatus); // حالة التحقق
 
 module.exports = router;
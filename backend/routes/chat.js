@@ -0,0 +1,21 @@
+const express = require('express');
+const router = express.Router();
+const chatController = require('../controllers/chatController');
+const { checkAuth, requireRole } = require('../middleware/auth');
+const { rateLimit, byUser } = require('../middleware/rateLimit');
+
+// حد إرسال الرسائل لكل حساب
+const sendLimit = rateLimit({ name: 'chat-send', max: 30, windowSeconds: 60, key: byUser });
+
+// المحادثات متاحة لطرفيها: رائد الأعمال ومالك الإعلان
+router.get('/chat/realtime', checkAuth, chatController.getRealtimeTopic);
+
+router.use('/conversations', checkAuth);
+
+router.get('/conversations', chatController.listConversations);
+router.post('/conversations', requireRole('entrepreneur'), chatController.openConversation);
+router.get('/conversations/:id/messages', chatController.listMessages);
+router.post('/conversations/:id/messages', sendLimit, chatController.sendMessage);
+router.post('/conversations/:id/read', chatController.markRead);
+
+module.exports = router;
@@ -0,0 +1,21 @@
+const express = require('express');
+const router = express.Router();
+const collectionsController = require('../controllers/favoriteCollectionsController');
+const { checkAuth, requireRole } = require('../middleware/auth');
+
+// رابط المجموعة المشتركة للقراءة فقط ولا يتطلب تسجيل الدخول
+router.get('/shared-collections/:token', collectionsController.getSharedCollection);
+
+// إدارة المجموعات خاصة برواد الأعمال
+router.use('/favorite-collections', checkAuth, requireRole('entrepreneur'));
+
+router.get('/favorite-collections', collectionsController.listCollections);
+router.post('/favorite-collections', collectionsController.createCollection);
+router.patch('/favorite-collections/:id', collectionsController.renameCollection);
+router.delete('/favorite-collections/:id', collectionsController.deleteCollection);
+router.put('/favorite-collections/:id/listings/:listingId', collectionsController.addListing);
+router.delete('/favorite-collections/:id/listings/:listingId', collectionsController.removeListing);
+router.post('/favorite-collections/:id/share', collectionsController.shareCollection);
+router.delete('/favorite-collections/:id/share', collectionsController.unshareCollection);
+
+module.exports = router;
@@ -0,0 +1,15 @@
+const express = require('express');
+const router = express.Router();
+const favoritesController = require('../controllers/favoritesController');
+const { checkAuth, requireRole } = require('../middleware/auth');
+
+// المفضلة محفوظة على الخادم لرواد الأعمال وتتزامن بين أجهزتهم
+router.use('/favorites', checkAuth, requireRole('entrepreneur'));
+
+router.get('/favorites', favoritesController.listFavorites);
+router.post('/favorites/merge', favoritesController.mergeFavorites);
+router.put('/favorites/:listingId', favoritesController.addFavorite);
+router.patch('/favorites/:listingId', favoritesController.updateFavorite);
+router.delete('/favorites/:listingId', favoritesController.removeFavorite);
+
+module.exports = router;
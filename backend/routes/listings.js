@@ -0,0 +1,9 @@
+const express = require('express');
+const router = express.Router();
+const listingsController = require('../controllers/listingsController');
+const { checkAuth, requireRole, requireVerifiedPhone } = require('../middleware/auth');
+
+// نشر العقارات متاح للملاك الذين تحققوا من أرقام هواتفهم فقط
+router.post('/listings', checkAuth, requireRole('owner'), requireVerifiedPhone, listingsController.createListing);
+
+module.exports = router;
@@ -0,0 +1,13 @@
+const express = require('express');
+const router = express.Router();
+const profilesController = require('../controllers/recommendationProfilesController');
+const { checkAuth, requireRole } = require('../middleware/auth');
+
+// ملفات التوصية المحفوظة خاصة برواد الأعمال
+router.use('/recommendation-profiles', checkAuth, requireRole('entrepreneur'));
+
+router.get('/recommendation-profiles', profilesController.listProfiles);
+router.post('/recommendation-profiles', profilesController.saveProfile);
+router.delete('/recommendation-profiles/:id', profilesController.deleteProfile);
+
+module.exports = router;
@@ -11,6 +11,9 @@ const app = express();
 app.use(cors());
 app.use(express.json());
 
+// عدد الوكلاء العكسيين أمام الخادم حتى يكون req.ip عنوان العميل الحقيقي
+app.set('trust proxy', Number(process.env.TRUST_PROXY) || 0);
+
 // إعداد Supabase
 const supabaseUrl = process.env.SUPABASE_URL;
 const supabaseKey = process.env.SUPABASE_KEY;
@@ -32,9 +35,24 @@ app.get('/', (req, res) => {
 // استيراد مسارات API
 const recommendationsRoutes = require('./routes/recommendations');
 const authRoutes = require('./routes/auth');
+const listingsRoutes = require('./routes/listings');
+const recommendationProfilesRoutes = require('./routes/recommendationProfiles');
+const favoritesRoutes = require('./routes/favorites');
+const favoriteCollectionsRoutes = require('./routes/favoriteCollections');
+const chatRoutes = require('./routes/chat');
+
+// حدود الطلبات لكل عنوان IP
+const { rateLimit, byIp } = require('./middleware/rateLimit');
+app.use('/auth', rateLimit({ name: 'auth-ip', max: 30, windowSeconds: 60, key: byIp }));
+app.use('/api', rateLimit({ name: 'api-ip', max: 120, windowSeconds: 60, key: byIp }));
 
 // استخدام مسارات API
 app.use('/api', recommendationsRoutes);
+app.use('/api', listingsRoutes);
+app.use('/api', recommendationProfilesRoutes);
+app.use('/api', favoritesRoutes);
+app.use('/api', favoriteCollectionsRoutes);
+app.use('/api', chatRoutes);
 app.use('/auth', authRoutes);
 
 // مثال على استخدام حماية المسارات بواسطة ميدلوير المصادقة
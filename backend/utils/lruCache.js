@@ -0,0 +1,44 @@
+// ذاكرة تخزين مؤقت في الذاكرة بسياسة LRU (الأقدم استخداماً يُحذف أولاً) مع مدة صلاحية
+// تعتمد على ترتيب الإدراج في Map: كل قراءة تعيد المفتاح إلى آخر القائمة
+
+/**
+ * إنشاء ذاكرة مؤقتة جديدة
+ * @param {{ max: number, ttlMs: number }} options - أقصى عدد للعناصر ومدة صلاحية كل عنصر بالمللي ثانية
+ */
+exports.createLruCache = ({ max, ttlMs }) => {
+  const entries = new Map();
+
+  return {
+    // القيمة المحفوظة أو undefined إن لم توجد أو انتهت صلاحيتها
+    get(key, now = Date.now()) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+
+      if (now - entry.storedAt >= ttlMs) {
+        entries.delete(key);
+        return undefined;
+      }
+
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    set(key, value, now = Date.now()) {
+      entries.delete(key);
+      entries.set(key, { value, storedAt: now });
+
+      while (entries.size > max) {
+        entries.delete(entries.keys().next().value);
+      }
+    },
+
+    clear() {
+      entries.clear();
+    },
+
+    get size() {
+      return entries.size;
+    }
+  };
+};
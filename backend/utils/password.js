@@ -0,0 +1,71 @@
+const crypto = require('crypto');
+
+// صيغة التجزئة مطابقة لما يكتبه التطبيق في عمود password_hash:
+// pbkdf2_sha256$<عدد التكرارات>$<الملح hex>$<المفتاح المشتق hex>
+const PASSWORD_HASH_ALGORITHM = 'pbkdf2_sha256';
+const PASSWORD_HASH_ITERATIONS = 100000;
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+const LEGACY_HASH_PATTERN = /^hash_([\s\S]*)_(\d+)$/;
+
+const pbkdf2 = (password, salt, iterations, keyLength) =>
+  new Promise((resolve, reject) => {
+    crypto.pbkdf2(password, salt, iterations, keyLength, 'sha256', (error, key) => {
+      if (error) return reject(error);
+      resolve(key);
+    });
+  });
+
+// مقارنة ثابتة الزمن لتجنب تسريب معلومات عبر التوقيت
+const constantTimeEqual = (a, b) => a.length === b.length && crypto.timingSafeEqual(a, b);
+
+/**
+ * تجزئة كلمة المرور بملح عشوائي لكل مستخدم
+ * @param {string} password - كلمة المرور
+ * @returns {Promise<string>} - قيمة التجزئة بالصيغة ذات الإصدار
+ */
+exports.hashPassword = async (password) => {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const key = await pbkdf2(password, salt, PASSWORD_HASH_ITERATIONS, KEY_BYTES);
+  return `${PASSWORD_HASH_ALGORITHM}$${PASSWORD_HASH_ITERATIONS}$${salt.toString('hex')}$${key.toString('hex')}`;
+};
+
+/**
+ * التحقق من كلمة المرور مقابل التجزئة المخزنة
+ * @param {string} password - كلمة المرور المدخلة
+ * @param {string} storedHash - قيمة عمود password_hash
+ * @returns {Promise<{valid: boolean, needsRehash: boolean}>}
+ */
+exports.verifyPassword = async (password, storedHash) => {
+  if (!storedHash || typeof password !== 'string') {
+    return { valid: false, needsRehash: false };
+  }
+
+  // الصيغة القديمة hash_<password>_<timestamp> تقبل مرة واحدة ثم تُرقّى
+  const legacyMatch = LEGACY_HASH_PATTERN.exec(storedHash);
+  if (legacyMatch) {
+    const valid = constantTimeEqual(Buffer.from(legacyMatch[1]), Buffer.from(password));
+    return { valid, needsRehash: valid };
+  }
+
+  const parts = storedHash.split('$');
+  if (parts.length !== 4 || parts[0] !== PASSWORD_HASH_ALGORITHM) {
+    return { valid: false, needsRehash: false };
+  }
+
+  const iterations = parseInt(parts[1], 10);
+  if (!Number.isFinite(iterations) || iterations <= 0) {
+    return { valid: false, needsRehash: false };
+  }
+
+  const salt = Buffer.from(parts[2], 'hex');
+  const expected = Buffer.from(parts[3], 'hex');
+  if (expected.length === 0) {
+    return { valid: false, needsRehash: false };
+  }
+
+  const candidate = await pbkdf2(password, salt, iterations, expected.length);
+  const valid = constantTimeEqual(candidate, expected);
+
+  return { valid, needsRehash: valid && iterations < PASSWORD_HASH_ITERATIONS };
+};
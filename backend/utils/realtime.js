@@ -0,0 +1,41 @@
+const crypto = require('crypto');
+
+// إعداد Supabase Realtime: الخادم يبث عبر REST دون اتصال دائم
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_KEY;
+// مفتاح اشتقاق قنوات المستخدمين، وافتراضياً مفتاح توقيع الجلسات
+const topicSecret = process.env.CHAT_TOPIC_SECRET || process.env.JWT_SECRET;
+
+/**
+ * قناة البث الخاصة بالمستخدم
+ * الاسم مشتق بـ HMAC فلا يُخمَّن من معرف المستخدم، ولا يحصل عليه إلا صاحبه من /api/chat/realtime
+ * @param {string} role - entrepreneur أو owner
+ * @param {number} id - معرف المستخدم في جدول دوره
+ */
+exports.topicFor = (role, id) =>
+  'chat:' + crypto.createHmac('sha256', topicSecret).update(`${role}:${id}`).digest('hex');
+
+/**
+ * بث أحداث إلى قنوات المستخدمين
+ * فشل البث لا يُفشل الطلب: البيانات محفوظة ويجلبها التطبيق عند فتح المحادثة
+ * @param {{ topic: string, event: string, payload: object }[]} events
+ */
+exports.broadcast = async (events) => {
+  try {
+    const response = await fetch(`${supabaseUrl}/realtime/v1/api/broadcast`, {
+      method: 'POST',
+      headers: {
+        apikey: supabaseKey,
+        Authorization: `Bearer ${supabaseKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ messages: events })
+    });
+
+    if (!response.ok) {
+      console.error('Error broadcasting chat events:', `status ${response.status}`);
+    }
+  } catch (error) {
+    console.error('Error broadcasting chat events:', error.message);
+  }
+};
@@ -0,0 +1,65 @@
+// عداد بنافذة زمنية منزلقة يُحفظ في الذاكرة
+// يسجل أوقات الطلبات لكل مفتاح ويرفض الطلب عند تجاوز الحد داخل النافذة
+
+/**
+ * إنشاء عداد جديد
+ * @param {{ max: number, windowMs: number, maxKeys?: number }} options - الحد الأقصى للطلبات وطول النافذة بالمللي ثانية
+ * - maxKeys: أقصى عدد للمفاتيح المحفوظة، حتى لا تملأ عناوين أو بريدات عشوائية الذاكرة
+ */
+exports.createSlidingWindow = ({ max, windowMs, maxKeys = 100000 }) => {
+  // مرتبة حسب آخر طلب مقبول (كل طلب يعيد المفتاح إلى آخر القائمة)، فالمنتهية في أولها
+  const hits = new Map();
+
+  // حذف المفاتيح التي خرجت كل طلباتها من النافذة، ثم الأقدم إن زاد العدد عن الحد
+  const sweep = (now) => {
+    for (const [key, times] of hits) {
+      if (now - times[times.length - 1] < windowMs) break;
+      hits.delete(key);
+    }
+    while (hits.size > maxKeys) {
+      hits.delete(hits.keys().next().value);
+    }
+  };
+
+  // حذف الأوقات التي خرجت من النافذة
+  const prune = (key, now) => {
+    const recent = (hits.get(key) || []).filter(time => now - time < windowMs);
+    if (recent.length > 0) {
+      hits.set(key, recent);
+    } else {
+      hits.delete(key);
+    }
+    return recent;
+  };
+
+  return {
+    /**
+     * تسجيل طلب جديد للمفتاح إن كان ضمن الحد
+     * @returns {{ allowed: boolean, remaining: number, retryAfter: number }} - retryAfter بالثواني
+     */
+    hit(key, now = Date.now()) {
+      const recent = prune(key, now);
+
+      if (recent.length >= max) {
+        const retryAfter = Math.max(1, Math.ceil((recent[0] + windowMs - now) / 1000));
+        return { allowed: false, remaining: 0, retryAfter };
+      }
+
+      recent.push(now);
+      hits.delete(key);
+      hits.set(key, recent);
+      sweep(now);
+      return { allowed: true, remaining: max - recent.length, retryAfter: 0 };
+    },
+
+    // مسح سجل المفتاح (مثلاً بعد تسجيل دخول ناجح)
+    reset(key) {
+      hits.delete(key);
+    },
+
+    // عدد المفاتيح المحفوظة
+    get size() {
+      return hits.size;
+    }
+  };
+};
@@ -0,0 +1,81 @@
+const { createSlidingWindow } = require('../slidingWindow');
+const templates = require('./templates');
+
+// المزودات المتاحة، ويُختار أحدها بالمتغير SMS_PROVIDER
+const PROVIDERS = {
+  twilio: require('./providers/twilio'),
+  http: require('./providers/httpGateway'),
+  outbox: require('./providers/outbox'),
+  console: require('./providers/console')
+};
+
+// حد الرسائل لكل رقم: 5 رسائل في الساعة افتراضياً
+const rateLimiter = createSlidingWindow({
+  max: Number(process.env.SMS_RATE_LIMIT_MAX) || 5,
+  windowMs: (Number(process.env.SMS_RATE_LIMIT_WINDOW_SECONDS) || 3600) * 1000
+});
+
+// خطأ يُرمى عند تجاوز حد الرسائل لرقم معين
+class SmsRateLimitError extends Error {
+  constructor(retryAfter) {
+    super('تم تجاوز الحد المسموح من الرسائل لهذا الرقم. يرجى المحاولة لاحقاً');
+    this.name = 'SmsRateLimitError';
+    this.code = 'sms_rate_limited';
+    this.retryAfter = retryAfter;
+  }
+}
+exports.SmsRateLimitError = SmsRateLimitError;
+
+// عند عدم تحديد مزود نستخدم Twilio إن كان مهيأً، وإلا نطبع الرسائل في السجل
+const selectProvider = () => {
+  const name = process.env.SMS_PROVIDER;
+
+  if (name) {
+    if (!PROVIDERS[name]) {
+      throw new Error(`Unknown SMS_PROVIDER "${name}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}`);
+    }
+    return PROVIDERS[name];
+  }
+
+  return PROVIDERS.twilio.isConfigured() ? PROVIDERS.twilio : PROVIDERS.console;
+};
+
+const provider = selectProvider();
+
+exports.getProvider = () => provider;
+
+/**
+ * إرسال رسالة نصية عبر المزود المحدد
+ * @param {string} to - رقم الهاتف بالصيغة الدولية
+ * @param {string} body - نص الرسالة
+ * @returns {Promise<{success: boolean, provider: string, id: string|null, dev?: boolean}>}
+ */
+exports.sendSMS = async (to, body) => {
+  const limit = rateLimiter.hit(to);
+  if (!limit.allowed) {
+    throw new SmsRateLimitError(limit.retryAfter);
+  }
+
+  try {
+    const result = await provider.send(to, body);
+    return { success: true, provider: provider.name, ...result };
+  } catch (error) {
+    console.error(`Error sending SMS via ${provider.name}:`, error.message);
+    if (process.env.NODE_ENV !== 'production') {
+      // في بيئة التطوير نطبع الرسالة بدلاً من إفشال الطلب
+      const result = await PROVIDERS.console.send(to, body);
+      return { success: true, provider: PROVIDERS.console.name, ...result };
+    }
+    throw error;
+  }
+};
+
+/**
+ * إرسال رسالة من قالب في ملفات الترجمة
+ * @param {string} to - رقم الهاتف بالصيغة الدولية
+ * @param {string} templateKey - مفتاح القالب في قسم sms
+ * @param {Object} params - قيم القالب
+ * @param {string} [language] - لغة الرسالة (افتراضياً العربية)
+ */
+exports.sendTemplate = (to, templateKey, params, language) =>
+  exports.sendSMS(to, templates.render(templateKey, params, language));
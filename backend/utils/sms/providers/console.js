@@ -0,0 +1,7 @@
+// مزود للتطوير: يطبع الرسالة في السجل بدلاً من إرسالها
+exports.name = 'console';
+
+exports.send = async (to, body) => {
+  console.log(`[DEV MODE] رسالة إلى ${to}: ${body}`);
+  return { id: null, dev: true };
+};
@@ -0,0 +1,45 @@
+// مزود عام لبوابات الرسائل عبر HTTP (مثل Taqnyat و Unifonic للأرقام السعودية)
+// يرسل طلب POST بصيغة JSON: { recipients: [رقم بدون +], body, sender } مع توكن Bearer
+
+const gatewayUrl = process.env.SMS_GATEWAY_URL;
+const gatewayApiKey = process.env.SMS_GATEWAY_API_KEY;
+const gatewaySender = process.env.SMS_GATEWAY_SENDER;
+const REQUEST_TIMEOUT_MS = 10000;
+
+exports.name = 'http';
+
+exports.isConfigured = () => Boolean(gatewayUrl && gatewayApiKey && gatewaySender);
+
+exports.send = async (to, body) => {
+  if (!exports.isConfigured()) {
+    throw new Error('SMS gateway is not configured (SMS_GATEWAY_URL, SMS_GATEWAY_API_KEY, SMS_GATEWAY_SENDER)');
+  }
+
+  const response = await fetch(gatewayUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${gatewayApiKey}`
+    },
+    body: JSON.stringify({
+      recipients: [to.replace(/^\+/, '')],
+      body,
+      sender: gatewaySender
+    }),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+
+  const text = await response.text();
+  if (!response.ok) {
+    throw new Error(`SMS gateway responded with ${response.status}: ${text}`);
+  }
+
+  let result = {};
+  try {
+    result = JSON.parse(text);
+  } catch (parseError) {
+    // بعض البوابات ترد بنص عادي عند النجاح
+  }
+
+  return { id: result.messageId || result.id || null };
+};
@@ -0,0 +1,43 @@
+const fs = require('fs');
+const path = require('path');
+
+// مزود للاختبار: يكتب الرسائل في ملف JSON بدلاً من إرسالها عبر الشبكة
+const outboxPath = process.env.SMS_OUTBOX_PATH || path.join(__dirname, '..', '..', '..', 'sms-outbox.json');
+
+exports.name = 'outbox';
+exports.path = outboxPath;
+
+// قراءة كل الرسائل المحفوظة (مصفوفة فارغة إذا لم يوجد الملف)
+exports.readOutbox = () => {
+  try {
+    return JSON.parse(fs.readFileSync(outboxPath, 'utf8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+};
+
+exports.clearOutbox = () => {
+  fs.writeFileSync(outboxPath, '[]\n');
+};
+
+// آخر رسالة أُرسلت إلى رقم معين
+exports.lastMessageTo = (to) => {
+  const messages = exports.readOutbox().filter(message => message.to === to);
+  return messages.length > 0 ? messages[messages.length - 1] : null;
+};
+
+exports.send = async (to, body) => {
+  const messages = exports.readOutbox();
+  const message = {
+    id: `outbox-${Date.now()}-${messages.length + 1}`,
+    to,
+    body,
+    sent_at: new Date().toISOString()
+  };
+
+  messages.push(message);
+  fs.writeFileSync(outboxPath, `${JSON.stringify(messages, null, 2)}\n`);
+
+  return { id: message.id };
+};
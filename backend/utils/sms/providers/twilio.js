@@ -0,0 +1,32 @@
+const twilio = require('twilio');
+
+// إعداد Twilio
+const twilioAccountSid = process.env.TWILIO_ACCOUNT_SID;
+const twilioAuthToken = process.env.TWILIO_AUTH_TOKEN;
+const twilioPhoneNumber = process.env.TWILIO_PHONE_NUMBER;
+
+let client = null;
+
+exports.name = 'twilio';
+
+// يكون المزود جاهزاً فقط عند توفر بيانات حساب صحيحة
+exports.isConfigured = () =>
+  Boolean(twilioAccountSid && twilioAccountSid.startsWith('AC') && twilioAuthToken && twilioPhoneNumber);
+
+exports.send = async (to, body) => {
+  if (!exports.isConfigured()) {
+    throw new Error('Twilio is not configured (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER)');
+  }
+
+  if (!client) {
+    client = twilio(twilioAccountSid, twilioAuthToken);
+  }
+
+  const message = await client.messages.create({
+    body,
+    from: twilioPhoneNumber,
+    to
+  });
+
+  return { id: message.sid };
+};
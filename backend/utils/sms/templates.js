@@ -0,0 +1,40 @@
+// قوالب الرسائل النصية من ملفات الترجمة المشتركة مع التطبيق (locales/*.json -> sms)
+const en = require('../../../locales/en.json');
+const ar = require('../../../locales/ar.json');
+
+const TEMPLATES = {
+  en: en.sms,
+  ar: ar.sms
+};
+
+// العربية هي اللغة الافتراضية للتطبيق
+const DEFAULT_LANGUAGE = 'ar';
+
+/**
+ * اختيار لغة الرسالة من قيمة مثل هيدر Accept-Language
+ * @param {string} [language] - مثل "en-US,en;q=0.9" أو "ar"
+ * @returns {'ar'|'en'}
+ */
+exports.resolveLanguage = (language) => {
+  const primary = String(language || '').split(',')[0].trim().slice(0, 2).toLowerCase();
+  return TEMPLATES[primary] ? primary : DEFAULT_LANGUAGE;
+};
+
+/**
+ * تكوين نص الرسالة من القالب
+ * @param {string} key - مفتاح القالب مثل verificationCode
+ * @param {Object} params - القيم التي تستبدل {{name}} في القالب
+ * @param {string} [language] - لغة الرسالة
+ */
+exports.render = (key, params = {}, language) => {
+  const lang = exports.resolveLanguage(language);
+  const template = TEMPLATES[lang][key] || TEMPLATES[DEFAULT_LANGUAGE][key];
+
+  if (!template) {
+    throw new Error(`Unknown SMS template: ${key}`);
+  }
+
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+};
@@ -0,0 +1,82 @@
+const jwt = require('jsonwebtoken');
+const crypto = require('crypto');
+
+// إعداد مفاتيح التوقيع ومدد الصلاحية
+const accessTokenSecret = process.env.JWT_SECRET;
+const refreshTokenSecret = process.env.JWT_REFRESH_SECRET;
+const ACCESS_TOKEN_TTL_SECONDS = parseInt(process.env.JWT_ACCESS_TTL_SECONDS, 10) || 15 * 60; // 15 دقيقة
+const REFRESH_TOKEN_TTL_SECONDS = parseInt(process.env.JWT_REFRESH_TTL_SECONDS, 10) || 30 * 24 * 60 * 60; // 30 يومًا
+const ISSUER = 'ruknapp-backend';
+
+if (!accessTokenSecret) {
+  throw new Error('JWT_SECRET environment variable is required');
+}
+
+// مفتاح منفصل، فتسريب مفتاح توكنات الوصول لا يسمح بتزوير توكنات تحديث طويلة الصلاحية
+if (!refreshTokenSecret) {
+  throw new Error('JWT_REFRESH_SECRET environment variable is required');
+}
+
+const sign = (user, type, secret, expiresIn, claims = {}) =>
+  jwt.sign(
+    { role: user.role, email: user.email, type, ...claims },
+    secret,
+    {
+      subject: String(user.id),
+      issuer: ISSUER,
+      expiresIn,
+      jwtid: crypto.randomUUID()
+    }
+  );
+
+const decode = (token, type, secret) => {
+  const payload = jwt.verify(token, secret, { issuer: ISSUER });
+  if (payload.type !== type) {
+    throw new jwt.JsonWebTokenError(`Expected ${type} token`);
+  }
+  return payload;
+};
+
+const toUser = (payload) => ({
+  id: Number(payload.sub),
+  role: payload.role,
+  email: payload.email
+});
+
+/**
+ * إصدار زوج جديد من توكنات الوصول والتحديث للمستخدم
+ * @param {{id: number, role: string, email: string, token_version?: number}} user - المستخدم (رائد أعمال أو مالك)
+ * @returns {{access_token: string, refresh_token: string, token_type: string, expires_in: number, expires_at: number}}
+ */
+exports.issueTokens = (user) => {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    access_token: sign(user, 'access', accessTokenSecret, ACCESS_TOKEN_TTL_SECONDS),
+    refresh_token: sign(user, 'refresh', refreshTokenSecret, REFRESH_TOKEN_TTL_SECONDS, { ver: user.token_version || 0 }),
+    token_type: 'bearer',
+    expires_in: ACCESS_TOKEN_TTL_SECONDS,
+    expires_at: now + ACCESS_TOKEN_TTL_SECONDS
+  };
+};
+
+/**
+ * التحقق من توكن الوصول
+ * @param {string} token - توكن الوصول من هيدر Authorization
+ * @returns {{id: number, role: string, email: string}} - بيانات المستخدم
+ */
+exports.verifyAccessToken = (token) => toUser(decode(token, 'access', accessTokenSecret));
+
+/**
+ * التحقق من توكن التحديث
+ * @param {string} token - توكن التحديث
+ * @returns {{id: number, role: string, email: string, jti: string, tokenVersion: number, expiresAt: Date}} - بيانات المستخدم والتوكن
+ */
+exports.verifyRefreshToken = (token) => {
+  const payload = decode(token, 'refresh', refreshTokenSecret);
+  return {
+    ...toUser(payload),
+    jti: payload.jti,
+    tokenVersion: payload.ver || 0,
+    expiresAt: new Date(payload.exp * 1000)
+  };
+};
@@ -0,0 +1,145 @@
+// تقييم المناطق على عوامل مُطبَّعة مع شرح لكل عامل
+// نفس الحساب في src/utils/zoneScoring.ts في التطبيق (يستخدمه التطبيق عند انقطاع الاتصال بالخادم)
+// واختبار __tests__/utils/zoneScoring.test.ts يشغّل النسختين على البيانات نفسها ويفشل إذا اختلفتا
+//
+// كل عامل يُعاد قياسه بين 0 و1 مقارنة بالمناطق الأخرى حتى لا تطغى الأعمدة ذات الأرقام الكبيرة،
+// والمنافسة معكوسة (الأقل أفضل)، والنتيجة مجموع موزون من 0 إلى 100
+// العوامل قابلة للإضافة: كل عامل مدخل في FACTOR_DEFINITIONS يحدد كيف يُقرأ من المنطقة وهل الأقل أفضل،
+// ولا يُحسب إلا بوزن (من سجل الأنشطة أو من المستخدم). المنطقة التي لا قيمة لها تأخذ القيمة المحايدة،
+// والعامل الذي لا قيمة له في أي منطقة (مثل المسافة دون نقطة) يُستبعد ويتوزع وزنه على البقية
+
+const finite = (value) => (Number.isFinite(Number(value)) ? Number(value) : 0);
+
+const optionalValue = (value) => (value !== null && value !== undefined && Number.isFinite(Number(value)) ? Number(value) : null);
+
+// إضافة عامل: مدخل هنا وحقله في بيانات المنطقة وأوزانه في جدول business_types
+const FACTOR_DEFINITIONS = {
+  popularity: { value: zone => finite(zone.popularity), lowerIsBetter: false },
+  ratings: { value: zone => finite(zone.ratings), lowerIsBetter: false },
+  competition: { value: zone => finite(zone.competitors), lowerIsBetter: true },
+  rent: { value: zone => optionalValue(zone.rent), lowerIsBetter: true },
+  pricePerSqm: { value: zone => optionalValue(zone.pricePerSqm), lowerIsBetter: true },
+  complementary: { value: zone => optionalValue(zone.complementary), lowerIsBetter: false },
+  distance: { value: zone => optionalValue(zone.distanceKm), lowerIsBetter: true }
+};
+
+const FACTORS = Object.keys(FACTOR_DEFINITIONS);
+
+// العوامل التي يزنها كل نشاط، والبقية اختيارية
+const BASE_FACTORS = ['popularity', 'ratings', 'competition'];
+
+// حجم العينة الذي تصل عنده الثقة إلى 0.5
+const CONFIDENCE_HALF_SAMPLE = 10;
+
+const CONFIDENCE_LEVELS = [
+  { min: 0.7, level: 'high' },
+  { min: 0.4, level: 'medium' },
+  { min: 0, level: 'low' }
+];
+
+// القيمة المعطاة لكل المناطق عندما لا يتغير العامل بينها
+const NEUTRAL = 0.5;
+
+const normalizeMinMax = (values) => {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (!(max > min)) {
+    return values.map(() => NEUTRAL);
+  }
+  return values.map(value => (value - min) / (max - min));
+};
+
+const confidenceFor = (sampleSize) => {
+  const n = Math.max(0, finite(sampleSize));
+  const confidence = n / (n + CONFIDENCE_HALF_SAMPLE);
+  const { level } = CONFIDENCE_LEVELS.find(entry => confidence >= entry.min);
+  return { confidence, confidenceLevel: level };
+};
+
+const weightOf = (weights, factor) => Math.max(0, finite(weights[factor]));
+
+// الأوزان تُقاس لتصبح مجموعها 1، وإن كانت كلها صفراً تتساوى العوامل الأساسية
+const normalizeWeights = (weights) => {
+  const total = FACTORS.reduce((sum, factor) => sum + weightOf(weights, factor), 0);
+  return FACTORS.reduce((result, factor) => {
+    result[factor] = total > 0
+      ? weightOf(weights, factor) / total
+      : BASE_FACTORS.includes(factor) ? 1 / BASE_FACTORS.length : 0;
+    return result;
+  }, {});
+};
+
+// تطبيع القيم المعروفة فقط، وغير المعروفة تأخذ القيمة المحايدة
+const normalizeKnown = (values) => {
+  const known = values.filter(value => value !== null);
+  const normalized = known.length > 0 ? normalizeMinMax(known) : [];
+  let next = 0;
+  return values.map(value => (value === null ? NEUTRAL : normalized[next++]));
+};
+
+// مع ميزانية: المنطقة مناسبة تماماً حتى الميزانية وتنخفض قيمتها حتى ضعفها
+const affordability = (rent, budget) => {
+  if (rent === null) return NEUTRAL;
+  if (rent <= budget) return 1;
+  return Math.max(0, 1 - (rent - budget) / budget);
+};
+
+/**
+ * تقييم المناطق مقارنة ببعضها، والنتيجة مرتبة من الأفضل (التعادل لصالح الأعلى ثقة)
+ * @param {{ zone_id: number, popularity: number, ratings: number, competitors: number, sampleSize: number, rent?: number|null, pricePerSqm?: number|null, complementary?: number|null, distanceKm?: number|null }[]} zones
+ * @param {Object<string, number>} weights - وزن لكل عامل من FACTORS، والعامل بلا وزن لا يُحسب
+ * @param {{ budget?: number|null }} options - ميزانية الإيجار السنوي بالريال
+ */
+exports.scoreZones = (zones, weights, { budget = null } = {}) => {
+  if (zones.length === 0) {
+    return [];
+  }
+
+  const rawByFactor = FACTORS.reduce((result, factor) => {
+    result[factor] = zones.map(zone => FACTOR_DEFINITIONS[factor].value(zone));
+    return result;
+  }, {});
+
+  // العامل الذي لا قيمة له في أي منطقة يضيف النقاط المحايدة نفسها للجميع فقط
+  const available = FACTORS.reduce((result, factor) => {
+    result[factor] = rawByFactor[factor].some(value => value !== null) ? weights[factor] : 0;
+    return result;
+  }, {});
+  const shares = normalizeWeights(available);
+
+  const normalizedByFactor = FACTORS.reduce((result, factor) => {
+    const raw = rawByFactor[factor];
+    if (factor === 'rent' && budget > 0) {
+      result[factor] = raw.map(value => affordability(value, budget));
+      return result;
+    }
+    const values = normalizeKnown(raw);
+    result[factor] = FACTOR_DEFINITIONS[factor].lowerIsBetter ? values.map(value => 1 - value) : values;
+    return result;
+  }, {});
+
+  return zones
+    .map((zone, index) => {
+      const factors = FACTORS.reduce((result, factor) => {
+        const normalized = normalizedByFactor[factor][index];
+        result[factor] = {
+          raw: rawByFactor[factor][index],
+          normalized,
+          weight: shares[factor],
+          contribution: normalized * shares[factor] * 100
+        };
+        return result;
+      }, {});
+
+      const score = FACTORS.reduce((sum, factor) => sum + factors[factor].contribution, 0);
+
+      return {
+        zone_id: zone.zone_id,
+        score,
+        explanation: { factors, sampleSize: zone.sampleSize, ...confidenceFor(zone.sampleSize) }
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.explanation.confidence - a.explanation.confidence);
+};
+
+exports.FACTORS = FACTORS;
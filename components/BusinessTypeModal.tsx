@@ -11,27 +11,21 @@ import {
 import { FontAwesome5 } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
 import { useFilters, BusinessType } from '../src/context/FilterContext';
+import { businessTypeLabel } from '../src/lib/businessTypes';
 
 const BusinessTypeModal = () => {
-   const { t } = useTranslation();
+   const { t, i18n } = useTranslation();
    const {
      isBusinessTypeModalVisible,
      setBusinessTypeModalVisible,
      selectedBusinessType,
      setSelectedBusinessType,
+     businessTypes,
      isLoadingRecommendations,
-     fetchRecommendationsForBusinessType
+     fetchRecommendationsForBusinessType,
+     setWeightPanelVisible
    } = useFilters();
 
-   // Available business types with Font Awesome icon names
-   const businessTypes: { id: BusinessType; name: string; iconName: string }[] = [
-     { id: 'Barber', name: t('businessTypes.barber'), iconName: 'cut' },
-     { id: 'Gym', name: t('businessTypes.gym'), iconName: 'dumbbell' },
-     { id: 'Gas Station', name: t('businessTypes.gasStation'), iconName: 'gas-pump' },
-     { id: 'Laundry', name: t('businessTypes.laundry'), iconName: 'tshirt' },
-     { id: 'Pharmacy', name: t('businessTypes.pharmacy'), iconName: 'pills' },
-     { id: 'Supermarket', name: t('businessTypes.supermarket'), iconName: 'shopping-cart' },
-   ];
 
   // Select a business type and close modal
   const selectBusinessType = (type: BusinessType) => {
@@ -43,6 +37,12 @@ const BusinessTypeModal = () => {
     setBusinessTypeModalVisible(false);
   };
 
+  // Weights, budget and distance for the selected type
+  const openAdvanced = () => {
+    setBusinessTypeModalVisible(false);
+    setWeightPanelVisible(true);
+  };
+
   return (
     <Modal
       animationType="slide"
@@ -72,7 +72,7 @@ const BusinessTypeModal = () => {
                 onPress={() => selectBusinessType(item.id)}
               >
                 <FontAwesome5 
-                  name={item.iconName} 
+                  name={item.icon} 
                   size={40} 
                   style={[
                     styles.businessIcon,
@@ -85,7 +85,7 @@ const BusinessTypeModal = () => {
                     selectedBusinessType === item.id && styles.selectedBusinessTypeName
                   ]}
                 >
-                  {item.name}
+                  {businessTypeLabel(item, i18n.language)}
                 </Text>
                 {isLoadingRecommendations && selectedBusinessType === item.id && (
                   <ActivityIndicator style={styles.loadingIndicator} color="#fbb507" />
@@ -95,6 +95,15 @@ const BusinessTypeModal = () => {
             contentContainerStyle={styles.businessTypesList}
           />
 
+          <TouchableOpacity
+            style={[styles.advancedButton, selectedBusinessType === 'none' && styles.disabled]}
+            onPress={openAdvanced}
+            disabled={selectedBusinessType === 'none'}
+          >
+            <FontAwesome5 name="sliders-h" size={14} color="#fbb507" />
+            <Text style={styles.advancedButtonText}>{t('businessTypeModal.advanced')}</Text>
+          </TouchableOpacity>
+
           <View style={styles.buttonContainer}>
             <TouchableOpacity
               style={styles.resetButton}
@@ -180,6 +189,21 @@ const styles = StyleSheet.create({
     color: '#fbb507',
     fontWeight: '600',
   },
+  advancedButton: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 10,
+  },
+  advancedButtonText: {
+    color: '#fbb507',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
   buttonContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,135 @@
+// ComparisonTray.tsx - Bar shown above the tab bar while listings are picked for comparison
+import React, { FC } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Image } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { useRouter, useSegments } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useComparison } from '../src/context/ComparisonContext';
+import { MIN_COMPARED, MAX_COMPARED } from '../src/utils/listingComparison';
+import { normalizeListingImages } from '../src/utils/listingImages';
+
+// Height of the tab bar in app/(tabs)/_layout.tsx
+const TAB_BAR_HEIGHT = 84;
+
+const ComparisonTray: FC = () => {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const segments = useSegments();
+  const insets = useSafeAreaInsets();
+  const { compared, toggleCompared, clearCompared } = useComparison();
+
+  if (compared.length === 0 || segments[0] === 'compareListings') return null;
+
+  const ready = compared.length >= MIN_COMPARED;
+  const bottom = segments[0] === '(tabs)' ? TAB_BAR_HEIGHT + 8 : insets.bottom + 12;
+
+  const open = () => {
+    router.push({
+      pathname: '/compareListings',
+      params: { ids: compared.map(item => item.id).join(',') }
+    });
+  };
+
+  return (
+    <View style={[styles.tray, { bottom }]}>
+      <View style={styles.thumbnails}>
+        {compared.map(item => (
+          <TouchableOpacity key={item.id} onPress={() => toggleCompared(item)} accessibilityLabel={t('comparison.remove')}>
+            <Image
+              source={{ uri: normalizeListingImages(item.images ?? item.image).cover }}
+              style={styles.thumbnail}
+            />
+            <View style={styles.removeBadge}>
+              <FontAwesome name="times" size={8} color="#fff" />
+            </View>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={styles.hint} numberOfLines={2}>
+        {ready
+          ? t('comparison.selected', { count: compared.length, max: MAX_COMPARED })
+          : t('comparison.pickMore')}
+      </Text>
+      <TouchableOpacity onPress={clearCompared} style={styles.clear}>
+        <Text style={styles.clearText}>{t('comparison.clear')}</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        onPress={open}
+        disabled={!ready}
+        style={[styles.compareButton, !ready && styles.disabled]}
+      >
+        <Text style={styles.compareText}>{t('comparison.compare')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  tray: {
+    position: 'absolute',
+    left: 12,
+    right: 12,
+    zIndex: 90,
+    elevation: 8,
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 8,
+    padding: 10,
+    borderRadius: 12,
+    backgroundColor: '#1E2A38',
+    shadowColor: '#000',
+    shadowOpacity: 0.2,
+    shadowRadius: 6,
+  },
+  thumbnails: {
+    flexDirection: 'row-reverse',
+    gap: 6,
+  },
+  thumbnail: {
+    width: 34,
+    height: 34,
+    borderRadius: 6,
+    backgroundColor: '#4B5563',
+  },
+  removeBadge: {
+    position: 'absolute',
+    top: -4,
+    right: -4,
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#D64545',
+  },
+  hint: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 12,
+    textAlign: 'right',
+  },
+  clear: {
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+  },
+  clearText: {
+    color: '#D0D0D0',
+    fontSize: 12,
+  },
+  compareButton: {
+    backgroundColor: '#fbb507',
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  compareText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+});
+
+export default ComparisonTray;
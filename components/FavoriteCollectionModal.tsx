@@ -0,0 +1,213 @@
+// FavoriteCollectionModal.tsx - Create a favorite collection, or rename, share and delete one
+import React, { FC, useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator
+} from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { FavoriteCollection } from '../src/lib/supabase';
+
+interface FavoriteCollectionModalProps {
+  visible: boolean;
+  // null creates a new collection
+  collection: FavoriteCollection | null;
+  onSave: (name: string) => Promise<void>;
+  onShare: (collection: FavoriteCollection) => void;
+  onStopSharing: (collection: FavoriteCollection) => void;
+  onDelete: (collection: FavoriteCollection) => void;
+  onClose: () => void;
+}
+
+const FavoriteCollectionModal: FC<FavoriteCollectionModalProps> = ({
+  visible,
+  collection,
+  onSave,
+  onShare,
+  onStopSharing,
+  onDelete,
+  onClose
+}) => {
+  const { t } = useTranslation();
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) setName(collection?.name ?? '');
+  }, [visible, collection?.id]);
+
+  const trimmed = name.trim();
+  const unchanged = collection !== null && trimmed === collection.name;
+
+  const save = async () => {
+    if (!trimmed) return;
+    if (unchanged) {
+      onClose();
+      return;
+    }
+    setSaving(true);
+    try {
+      await onSave(trimmed);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>
+              {collection ? t('favoriteCollections.editTitle') : t('favoriteCollections.createTitle')}
+            </Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.closeButton}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.saveRow}>
+            <TextInput
+              style={[styles.input, styles.nameInput]}
+              value={name}
+              onChangeText={setName}
+              placeholder={t('favoriteCollections.name')}
+              textAlign="right"
+              maxLength={60}
+              autoFocus={!collection}
+            />
+            <TouchableOpacity
+              style={[styles.saveButton, !trimmed && styles.disabled]}
+              onPress={save}
+              disabled={!trimmed || saving}
+            >
+              {saving
+                ? <ActivityIndicator size="small" color="#fff" />
+                : <Text style={styles.saveButtonText}>{t('favoriteCollections.save')}</Text>}
+            </TouchableOpacity>
+          </View>
+
+          {collection && (
+            <>
+              <TouchableOpacity style={styles.actionRow} onPress={() => onShare(collection)}>
+                <FontAwesome name="share-alt" size={16} color="#1C64F2" />
+                <Text style={[styles.actionText, styles.link]}>{t('favoriteCollections.share')}</Text>
+              </TouchableOpacity>
+              {collection.shareToken && (
+                <TouchableOpacity style={styles.actionRow} onPress={() => onStopSharing(collection)}>
+                  <FontAwesome name="chain-broken" size={16} color="#555" />
+                  <Text style={styles.actionText}>{t('favoriteCollections.stopSharing')}</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.actionRow} onPress={() => onDelete(collection)}>
+                <FontAwesome name="trash" size={16} color="#D64545" />
+                <Text style={[styles.actionText, styles.danger]}>{t('favoriteCollections.delete')}</Text>
+              </TouchableOpacity>
+              <Text style={styles.hint}>
+                {collection.shareToken ? t('favoriteCollections.sharedHint') : t('favoriteCollections.shareHint')}
+              </Text>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 30,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  closeButton: {
+    fontSize: 22,
+    color: '#888',
+  },
+  saveRow: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D0D0D0',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#333',
+  },
+  nameInput: {
+    flex: 1,
+  },
+  saveButton: {
+    backgroundColor: '#fbb507',
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 11,
+  },
+  saveButtonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  actionRow: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5E5',
+  },
+  actionText: {
+    fontSize: 14,
+    color: '#333',
+    textAlign: 'right',
+  },
+  link: {
+    color: '#1C64F2',
+  },
+  danger: {
+    color: '#D64545',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#888',
+    textAlign: 'right',
+    marginTop: 8,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+});
+
+export default FavoriteCollectionModal;
@@ -0,0 +1,271 @@
+// FavoriteDetailsModal.tsx - Private note, status and collections of one saved listing
+import React, { FC, useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  Alert
+} from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { MarketplaceItem } from './types';
+import {
+  FavoriteAnnotation,
+  FavoriteCollection,
+  FavoriteStatus,
+  FAVORITE_STATUSES
+} from '../src/lib/supabase';
+
+export const STATUS_COLORS: Record<FavoriteStatus, string> = {
+  saved: '#888',
+  contacted: '#1C64F2',
+  visited: '#2E9E5B',
+  rejected: '#D64545'
+};
+
+interface FavoriteDetailsModalProps {
+  item: MarketplaceItem | null;
+  annotation: FavoriteAnnotation;
+  collections: FavoriteCollection[];
+  collectionsAvailable: boolean;
+  onAnnotate: (changes: Partial<FavoriteAnnotation>) => void;
+  onToggleCollection: (collection: FavoriteCollection, included: boolean) => Promise<void>;
+  onClose: () => void;
+}
+
+const FavoriteDetailsModal: FC<FavoriteDetailsModalProps> = ({
+  item,
+  annotation,
+  collections,
+  collectionsAvailable,
+  onAnnotate,
+  onToggleCollection,
+  onClose
+}) => {
+  const { t } = useTranslation();
+  const [note, setNote] = useState(annotation.note);
+  const [changingCollection, setChangingCollection] = useState<number | null>(null);
+
+  // Start from the saved note whenever another listing is opened
+  useEffect(() => {
+    setNote(annotation.note);
+  }, [item?.id]);
+
+  // Unsaved note text is kept when the sheet is dismissed
+  const close = () => {
+    if (note.trim() !== annotation.note) {
+      onAnnotate({ note: note.trim() });
+    }
+    onClose();
+  };
+
+  const toggleCollection = async (collection: FavoriteCollection) => {
+    if (!item) return;
+    setChangingCollection(collection.id);
+    try {
+      await onToggleCollection(collection, !collection.listingIds.includes(item.id));
+    } catch (error: any) {
+      Alert.alert(t('favoriteCollections.collectionError'), error.message);
+    } finally {
+      setChangingCollection(null);
+    }
+  };
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={item !== null}
+      onRequestClose={close}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{t('favoriteCollections.details')}</Text>
+            <TouchableOpacity onPress={close}>
+              <Text style={styles.closeButton}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <Text style={styles.subtitle} numberOfLines={1}>{item?.title}</Text>
+
+            {/* Status */}
+            <Text style={styles.sectionTitle}>{t('favoriteCollections.statusTitle')}</Text>
+            <View style={styles.statusRow}>
+              {FAVORITE_STATUSES.map(status => {
+                const active = annotation.status === status;
+                return (
+                  <TouchableOpacity
+                    key={status}
+                    style={[styles.statusChip, active && { backgroundColor: STATUS_COLORS[status], borderColor: STATUS_COLORS[status] }]}
+                    onPress={() => onAnnotate({ status })}
+                  >
+                    <Text style={[styles.statusText, active && styles.activeStatusText]}>
+                      {t(`favoriteCollections.status.${status}`)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {/* Private note */}
+            <Text style={styles.sectionTitle}>{t('favoriteCollections.note')}</Text>
+            <TextInput
+              style={styles.input}
+              value={note}
+              onChangeText={setNote}
+              placeholder={t('favoriteCollections.notePlaceholder')}
+              textAlign="right"
+              multiline
+              maxLength={1000}
+            />
+            <Text style={styles.hint}>{t('favoriteCollections.notePrivate')}</Text>
+
+            {/* Collections */}
+            {collectionsAvailable && (
+              <>
+                <Text style={styles.sectionTitle}>{t('favoriteCollections.collections')}</Text>
+                {collections.map(collection => {
+                  const included = item ? collection.listingIds.includes(item.id) : false;
+                  return (
+                    <TouchableOpacity
+                      key={collection.id}
+                      style={styles.collectionRow}
+                      onPress={() => toggleCollection(collection)}
+                      disabled={changingCollection !== null}
+                    >
+                      {changingCollection === collection.id
+                        ? <ActivityIndicator size="small" color="#fbb507" />
+                        : <FontAwesome name={included ? 'check-square' : 'square-o'} size={20} color={included ? '#fbb507' : '#888'} />}
+                      <Text style={styles.collectionName}>{collection.name}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+                {collections.length === 0 && <Text style={styles.hint}>{t('favoriteCollections.noCollections')}</Text>}
+              </>
+            )}
+          </ScrollView>
+
+          <TouchableOpacity style={styles.doneButton} onPress={close}>
+            <Text style={styles.doneButtonText}>{t('favoriteCollections.done')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '85%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  closeButton: {
+    fontSize: 22,
+    color: '#888',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#fbb507',
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    textAlign: 'right',
+    marginTop: 18,
+    marginBottom: 8,
+  },
+  statusRow: {
+    flexDirection: 'row-reverse',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  statusChip: {
+    borderWidth: 1,
+    borderColor: '#D0D0D0',
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  statusText: {
+    fontSize: 13,
+    color: '#555',
+  },
+  activeStatusText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D0D0D0',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#333',
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#888',
+    textAlign: 'right',
+    marginTop: 4,
+  },
+  collectionRow: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5E5',
+  },
+  collectionName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+    textAlign: 'right',
+  },
+  doneButton: {
+    backgroundColor: '#fbb507',
+    paddingVertical: 15,
+    borderRadius: 10,
+    alignItems: 'center',
+    marginTop: 15,
+  },
+  doneButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default FavoriteDetailsModal;
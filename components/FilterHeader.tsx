@@ -4,17 +4,20 @@ import { View, Text, StyleSheet, TouchableOpacity, Image } from "react-native";
 import { useTranslation } from "react-i18next";
 import { icons } from "../constants";
 import { useFilters } from "../src/context/FilterContext";
+import { businessTypeLabel } from "../src/lib/businessTypes";
 import FilterModal from "./FilterModal";
 import BusinessTypeModal from "./BusinessTypeModal";
+import WeightTuningPanel from "./WeightTuningPanel";
 
 const FilterHeader: FC = () => {
-   const { t } = useTranslation();
+   const { t, i18n } = useTranslation();
    const {
      sortOption,
      cycleSortOption,
      setFilterModalVisible,
      setBusinessTypeModalVisible,
      selectedBusinessType,
+     businessTypes,
      getActiveFilterCount,
    } = useFilters();
 
@@ -35,7 +38,8 @@ const FilterHeader: FC = () => {
     if (selectedBusinessType === 'none') {
       return t('filters.noTypeSelected');
     }
-    return selectedBusinessType;
+    const type = businessTypes.find(entry => entry.id === selectedBusinessType);
+    return type ? businessTypeLabel(type, i18n.language) : selectedBusinessType;
   };
 
   // Get filter count text
@@ -105,6 +109,7 @@ const FilterHeader: FC = () => {
       {/* Render modals */}
       <FilterModal />
       <BusinessTypeModal />
+      <WeightTuningPanel />
     </View>
   );
 };
@@ -11,10 +11,17 @@ import {
   NativeScrollEvent,
 } from "react-native";
 import { MARKETPLACES, MarketplaceItem, images } from "./types";
+import { normalizeListingImages } from "../src/utils/listingImages";
 
 // Define image keys type to avoid TypeScript errors
 type ImageKeyType = keyof typeof images;
 
+// Bundled dummy images are referenced by key; everything else is a remote listing photo
+const slideSource = (item: MarketplaceItem) =>
+  typeof item.image === "string" && item.image in images
+    ? images[item.image as ImageKeyType]
+    : { uri: normalizeListingImages(item.images ?? item.image).cover };
+
 const { width } = Dimensions.get("window");
 
 interface ImageSliderProps {
@@ -76,7 +83,7 @@ const ImageSlider: FC<ImageSliderProps> = ({
         {data.map((item) => (
           <View key={item.id} style={{ width }}>
             <Image
-              source={images[item.image as ImageKeyType]}
+              source={slideSource(item)}
               style={styles.image}
               resizeMode="stretch"
             />
@@ -1,11 +1,14 @@
 // MarketCard.tsx
 import React, { FC, useState, useRef, memo, useMemo, useCallback } from "react";
-import { View, Text, Image, StyleSheet, TouchableOpacity, ScrollView, Dimensions } from "react-native";
+import { View, Text, Image, StyleSheet, TouchableOpacity, ScrollView, Dimensions, Alert } from "react-native";
 import { FontAwesome } from "@expo/vector-icons";
 import { MarketplaceItem } from "./types";
 import { useRouter } from 'expo-router';
+import { useTranslation } from 'react-i18next';
 import { useFavorites } from "../src/context/FavoritesContext";
-import { PLACEHOLDER_IMAGE_URL } from '@config/env';
+import { useComparison } from "../src/context/ComparisonContext";
+import { MAX_COMPARED } from "../src/utils/listingComparison";
+import { normalizeListingImages } from '../src/utils/listingImages';
 import { useRTL } from '../src/hooks/useRTL';
 
 // Import Saudi Riyal Symbol image
@@ -37,7 +40,9 @@ const PaginationDot = memo(({ active }: { active: boolean }) => {
 
 const MarketCard: FC<MarketCardProps> = memo(({ item }) => {
   const router = useRouter();
+  const { t } = useTranslation();
   const { isFavorite, addFavorite, removeFavorite } = useFavorites();
+  const { isCompared, toggleCompared } = useComparison();
   const [activeImageIndex, setActiveImageIndex] = useState(0);
   const scrollViewRef = useRef<ScrollView>(null);
   const { isRTL, textAlign } = useRTL();
@@ -45,22 +50,11 @@ const MarketCard: FC<MarketCardProps> = memo(({ item }) => {
   // Check if item is favorite
   const isItemFavorite = useMemo(() => isFavorite(item.id), [isFavorite, item.id]);
 
-  // Process images for the property
-  const propertyImages = useMemo(() => {
-    let images: string[] = [];
-    
-    if (item.originalData?.processedImages?.length > 0) {
-      images = item.originalData.processedImages;
-    } else if (typeof item.image === 'string') {
-      if (item.image.includes('|')) {
-        images = item.image.split(/\s*\|\s*/).filter(url => url.includes('http'));
-      } else if (item.image.includes('http')) {
-        images = [item.image];
-      }
-    }
-    
-    return images.length > 0 ? images : [PLACEHOLDER_IMAGE_URL];
-  }, [item.originalData, item.image]);
+  // Full gallery for the property (placeholder when it has no photos)
+  const propertyImages = useMemo(
+    () => normalizeListingImages(item.images ?? item.image).gallery,
+    [item.images, item.image]
+  );
 
   // Handle image scrolling
   const handleScroll = useCallback((event: any) => {
@@ -80,6 +74,18 @@ const MarketCard: FC<MarketCardProps> = memo(({ item }) => {
     }
   }, [isItemFavorite, removeFavorite, addFavorite, item]);
 
+  // Only listings can be compared; businesses have no rent or area
+  const canCompare = item.businessType === 'property';
+  const isItemCompared = useMemo(() => isCompared(item.id), [isCompared, item.id]);
+
+  // Long-press picks the listing for the comparison screen
+  const handleLongPress = useCallback(() => {
+    if (!canCompare) return;
+    if (!toggleCompared(item)) {
+      Alert.alert(t('comparison.fullTitle'), t('comparison.fullMessage', { max: MAX_COMPARED }));
+    }
+  }, [canCompare, toggleCompared, item, t]);
+
   // Navigate to details page
   const handleCardPress = useCallback(() => {
     router.push({
@@ -93,8 +99,8 @@ const MarketCard: FC<MarketCardProps> = memo(({ item }) => {
   const formattedSize = item.size ? item.size.replace('م²', 'm²') : '';
 
   return (
-    <TouchableOpacity onPress={handleCardPress} activeOpacity={0.7}>
-      <View style={styles.container}>
+    <TouchableOpacity onPress={handleCardPress} onLongPress={handleLongPress} activeOpacity={0.7}>
+      <View style={[styles.container, isItemCompared && styles.comparedContainer]}>
         {/* Image Slider */}
         <View style={styles.imageContainer}>
           <ScrollView
@@ -110,6 +116,13 @@ const MarketCard: FC<MarketCardProps> = memo(({ item }) => {
             ))}
           </ScrollView>
           
+          {isItemCompared && (
+            <View style={styles.comparedBadge}>
+              <FontAwesome name="columns" size={12} color="#fff" />
+              <Text style={styles.comparedBadgeText}>{t('comparison.inComparison')}</Text>
+            </View>
+          )}
+
           {propertyImages.length > 1 && (
             <View style={styles.paginationDots}>
               {propertyImages.map((_, index) => (
@@ -132,10 +145,14 @@ const MarketCard: FC<MarketCardProps> = memo(({ item }) => {
 
           {/* Property details on the right */}
           <View style={styles.details}>
-            <View style={styles.priceRow}>
-              <Image source={saudiRiyalSymbol} style={styles.riyalSymbol} resizeMode="contain" />
-              <Text style={styles.priceText}>{formattedPrice}</Text>
-            </View>
+            {formattedPrice ? (
+              <View style={styles.priceRow}>
+                <Image source={saudiRiyalSymbol} style={styles.riyalSymbol} resizeMode="contain" />
+                <Text style={styles.priceText}>{formattedPrice}</Text>
+              </View>
+            ) : (
+              <Text style={styles.priceUnknownText}>{t('business.priceUnknown')}</Text>
+            )}
             
             {formattedSize ? <Text style={styles.sizeText}>{formattedSize}</Text> : null}
             
@@ -169,6 +186,27 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     borderWidth: 0.17,
   },
+  comparedContainer: {
+    borderWidth: 2,
+    borderColor: '#fbb507',
+  },
+  comparedBadge: {
+    position: 'absolute',
+    top: 10,
+    right: 10,
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#fbb507',
+  },
+  comparedBadgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
   imageContainer: {
     width: '100%',
     height: 180,
@@ -229,6 +267,12 @@ const styles = StyleSheet.create({
     color: "#2A3644",
     textAlign: 'right',
   },
+  priceUnknownText: {
+    fontSize: 14,
+    color: "#666",
+    marginBottom: 4,
+    textAlign: 'right',
+  },
   sizeText: { 
     fontSize: 15, 
     color: "#1C64F2", 
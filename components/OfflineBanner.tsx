@@ -0,0 +1,76 @@
+// OfflineBanner.tsx - Strip shown at the top of every screen while the server cannot be reached
+import React, { FC, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { supabaseApi } from '../src/lib/supabase';
+import { useOffline } from '../src/hooks/useOffline';
+
+const OfflineBanner: FC = () => {
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const offline = useOffline();
+  const [checking, setChecking] = useState(false);
+
+  if (!offline) return null;
+
+  // Any request that reaches the server clears the banner; this one just asks right away
+  const retry = async () => {
+    setChecking(true);
+    try {
+      await supabaseApi.testConnection();
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <View style={[styles.banner, { paddingTop: insets.top + 6 }]} pointerEvents="box-none">
+      <FontAwesome name="wifi" size={14} color="#fff" />
+      <Text style={styles.text} numberOfLines={2}>{t('errors.offlineBanner')}</Text>
+      <TouchableOpacity onPress={retry} disabled={checking} style={styles.retry}>
+        {checking
+          ? <ActivityIndicator size="small" color="#fff" />
+          : <Text style={styles.retryText}>{t('common.retry')}</Text>}
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    zIndex: 100,
+    elevation: 10,
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+    backgroundColor: '#4B5563',
+  },
+  text: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 13,
+    textAlign: 'right',
+  },
+  retry: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#fff',
+  },
+  retryText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
+
+export default OfflineBanner;
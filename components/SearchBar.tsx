@@ -1,30 +1,53 @@
 // SearchBar.tsx
-import React, { FC, useState } from "react";
+import React, { FC, useState, useEffect } from "react";
 import { View, TextInput, StyleSheet, Image, TouchableOpacity, Text } from "react-native";
+import { FontAwesome } from "@expo/vector-icons";
 import { useTranslation } from 'react-i18next';
 import { icons } from "../constants";
+import type { SearchSuggestion, SuggestionKind } from "../src/lib/search";
 
 interface SearchBarProps {
   onSearch: (text: string) => void;
   value?: string;
   onClear?: () => void;
+  suggestions?: SearchSuggestion[];
+  onSelectSuggestion?: (suggestion: SearchSuggestion) => void;
 }
 
-const SearchBar: FC<SearchBarProps> = ({ onSearch, value = '', onClear }) => {
+const SUGGESTION_ICONS: Record<SuggestionKind, React.ComponentProps<typeof FontAwesome>['name']> = {
+  district: 'map-marker',
+  businessType: 'briefcase',
+  listing: 'home',
+};
+
+const SearchBar: FC<SearchBarProps> = ({ onSearch, value = '', onClear, suggestions = [], onSelectSuggestion }) => {
   const [searchText, setSearchText] = useState(value);
-  const { t } = useTranslation();
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const { t, i18n } = useTranslation();
+
+  // The parent may change the text, e.g. when a district suggestion is picked
+  useEffect(() => {
+    setSearchText(value);
+  }, [value]);
 
   const handleChangeText = (text: string) => {
     setSearchText(text);
+    setShowSuggestions(true);
     onSearch(text);
   };
 
   const handleClear = () => {
     setSearchText('');
+    setShowSuggestions(false);
     onSearch('');
     if (onClear) onClear();
   };
 
+  const handleSelect = (suggestion: SearchSuggestion) => {
+    setShowSuggestions(false);
+    onSelectSuggestion?.(suggestion);
+  };
+
   return (
     <View style={styles.container}>
       <View style={styles.searchWrapper}>
@@ -35,6 +58,7 @@ const SearchBar: FC<SearchBarProps> = ({ onSearch, value = '', onClear }) => {
           style={[styles.input, {fontWeight: 'bold'}]}
           value={searchText}
           onChangeText={handleChangeText}
+          onSubmitEditing={() => setShowSuggestions(false)}
           returnKeyType="search"
         />
         {searchText.length > 0 && (
@@ -43,6 +67,22 @@ const SearchBar: FC<SearchBarProps> = ({ onSearch, value = '', onClear }) => {
           </TouchableOpacity>
         )}
       </View>
+      {showSuggestions && searchText.length > 0 && suggestions.length > 0 && (
+        <View style={styles.suggestions}>
+          {suggestions.map(suggestion => (
+            <TouchableOpacity
+              key={`${suggestion.kind}-${suggestion.listingId ?? suggestion.businessType ?? suggestion.label}`}
+              onPress={() => handleSelect(suggestion)}
+              style={styles.suggestionRow}
+            >
+              <Text style={styles.suggestionText} numberOfLines={1}>
+                {suggestion.labels ? suggestion.labels[i18n.language.startsWith('ar') ? 'ar' : 'en'] : suggestion.label}
+              </Text>
+              <FontAwesome name={SUGGESTION_ICONS[suggestion.kind]} size={14} color="#999" />
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
     </View>
   );
 };
@@ -90,6 +130,31 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     color: "#999",
     marginTop: -2,
+  },
+  suggestions: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 8,
+    marginTop: 4,
+    paddingVertical: 4,
+    elevation: 4,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 3,
+  },
+  suggestionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "flex-end",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  suggestionText: {
+    flex: 1,
+    marginRight: 8,
+    color: "#1E2A38",
+    fontSize: 14,
+    textAlign: "right",
   }
 });
 
@@ -0,0 +1,593 @@
+// WeightTuningPanel.tsx - Advanced recommendation settings: factor weights, rent budget, distance
+// anchor, a live preview of the resulting zone ranking and the user's saved profiles
+import React, { FC, useState, useEffect, useMemo, useRef } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  Alert
+} from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { useFilters } from '../src/context/FilterContext';
+import { useAuth } from '../src/context/AuthContext';
+import { supabaseApi, RecommendationProfile } from '../src/lib/supabase';
+import { businessTypeLabel } from '../src/lib/businessTypes';
+import { fetchZoneRecommendations, RecommendationOptions, ZoneRecommendation } from '../src/utils/zoneRecommendations';
+import { FactorWeights, ScoringFactor, SCORING_FACTORS } from '../src/utils/zoneScoring';
+
+const WEIGHT_STEP = 0.1;
+
+// Zones shown in the preview, and how deep the default ranking goes when working out movement
+const PREVIEW_ZONES = 5;
+const BASELINE_ZONES = 20;
+
+// Delay after the last change before the preview is rescored
+const PREVIEW_DEBOUNCE_MS = 400;
+
+const FACTOR_LABELS: Record<ScoringFactor, string> = {
+  popularity: 'recommendation.popularity',
+  ratings: 'recommendation.ratings',
+  competition: 'recommendation.competition',
+  rent: 'recommendation.rent',
+  pricePerSqm: 'recommendation.pricePerSqm',
+  complementary: 'recommendation.complementary',
+  distance: 'recommendation.distance'
+};
+
+const roundWeight = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 10) / 10;
+
+// Every factor filled in, so the steppers always have a value
+const completeWeights = (weights: FactorWeights): Record<ScoringFactor, number> =>
+  SCORING_FACTORS.reduce((result, factor) => {
+    result[factor] = roundWeight(weights[factor] ?? 0);
+    return result;
+  }, {} as Record<ScoringFactor, number>);
+
+const WeightTuningPanel: FC = () => {
+  const { t, i18n } = useTranslation();
+  const { user, isAuthenticated } = useAuth();
+  const {
+    isWeightPanelVisible,
+    setWeightPanelVisible,
+    selectedBusinessType,
+    businessTypes,
+    recommendationOptions,
+    applyRecommendationOptions,
+    activeProfile,
+    applyProfile
+  } = useFilters();
+
+  const type = businessTypes.find(entry => entry.id === selectedBusinessType);
+  const canSaveProfiles = isAuthenticated && user?.role === 'entrepreneur';
+
+  // Draft settings; only applied to the feed when the user presses Apply
+  const [weights, setWeights] = useState<Record<ScoringFactor, number>>(completeWeights({}));
+  const [budgetText, setBudgetText] = useState('');
+  const [anchor, setAnchor] = useState<RecommendationOptions['anchor']>(null);
+
+  const [preview, setPreview] = useState<ZoneRecommendation[]>([]);
+  const [baselineRanks, setBaselineRanks] = useState<Map<number, number>>(new Map());
+  const [previewLoading, setPreviewLoading] = useState(false);
+
+  const [profiles, setProfiles] = useState<RecommendationProfile[]>([]);
+  const [profileName, setProfileName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Bumped on every preview so a slow response for older settings is dropped
+  const previewId = useRef(0);
+
+  const draftOptions = useMemo((): RecommendationOptions => {
+    const budget = Number(budgetText.replace(/[^\d.]/g, ''));
+    return {
+      weights,
+      budget: budget > 0 ? budget : null,
+      anchor
+    };
+  }, [weights, budgetText, anchor]);
+
+  // Start from what is applied now (or the business type's defaults) every time the panel opens
+  useEffect(() => {
+    if (!isWeightPanelVisible) return;
+    setWeights(completeWeights(recommendationOptions.weights ?? type?.weights ?? {}));
+    setBudgetText(recommendationOptions.budget ? String(recommendationOptions.budget) : '');
+    setAnchor(recommendationOptions.anchor ?? null);
+    setProfileName(activeProfile?.name ?? '');
+  }, [isWeightPanelVisible]);
+
+  // Ranking with the type's own weights, to show how far each zone moved
+  useEffect(() => {
+    if (!isWeightPanelVisible || !type) return;
+    fetchZoneRecommendations(type.id, BASELINE_ZONES)
+      .then(zones => setBaselineRanks(new Map(zones.map((zone, index) => [zone.zone_id, index + 1]))))
+      .catch(() => setBaselineRanks(new Map()));
+  }, [isWeightPanelVisible, type?.id]);
+
+  useEffect(() => {
+    if (!isWeightPanelVisible || !type) return;
+    const id = ++previewId.current;
+    setPreviewLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const zones = await fetchZoneRecommendations(type.id, PREVIEW_ZONES, draftOptions);
+        if (id === previewId.current) setPreview(zones);
+      } catch (e) {
+        if (id === previewId.current) setPreview([]);
+      } finally {
+        if (id === previewId.current) setPreviewLoading(false);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [isWeightPanelVisible, type?.id, draftOptions]);
+
+  useEffect(() => {
+    if (!isWeightPanelVisible || !canSaveProfiles) return;
+    supabaseApi.getRecommendationProfiles()
+      .then(setProfiles)
+      .catch(() => setProfiles([]));
+  }, [isWeightPanelVisible, canSaveProfiles]);
+
+  const changeWeight = (factor: ScoringFactor, delta: number) => {
+    setWeights(current => ({ ...current, [factor]: roundWeight(current[factor] + delta) }));
+  };
+
+  const hasWeight = SCORING_FACTORS.some(factor => weights[factor] > 0);
+
+  const close = () => setWeightPanelVisible(false);
+
+  const apply = () => {
+    applyRecommendationOptions(draftOptions);
+    close();
+  };
+
+  const reset = () => {
+    applyRecommendationOptions({});
+    close();
+  };
+
+  const saveProfile = async () => {
+    const name = profileName.trim();
+    if (!name || !type) return;
+    setSaving(true);
+    try {
+      const profile = await supabaseApi.saveRecommendationProfile({
+        name,
+        businessType: type.id,
+        weights: draftOptions.weights ?? {},
+        budget: draftOptions.budget ?? null,
+        anchor: draftOptions.anchor ?? null
+      });
+      setProfiles(current => [profile, ...current.filter(entry => entry.id !== profile.id)]);
+      applyRecommendationOptions(draftOptions, profile);
+    } catch (error: any) {
+      Alert.alert(t('weightTuning.saveError'), error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteProfile = (profile: RecommendationProfile) => {
+    Alert.alert(t('weightTuning.deleteTitle'), t('weightTuning.deleteMessage', { name: profile.name }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await supabaseApi.deleteRecommendationProfile(profile.id);
+            setProfiles(current => current.filter(entry => entry.id !== profile.id));
+            if (activeProfile?.id === profile.id) {
+              applyRecommendationOptions(recommendationOptions);
+            }
+          } catch (error: any) {
+            Alert.alert(t('weightTuning.deleteError'), error.message);
+          }
+        }
+      }
+    ]);
+  };
+
+  const chooseProfile = (profile: RecommendationProfile) => {
+    applyProfile(profile);
+    close();
+  };
+
+  const movement = (zone: ZoneRecommendation, rank: number) => {
+    const before = baselineRanks.get(zone.zone_id);
+    if (before === undefined) return { text: t('weightTuning.new'), color: '#2E9E5B' };
+    if (before === rank) return { text: '–', color: '#888' };
+    return before > rank
+      ? { text: `▲${before - rank}`, color: '#2E9E5B' }
+      : { text: `▼${rank - before}`, color: '#D64545' };
+  };
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={isWeightPanelVisible}
+      onRequestClose={close}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{t('weightTuning.title')}</Text>
+            <TouchableOpacity onPress={close}>
+              <Text style={styles.closeButton}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          {!type ? (
+            <Text style={styles.notice}>{t('recommendation.chooseBusinessType')}</Text>
+          ) : (
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <Text style={styles.subtitle}>{businessTypeLabel(type, i18n.language)}</Text>
+
+              {/* Weights */}
+              <Text style={styles.sectionTitle}>{t('weightTuning.weights')}</Text>
+              {SCORING_FACTORS.map(factor => (
+                <View key={factor} style={styles.weightRow}>
+                  <Text style={styles.weightLabel}>{t(FACTOR_LABELS[factor])}</Text>
+                  <TouchableOpacity style={styles.stepper} onPress={() => changeWeight(factor, -WEIGHT_STEP)}>
+                    <FontAwesome name="minus" size={12} color="#555" />
+                  </TouchableOpacity>
+                  <View style={styles.barTrack}>
+                    <View style={[styles.barFill, { width: `${weights[factor] * 100}%` }]} />
+                  </View>
+                  <TouchableOpacity style={styles.stepper} onPress={() => changeWeight(factor, WEIGHT_STEP)}>
+                    <FontAwesome name="plus" size={12} color="#555" />
+                  </TouchableOpacity>
+                  <Text style={styles.weightValue}>{weights[factor].toFixed(1)}</Text>
+                </View>
+              ))}
+              {!hasWeight && <Text style={styles.errorText}>{t('weightTuning.noWeights')}</Text>}
+
+              {/* Rent budget */}
+              <Text style={styles.sectionTitle}>{t('weightTuning.budget')}</Text>
+              <TextInput
+                style={styles.input}
+                value={budgetText}
+                onChangeText={setBudgetText}
+                placeholder={t('weightTuning.budgetPlaceholder')}
+                keyboardType="numeric"
+                textAlign="right"
+              />
+
+              {/* Distance anchor, set by long-pressing the map */}
+              <Text style={styles.sectionTitle}>{t('weightTuning.anchor')}</Text>
+              <View style={styles.anchorRow}>
+                <Text style={styles.hint}>
+                  {anchor
+                    ? t('weightTuning.anchorSet', { lat: anchor.latitude.toFixed(4), lng: anchor.longitude.toFixed(4) })
+                    : t('weightTuning.anchorHint')}
+                </Text>
+                {anchor && (
+                  <TouchableOpacity onPress={() => setAnchor(null)}>
+                    <Text style={styles.link}>{t('weightTuning.clearAnchor')}</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+
+              {/* Live preview */}
+              <View style={styles.previewHeader}>
+                <Text style={styles.sectionTitle}>{t('weightTuning.preview')}</Text>
+                {previewLoading && <ActivityIndicator size="small" color="#fbb507" />}
+              </View>
+              {preview.map((zone, index) => {
+                const move = movement(zone, index + 1);
+                return (
+                  <View key={zone.zone_id} style={styles.previewRow}>
+                    <Text style={styles.previewRank}>{index + 1}</Text>
+                    <Text style={styles.previewName} numberOfLines={1}>
+                      {zone.district_name || t('recommendation.zoneLabel', { id: zone.zone_id })}
+                    </Text>
+                    <Text style={styles.previewScore}>{zone.zone_score.toFixed(1)}</Text>
+                    <Text style={[styles.previewMove, { color: move.color }]}>{move.text}</Text>
+                  </View>
+                );
+              })}
+              {!previewLoading && preview.length === 0 && (
+                <Text style={styles.hint}>{t('recommendation.noZones')}</Text>
+              )}
+
+              {/* Saved profiles */}
+              <Text style={styles.sectionTitle}>{t('weightTuning.profiles')}</Text>
+              {canSaveProfiles ? (
+                <>
+                  <View style={styles.saveRow}>
+                    <TextInput
+                      style={[styles.input, styles.nameInput]}
+                      value={profileName}
+                      onChangeText={setProfileName}
+                      placeholder={t('weightTuning.profileName')}
+                      textAlign="right"
+                      maxLength={60}
+                    />
+                    <TouchableOpacity
+                      style={[styles.saveButton, (!profileName.trim() || !hasWeight) && styles.disabled]}
+                      onPress={saveProfile}
+                      disabled={!profileName.trim() || !hasWeight || saving}
+                    >
+                      {saving
+                        ? <ActivityIndicator size="small" color="#fff" />
+                        : <Text style={styles.saveButtonText}>{t('weightTuning.save')}</Text>}
+                    </TouchableOpacity>
+                  </View>
+                  {profiles.map(profile => {
+                    const profileType = businessTypes.find(entry => entry.id === profile.businessType);
+                    return (
+                      <View key={profile.id} style={styles.profileRow}>
+                        <TouchableOpacity style={styles.profileInfo} onPress={() => chooseProfile(profile)}>
+                          <Text style={[styles.profileName, activeProfile?.id === profile.id && styles.activeText]}>
+                            {profile.name}
+                          </Text>
+                          <Text style={styles.hint}>
+                            {profileType ? businessTypeLabel(profileType, i18n.language) : profile.businessType}
+                          </Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={() => deleteProfile(profile)} style={styles.deleteButton}>
+                          <FontAwesome name="trash" size={16} color="#D64545" />
+                        </TouchableOpacity>
+                      </View>
+                    );
+                  })}
+                  {profiles.length === 0 && <Text style={styles.hint}>{t('weightTuning.noProfiles')}</Text>}
+                </>
+              ) : (
+                <Text style={styles.hint}>{t('weightTuning.signInToSave')}</Text>
+              )}
+            </ScrollView>
+          )}
+
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity style={styles.resetButton} onPress={reset}>
+              <Text style={styles.resetButtonText}>{t('weightTuning.reset')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.applyButton, (!type || !hasWeight) && styles.disabled]}
+              onPress={apply}
+              disabled={!type || !hasWeight}
+            >
+              <Text style={styles.applyButtonText}>{t('weightTuning.apply')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    height: '85%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  closeButton: {
+    fontSize: 22,
+    color: '#888',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#fbb507',
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    textAlign: 'right',
+    marginTop: 18,
+    marginBottom: 8,
+  },
+  weightRow: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    marginVertical: 4,
+  },
+  weightLabel: {
+    width: 90,
+    fontSize: 13,
+    color: '#555',
+    textAlign: 'right',
+  },
+  stepper: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#D0D0D0',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  barTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    marginHorizontal: 8,
+    backgroundColor: '#EEE',
+    overflow: 'hidden',
+    flexDirection: 'row-reverse',
+  },
+  barFill: {
+    height: '100%',
+    borderRadius: 4,
+    backgroundColor: '#fbb507',
+  },
+  weightValue: {
+    width: 32,
+    fontSize: 13,
+    color: '#333',
+    textAlign: 'left',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D0D0D0',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#333',
+  },
+  anchorRow: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#888',
+    textAlign: 'right',
+  },
+  link: {
+    fontSize: 13,
+    color: '#1C64F2',
+  },
+  notice: {
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#D64545',
+    textAlign: 'right',
+    marginTop: 4,
+  },
+  previewHeader: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 8,
+  },
+  previewRow: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5E5',
+  },
+  previewRank: {
+    width: 24,
+    fontWeight: 'bold',
+    color: '#333',
+    textAlign: 'center',
+  },
+  previewName: {
+    flex: 1,
+    marginHorizontal: 8,
+    color: '#333',
+    textAlign: 'right',
+  },
+  previewScore: {
+    width: 48,
+    color: '#333',
+    textAlign: 'center',
+  },
+  previewMove: {
+    width: 44,
+    fontSize: 12,
+    textAlign: 'left',
+  },
+  saveRow: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  nameInput: {
+    flex: 1,
+  },
+  saveButton: {
+    backgroundColor: '#fbb507',
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 11,
+  },
+  saveButtonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  profileRow: {
+    flexDirection: 'row-reverse',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5E5',
+  },
+  profileInfo: {
+    flex: 1,
+  },
+  profileName: {
+    fontSize: 14,
+    color: '#333',
+    textAlign: 'right',
+  },
+  activeText: {
+    color: '#fbb507',
+    fontWeight: '600',
+  },
+  deleteButton: {
+    padding: 8,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 15,
+  },
+  resetButton: {
+    flex: 1,
+    paddingVertical: 15,
+    marginRight: 10,
+    borderWidth: 1.5,
+    borderColor: '#D0D0D0',
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  resetButtonText: {
+    color: '#333',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  applyButton: {
+    flex: 2,
+    backgroundColor: '#fbb507',
+    paddingVertical: 15,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  applyButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default WeightTuningPanel;
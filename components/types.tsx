@@ -1,26 +1,31 @@
 // types.ts
+import type { ListingRow, BusinessRow } from '../src/lib/schema';
+
 export interface MarketplaceItem {
-  id: string;                           // business_id from database as string
+  id: string;                           // primary key (Listing_ID or business_id) as string
   business_id?: number;                 // business_id from database as number
   name?: string;                        // name from database (used in Supabase integration)
-  title: string;                        // rating from database (displayed as star rating)
-  price: string;                        // randomly generated price (25,000 - 100,000 range)
-  size: string | null;                  // user_ratings_total from database
+  title: string;                        // listing title or business name
+  price: string;                        // display price in SAR; empty when the price is unknown
+  priceValue?: number | null;           // numeric price in SAR used for filtering and sorting; null when unknown
+  size: string | null;                  // display floor area; null when unknown
+  area?: number | null;                 // floor area in m² used for filtering and sorting; null when unknown
   location: string;                     // zone information
   image: string | keyof typeof images;  // can be a remote URL or a key in the images mapping
   businessName: string;                 // name from database
   businessType: string;                 // business_type from database (e.g., barber)
   businessStatus?: string;              // business_status from database
-  user_ratings_total?: string;          // total user ratings count
-  zone_id?: string;                     // reference to Zones table
-  popularity_score?: string;            // popularity metric from database
-  latitude?: string;                    // latitude coordinates
-  longitude?: string;                   // longitude coordinates
+  user_ratings_total?: number;          // total user ratings count
+  zone_id?: number;                     // reference to Zones table
+  popularity_score?: number;            // popularity metric from database
+  latitude?: number;                    // latitude coordinates
+  longitude?: number;                   // longitude coordinates
   rating?: number;                      // numerical rating value
   numReviews?: number;                  // number of reviews
   business_type?: string;               // alternative business type name
-  favorites_count?: number;             // count of how many users have favorited this business
-  originalData?: any;                   // original data from Supabase
+  favorites_count?: number;             // entrepreneurs who saved this listing (Listings.favorites_count)
+  images?: string[];                    // full photo gallery when the listing has several
+  originalData?: ListingRow | BusinessRow; // validated row from Supabase
   
   // Zone recommendation algorithm properties
   recommendationScore?: number;         // score from the zone recommendation algorithm
@@ -46,9 +51,9 @@ export const MARKETPLACES: MarketplaceItem[] = [
     businessName: "صالون مقص بربر",
     businessType: "barber",
     businessStatus: "OPERATIONAL",
-    user_ratings_total: "120",
-    zone_id: "1",
-    popularity_score: "350"
+    user_ratings_total: 120,
+    zone_id: 1,
+    popularity_score: 350
   },
   {
     id: "2",
@@ -60,9 +65,9 @@ export const MARKETPLACES: MarketplaceItem[] = [
     businessName: "Nasir Hallaq",
     businessType: "barber",
     businessStatus: "OPERATIONAL",
-    user_ratings_total: "85",
-    zone_id: "2",
-    popularity_score: "280"
+    user_ratings_total: 85,
+    zone_id: 2,
+    popularity_score: 280
   },
   {
     id: "3",
@@ -74,9 +79,9 @@ export const MARKETPLACES: MarketplaceItem[] = [
     businessName: "Fawaz neighborhood market",
     businessType: "store",
     businessStatus: "OPERATIONAL",
-    user_ratings_total: "230",
-    zone_id: "3",
-    popularity_score: "420"
+    user_ratings_total: 230,
+    zone_id: 3,
+    popularity_score: 420
   },
   {
     id: "4",
@@ -88,9 +93,9 @@ export const MARKETPLACES: MarketplaceItem[] = [
     businessName: "Golden Scissors",
     businessType: "barber",
     businessStatus: "OPERATIONAL",
-    user_ratings_total: "110",
-    zone_id: "4",
-    popularity_score: "300"
+    user_ratings_total: 110,
+    zone_id: 4,
+    popularity_score: 300
   },
   {
     id: "5",
@@ -102,9 +107,9 @@ export const MARKETPLACES: MarketplaceItem[] = [
     businessName: "قهوة الرواق",
     businessType: "cafe",
     businessStatus: "OPERATIONAL",
-    user_ratings_total: "95",
-    zone_id: "2",
-    popularity_score: "290"
+    user_ratings_total: 95,
+    zone_id: 2,
+    popularity_score: 290
   },
   {
     id: "6",
@@ -116,9 +121,9 @@ export const MARKETPLACES: MarketplaceItem[] = [
     businessName: "مطعم الشام",
     businessType: "restaurant",
     businessStatus: "OPERATIONAL",
-    user_ratings_total: "150",
-    zone_id: "1",
-    popularity_score: "380"
+    user_ratings_total: 150,
+    zone_id: 1,
+    popularity_score: 380
   },
   {
     id: "7",
@@ -130,8 +135,8 @@ export const MARKETPLACES: MarketplaceItem[] = [
     businessName: "البقالة العائلية",
     businessType: "store",
     businessStatus: "OPERATIONAL",
-    user_ratings_total: "75",
-    zone_id: "3",
-    popularity_score: "250"
+    user_ratings_total: 75,
+    zone_id: 3,
+    popularity_score: 250
   },
 ];
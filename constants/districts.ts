@@ -0,0 +1,43 @@
+// districts.ts - English spellings of Riyadh district names, used by search
+//
+// Keys are the Arabic names as stored in Zones.district_name; values are the common
+// transliterations people type (without the "Al-" article, which search ignores).
+
+export const DISTRICT_TRANSLITERATIONS: Record<string, string[]> = {
+  'العليا': ['olaya', 'olaia', 'ulaya', 'oleya'],
+  'الملقا': ['malqa', 'malga', 'malqaa'],
+  'الياسمين': ['yasmin', 'yasmeen', 'yasmine'],
+  'النخيل': ['nakheel', 'nakhil', 'nakhel'],
+  'السليمانية': ['sulaimaniyah', 'sulaymaniyah', 'sulimaniya', 'sulaimaniya'],
+  'حطين': ['hittin', 'hitteen', 'hateen'],
+  'النرجس': ['narjis', 'narjes', 'narges'],
+  'الروضة': ['rawdah', 'rawda', 'rowdah', 'rawdha'],
+  'العقيق': ['aqiq', 'aqeeq', 'agig'],
+  'الورود': ['wurud', 'worood', 'wurood'],
+  'المروج': ['muruj', 'morouj', 'murooj'],
+  'الصحافة': ['sahafa', 'sahafah', 'suhafa'],
+  'الربوة': ['rabwa', 'rabwah', 'rabweh'],
+  'الملز': ['malaz'],
+  'النسيم': ['naseem', 'nasim'],
+  'الشفا': ['shifa', 'shifaa', 'shefa'],
+  'العزيزية': ['aziziyah', 'aziziya', 'azizia'],
+  'السويدي': ['suwaidi', 'suwaidy', 'swaidi'],
+  'البطحاء': ['batha', 'bathaa'],
+  'الحمراء': ['hamra', 'hamraa'],
+  'قرطبة': ['qurtubah', 'qurtuba', 'cordoba'],
+  'غرناطة': ['ghirnatah', 'granada', 'gharnata'],
+  'الرائد': ['raed', 'raid'],
+  'المعذر': ['maather', 'maathar', 'maazar'],
+  'النزهة': ['nuzha', 'nuzhah', 'nozha'],
+  'الفلاح': ['falah', 'fallah'],
+  'المرسلات': ['mursalat', 'morsalat'],
+  'الوادي': ['wadi'],
+  'الغدير': ['ghadeer', 'ghadir'],
+  'الربيع': ['rabie', 'rabi', 'rabea'],
+  'التعاون': ['taawun', 'taawon'],
+  'الازدهار': ['izdihar', 'ezdihar'],
+  'المصيف': ['masif', 'maseef'],
+  'الندى': ['nada'],
+  'العارض': ['arid', 'aared'],
+  'الرمال': ['rimal', 'remal']
+};
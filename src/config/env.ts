@@ -22,6 +22,10 @@ export const EXPO_PUBLIC_SUPABASE_URL: string = url;
 export const EXPO_PUBLIC_SUPABASE_ANON_KEY: string = key;
 
 // Direct process.env access with defaults for optional variables
+export const EXPO_PUBLIC_API_URL: string = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000';
+
+export const EXPO_PUBLIC_REST_TIMEOUT_MS: number = Number(process.env.EXPO_PUBLIC_REST_TIMEOUT_MS) || 15000;
+
 export const PLACEHOLDER_IMAGE_URL: string = process.env.EXPO_PUBLIC_PLACEHOLDER_IMAGE_URL || 'https://images.aqar.fm/webp/350x0/props/placeholder.jpg';
 
 export const GOOGLE_MAPS_CUSTOM_URL: string = process.env.EXPO_PUBLIC_GOOGLE_MAPS_CUSTOM_URL || 'https://www.google.com/maps/d/u/0/viewer?mid=1kpPnbLmYdaQIlFee8vTxr2_LNHS43UE&usp=sharing';
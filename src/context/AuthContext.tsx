@@ -1,5 +1,7 @@
-import React, { createContext, useState, useContext, useEffect } from 'react';
-import { supabaseApi, UserProfile } from '@lib/supabase';
+import React, { createContext, useState, useContext, useEffect, useRef } from 'react';
+import { supabaseApi, UserProfile, AuthSession } from '@lib/supabase';
+import { clearCacheByPrefix } from '@lib/offlineCache';
+import { createLogger } from '@lib/logger';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { router } from 'expo-router';
 
@@ -10,6 +12,9 @@ type AuthContextType = {
   signIn: (email: string, password: string) => Promise<any>;
   signUp: (email: string, password: string, userData: any) => Promise<any>;
   signOut: () => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<any>;
+  resetPassword: (email: string, code: string, newPassword: string) => Promise<any>;
+  refreshUser: () => Promise<UserProfile | null>;
   isAuthenticated: boolean;
 };
 
@@ -26,58 +31,146 @@ export const useAuth = () => {
 };
 
 // Storage keys
+const log = createLogger('AuthContext');
+
 const AUTH_KEY = 'ruknapp_auth';
 
+// Offline copies of an account's private data; the next person to use the device must not see them
+const ACCOUNT_CACHE_PREFIXES = ['conversations:', 'favoriteCollections:'];
+
+const clearAccountCaches = () =>
+  Promise.all(ACCOUNT_CACHE_PREFIXES.map(prefix => clearCacheByPrefix(prefix)));
+
+// Persist the current supabaseApi session so it survives app restarts
+const persistSession = async (session: AuthSession | null) => {
+  if (!session || !session.user) {
+    await AsyncStorage.removeItem(AUTH_KEY);
+    return;
+  }
+
+  const sessionData = {
+    user: session.user,
+    token: session.access_token,
+    refresh_token: session.refresh_token,
+    expires_at: session.expires_at,
+    timestamp: new Date().toISOString()
+  };
+  await AsyncStorage.setItem(AUTH_KEY, JSON.stringify(sessionData));
+};
+
 // Provider component
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<UserProfile | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const isAuthenticatedRef = useRef(false);
+
+  useEffect(() => {
+    isAuthenticatedRef.current = isAuthenticated;
+  }, [isAuthenticated]);
 
   // Load user from storage on app start
   useEffect(() => {
     const loadUser = async () => {
-      console.log('AuthContext: Starting loadUser');
+      log.debug('Starting loadUser');
       try {
         const storedSession = await AsyncStorage.getItem(AUTH_KEY);
 
         if (storedSession) {
           const sessionData = JSON.parse(storedSession);
 
-          // If we have stored credentials, restore the session
-          if (sessionData && sessionData.user) {
-            setUser(sessionData.user);
-            setIsAuthenticated(true);
-            console.log('AuthContext: Restored user session from storage');
-
-            // Update the in-memory session in supabaseApi
-            if (sessionData.token) {
-              // This will ensure supabaseApi has the session as well
-              try {
-                supabaseApi.setSession({
-                  access_token: sessionData.token,
-                  user: sessionData.user
-                });
-                console.log('AuthContext: Set session in supabaseApi');
-              } catch (error) {
-                console.error('AuthContext: Error setting session in supabaseApi:', error);
-              }
+          // Sessions saved before refresh tokens existed cannot be renewed; require a fresh sign-in
+          if (sessionData && sessionData.user && sessionData.token && sessionData.refresh_token) {
+            supabaseApi.setSession({
+              access_token: sessionData.token,
+              refresh_token: sessionData.refresh_token,
+              expires_at: sessionData.expires_at,
+              user: sessionData.user
+            });
+
+            // Renew an expired access token before exposing the user to the app.
+            // A network failure keeps the session; the refresh is retried on the next request.
+            const token = await supabaseApi.getAccessToken().catch(error => {
+              log.warn('Could not refresh stored session, keeping it:', error);
+              return sessionData.token as string;
+            });
+            if (token) {
+              setUser(sessionData.user);
+              setIsAuthenticated(true);
+              log.debug('Restored user session from storage');
+            } else {
+              log.debug('Stored session could not be refreshed');
             }
+          } else {
+            await AsyncStorage.removeItem(AUTH_KEY);
           }
         }
       } catch (error) {
-        console.error('AuthContext: Error loading authentication state:', error);
+        // A JSON parse error quotes the stored session, tokens included
+        log.error('Error loading authentication state:', error instanceof SyntaxError ? 'stored session is not valid JSON' : error);
       } finally {
         setIsLoading(false);
-        console.log('AuthContext: loadUser completed');
+        log.debug('loadUser completed');
       }
     };
 
     loadUser().catch((error) => {
-      console.error('AuthContext: Unhandled promise rejection in loadUser useEffect:', error);
+      log.error('Unhandled promise rejection in loadUser useEffect:', error);
+    });
+  }, []);
+
+  // Keep storage and state in sync with token refreshes and session expiry
+  useEffect(() => {
+    const unsubscribe = supabaseApi.onSessionChange((session, event) => {
+      if (event === 'refreshed') {
+        persistSession(session).catch(error => {
+          log.error('Error persisting refreshed session:', error);
+        });
+      } else if (event === 'expired' || event === 'signed_out') {
+        AsyncStorage.removeItem(AUTH_KEY).catch(() => {});
+        clearAccountCaches().catch(() => {});
+        setUser(null);
+        setIsAuthenticated(false);
+
+        if (event === 'expired' && isAuthenticatedRef.current) {
+          log.debug('Session expired, signing out');
+          router.replace('/sign-in');
+        }
+      }
     });
+
+    return unsubscribe;
   }, []);
 
+  // Refresh the access token shortly before it expires
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const schedule = () => {
+      const expiresAt = supabaseApi.getCurrentSession()?.expires_at;
+      if (!expiresAt) return;
+
+      const delay = Math.max(0, (expiresAt - 90) * 1000 - Date.now());
+      timer = setTimeout(() => {
+        supabaseApi.refreshSession()
+          .then(session => {
+            if (session) schedule();
+          })
+          .catch(error => {
+            // Network failures are retried lazily on the next authorized request
+            log.warn('Background session refresh failed:', error);
+          });
+      }, delay);
+    };
+
+    schedule();
+    return () => {
+      if (timer) clearTimeout(timer);
+    };
+  }, [isAuthenticated]);
+
   // Handle sign in
   const signIn = async (email: string, password: string) => {
     try {
@@ -89,13 +182,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         setIsAuthenticated(true);
         
         // Store auth data in AsyncStorage
-        const session = supabaseApi.getCurrentSession();
-        const sessionData = {
-          user: result.user,
-          token: session?.access_token,
-          timestamp: new Date().toISOString()
-        };
-        await AsyncStorage.setItem(AUTH_KEY, JSON.stringify(sessionData));
+        await persistSession(supabaseApi.getCurrentSession());
         
         return { success: true };
       }
@@ -119,13 +206,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         setIsAuthenticated(true);
         
         // Store auth data in AsyncStorage
-        const session = supabaseApi.getCurrentSession();
-        const sessionData = {
-          user: result.user,
-          token: session?.access_token,
-          timestamp: new Date().toISOString()
-        };
-        await AsyncStorage.setItem(AUTH_KEY, JSON.stringify(sessionData));
+        await persistSession(supabaseApi.getCurrentSession());
         
         return { success: true };
       }
@@ -150,12 +231,31 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       setUser(null);
       setIsAuthenticated(false);
     } catch (error) {
-      console.error('Error signing out:', error);
+      log.error('Error signing out:', error);
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Password reset codes are texted to the phone number on the account
+  const requestPasswordReset = (email: string) => supabaseApi.requestPasswordReset(email);
+
+  const resetPassword = (email: string, code: string, newPassword: string) =>
+    supabaseApi.resetPassword(email, code, newPassword);
+
+  // Reload the profile from the backend, e.g. after the phone number is verified
+  const refreshUser = async () => {
+    try {
+      const profile = await supabaseApi.getUserProfile();
+      setUser(profile);
+      await persistSession(supabaseApi.getCurrentSession());
+      return profile;
+    } catch (error) {
+      log.error('Error refreshing user profile:', error);
+      return null;
+    }
+  };
+
   // Context value
   const value = {
     user,
@@ -163,6 +263,9 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     signIn,
     signUp,
     signOut,
+    requestPasswordReset,
+    resetPassword,
+    refreshUser,
     isAuthenticated
   };
 
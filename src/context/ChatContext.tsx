@@ -0,0 +1,200 @@
+import React, { createContext, useState, useContext, useEffect, useRef, useCallback } from 'react';
+import { useAuth } from './AuthContext';
+import { supabaseApi, Conversation, UserRole } from '../lib/supabase';
+import { staleWhileRevalidate } from '../lib/offlineCache';
+import { subscribeConnectivity } from '../lib/connectivity';
+import { createLogger } from '../lib/logger';
+import { supabaseChatChannel } from '../lib/chatChannel';
+import {
+  ChatChannel,
+  ChatEvent,
+  ChatEventListener,
+  applyMessageToConversations,
+  markConversationRead,
+  unreadTotal,
+} from '../lib/chat';
+
+const log = createLogger('ChatContext');
+
+type ChatContextType = {
+  // Chat needs an account; signed-out users see an empty list
+  available: boolean;
+  conversations: Conversation[];
+  // Unread messages in all conversations, shown on the chat tab
+  unreadCount: number;
+  loading: boolean;
+  refreshConversations: () => Promise<void>;
+  // Starts (or reopens) the chat with a listing's owner
+  openConversationForListing: (listingId: string) => Promise<Conversation>;
+  // The conversation on screen; its new messages do not count as unread
+  setOpenConversation: (id: number | null) => void;
+  // Read receipt for the other side's messages up to `upTo`
+  markRead: (conversationId: number, upTo: number) => void;
+  // Live events for the open conversation screen
+  subscribeChatEvents: (listener: ChatEventListener) => () => void;
+};
+
+const ChatContext = createContext<ChatContextType>({
+  available: false,
+  conversations: [],
+  unreadCount: 0,
+  loading: false,
+  refreshConversations: async () => {},
+  openConversationForListing: () => Promise.reject(new Error('ChatProvider is missing')),
+  setOpenConversation: () => {},
+  markRead: () => {},
+  subscribeChatEvents: () => () => {},
+});
+
+// channel is replaced by a local channel in tests
+export const ChatProvider: React.FC<{ children: React.ReactNode; channel?: ChatChannel }> = ({
+  children,
+  channel = supabaseChatChannel
+}) => {
+  const { user, isAuthenticated } = useAuth();
+  const role = isAuthenticated && user ? user.role : null;
+  const account = role && user ? `${role}:${user.id}` : null;
+
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Latest state for the event handler, and whose chats they are
+  const conversationsRef = useRef<Conversation[]>([]);
+  const accountRef = useRef<string | null>(null);
+  const openConversationRef = useRef<number | null>(null);
+  const listenersRef = useRef(new Set<ChatEventListener>());
+
+  const update = useCallback((owner: string, next: Conversation[]) => {
+    if (accountRef.current !== owner) return;
+    conversationsRef.current = next;
+    setConversations(next);
+  }, []);
+
+  const refreshConversations = useCallback(async () => {
+    const owner = accountRef.current;
+    if (!owner) return;
+
+    setLoading(true);
+    try {
+      const { value } = await staleWhileRevalidate(
+        `conversations:${owner}`,
+        () => supabaseApi.getConversations(),
+        cached => update(owner, cached.value)
+      );
+      update(owner, value);
+    } catch {
+      // Logged by supabaseApi; the list shown so far stays
+    } finally {
+      setLoading(false);
+    }
+  }, [update]);
+
+  const handleEvent = useCallback((owner: string, myRole: UserRole, event: ChatEvent) => {
+    if (event.type === 'message') {
+      const next = applyMessageToConversations(
+        conversationsRef.current,
+        event.message,
+        myRole,
+        openConversationRef.current
+      );
+      if (next) {
+        update(owner, next);
+      } else {
+        // First message of a conversation this device has not loaded yet
+        refreshConversations();
+      }
+    } else if (event.readerRole === myRole) {
+      // Read on this device or on another one of the user's
+      update(owner, markConversationRead(conversationsRef.current, event.conversationId));
+    }
+
+    listenersRef.current.forEach(listener => listener(event));
+  }, [update, refreshConversations]);
+
+  // Load the account's conversations and listen on its private topic
+  useEffect(() => {
+    accountRef.current = account;
+    conversationsRef.current = [];
+    setConversations([]);
+
+    if (!account || !role) return;
+
+    let cancelled = false;
+    let unsubscribe: (() => void) | null = null;
+
+    const listen = async () => {
+      if (unsubscribe || cancelled) return;
+      try {
+        const topic = await supabaseApi.getChatTopic();
+        if (cancelled || unsubscribe) return;
+        unsubscribe = channel.subscribe(topic, event => handleEvent(account, role, event));
+      } catch (error) {
+        log.debug('Chat channel not joined yet, retrying when back online');
+      }
+    };
+
+    refreshConversations();
+    listen();
+
+    // Events sent while offline are missed, so the list is reloaded when requests go through again
+    const stopConnectivity = subscribeConnectivity(offline => {
+      if (offline) return;
+      listen();
+      refreshConversations();
+    });
+
+    return () => {
+      cancelled = true;
+      stopConnectivity();
+      unsubscribe?.();
+    };
+  }, [account, role, channel, handleEvent, refreshConversations]);
+
+  const openConversationForListing = useCallback(async (listingId: string) => {
+    const conversation = await supabaseApi.openConversation(listingId);
+    const owner = accountRef.current;
+    if (owner && !conversationsRef.current.some(entry => entry.id === conversation.id)) {
+      update(owner, [conversation, ...conversationsRef.current]);
+    }
+    return conversation;
+  }, [update]);
+
+  const setOpenConversation = useCallback((id: number | null) => {
+    openConversationRef.current = id;
+  }, []);
+
+  const markRead = useCallback((conversationId: number, upTo: number) => {
+    const owner = accountRef.current;
+    if (!owner) return;
+    update(owner, markConversationRead(conversationsRef.current, conversationId));
+    supabaseApi.markConversationRead(conversationId, upTo)
+      .catch(error => log.warn('Read receipt not sent, it is sent again on the next visit:', error));
+  }, [update]);
+
+  const subscribeChatEvents = useCallback((listener: ChatEventListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  return (
+    <ChatContext.Provider
+      value={{
+        available: account !== null,
+        conversations,
+        unreadCount: unreadTotal(conversations),
+        loading,
+        refreshConversations,
+        openConversationForListing,
+        setOpenConversation,
+        markRead,
+        subscribeChatEvents,
+      }}
+    >
+      {children}
+    </ChatContext.Provider>
+  );
+};
+
+export const useChat = () => useContext(ChatContext);
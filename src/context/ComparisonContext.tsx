@@ -0,0 +1,50 @@
+import React, { createContext, useState, useContext, useCallback } from 'react';
+import { MarketplaceItem } from '../../components/types';
+import { MAX_COMPARED } from '../utils/listingComparison';
+
+// Listings picked for the comparison screen; kept in memory only, like a shopping tray
+type ComparisonContextType = {
+  compared: MarketplaceItem[];
+  isCompared: (id: string) => boolean;
+  // Adds or removes a listing; returns false when the tray is already full
+  toggleCompared: (item: MarketplaceItem) => boolean;
+  clearCompared: () => void;
+};
+
+const ComparisonContext = createContext<ComparisonContextType>({
+  compared: [],
+  isCompared: () => false,
+  toggleCompared: () => false,
+  clearCompared: () => {},
+});
+
+export const ComparisonProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [compared, setCompared] = useState<MarketplaceItem[]>([]);
+
+  const isCompared = useCallback(
+    (id: string) => compared.some(item => item.id === id),
+    [compared]
+  );
+
+  const toggleCompared = useCallback((item: MarketplaceItem) => {
+    if (compared.some(entry => entry.id === item.id)) {
+      setCompared(current => current.filter(entry => entry.id !== item.id));
+      return true;
+    }
+    if (compared.length >= MAX_COMPARED) {
+      return false;
+    }
+    setCompared(current => [...current, item]);
+    return true;
+  }, [compared]);
+
+  const clearCompared = useCallback(() => setCompared([]), []);
+
+  return (
+    <ComparisonContext.Provider value={{ compared, isCompared, toggleCompared, clearCompared }}>
+      {children}
+    </ComparisonContext.Provider>
+  );
+};
+
+export const useComparison = () => useContext(ComparisonContext);
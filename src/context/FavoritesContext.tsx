@@ -1,124 +1,276 @@
-import React, { createContext, useState, useContext, useEffect } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import React, { createContext, useState, useContext, useEffect, useRef, useCallback } from 'react';
 import { MarketplaceItem } from '../../components/types';
 import { useAuth } from './AuthContext';
+import { supabaseApi, FavoriteAnnotation } from '../lib/supabase';
+import { NetworkError } from '../lib/restClient';
+import { subscribeConnectivity } from '../lib/connectivity';
+import { createLogger } from '../lib/logger';
+import {
+  StoredFavorites,
+  FavoriteOperation,
+  EMPTY_FAVORITES,
+  DEFAULT_ANNOTATION,
+  loadStoredFavorites,
+  saveStoredFavorites,
+  queueOperation,
+  applyPending,
+  applyAnnotations,
+  buildFavoriteItems,
+  replayPending,
+} from '../lib/favoritesSync';
+
+const log = createLogger('FavoritesContext');
 
 // Define the shape of our context
 type FavoritesContextType = {
   favorites: MarketplaceItem[];
+  // Changes made offline that the server has not confirmed yet
+  pendingCount: number;
   addFavorite: (item: MarketplaceItem) => void;
   removeFavorite: (id: string) => void;
   isFavorite: (id: string) => boolean;
+  // Private note and status per favorite id
+  annotations: Record<string, FavoriteAnnotation>;
+  annotateFavorite: (id: string, changes: Partial<FavoriteAnnotation>) => void;
+  // Sends pending changes and reloads the list and its listings from the server
+  refreshFavorites: () => Promise<void>;
 };
 
 // Create the context with a default value
 const FavoritesContext = createContext<FavoritesContextType>({
   favorites: [],
+  pendingCount: 0,
   addFavorite: () => {},
   removeFavorite: () => {},
   isFavorite: () => false,
+  annotations: {},
+  annotateFavorite: () => {},
+  refreshFavorites: async () => {},
 });
 
-// Base storage key for AsyncStorage
-const FAVORITES_BASE_STORAGE_KEY = 'ruknapp_favorites';
+const sendOperation = (operation: FavoriteOperation) => {
+  switch (operation.kind) {
+    case 'add':
+      return supabaseApi.addToFavorites(operation.id);
+    case 'remove':
+      return supabaseApi.removeFromFavorites(operation.id);
+    case 'annotate':
+      return supabaseApi.updateFavorite(operation.id, operation.changes);
+  }
+};
 
 // Provider component
 export const FavoritesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [favorites, setFavorites] = useState<MarketplaceItem[]>([]);
+  const [stored, setStored] = useState<StoredFavorites>(EMPTY_FAVORITES);
   const { user, isAuthenticated } = useAuth();
-  
-  // Create a user-specific storage key
-  const getUserStorageKey = () => {
-    if (!user || !user.id) return null;
-    return `${FAVORITES_BASE_STORAGE_KEY}_${user.id}`;
-  };
-
-  // Load favorites from AsyncStorage when user changes or on mount
-  useEffect(() => {
-    const loadFavorites = async () => {
+
+  const userId = isAuthenticated && user?.id ? user.id : null;
+  // The server keeps favorites for entrepreneurs; other accounts keep them on this device only
+  const syncsWithServer = userId !== null && user?.role === 'entrepreneur';
+
+  // Latest state for the async sync steps, and whose favorites it is, so a sync that finishes
+  // after switching accounts does not write into the new account's favorites
+  const storedRef = useRef<StoredFavorites>(EMPTY_FAVORITES);
+  const ownerRef = useRef<number | null>(null);
+  const sendingRef = useRef<Promise<boolean> | null>(null);
+  const syncingRef = useRef<Promise<void> | null>(null);
+
+  const update = useCallback((owner: number, change: (current: StoredFavorites) => StoredFavorites) => {
+    if (ownerRef.current !== owner) return;
+    const next = change(storedRef.current);
+    storedRef.current = next;
+    setStored(next);
+    saveStoredFavorites(owner, next).catch(error => log.error('Error saving favorites to storage:', error));
+  }, []);
+
+  const sendPending = useCallback((owner: number) => {
+    if (!sendingRef.current) {
+      const sending = replayPending(
+        () => (ownerRef.current === owner ? storedRef.current.pending[0] : undefined),
+        sendOperation,
+        operation => update(owner, current => ({
+          ...current,
+          pending: current.pending.filter(queued => queued !== operation)
+        }))
+      ).finally(() => {
+        if (sendingRef.current === sending) sendingRef.current = null;
+      });
+      sendingRef.current = sending;
+    }
+    return sendingRef.current;
+  }, [update]);
+
+  const sync = useCallback((owner: number) => {
+    if (syncingRef.current) {
+      return syncingRef.current;
+    }
+
+    const run = async () => {
+      const isOwner = () => ownerRef.current === owner;
+
+      // First sync on this device: favorites saved here before are added to the account, not lost
+      if (storedRef.current.syncedAt === null) {
+        const localIds = storedRef.current.items.map(item => item.id);
+        await supabaseApi.mergeFavorites(localIds);
+        const merged = new Set(localIds);
+        update(owner, current => ({
+          ...current,
+          pending: current.pending.filter(operation => operation.kind === 'remove' || !merged.has(operation.id)),
+          syncedAt: current.syncedAt ?? Date.now()
+        }));
+      }
+
+      if (!isOwner() || !(await sendPending(owner)) || !isOwner()) return;
+
+      const serverFavorites = await supabaseApi.getFavorites();
+      const serverIds = serverFavorites.map(favorite => favorite.listingId);
+      const ids = applyPending(serverIds, storedRef.current.pending);
+
+      let refreshed: { ids: string[]; items: MarketplaceItem[] } | undefined;
       try {
-        // Clear favorites first to prevent showing previous user's favorites temporarily
-        setFavorites([]);
-        
-        // Only load favorites if we have an authenticated user
-        if (isAuthenticated && user && user.id) {
-          const storageKey = getUserStorageKey();
-          if (storageKey) {
-            const storedFavorites = await AsyncStorage.getItem(storageKey);
-            if (storedFavorites) {
-              setFavorites(JSON.parse(storedFavorites));
-            }
-          }
-        }
+        refreshed = { ids, items: await supabaseApi.fetchListingsByIds(ids) };
       } catch (error) {
-        console.error('Error loading favorites from storage:', error);
+        log.warn('Could not reload favorite listings, keeping the saved copies:', error);
       }
+
+      // Changes queued while loading are applied on top of the list the server sent
+      update(owner, current => {
+        const items = buildFavoriteItems(applyPending(serverIds, current.pending), current.items, refreshed);
+        return {
+          ...current,
+          items,
+          annotations: applyAnnotations(items.map(item => item.id), serverFavorites, current.pending),
+          syncedAt: Date.now()
+        };
+      });
     };
 
-    loadFavorites();
-  }, [user, isAuthenticated]);
+    const syncing = run()
+      .catch(error => {
+        if (error instanceof NetworkError) {
+          log.debug('Offline, favorites will sync when the connection is back');
+        } else {
+          log.error('Error syncing favorites:', error);
+        }
+      })
+      .finally(() => {
+        if (syncingRef.current === syncing) syncingRef.current = null;
+      });
+    syncingRef.current = syncing;
+    return syncing;
+  }, [update, sendPending]);
 
-  // Save favorites to AsyncStorage whenever they change
+  // Load the account's favorites from the device, then bring them in line with the server
   useEffect(() => {
-    const saveFavorites = async () => {
-      try {
-        // Only save if we have an authenticated user
-        if (isAuthenticated && user) {
-          const storageKey = getUserStorageKey();
-          if (storageKey) {
-            await AsyncStorage.setItem(storageKey, JSON.stringify(favorites));
-          }
-        }
-      } catch (error) {
-        console.error('Error saving favorites to storage:', error);
-      }
+    ownerRef.current = userId;
+    sendingRef.current = null;
+    syncingRef.current = null;
+    // Clear favorites first to prevent showing previous user's favorites temporarily
+    storedRef.current = EMPTY_FAVORITES;
+    setStored(EMPTY_FAVORITES);
+
+    if (userId === null) return;
+
+    let cancelled = false;
+    loadStoredFavorites(userId)
+      .then(saved => {
+        if (cancelled) return;
+        storedRef.current = saved;
+        setStored(saved);
+        if (syncsWithServer) sync(userId);
+      })
+      .catch(error => log.error('Error loading favorites from storage:', error));
+
+    return () => {
+      cancelled = true;
     };
+  }, [userId, syncsWithServer, sync]);
 
-    saveFavorites();
-  }, [favorites, user, isAuthenticated]);
+  // Replay the queue as soon as requests go through again
+  useEffect(() => {
+    if (!syncsWithServer || userId === null) return;
+    return subscribeConnectivity(offline => {
+      if (!offline) sync(userId);
+    });
+  }, [userId, syncsWithServer, sync]);
 
-  // Add a new favorite
-  const addFavorite = (item: MarketplaceItem) => {
+  const change = useCallback((operation: FavoriteOperation, item?: MarketplaceItem) => {
     // Only proceed if user is authenticated
-    if (!isAuthenticated || !user || !user.id) {
-      console.log('User must be authenticated to add favorites');
+    if (userId === null) {
+      log.info(`User must be authenticated to ${operation.kind} favorites`);
       return;
     }
-    
-    // Update local state
-    setFavorites((prevFavorites) => {
-      // Check if already in favorites
-      if (prevFavorites.some((fav) => fav.id === item.id)) {
-        return prevFavorites;
+
+    // Shown at once; the server catches up now or when back online
+    update(userId, current => {
+      const { [operation.id]: previous, ...annotations } = current.annotations;
+      let items = current.items;
+
+      if (operation.kind === 'annotate') {
+        annotations[operation.id] = { ...DEFAULT_ANNOTATION, ...previous, ...operation.changes };
+      } else {
+        items = items.filter(favorite => favorite.id !== operation.id);
+        if (item) {
+          items = [item, ...items];
+          annotations[operation.id] = DEFAULT_ANNOTATION;
+        }
       }
-      return [...prevFavorites, item];
+
+      return {
+        ...current,
+        items,
+        annotations,
+        pending: syncsWithServer ? queueOperation(current.pending, operation) : current.pending
+      };
     });
-    // AsyncStorage update happens automatically through the useEffect hook
-  };
 
-  // Remove a favorite by ID
-  const removeFavorite = (id: string) => {
-    // Only proceed if user is authenticated
-    if (!isAuthenticated || !user || !user.id) {
-      console.log('User must be authenticated to remove favorites');
-      return;
+    if (syncsWithServer) {
+      sendPending(userId);
     }
-    
-    // Update local state
-    setFavorites((prevFavorites) => 
-      prevFavorites.filter((item) => item.id !== id)
-    );
-    // AsyncStorage update happens automatically through the useEffect hook
-  };
+  }, [userId, syncsWithServer, update, sendPending]);
+
+  // Add a new favorite
+  const addFavorite = useCallback((item: MarketplaceItem) => {
+    if (storedRef.current.items.some(favorite => favorite.id === item.id)) return;
+    change({ kind: 'add', id: item.id }, item);
+  }, [change]);
+
+  // Remove a favorite by ID
+  const removeFavorite = useCallback((id: string) => {
+    change({ kind: 'remove', id });
+  }, [change]);
+
+  // Change the note or status of a favorite
+  const annotateFavorite = useCallback((id: string, changes: Partial<FavoriteAnnotation>) => {
+    if (!storedRef.current.items.some(favorite => favorite.id === id)) return;
+    change({ kind: 'annotate', id, changes });
+  }, [change]);
 
   // Check if an item is a favorite
-  const isFavorite = (id: string) => {
-    return favorites.some((item) => item.id === id);
-  };
+  const isFavorite = useCallback(
+    (id: string) => stored.items.some(item => item.id === id),
+    [stored.items]
+  );
+
+  const refreshFavorites = useCallback(
+    () => (syncsWithServer && userId !== null ? sync(userId) : Promise.resolve()),
+    [syncsWithServer, userId, sync]
+  );
 
   // Provide the context value
   return (
-    <FavoritesContext.Provider value={{ favorites, addFavorite, removeFavorite, isFavorite }}>
+    <FavoritesContext.Provider
+      value={{
+        favorites: stored.items,
+        pendingCount: stored.pending.length,
+        addFavorite,
+        removeFavorite,
+        isFavorite,
+        annotations: stored.annotations,
+        annotateFavorite,
+        refreshFavorites,
+      }}
+    >
       {children}
     </FavoritesContext.Provider>
   );
@@ -1,11 +1,15 @@
-import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
+import React, { createContext, useContext, useState, ReactNode, useEffect, useMemo } from 'react';
 import { MarketplaceItem } from '../../components/types';
-import { fetchRecommendedListings, fetchZoneRecommendations, ZoneRecommendation } from '../utils/zoneRecommendations';
+import type { ListingQuery, RecommendationProfile } from '../lib/supabase';
+import { rankBySearch, resolveDistrictZoneIds } from '../lib/search';
+import { fetchBusinessTypes, BusinessTypeDefinition } from '../lib/businessTypes';
+import { fetchZoneRecommendations, ZoneRecommendation, RecommendationOptions } from '../utils/zoneRecommendations';
 
 // Define filter state types
 export type SortOption = 'price' | 'area' | 'none';
 export type AreaFilterOption = 'all' | 'small' | 'large';
-export type BusinessType = 'Barber' | 'Gym' | 'Gas Station' | 'Laundry' | 'Pharmacy' | 'Supermarket' | 'none';
+// An id from the business type registry (src/lib/businessTypes.ts), or 'none'
+export type BusinessType = string;
 
 interface FilterContextType {
   // Sort state
@@ -27,24 +31,66 @@ interface FilterContextType {
   selectedBusinessType: BusinessType;
   setSelectedBusinessType: (type: BusinessType) => void;
   
+  // Registry of business types, in display order (empty until loaded)
+  businessTypes: BusinessTypeDefinition[];
+  
+  // Search box text
+  searchText: string;
+  setSearchText: (text: string) => void;
+  
   // Zone recommendations state
   recommendedZones: ZoneRecommendation[];
   isLoadingRecommendations: boolean;
-  fetchRecommendationsForBusinessType: (type: BusinessType) => Promise<void>;
+  fetchRecommendationsForBusinessType: (type: BusinessType, options?: RecommendationOptions) => Promise<void>;
+  
+  // Custom weights, budget and anchor from the weight tuning panel; empty means the type's defaults
+  recommendationOptions: RecommendationOptions;
+  // profile is the saved profile the options came from, if any
+  applyRecommendationOptions: (options: RecommendationOptions, profile?: RecommendationProfile | null) => void;
+  activeProfile: RecommendationProfile | null;
+  applyProfile: (profile: RecommendationProfile) => void;
   
   // Modal visibility
   isFilterModalVisible: boolean;
   setFilterModalVisible: (visible: boolean) => void;
   isBusinessTypeModalVisible: boolean;
   setBusinessTypeModalVisible: (visible: boolean) => void;
+  isWeightPanelVisible: boolean;
+  setWeightPanelVisible: (visible: boolean) => void;
   
   // Filter counters
   getActiveFilterCount: () => number;
   
-  // Apply filters to data
+  // Server-side filters for the listings feed; a new object means the feed must refetch from page 1
+  listingQuery: ListingQuery;
+  
+  // Tag and group loaded items by zone recommendation
   applyFilters: (items: MarketplaceItem[]) => MarketplaceItem[];
 }
 
+// Listings at or below this floor area count as "small"
+const SMALL_AREA_MAX = 500;
+
+// Delay before search text is sent to the server, so typing does not refetch on every key
+const SEARCH_DEBOUNCE_MS = 350;
+
+// Ascending by a numeric field; items where the value is unknown always sort last
+const compareKnownFirst = (a?: number | null, b?: number | null) => {
+  if (a == null || b == null) {
+    return (a == null ? 1 : 0) - (b == null ? 1 : 0);
+  }
+  return a - b;
+};
+
+const compareBySortOption = (a: MarketplaceItem, b: MarketplaceItem, sortOption: SortOption) => {
+  if (sortOption === 'price') {
+    return compareKnownFirst(a.priceValue, b.priceValue);
+  } else if (sortOption === 'area') {
+    return compareKnownFirst(a.area, b.area);
+  }
+  return 0;
+};
+
 // Create the context
 export const FilterContext = createContext<FilterContextType | undefined>(undefined);
 
@@ -62,17 +108,28 @@ export const FilterProvider: React.FC<{children: ReactNode}> = ({ children }) =>
   
   // Business type state
   const [selectedBusinessType, setSelectedBusinessType] = useState<BusinessType>('none');
+  const [businessTypes, setBusinessTypes] = useState<BusinessTypeDefinition[]>([]);
+  
+  // Search state
+  const [searchText, setSearchText] = useState('');
+  const [resolvedSearch, setResolvedSearch] = useState<{ text: string; zoneIds: number[] }>({ text: '', zoneIds: [] });
   
   // Zone recommendations state
   const [recommendedZones, setRecommendedZones] = useState<ZoneRecommendation[]>([]);
   const [isLoadingRecommendations, setIsLoadingRecommendations] = useState(false);
+  const [recommendationOptions, setRecommendationOptions] = useState<RecommendationOptions>({});
+  const [activeProfile, setActiveProfile] = useState<RecommendationProfile | null>(null);
   
   // Modal visibility
   const [isFilterModalVisible, setFilterModalVisible] = useState(false);
   const [isBusinessTypeModalVisible, setBusinessTypeModalVisible] = useState(false);
+  const [isWeightPanelVisible, setWeightPanelVisible] = useState(false);
   
   // Fetch zone recommendations when business type changes
-  const fetchRecommendationsForBusinessType = async (type: BusinessType) => {
+  const fetchRecommendationsForBusinessType = async (
+    type: BusinessType,
+    options: RecommendationOptions = recommendationOptions
+  ) => {
     if (type === 'none') {
       setRecommendedZones([]);
       return;
@@ -87,7 +144,7 @@ export const FilterProvider: React.FC<{children: ReactNode}> = ({ children }) =>
       console.log(`Fetching recommendations for business type: ${type}`);
       
       // First get the zone recommendations
-      const recommendations = await fetchZoneRecommendations(type);
+      const recommendations = await fetchZoneRecommendations(type, undefined, options);
       
       // Log for debugging
       if (recommendations.length > 0) {
@@ -110,12 +167,61 @@ export const FilterProvider: React.FC<{children: ReactNode}> = ({ children }) =>
     }
   };
   
-  // Automatically fetch recommendations when business type changes
+  // Load the business type registry once for the pickers and labels
+  useEffect(() => {
+    fetchBusinessTypes().then(setBusinessTypes);
+  }, []);
+  
+  const applyRecommendationOptions = (options: RecommendationOptions, profile: RecommendationProfile | null = null) => {
+    setRecommendationOptions(options);
+    setActiveProfile(profile);
+  };
+  
+  // A saved profile brings its own business type along with its weights
+  const applyProfile = (profile: RecommendationProfile) => {
+    setSelectedBusinessType(profile.businessType);
+    applyRecommendationOptions(
+      { weights: profile.weights, budget: profile.budget, anchor: profile.anchor },
+      profile
+    );
+  };
+  
+  // Automatically fetch recommendations when business type or custom options change
   useEffect(() => {
     if (selectedBusinessType !== 'none') {
-      fetchRecommendationsForBusinessType(selectedBusinessType);
+      fetchRecommendationsForBusinessType(selectedBusinessType, recommendationOptions);
     }
-  }, [selectedBusinessType]);
+  }, [selectedBusinessType, recommendationOptions]);
+  
+  // Debounce the search text, then look up districts it names so their listings match as well
+  useEffect(() => {
+    let cancelled = false;
+    const text = searchText.trim();
+    
+    const timer = setTimeout(async () => {
+      const zoneIds = text ? await resolveDistrictZoneIds(text) : [];
+      if (!cancelled) {
+        setResolvedSearch({ text, zoneIds });
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchText]);
+  
+  const listingQuery = useMemo((): ListingQuery => ({
+    price: isPriceFilterActive ? { min: priceRange[0], max: priceRange[1] } : undefined,
+    area: areaFilter === 'small'
+      ? { max: SMALL_AREA_MAX }
+      : areaFilter === 'large'
+        ? { min: SMALL_AREA_MAX, minExclusive: true }
+        : undefined,
+    text: resolvedSearch.text || undefined,
+    textZoneIds: resolvedSearch.zoneIds.length > 0 ? resolvedSearch.zoneIds : undefined,
+    sort: sortOption !== 'none' ? { field: sortOption, ascending: true } : undefined
+  }), [isPriceFilterActive, priceRange, areaFilter, resolvedSearch, sortOption]);
   
   // Function to cycle through sort options
   const cycleSortOption = () => {
@@ -142,11 +248,16 @@ export const FilterProvider: React.FC<{children: ReactNode}> = ({ children }) =>
     return count;
   };
   
-  // Apply all filters and sorting to data
+  // Apply recommendation grouping to the loaded page
   const applyFilters = (items: MarketplaceItem[]): MarketplaceItem[] => {
     console.log('Applying filters with business type:', selectedBusinessType);
     let filteredItems = [...items];
     
+    // Without an explicit sort, search results are shown best match first
+    if (resolvedSearch.text && sortOption === 'none') {
+      filteredItems = rankBySearch(filteredItems, resolvedSearch.text, item => [item.title, item.location]);
+    }
+    
     // Check if we have recommendations and any items are in recommended zones
     const hasRecommendations = selectedBusinessType !== 'none' && recommendedZones.length > 0;
     
@@ -155,11 +266,8 @@ export const FilterProvider: React.FC<{children: ReactNode}> = ({ children }) =>
       
       // Add recommendation flags and scores to each item
       filteredItems = filteredItems.map(item => {
-        const itemZoneId = typeof item.zone_id === 'string' ? 
-          parseInt(item.zone_id) : item.zone_id;
-        
         // Check if this item is in a recommended zone
-        const recommendedZone = recommendedZones.find(zone => zone.zone_id === itemZoneId);
+        const recommendedZone = recommendedZones.find(zone => zone.zone_id === item.zone_id);
         const isInRecommendedZone = !!recommendedZone;
           
         return {
@@ -175,35 +283,9 @@ export const FilterProvider: React.FC<{children: ReactNode}> = ({ children }) =>
       console.log(`${recommendedCount} out of ${filteredItems.length} items are in recommended zones`);
     }
     
-    // Apply price filter if active
-    if (isPriceFilterActive) {
-      filteredItems = filteredItems.filter(item => {
-        const price = parseFloat(item.price?.toString().replace(/[^\d.-]/g, '') || '0');
-        return price >= priceRange[0] && price <= priceRange[1];
-      });
-    }
-    
-    // Apply area filter if not set to 'all'
-    if (areaFilter !== 'all') {
-      filteredItems = filteredItems.filter(item => {
-        // Parse area value removing "m²" suffix
-        const areaStr = item.size?.toString() || '0';
-        const areaValue = parseFloat(areaStr.replace(/[^\d.-]/g, ''));
-        
-        if (areaFilter === 'small') {
-          return areaValue <= 500;
-        } else if (areaFilter === 'large') {
-          return areaValue > 500;
-        }
-        return true;
-      });
-    }
-    
-    // Sorting strategy:
-    // 1. If a business type is selected with recommendations:
-    //    a. First prioritize items in recommended zones
-    //    b. Then sort within each group by the selected sort option
-    // 2. Otherwise, just sort by the selected sort option
+    // Price, area, search and sort are applied by the server (see listingQuery); here we only:
+    // 1. Move items in recommended zones first when a business type is selected
+    // 2. Order the recommended group by zone score, or by the selected sort option when there is one
     
     if (hasRecommendations) {
       // Split into recommended and non-recommended groups
@@ -214,46 +296,15 @@ export const FilterProvider: React.FC<{children: ReactNode}> = ({ children }) =>
       recommended.sort((a, b) => (b.recommendationScore || 0) - (a.recommendationScore || 0));
       
       // Create a sorting function for user-selected sort criteria
-      const secondarySortFn = (a: MarketplaceItem, b: MarketplaceItem) => {
-        if (sortOption === 'price') {
-          const priceA = parseFloat(a.price?.toString().replace(/[^\d.-]/g, '') || '0');
-          const priceB = parseFloat(b.price?.toString().replace(/[^\d.-]/g, '') || '0');
-          return priceA - priceB;
-        } else if (sortOption === 'area') {
-          const areaStrA = a.size?.toString() || '0';
-          const areaStrB = b.size?.toString() || '0';
-          const areaA = parseFloat(areaStrA.replace(/[^\d.-]/g, ''));
-          const areaB = parseFloat(areaStrB.replace(/[^\d.-]/g, ''));
-          return areaA - areaB;
-        }
-        return 0;
-      };
+      const secondarySortFn = (a: MarketplaceItem, b: MarketplaceItem) => compareBySortOption(a, b, sortOption);
       
-      // Apply secondary sorting within each group if user selected a sort option
+      // The server already sorted the page; re-sort the recommended group so it follows the same order
       if (sortOption !== 'none') {
         recommended.sort(secondarySortFn);
-        nonRecommended.sort(secondarySortFn);
       }
       
       // Combine groups with recommended first
       filteredItems = [...recommended, ...nonRecommended];
-      
-    } else if (sortOption !== 'none') {
-      // No business type selected or no recommendations, apply normal sorting
-      filteredItems.sort((a, b) => {
-        if (sortOption === 'price') {
-          const priceA = parseFloat(a.price?.toString().replace(/[^\d.-]/g, '') || '0');
-          const priceB = parseFloat(b.price?.toString().replace(/[^\d.-]/g, '') || '0');
-          return priceA - priceB;
-        } else if (sortOption === 'area') {
-          const areaStrA = a.size?.toString() || '0';
-          const areaStrB = b.size?.toString() || '0';
-          const areaA = parseFloat(areaStrA.replace(/[^\d.-]/g, ''));
-          const areaB = parseFloat(areaStrB.replace(/[^\d.-]/g, ''));
-          return areaA - areaB;
-        }
-        return 0;
-      });
     }
     
     return filteredItems;
@@ -273,14 +324,24 @@ export const FilterProvider: React.FC<{children: ReactNode}> = ({ children }) =>
         setAreaFilter,
         selectedBusinessType,
         setSelectedBusinessType,
+        businessTypes,
         recommendedZones,
         isLoadingRecommendations,
         fetchRecommendationsForBusinessType,
+        recommendationOptions,
+        applyRecommendationOptions,
+        activeProfile,
+        applyProfile,
         isFilterModalVisible,
         setFilterModalVisible,
         isBusinessTypeModalVisible,
         setBusinessTypeModalVisible,
+        isWeightPanelVisible,
+        setWeightPanelVisible,
         getActiveFilterCount,
+        searchText,
+        setSearchText,
+        listingQuery,
         applyFilters
       }}
     >
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@context/AuthContext';
+import { supabaseApi, FavoriteCollection } from '@lib/supabase';
+import { staleWhileRevalidate, writeCache } from '@lib/offlineCache';
+
+// The entrepreneur's favorite collections; changes need the server, the last list stays readable offline
+export function useFavoriteCollections() {
+  const { user, isAuthenticated } = useAuth();
+  const available = isAuthenticated && user?.role === 'entrepreneur';
+  const cacheKey = available && user ? `favoriteCollections:${user.id}` : null;
+
+  const [collections, setCollections] = useState<FavoriteCollection[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const reload = useCallback(async () => {
+    if (!cacheKey) {
+      setCollections([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { value } = await staleWhileRevalidate(
+        cacheKey,
+        () => supabaseApi.getFavoriteCollections(),
+        cached => setCollections(cached.value)
+      );
+      setCollections(value);
+    } catch {
+      // Logged by supabaseApi; the list shown so far stays
+    } finally {
+      setLoading(false);
+    }
+  }, [cacheKey]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Applies a confirmed change to the list and the offline copy
+  const change = useCallback((update: (current: FavoriteCollection[]) => FavoriteCollection[]) => {
+    setCollections(current => {
+      const next = update(current);
+      if (cacheKey) writeCache(cacheKey, next);
+      return next;
+    });
+  }, [cacheKey]);
+
+  const replace = useCallback((collection: FavoriteCollection) => {
+    change(current => current.map(entry => (entry.id === collection.id ? collection : entry)));
+  }, [change]);
+
+  const create = useCallback(async (name: string) => {
+    const collection = await supabaseApi.createFavoriteCollection(name);
+    change(current => [collection, ...current]);
+    return collection;
+  }, [change]);
+
+  const rename = useCallback(async (id: number, name: string) => {
+    const collection = await supabaseApi.renameFavoriteCollection(id, name);
+    replace(collection);
+    return collection;
+  }, [replace]);
+
+  const remove = useCallback(async (id: number) => {
+    await supabaseApi.deleteFavoriteCollection(id);
+    change(current => current.filter(entry => entry.id !== id));
+  }, [change]);
+
+  const setListing = useCallback(async (id: number, listingId: string, included: boolean) => {
+    await supabaseApi.setFavoriteCollectionListing(id, listingId, included);
+    change(current => current.map(entry => entry.id !== id ? entry : {
+      ...entry,
+      listingIds: included
+        ? [listingId, ...entry.listingIds.filter(existing => existing !== listingId)]
+        : entry.listingIds.filter(existing => existing !== listingId)
+    }));
+  }, [change]);
+
+  const setShared = useCallback(async (id: number, shared: boolean) => {
+    const collection = await supabaseApi.setFavoriteCollectionShared(id, shared);
+    replace(collection);
+    return collection;
+  }, [replace]);
+
+  return { available, collections, loading, reload, create, rename, remove, setListing, setShared };
+}
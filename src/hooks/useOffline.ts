@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+import { isOffline, subscribeConnectivity } from '@lib/connectivity';
+
+// Whether the last request failed to reach the server; updates as requests finish
+export function useOffline(): boolean {
+  const [offline, setOffline] = useState(isOffline());
+
+  useEffect(() => {
+    setOffline(isOffline());
+    return subscribeConnectivity(setOffline);
+  }, []);
+
+  return offline;
+}
@@ -0,0 +1,112 @@
+// Business type registry: ids, labels, icons, recommendation weights, place type aliases and complements
+// - Loaded from the business_types table, the same one the backend recommendations endpoint reads
+// - Adding a type (e.g. a cafe) is a new row there; nothing in the app lists the types itself
+// - Kept in memory for REGISTRY_TTL_MS; if a reload fails the last loaded list stays in use
+
+import { rest } from './restClient';
+import { BusinessTypesTable, BusinessTypeRow } from './schema';
+import { createLogger } from './logger';
+import { FactorWeights, ScoringFactor, SCORING_FACTORS } from '../utils/zoneScoring';
+
+const log = createLogger('businessTypes');
+
+const REGISTRY_TTL_MS = 10 * 60 * 1000;
+
+export type BusinessTypeLanguage = 'ar' | 'en';
+
+export interface BusinessTypeDefinition {
+  id: string;                                       // stable id, e.g. 'gas_station'
+  labels: Record<BusinessTypeLanguage, string>;
+  icon: string;                                     // FontAwesome5 icon name
+  weights: FactorWeights;                           // relative, normalized when scoring
+  aliases: string[];                                // Google place types and legacy names
+  complements: string[];                            // place types that bring customers to this type
+}
+
+// Weights from the factor_weights column; unknown factors and bad values are dropped
+const extraWeights = (factorWeights: Record<string, number> | null): FactorWeights =>
+  Object.entries(factorWeights ?? {}).reduce((weights, [factor, value]) => {
+    const weight = Number(value);
+    if (SCORING_FACTORS.includes(factor as ScoringFactor) && Number.isFinite(weight) && weight >= 0) {
+      weights[factor as ScoringFactor] = weight;
+    }
+    return weights;
+  }, {} as FactorWeights);
+
+const toDefinition = (row: BusinessTypeRow): BusinessTypeDefinition => ({
+  id: row.id,
+  labels: { ar: row.label_ar, en: row.label_en },
+  icon: row.icon,
+  weights: {
+    ...extraWeights(row.factor_weights),
+    popularity: row.weight_popularity,
+    ratings: row.weight_ratings,
+    competition: row.weight_competition
+  },
+  aliases: Array.isArray(row.place_types) ? row.place_types : [],
+  complements: Array.isArray(row.complements) ? row.complements : []
+});
+
+// "Gas Station", "gas-station" and "gas_station" all compare equal
+const normalizeKey = (value: string) => value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+let cachedTypes: { types: BusinessTypeDefinition[]; loadedAt: number } | null = null;
+let pendingTypes: Promise<BusinessTypeDefinition[]> | null = null;
+
+// Active business types in display order
+export const fetchBusinessTypes = async (): Promise<BusinessTypeDefinition[]> => {
+  if (cachedTypes && Date.now() - cachedTypes.loadedAt < REGISTRY_TTL_MS) {
+    return cachedTypes.types;
+  }
+
+  if (!pendingTypes) {
+    pendingTypes = rest.from(BusinessTypesTable)
+      .eq('active', true)
+      .order('sort_order')
+      .find()
+      .then(rows => {
+        const types = rows.map(toDefinition);
+        cachedTypes = { types, loadedAt: Date.now() };
+        return types;
+      })
+      .catch(error => {
+        log.warn('Could not load business types:', error);
+        return cachedTypes?.types ?? [];
+      })
+      .finally(() => {
+        pendingTypes = null;
+      });
+  }
+
+  return pendingTypes;
+};
+
+// Marks the registry stale so the next call reloads it; the old list stays as the fallback
+export const invalidateBusinessTypes = () => {
+  if (cachedTypes) {
+    cachedTypes = { ...cachedTypes, loadedAt: 0 };
+  }
+};
+
+// The type a raw value refers to, by id or alias (e.g. a Competitors.business_type of 'hair_care')
+export const matchBusinessType = (
+  types: BusinessTypeDefinition[],
+  value: string | null | undefined
+): BusinessTypeDefinition | undefined => {
+  if (!value) return undefined;
+  const key = normalizeKey(value);
+  return types.find(type =>
+    normalizeKey(type.id) === key || type.aliases.some(alias => normalizeKey(alias) === key)
+  );
+};
+
+// Whether a business of this place type (a Businesses.business_type) brings customers to the type
+export const isComplement = (type: BusinessTypeDefinition, value: string | null | undefined) => {
+  if (!value) return false;
+  const key = normalizeKey(value);
+  return type.complements.some(complement => normalizeKey(complement) === key);
+};
+
+// Label in the app language; anything other than Arabic falls back to English
+export const businessTypeLabel = (type: BusinessTypeDefinition, language: string) =>
+  type.labels[language.startsWith('ar') ? 'ar' : 'en'] || type.labels.en || type.id;
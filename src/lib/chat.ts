@@ -0,0 +1,152 @@
+// chat.ts - Live chat state: events from the realtime channel, message lists and unread counts
+//
+// Messages are stored by the backend (/api/conversations). After saving one it broadcasts a
+// `message` event, and after a read receipt a `read` event, on the private Supabase Realtime
+// topic of both participants. The app applies those events to what it has loaded, so an open
+// conversation, the conversations list and the tab badge update without polling. Events can be
+// missed while offline, so lists are reloaded from the backend when the connection comes back.
+
+import type { ChatMessage, Conversation, UserRole } from './supabase';
+import { createLogger } from './logger';
+
+const log = createLogger('chat');
+
+export type ChatEvent =
+  | { type: 'message'; message: ChatMessage }
+  | { type: 'read'; conversationId: number; readerRole: UserRole; upTo: number; readAt: string };
+
+export type ChatEventListener = (event: ChatEvent) => void;
+
+// Where chat events come from: Supabase Realtime in the app, a local channel in tests
+export interface ChatChannel {
+  // Starts delivering the topic's events; returns the function that stops it
+  subscribe: (topic: string, listener: ChatEventListener) => () => void;
+}
+
+// Message row as the backend sends it, in responses and broadcasts
+export const toChatMessage = (row: any): ChatMessage => ({
+  id: row.id,
+  conversationId: row.conversation_id,
+  senderRole: row.sender_role,
+  body: row.body,
+  clientId: row.client_id,
+  readAt: row.read_at ?? null,
+  createdAt: row.created_at
+});
+
+/**
+ * Reads a broadcast from the backend
+ * @returns The event, or null for unknown events and malformed payloads
+ */
+export const parseChatEvent = (event: string, payload: any): ChatEvent | null => {
+  try {
+    if (event === 'message' && payload?.message) {
+      return { type: 'message', message: toChatMessage(payload.message) };
+    }
+    if (event === 'read' && payload?.conversation_id && payload?.up_to) {
+      return {
+        type: 'read',
+        conversationId: payload.conversation_id,
+        readerRole: payload.reader_role,
+        upTo: payload.up_to,
+        readAt: payload.read_at
+      };
+    }
+  } catch (error) {
+    log.warn('Ignoring malformed chat event:', error);
+  }
+  return null;
+};
+
+/**
+ * In-memory channel for tests and offline development: whatever is published on a topic
+ * reaches that topic's subscribers, exactly as the backend's broadcast would
+ */
+export const createLocalChatChannel = () => {
+  const listeners = new Map<string, Set<ChatEventListener>>();
+
+  const channel: ChatChannel & { publish: (topic: string, event: string, payload: unknown) => void } = {
+    subscribe(topic, listener) {
+      if (!listeners.has(topic)) listeners.set(topic, new Set());
+      listeners.get(topic)!.add(listener);
+      return () => {
+        listeners.get(topic)?.delete(listener);
+      };
+    },
+    publish(topic, event, payload) {
+      const parsed = parseChatEvent(event, payload);
+      if (!parsed) return;
+      listeners.get(topic)?.forEach(listener => listener(parsed));
+    }
+  };
+  return channel;
+};
+
+// Id for a message before the backend has it; a resend with the same id is not stored twice
+export const createClientMessageId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Adds messages to a loaded conversation, oldest first
+ * (a message that arrives both as the send response and as a broadcast is kept once)
+ */
+export const mergeMessages = (current: ChatMessage[], incoming: ChatMessage[]): ChatMessage[] => {
+  const byId = new Map(current.map(message => [message.id, message]));
+  incoming.forEach(message => {
+    const existing = byId.get(message.id);
+    // A read receipt already applied is not undone by an older copy of the message
+    byId.set(message.id, existing?.readAt && !message.readAt ? existing : message);
+  });
+  return [...byId.values()].sort((a, b) => a.id - b.id);
+};
+
+// Marks the messages a read receipt covers: those sent to the reader, up to the id read
+export const applyReadReceipt = (
+  messages: ChatMessage[],
+  receipt: Extract<ChatEvent, { type: 'read' }>
+): ChatMessage[] =>
+  messages.map(message =>
+    message.conversationId === receipt.conversationId &&
+    message.senderRole !== receipt.readerRole &&
+    message.id <= receipt.upTo &&
+    !message.readAt
+      ? { ...message, readAt: receipt.readAt }
+      : message
+  );
+
+/**
+ * Applies a new message to the conversations list: it becomes the latest message, the
+ * conversation moves to the top, and it counts as unread unless it is the open conversation
+ * @returns The new list, or null when the conversation is not loaded (it is new, reload the list)
+ */
+export const applyMessageToConversations = (
+  conversations: Conversation[],
+  message: ChatMessage,
+  myRole: UserRole,
+  openConversationId: number | null
+): Conversation[] | null => {
+  const conversation = conversations.find(entry => entry.id === message.conversationId);
+  if (!conversation) return null;
+
+  // The same broadcast can arrive twice (reconnect); it is only counted once
+  if (conversation.lastMessageAt && Date.parse(conversation.lastMessageAt) >= Date.parse(message.createdAt)) {
+    return conversations;
+  }
+
+  const unread = message.senderRole !== myRole && message.conversationId !== openConversationId;
+  const updated: Conversation = {
+    ...conversation,
+    lastMessage: message.body,
+    lastSenderRole: message.senderRole,
+    lastMessageAt: message.createdAt,
+    unread: conversation.unread + (unread ? 1 : 0)
+  };
+  return [updated, ...conversations.filter(entry => entry.id !== conversation.id)];
+};
+
+// Opening a conversation reads everything in it, on this device and the user's others
+export const markConversationRead = (conversations: Conversation[], conversationId: number): Conversation[] =>
+  conversations.map(entry => (entry.id === conversationId && entry.unread > 0 ? { ...entry, unread: 0 } : entry));
+
+export const unreadTotal = (conversations: Conversation[]) =>
+  conversations.reduce((total, conversation) => total + conversation.unread, 0);
@@ -0,0 +1,32 @@
+// chatChannel.ts - Chat events over Supabase Realtime broadcast
+//
+// The topic is private to the user: the backend derives it from the account and hands it out
+// only to that signed-in user (GET /api/chat/realtime), so no one else can listen to it.
+
+import { supabase } from './supabase';
+import { ChatChannel, parseChatEvent } from './chat';
+import { createLogger } from './logger';
+
+const log = createLogger('chatChannel');
+
+export const supabaseChatChannel: ChatChannel = {
+  subscribe(topic, listener) {
+    const channel = supabase
+      .channel(topic)
+      .on('broadcast', { event: '*' }, ({ event, payload }) => {
+        const parsed = parseChatEvent(event, payload);
+        if (parsed) listener(parsed);
+      })
+      .subscribe(status => {
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          log.warn(`Chat channel ${status}, the client keeps retrying`);
+        } else {
+          log.debug(`Chat channel ${status}`);
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel).catch(error => log.warn('Error leaving chat channel:', error));
+    };
+  }
+};
@@ -0,0 +1,25 @@
+// Connectivity as seen by the app's own requests
+// - A request that got any response (even an error status) means online; one that never got a
+//   response (NetworkError) means offline
+// - No polling and no native module: the status changes only when a request finishes
+// - Screens subscribe to show the offline banner; cached data keeps them usable meanwhile
+
+type ConnectivityListener = (offline: boolean) => void;
+
+let offline = false;
+const listeners = new Set<ConnectivityListener>();
+
+export const isOffline = () => offline;
+
+export const reportConnectivity = (online: boolean) => {
+  if (offline === !online) return;
+  offline = !online;
+  listeners.forEach(listener => listener(offline));
+};
+
+export const subscribeConnectivity = (listener: ConnectivityListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,178 @@
+// Favorites kept on the server and mirrored on the device
+// - The device copy holds the listing cards (shown offline) and the operations the server has not
+//   confirmed yet; both are stored together under ruknapp_favorites_<userId>
+// - Adding and removing are set operations, so replaying them in order on any device converges:
+//   the favorites are the server's list with this device's pending operations applied on top
+// - The first sync of an account on a device merges its local-only favorites into the server list
+//   instead of replacing them
+// - Every sync reloads the saved listings, so changed prices replace the stale copies
+// - Notes and statuses travel through the same queue; the latest change to each field wins
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { MarketplaceItem } from '../../components/types';
+import type { FavoriteAnnotation, ServerFavorite } from './supabase';
+import { NetworkError } from './restClient';
+import { createLogger } from './logger';
+
+const log = createLogger('favoritesSync');
+
+const STORAGE_KEY_PREFIX = 'ruknapp_favorites';
+
+// id is the Listing_ID as on MarketplaceItem.id
+export type FavoriteOperation =
+  | { kind: 'add' | 'remove'; id: string }
+  | { kind: 'annotate'; id: string; changes: Partial<FavoriteAnnotation> };
+
+export interface StoredFavorites {
+  items: MarketplaceItem[];            // newest first
+  annotations: Record<string, FavoriteAnnotation>;
+  pending: FavoriteOperation[];        // oldest first
+  syncedAt: number | null;             // null until the server list was first merged on this device
+}
+
+export const EMPTY_FAVORITES: StoredFavorites = { items: [], annotations: {}, pending: [], syncedAt: null };
+
+export const DEFAULT_ANNOTATION: FavoriteAnnotation = { note: '', status: 'saved' };
+
+export const favoritesStorageKey = (userId: string | number) => `${STORAGE_KEY_PREFIX}_${userId}`;
+
+// Older versions stored only the array of cards; those favorites have never reached the server
+export const parseStoredFavorites = (stored: string | null): StoredFavorites => {
+  if (!stored) {
+    return EMPTY_FAVORITES;
+  }
+  try {
+    const parsed = JSON.parse(stored);
+    if (Array.isArray(parsed)) {
+      return { items: parsed, annotations: {}, pending: [], syncedAt: null };
+    }
+    return {
+      items: Array.isArray(parsed.items) ? parsed.items : [],
+      annotations: parsed.annotations && typeof parsed.annotations === 'object' ? parsed.annotations : {},
+      pending: Array.isArray(parsed.pending) ? parsed.pending : [],
+      syncedAt: typeof parsed.syncedAt === 'number' ? parsed.syncedAt : null
+    };
+  } catch (error) {
+    log.warn('Stored favorites are unreadable, starting empty:', error);
+    return EMPTY_FAVORITES;
+  }
+};
+
+export const loadStoredFavorites = async (userId: string | number): Promise<StoredFavorites> =>
+  parseStoredFavorites(await AsyncStorage.getItem(favoritesStorageKey(userId)));
+
+export const saveStoredFavorites = (userId: string | number, favorites: StoredFavorites) =>
+  AsyncStorage.setItem(favoritesStorageKey(userId), JSON.stringify(favorites));
+
+/**
+ * Adds an operation to the queue, keeping only what still matters per listing:
+ * - a later add or remove replaces the earlier one; a remove also drops queued note changes
+ * - note and status changes fold into one operation, later fields overriding earlier ones
+ */
+export const queueOperation = (pending: FavoriteOperation[], operation: FavoriteOperation): FavoriteOperation[] => {
+  if (operation.kind === 'annotate') {
+    const queued = pending.find(
+      (earlier): earlier is Extract<FavoriteOperation, { kind: 'annotate' }> =>
+        earlier.kind === 'annotate' && earlier.id === operation.id
+    );
+    return [
+      ...pending.filter(earlier => earlier !== queued),
+      queued ? { ...operation, changes: { ...queued.changes, ...operation.changes } } : operation
+    ];
+  }
+
+  return [
+    ...pending.filter(earlier =>
+      earlier.id !== operation.id || (earlier.kind === 'annotate' && operation.kind === 'add')
+    ),
+    operation
+  ];
+};
+
+// Ids of the favorites once the pending operations reach the server, newest first
+export const applyPending = (serverIds: string[], pending: FavoriteOperation[]): string[] => {
+  let ids = [...serverIds];
+  pending.forEach(operation => {
+    if (operation.kind === 'annotate') return;
+    ids = ids.filter(id => id !== operation.id);
+    if (operation.kind === 'add') {
+      ids.unshift(operation.id);
+    }
+  });
+  return ids;
+};
+
+// Notes and statuses of the favorites: the server's, with pending changes on top
+export const applyAnnotations = (
+  ids: string[],
+  server: ServerFavorite[],
+  pending: FavoriteOperation[]
+): Record<string, FavoriteAnnotation> => {
+  const annotations: Record<string, FavoriteAnnotation> = {};
+  ids.forEach(id => {
+    annotations[id] = { ...DEFAULT_ANNOTATION };
+  });
+  server.forEach(({ listingId, note, status }) => {
+    if (annotations[listingId]) annotations[listingId] = { note, status };
+  });
+  pending.forEach(operation => {
+    if (operation.kind === 'annotate' && annotations[operation.id]) {
+      annotations[operation.id] = { ...annotations[operation.id], ...operation.changes };
+    }
+  });
+  return annotations;
+};
+
+/**
+ * Cards for the favorite ids, preferring freshly loaded listings over the saved copies
+ * @param refreshed Listings just loaded and the ids that were asked for; an id asked for but not
+ *   returned is a listing that no longer exists and is left out
+ */
+export const buildFavoriteItems = (
+  ids: string[],
+  saved: MarketplaceItem[],
+  refreshed?: { ids: string[]; items: MarketplaceItem[] }
+): MarketplaceItem[] => {
+  const savedById = new Map(saved.map(item => [item.id, item]));
+  const freshById = new Map((refreshed?.items ?? []).map(item => [item.id, item]));
+  const deleted = new Set((refreshed?.ids ?? []).filter(id => !freshById.has(id)));
+
+  return ids
+    .filter(id => !deleted.has(id))
+    .map(id => freshById.get(id) ?? savedById.get(id))
+    .filter((item): item is MarketplaceItem => item !== undefined);
+};
+
+// The server may refuse an operation for good (e.g. the listing id is invalid); retrying would not help.
+// Unreachable, unavailable, signed out or rate limited means try again later.
+const isRetryable = (error: unknown) => {
+  if (error instanceof NetworkError) return true;
+  const status = (error as { status?: number })?.status;
+  return status === undefined || status >= 500 || status === 401 || status === 408 || status === 429;
+};
+
+/**
+ * Sends pending operations one at a time, oldest first
+ * @param next Reads the oldest operation still pending, so operations queued meanwhile are sent too
+ * @param settle Removes an operation the server accepted or refused for good
+ * @returns true when nothing is left pending, false when sending stopped on a retryable failure
+ */
+export const replayPending = async (
+  next: () => FavoriteOperation | undefined,
+  send: (operation: FavoriteOperation) => Promise<void>,
+  settle: (operation: FavoriteOperation) => void
+): Promise<boolean> => {
+  for (let operation = next(); operation; operation = next()) {
+    try {
+      await send(operation);
+    } catch (error) {
+      if (isRetryable(error)) {
+        log.debug(`Keeping ${operation.kind} of favorite ${operation.id} queued:`, error);
+        return false;
+      }
+      log.warn(`Server refused ${operation.kind} of favorite ${operation.id}, dropping it:`, error);
+    }
+    settle(operation);
+  }
+  return true;
+};
@@ -0,0 +1,64 @@
+// Leveled logger for app modules
+// - Level comes from EXPO_PUBLIC_LOG_LEVEL (debug | info | warn | error | silent)
+// - Defaults to "warn" in production builds and "info" otherwise
+// - Request traces and record dumps belong at "debug" so they stay out of normal logs
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100
+};
+
+const isLogLevel = (value: unknown): value is LogLevel =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LEVEL_PRIORITY, value);
+
+const defaultLevel = (): LogLevel => {
+  const configured = process.env.EXPO_PUBLIC_LOG_LEVEL?.toLowerCase();
+  if (isLogLevel(configured)) {
+    return configured;
+  }
+  return process.env.NODE_ENV === 'production' ? 'warn' : 'info';
+};
+
+let currentLevel: LogLevel = defaultLevel();
+
+export const getLogLevel = (): LogLevel => currentLevel;
+
+// Runtime switch, e.g. from a debug menu or a test
+export const setLogLevel = (level: LogLevel) => {
+  currentLevel = level;
+};
+
+export const isLevelEnabled = (level: Exclude<LogLevel, 'silent'>): boolean =>
+  LEVEL_PRIORITY[level] >= LEVEL_PRIORITY[currentLevel];
+
+export interface Logger {
+  debug: (...args: unknown[]) => void;
+  info: (...args: unknown[]) => void;
+  warn: (...args: unknown[]) => void;
+  error: (...args: unknown[]) => void;
+}
+
+// Logger whose messages are prefixed with the module name, e.g. "[rest]"
+export const createLogger = (scope: string): Logger => {
+  const prefix = `[${scope}]`;
+
+  return {
+    debug: (...args) => {
+      if (isLevelEnabled('debug')) console.log(prefix, ...args);
+    },
+    info: (...args) => {
+      if (isLevelEnabled('info')) console.log(prefix, ...args);
+    },
+    warn: (...args) => {
+      if (isLevelEnabled('warn')) console.warn(prefix, ...args);
+    },
+    error: (...args) => {
+      if (isLevelEnabled('error')) console.error(prefix, ...args);
+    }
+  };
+};
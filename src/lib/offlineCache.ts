@@ -0,0 +1,184 @@
+// Persistent cache of query results, so recently seen screens still open without a network
+// - Stored in AsyncStorage under one key per query, plus an index of sizes and last use
+// - Entries older than MAX_AGE_MS are dropped; past MAX_ENTRIES or MAX_BYTES the least recently
+//   used entries are evicted first
+// - staleWhileRevalidate shows the stored copy at once, then replaces it with the network answer;
+//   when the network is unreachable the stored copy is the answer
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { NetworkError } from './restClient';
+import { createLogger } from './logger';
+
+const log = createLogger('offlineCache');
+
+const KEY_PREFIX = 'offlineCache:';
+const INDEX_KEY = 'offlineCache.index';
+
+export const MAX_ENTRIES = 150;
+export const MAX_BYTES = 2 * 1024 * 1024;
+export const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface IndexEntry {
+  size: number;       // length of the stored JSON
+  storedAt: number;
+  usedAt: number;
+}
+
+export interface CachedValue<T> {
+  value: T;
+  storedAt: number;
+}
+
+export interface RevalidatedValue<T> extends CachedValue<T> {
+  fromCache: boolean;  // true when the network failed and this is the stored copy
+}
+
+let index: Record<string, IndexEntry> | null = null;
+
+// Index updates run one after another so two writes cannot lose each other's entries
+let queue: Promise<unknown> = Promise.resolve();
+
+const serialized = <T>(task: () => Promise<T>): Promise<T> => {
+  const next = queue.then(task, task);
+  queue = next.catch(() => undefined);
+  return next;
+};
+
+const loadIndex = async (): Promise<Record<string, IndexEntry>> => {
+  if (!index) {
+    try {
+      const stored = await AsyncStorage.getItem(INDEX_KEY);
+      index = stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      log.warn('Could not read the cache index, starting empty:', error);
+      index = {};
+    }
+  }
+  return index!;
+};
+
+const saveIndex = () => AsyncStorage.setItem(INDEX_KEY, JSON.stringify(index ?? {}));
+
+// Drops expired entries, then the least recently used until both limits hold
+const evict = async (entries: Record<string, IndexEntry>) => {
+  const now = Date.now();
+  const removed: string[] = [];
+
+  Object.keys(entries).forEach(key => {
+    if (now - entries[key].storedAt > MAX_AGE_MS) {
+      removed.push(key);
+      delete entries[key];
+    }
+  });
+
+  const byUse = Object.keys(entries).sort((a, b) => entries[a].usedAt - entries[b].usedAt);
+  let total = byUse.reduce((sum, key) => sum + entries[key].size, 0);
+  let count = byUse.length;
+  for (const key of byUse) {
+    if (count <= MAX_ENTRIES && total <= MAX_BYTES) break;
+    total -= entries[key].size;
+    count--;
+    removed.push(key);
+    delete entries[key];
+  }
+
+  if (removed.length > 0) {
+    log.debug(`Evicting ${removed.length} cached queries`);
+    await AsyncStorage.multiRemove(removed.map(key => KEY_PREFIX + key));
+  }
+};
+
+export const readCache = <T>(key: string): Promise<CachedValue<T> | null> =>
+  serialized(async () => {
+    const entries = await loadIndex();
+    const entry = entries[key];
+    if (!entry || Date.now() - entry.storedAt > MAX_AGE_MS) {
+      return null;
+    }
+
+    try {
+      const stored = await AsyncStorage.getItem(KEY_PREFIX + key);
+      if (stored === null) {
+        delete entries[key];
+        await saveIndex();
+        return null;
+      }
+      entry.usedAt = Date.now();
+      await saveIndex();
+      return { value: JSON.parse(stored) as T, storedAt: entry.storedAt };
+    } catch (error) {
+      log.warn(`Could not read cached '${key}':`, error);
+      return null;
+    }
+  });
+
+// Failing to cache never fails the caller; the value is just not available offline
+export const writeCache = <T>(key: string, value: T): Promise<void> =>
+  serialized(async () => {
+    try {
+      const json = JSON.stringify(value);
+      if (json === undefined || json.length > MAX_BYTES) {
+        return;
+      }
+      const entries = await loadIndex();
+      const now = Date.now();
+      await AsyncStorage.setItem(KEY_PREFIX + key, json);
+      entries[key] = { size: json.length, storedAt: now, usedAt: now };
+      await evict(entries);
+      await saveIndex();
+    } catch (error) {
+      log.warn(`Could not cache '${key}':`, error);
+    }
+  });
+
+export const clearCache = (): Promise<void> =>
+  serialized(async () => {
+    const entries = await loadIndex();
+    await AsyncStorage.multiRemove([INDEX_KEY, ...Object.keys(entries).map(key => KEY_PREFIX + key)]);
+    index = {};
+  });
+
+// Drops the queries whose key starts with `prefix`, e.g. an account's private data on sign-out
+export const clearCacheByPrefix = (prefix: string): Promise<void> =>
+  serialized(async () => {
+    const entries = await loadIndex();
+    const keys = Object.keys(entries).filter(key => key.startsWith(prefix));
+    if (keys.length === 0) {
+      return;
+    }
+    keys.forEach(key => delete entries[key]);
+    await AsyncStorage.multiRemove(keys.map(key => KEY_PREFIX + key));
+    await saveIndex();
+  });
+
+/**
+ * Reads through the cache
+ * @param key Query key, e.g. `listing:42`
+ * @param fetcher Loads the fresh value from the network
+ * @param onCached Gets the stored copy right away, unless the network answers first
+ * @returns The fresh value, or the stored copy when the network cannot be reached
+ */
+export const staleWhileRevalidate = async <T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  onCached?: (cached: CachedValue<T>) => void
+): Promise<RevalidatedValue<T>> => {
+  let settled = false;
+  const cached = readCache<T>(key);
+  cached.then(stored => {
+    if (stored && !settled) onCached?.(stored);
+  });
+
+  try {
+    const value = await fetcher();
+    settled = true;
+    await writeCache(key, value);
+    return { value, storedAt: Date.now(), fromCache: false };
+  } catch (error) {
+    settled = true;
+    const stored = error instanceof NetworkError ? await cached : null;
+    if (!stored) throw error;
+    log.info(`Offline, using the copy of '${key}' from ${new Date(stored.storedAt).toISOString()}`);
+    return { ...stored, fromCache: true };
+  }
+};
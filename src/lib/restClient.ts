@@ -0,0 +1,520 @@
+// Typed client for the Supabase REST API (PostgREST)
+// - One place that injects apikey/Authorization headers
+// - Query builder for select, filters, order, range and exact counts
+// - Typed errors: NetworkError, ClientError (4xx), AuthError (401/403), ServerError (5xx)
+// - Per-request timeouts and retry with exponential backoff for idempotent requests
+// - Reads are validated and coerced when the query starts from a table schema (see ./schema)
+// - Every request reports whether it reached the server, which drives the offline banner
+
+import { EXPO_PUBLIC_SUPABASE_URL, EXPO_PUBLIC_SUPABASE_ANON_KEY, EXPO_PUBLIC_REST_TIMEOUT_MS } from '@config/env';
+import { createLogger } from './logger';
+import { reportConnectivity } from './connectivity';
+import type { TableSchema } from './schema';
+
+const log = createLogger('rest');
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+interface RestErrorInit {
+  url: string;
+  status?: number | null;
+  code?: string;
+  details?: string;
+  hint?: string;
+  retryAfter?: number;
+}
+
+export class RestError extends Error {
+  readonly url: string;
+  readonly status: number | null;
+  readonly code?: string; // PostgREST / Postgres error code, e.g. PGRST116 or 23505
+  readonly details?: string;
+  readonly hint?: string;
+  readonly retryAfter?: number; // seconds, from the Retry-After header
+
+  constructor(message: string, init: RestErrorInit) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.url = init.url;
+    this.status = init.status ?? null;
+    this.code = init.code;
+    this.details = init.details;
+    this.hint = init.hint;
+    this.retryAfter = init.retryAfter;
+  }
+}
+
+// The request never produced a response (offline, DNS, CORS, timeout)
+export class NetworkError extends RestError {
+  readonly timedOut: boolean;
+
+  constructor(message: string, init: RestErrorInit & { timedOut?: boolean }) {
+    super(message, init);
+    this.timedOut = init.timedOut ?? false;
+  }
+}
+
+// 4xx: the request itself is wrong and retrying it will not help (except 408/429)
+export class ClientError extends RestError {}
+
+// 401/403: missing or rejected credentials, or a row-level security denial
+export class AuthError extends ClientError {}
+
+// 5xx: the server failed; safe to retry for reads
+export class ServerError extends RestError {}
+
+// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+export type HttpMethod = 'GET' | 'HEAD' | 'POST' | 'PATCH' | 'DELETE';
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RestClientOptions {
+  baseUrl: string;
+  apiKey: string;
+  // Bearer token for row-level security; the anon key is used when this returns nothing
+  getAccessToken?: () => string | null | undefined;
+  timeoutMs?: number;
+  retry?: Partial<RetryOptions>;
+  fetch?: typeof fetch;
+  // Called after every attempt: true when the server answered, false when it could not be reached
+  onConnectivity?: (online: boolean) => void;
+}
+
+export interface RequestOptions {
+  timeoutMs?: number;
+  retries?: number; // defaults to the client setting for GET/HEAD and 0 for writes
+  headers?: Record<string, string>;
+}
+
+export interface RestRequest {
+  method: HttpMethod;
+  path: string;
+  params?: URLSearchParams;
+  body?: unknown;
+  prefer?: string[];
+  options?: RequestOptions;
+}
+
+export interface RestResponse<T> {
+  data: T;
+  status: number;
+  count: number | null; // only when the request asked for count=exact
+}
+
+export interface RestClient {
+  from<Row extends object>(table: TableSchema<Row>): QueryBuilder<Row>;
+  from<Row extends object = Record<string, unknown>>(table: string): QueryBuilder<Row>;
+  request<T>(request: RestRequest): Promise<RestResponse<T>>;
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+const DEFAULT_RETRY: RetryOptions = {
+  retries: 2,
+  baseDelayMs: 300,
+  maxDelayMs: 5000
+};
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const parseRetryAfter = (response: Response): number | undefined => {
+  const value = Number(response.headers.get('Retry-After'));
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+};
+
+// "0-19/134" or "*/134" -> 134; "0-19/*" -> null
+const parseContentRangeCount = (response: Response): number | null => {
+  const range = response.headers.get('Content-Range');
+  const total = range?.split('/')[1];
+  if (!total || total === '*') {
+    return null;
+  }
+  const count = Number(total);
+  return Number.isFinite(count) ? count : null;
+};
+
+const toHttpError = async (response: Response, url: string): Promise<RestError> => {
+  const text = await response.text().catch(() => '');
+  let body: { message?: string; code?: string; details?: string; hint?: string } = {};
+  try {
+    body = text ? JSON.parse(text) : {};
+  } catch {
+    body = { message: text };
+  }
+
+  const init: RestErrorInit = {
+    url,
+    status: response.status,
+    code: body.code,
+    details: body.details ?? undefined,
+    hint: body.hint ?? undefined,
+    retryAfter: parseRetryAfter(response)
+  };
+  const message = body.message || `Request failed with status ${response.status}`;
+
+  if (response.status === 401 || response.status === 403) {
+    return new AuthError(message, init);
+  }
+  if (response.status >= 500) {
+    return new ServerError(message, init);
+  }
+  return new ClientError(message, init);
+};
+
+const isRetryable = (error: RestError): boolean =>
+  error instanceof NetworkError ||
+  error instanceof ServerError ||
+  error.status === 408 ||
+  error.status === 429;
+
+// Exponential backoff with a little jitter; Retry-After wins when the server sends it
+const backoffDelay = (attempt: number, error: RestError, retry: RetryOptions): number => {
+  if (error.retryAfter !== undefined) {
+    return Math.min(error.retryAfter * 1000, retry.maxDelayMs);
+  }
+  const exponential = retry.baseDelayMs * 2 ** attempt;
+  const jitter = Math.random() * retry.baseDelayMs * 0.5;
+  return Math.min(exponential + jitter, retry.maxDelayMs);
+};
+
+const describeRequest = (method: HttpMethod, path: string, params?: URLSearchParams) => {
+  const query = params?.toString();
+  return `${method} ${path}${query ? `?${decodeURIComponent(query)}` : ''}`;
+};
+
+export const createRestClient = (clientOptions: RestClientOptions): RestClient => {
+  const baseUrl = clientOptions.baseUrl.replace(/\/+$/, '');
+  const retry: RetryOptions = { ...DEFAULT_RETRY, ...clientOptions.retry };
+  const defaultTimeoutMs = clientOptions.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const fetchImpl = clientOptions.fetch ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+
+  // The only place request headers are assembled
+  const buildHeaders = (request: RestRequest): Record<string, string> => {
+    const token = clientOptions.getAccessToken?.() || clientOptions.apiKey;
+    const headers: Record<string, string> = {
+      'apikey': clientOptions.apiKey,
+      'Authorization': `Bearer ${token}`,
+      'Accept': 'application/json',
+      'Content-Type': 'application/json'
+    };
+    if (request.prefer && request.prefer.length > 0) {
+      headers['Prefer'] = request.prefer.join(',');
+    }
+    return { ...headers, ...request.options?.headers };
+  };
+
+  const send = async (url: string, init: RequestInit, timeoutMs: number): Promise<Response> => {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    try {
+      const response = await fetchImpl(url, { ...init, signal: controller.signal });
+      clientOptions.onConnectivity?.(true);
+      return response;
+    } catch (error) {
+      clientOptions.onConnectivity?.(false);
+      const message = timedOut
+        ? `Request timed out after ${timeoutMs}ms`
+        : (error as Error)?.message || 'Network request failed';
+      throw new NetworkError(message, { url, timedOut });
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  const request = async <T>(restRequest: RestRequest): Promise<RestResponse<T>> => {
+    const { method, path, params, body, options } = restRequest;
+    const query = params?.toString();
+    const url = `${baseUrl}/${path.replace(/^\/+/, '')}${query ? `?${query}` : ''}`;
+    const idempotent = method === 'GET' || method === 'HEAD';
+    const retries = options?.retries ?? (idempotent ? retry.retries : 0);
+    const timeoutMs = options?.timeoutMs ?? defaultTimeoutMs;
+    const label = describeRequest(method, path, params);
+
+    const init: RequestInit = {
+      method,
+      headers: buildHeaders(restRequest),
+      body: body === undefined ? undefined : JSON.stringify(body)
+    };
+
+    for (let attempt = 0; ; attempt++) {
+      const startedAt = Date.now();
+
+      try {
+        const response = await send(url, init, timeoutMs);
+
+        if (!response.ok) {
+          throw await toHttpError(response, url);
+        }
+
+        const text = method === 'HEAD' ? '' : await response.text();
+        const data = (text ? JSON.parse(text) : null) as T;
+        const count = parseContentRangeCount(response);
+
+        log.debug(
+          `${label} -> ${response.status} in ${Date.now() - startedAt}ms` +
+          (Array.isArray(data) ? `, ${data.length} rows` : '') +
+          (count !== null ? `, count ${count}` : '')
+        );
+
+        return { data, status: response.status, count };
+      } catch (error) {
+        const restError = error instanceof RestError
+          ? error
+          : new RestError((error as Error)?.message || 'Invalid response body', { url });
+
+        if (attempt >= retries || !isRetryable(restError)) {
+          log.warn(`${label} failed: ${restError.name} ${restError.status ?? ''} ${restError.message}`.trim());
+          throw restError;
+        }
+
+        const delay = backoffDelay(attempt, restError, retry);
+        log.warn(`${label} failed (${restError.message}); retry ${attempt + 1}/${retries} in ${Math.round(delay)}ms`);
+        await sleep(delay);
+      }
+    }
+  };
+
+  const from = <Row extends object>(table: string | TableSchema<Row>) =>
+    typeof table === 'string'
+      ? new QueryBuilder<Row>(request, table)
+      : new QueryBuilder<Row>(request, table.name, table);
+
+  return { from, request };
+};
+
+// ---------------------------------------------------------------------------
+// Query builder
+// ---------------------------------------------------------------------------
+
+export type FilterValue = string | number | boolean | null;
+
+export type FilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'like' | 'ilike' | 'match' | 'imatch' | 'is';
+
+export interface OrderOptions {
+  ascending?: boolean;
+  nullsFirst?: boolean;
+}
+
+type Column<Row> = Extract<keyof Row, string>;
+
+// Values inside in.(...) and or=(...) lists must be quoted when they contain reserved characters
+const formatListValue = (value: FilterValue): string => {
+  const text = String(value);
+  return /[,()"\s.:]/.test(text) ? `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"` : text;
+};
+
+export class QueryBuilder<Row extends object> {
+  private readonly params = new URLSearchParams();
+  private columns = '*';
+  private readonly orders: string[] = [];
+
+  constructor(
+    private readonly send: RestClient['request'],
+    private readonly table: string,
+    private readonly schema?: TableSchema<Row>
+  ) {}
+
+  select(columns: string) {
+    this.columns = columns;
+    return this;
+  }
+
+  filter(column: Column<Row>, operator: FilterOperator, value: FilterValue) {
+    this.params.append(column, `${operator}.${value}`);
+    return this;
+  }
+
+  eq(column: Column<Row>, value: FilterValue) {
+    return this.filter(column, 'eq', value);
+  }
+
+  neq(column: Column<Row>, value: FilterValue) {
+    return this.filter(column, 'neq', value);
+  }
+
+  gt(column: Column<Row>, value: FilterValue) {
+    return this.filter(column, 'gt', value);
+  }
+
+  gte(column: Column<Row>, value: FilterValue) {
+    return this.filter(column, 'gte', value);
+  }
+
+  lt(column: Column<Row>, value: FilterValue) {
+    return this.filter(column, 'lt', value);
+  }
+
+  lte(column: Column<Row>, value: FilterValue) {
+    return this.filter(column, 'lte', value);
+  }
+
+  like(column: Column<Row>, pattern: string) {
+    return this.filter(column, 'like', pattern);
+  }
+
+  ilike(column: Column<Row>, pattern: string) {
+    return this.filter(column, 'ilike', pattern);
+  }
+
+  // POSIX regular expression, case-insensitive
+  imatch(column: Column<Row>, pattern: string) {
+    return this.filter(column, 'imatch', pattern);
+  }
+
+  is(column: Column<Row>, value: null | boolean) {
+    return this.filter(column, 'is', value);
+  }
+
+  in(column: Column<Row>, values: FilterValue[]) {
+    this.params.append(column, `in.(${values.map(formatListValue).join(',')})`);
+    return this;
+  }
+
+  // Raw PostgREST disjunction, e.g. or('Title.ilike.*shop*,zone_id.eq.3')
+  or(expression: string) {
+    this.params.append('or', `(${expression})`);
+    return this;
+  }
+
+  order(column: Column<Row>, { ascending = true, nullsFirst }: OrderOptions = {}) {
+    let clause = `${column}.${ascending ? 'asc' : 'desc'}`;
+    if (nullsFirst !== undefined) {
+      clause += nullsFirst ? '.nullsfirst' : '.nullslast';
+    }
+    this.orders.push(clause);
+    return this;
+  }
+
+  // Inclusive row range, like Supabase JS: range(0, 19) is the first 20 rows
+  range(from: number, to: number) {
+    this.params.set('offset', String(from));
+    this.params.set('limit', String(Math.max(0, to - from + 1)));
+    return this;
+  }
+
+  limit(count: number) {
+    this.params.set('limit', String(count));
+    return this;
+  }
+
+  private readParams() {
+    const params = new URLSearchParams(this.params);
+    params.set('select', this.columns);
+    if (this.orders.length > 0) {
+      params.set('order', this.orders.join(','));
+    }
+    return params;
+  }
+
+  private writeParams() {
+    // Writes only carry filters; select/order/limit are not allowed on them
+    const params = new URLSearchParams(this.params);
+    params.delete('limit');
+    params.delete('offset');
+    return params;
+  }
+
+  private parseRows(data: unknown): Row[] {
+    if (!data) return [];
+    return this.schema ? this.schema.parseMany(data) : (data as Row[]);
+  }
+
+  async find(options?: RequestOptions): Promise<Row[]> {
+    const { data } = await this.send<unknown>({ method: 'GET', path: this.table, params: this.readParams(), options });
+    return this.parseRows(data);
+  }
+
+  // Rows plus the total number of matching rows, for paging
+  async findWithCount(options?: RequestOptions): Promise<{ rows: Row[]; count: number | null }> {
+    const { data, count } = await this.send<unknown>({
+      method: 'GET',
+      path: this.table,
+      params: this.readParams(),
+      prefer: ['count=exact'],
+      options
+    });
+    return { rows: this.parseRows(data), count };
+  }
+
+  // A malformed row is an error here (SchemaError) rather than silently missing
+  async first(options?: RequestOptions): Promise<Row | null> {
+    this.limit(1);
+    const { data } = await this.send<unknown[]>({ method: 'GET', path: this.table, params: this.readParams(), options });
+    const row = data?.[0];
+    if (row === undefined) return null;
+    return this.schema ? this.schema.parse(row) : (row as Row);
+  }
+
+  // Number of matching rows without transferring them
+  async count(options?: RequestOptions): Promise<number> {
+    const { count } = await this.send<null>({
+      method: 'HEAD',
+      path: this.table,
+      params: this.readParams(),
+      prefer: ['count=exact'],
+      options
+    });
+    return count ?? 0;
+  }
+
+  async insert(values: Partial<Row> | Partial<Row>[], options?: RequestOptions & { returning?: boolean }): Promise<Row[]> {
+    const { data } = await this.send<Row[]>({
+      method: 'POST',
+      path: this.table,
+      params: options?.returning ? new URLSearchParams({ select: this.columns }) : undefined,
+      body: values,
+      prefer: [options?.returning ? 'return=representation' : 'return=minimal'],
+      options
+    });
+    return data ?? [];
+  }
+
+  async update(values: Partial<Row>, options?: RequestOptions & { returning?: boolean }): Promise<Row[]> {
+    const params = this.writeParams();
+    if (options?.returning) {
+      params.set('select', this.columns);
+    }
+    const { data } = await this.send<Row[]>({
+      method: 'PATCH',
+      path: this.table,
+      params,
+      body: values,
+      prefer: [options?.returning ? 'return=representation' : 'return=minimal'],
+      options
+    });
+    return data ?? [];
+  }
+
+  async delete(options?: RequestOptions): Promise<void> {
+    await this.send<null>({
+      method: 'DELETE',
+      path: this.table,
+      params: this.writeParams(),
+      prefer: ['return=minimal'],
+      options
+    });
+  }
+}
+
+// Shared client for the app's Supabase project (anon key)
+export const rest = createRestClient({
+  baseUrl: `${EXPO_PUBLIC_SUPABASE_URL}/rest/v1`,
+  apiKey: EXPO_PUBLIC_SUPABASE_ANON_KEY,
+  timeoutMs: EXPO_PUBLIC_REST_TIMEOUT_MS,
+  onConnectivity: reportConnectivity
+});
@@ -0,0 +1,270 @@
+// Row types and runtime validators for the Supabase tables the app reads
+// - Each table is described once with field parsers; the row type is derived from them
+// - Parsers coerce what the database actually returns (numeric strings, "" for missing values)
+//   and reject anything else with a SchemaError naming the table, column and row
+// - The rest client applies these when a query is built from a table schema: rest.from(ListingsTable)
+
+import { createLogger } from './logger';
+
+const log = createLogger('schema');
+
+// A column value that cannot be coerced to its declared type
+export class SchemaError extends Error {
+  readonly table: string;
+  readonly column: string;
+  readonly value: unknown;
+  readonly rowId?: string | number;
+
+  constructor(table: string, column: string, value: unknown, reason: string, rowId?: string | number) {
+    const row = rowId !== undefined ? ` (row ${rowId})` : '';
+    super(`${table}.${column}${row}: ${reason}, got ${describeValue(value)}`);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'SchemaError';
+    this.table = table;
+    this.column = column;
+    this.value = value;
+    this.rowId = rowId;
+  }
+}
+
+const describeValue = (value: unknown): string => {
+  if (value === undefined) return 'nothing';
+  try {
+    const text = JSON.stringify(value);
+    return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+  } catch {
+    return String(value);
+  }
+};
+
+// Thrown by field parsers; defineTable turns it into a SchemaError with the table and column
+class FieldError extends Error {}
+
+export type FieldParser<T> = (value: unknown) => T;
+
+const isBlank = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+const required = <T>(parse: (value: unknown) => T): FieldParser<T> => value => {
+  if (isBlank(value)) {
+    throw new FieldError('is required');
+  }
+  return parse(value);
+};
+
+const toNumber = (value: unknown): number => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    // Some numeric columns are stored as text, occasionally with thousands separators
+    const parsed = Number(value.trim().replace(/,/g, ''));
+    if (Number.isFinite(parsed)) {
+      return parsed;
+    }
+  }
+  throw new FieldError('expected a number');
+};
+
+const inRange = (min: number, max: number, label: string) => (value: unknown) => {
+  const parsed = toNumber(value);
+  if (parsed < min || parsed > max) {
+    throw new FieldError(`expected a ${label} between ${min} and ${max}`);
+  }
+  return parsed;
+};
+
+function optional<T>(parser: FieldParser<T>): FieldParser<T | null>;
+function optional<T>(parser: FieldParser<T>, fallback: T): FieldParser<T>;
+function optional<T>(parser: FieldParser<T>, fallback: T | null = null): FieldParser<T | null> {
+  return value => (isBlank(value) ? fallback : parser(value));
+}
+
+export const fields = {
+  number: () => required(toNumber),
+
+  integer: () => required(value => {
+    const parsed = toNumber(value);
+    if (!Number.isInteger(parsed)) {
+      throw new FieldError('expected an integer');
+    }
+    return parsed;
+  }),
+
+  string: () => required(value => {
+    if (typeof value === 'string') return value.trim();
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    throw new FieldError('expected text');
+  }),
+
+  boolean: () => required(value => {
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 1 || value === '1') return true;
+    if (value === 'false' || value === 0 || value === '0') return false;
+    throw new FieldError('expected a boolean');
+  }),
+
+  timestamp: () => required(value => {
+    if (typeof value === 'string' && !Number.isNaN(Date.parse(value))) return value;
+    throw new FieldError('expected an ISO timestamp');
+  }),
+
+  latitude: () => required(inRange(-90, 90, 'latitude')),
+
+  longitude: () => required(inRange(-180, 180, 'longitude')),
+
+  // Passed through untouched; for columns whose shape is interpreted elsewhere (e.g. listing images)
+  json: <T = unknown>(): FieldParser<T> => value => value as T,
+
+  optional
+};
+
+type TableSpec = Record<string, FieldParser<unknown>>;
+
+export type RowOf<Spec extends TableSpec> = { [Column in keyof Spec]: ReturnType<Spec[Column]> };
+
+export interface TableSchema<Row extends object> {
+  name: string;
+  primaryKey: Extract<keyof Row, string>;
+  // Validates one row; throws SchemaError
+  parse: (raw: unknown) => Row;
+  // Validates many rows; rows that fail are logged and dropped so one bad row cannot empty a feed
+  parseMany: (raw: unknown) => Row[];
+}
+
+export const defineTable = <Spec extends TableSpec>(
+  name: string,
+  primaryKey: Extract<keyof Spec, string>,
+  spec: Spec
+): TableSchema<RowOf<Spec>> => {
+  const columns = Object.keys(spec) as Array<Extract<keyof Spec, string>>;
+
+  const parse = (raw: unknown): RowOf<Spec> => {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      throw new SchemaError(name, '*', raw, 'expected a row object');
+    }
+
+    const record = raw as Record<string, unknown>;
+    const rowId = record[primaryKey] as string | number | undefined;
+    const row = {} as RowOf<Spec>;
+
+    for (const column of columns) {
+      try {
+        row[column] = spec[column](record[column]) as RowOf<Spec>[typeof column];
+      } catch (error) {
+        const reason = error instanceof FieldError ? error.message : String(error);
+        throw new SchemaError(name, column, record[column], reason, rowId);
+      }
+    }
+
+    return row;
+  };
+
+  const parseMany = (raw: unknown): RowOf<Spec>[] => {
+    if (!Array.isArray(raw)) {
+      throw new SchemaError(name, '*', raw, 'expected a list of rows');
+    }
+
+    const rows: RowOf<Spec>[] = [];
+    for (const item of raw) {
+      try {
+        rows.push(parse(item));
+      } catch (error) {
+        log.warn(`Skipping invalid row: ${(error as Error).message}`);
+      }
+    }
+    return rows;
+  };
+
+  return { name, primaryKey, parse, parseMany };
+};
+
+export type RowType<Table> = Table extends TableSchema<infer Row> ? Row : never;
+
+// ---------------------------------------------------------------------------
+// Tables
+// ---------------------------------------------------------------------------
+
+// Raw Images column: array, pipe-separated or JSON string, or an object of URLs
+export type ListingImagesValue = string | string[] | Record<string, unknown> | null;
+
+export const ListingsTable = defineTable('Listings', 'Listing_ID', {
+  Listing_ID: fields.integer(),
+  Title: fields.optional(fields.string()),
+  Price: fields.optional(fields.number()),
+  Area: fields.optional(fields.number()),
+  Images: fields.optional(fields.json<ListingImagesValue>()),
+  zone_id: fields.optional(fields.integer()),
+  Latitude: fields.optional(fields.latitude()),
+  Longitude: fields.optional(fields.longitude()),
+  owner_id: fields.optional(fields.integer()),
+  // Entrepreneurs who saved the listing to their favorites
+  favorites_count: fields.optional(fields.integer(), 0)
+});
+
+export const BusinessesTable = defineTable('Businesses', 'business_id', {
+  business_id: fields.integer(),
+  name: fields.optional(fields.string()),
+  rating: fields.optional(fields.number()),
+  user_ratings_total: fields.optional(fields.integer()),
+  business_status: fields.optional(fields.string()),
+  latitude: fields.optional(fields.latitude()),
+  longitude: fields.optional(fields.longitude()),
+  business_type: fields.optional(fields.string()),
+  popularity_score: fields.optional(fields.number()),
+  zone_id: fields.optional(fields.integer()),
+  // Yearly rent in SAR and floor area in m²; only filled for businesses whose unit is on the market
+  rent_price: fields.optional(fields.number()),
+  area: fields.optional(fields.number())
+});
+
+export const ZonesTable = defineTable('Zones', 'zone_id', {
+  zone_id: fields.integer(),
+  total_popularity_score: fields.optional(fields.number(), 0),
+  total_user_ratings: fields.optional(fields.number(), 0),
+  number_of_businesses: fields.optional(fields.integer(), 0),
+  latitude_center: fields.optional(fields.latitude()),
+  longitude_center: fields.optional(fields.longitude()),
+  district_name: fields.optional(fields.string())
+});
+
+export const CompetitorsTable = defineTable('Competitors', 'zone_id', {
+  zone_id: fields.integer(),
+  business_type: fields.string(),
+  number_of_same_type_businesses: fields.optional(fields.integer(), 0)
+});
+
+// Listings saved by entrepreneurs; written only by the backend (/api/favorites), which keeps
+// Listings.favorites_count in step through a trigger, see backend/migrations/006_favorites_counts.sql
+export const FavoritesTable = defineTable('favorites', 'listing_id', {
+  entrepreneur_id: fields.integer(),
+  listing_id: fields.integer(),
+  created_at: fields.optional(fields.timestamp())
+});
+
+// Registry of business types; see backend/migrations/003_business_types.sql
+export const BusinessTypesTable = defineTable('business_types', 'id', {
+  id: fields.string(),
+  label_ar: fields.string(),
+  label_en: fields.string(),
+  icon: fields.optional(fields.string(), 'store'),
+  weight_popularity: fields.optional(fields.number(), 1),
+  weight_ratings: fields.optional(fields.number(), 1),
+  weight_competition: fields.optional(fields.number(), 1),
+  // Google place types and legacy names counted as this type in Competitors
+  place_types: fields.optional(fields.json<string[]>(), []),
+  // Weights of the factors beyond the three columns, e.g. { complementary: 0.2 };
+  // see backend/migrations/005_site_selection_factors.sql
+  factor_weights: fields.optional(fields.json<Record<string, number>>(), {}),
+  // Place types in Businesses that bring customers to this type (e.g. supermarkets for a gym)
+  complements: fields.optional(fields.json<string[]>(), []),
+  sort_order: fields.optional(fields.integer(), 0),
+  active: fields.optional(fields.boolean(), true)
+});
+
+export type ListingRow = RowType<typeof ListingsTable>;
+export type BusinessRow = RowType<typeof BusinessesTable>;
+export type ZoneRow = RowType<typeof ZonesTable>;
+export type CompetitorRow = RowType<typeof CompetitorsTable>;
+export type FavoriteRow = RowType<typeof FavoritesTable>;
+export type BusinessTypeRow = RowType<typeof BusinessTypesTable>;
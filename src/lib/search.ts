@@ -0,0 +1,204 @@
+// Search over listings, districts and business types
+// - Text is compared after normalizeSearchText, so tashkeel, letter variants and digit script do not matter
+// - Districts also match their English transliterations (constants/districts.ts)
+// - Suggestions come from a small in-memory index that is loaded once and refreshed after INDEX_TTL_MS
+// - The listings feed itself is filtered on the server (see ListingQuery in supabase.ts); rankBySearch
+//   orders a loaded page by how well each item matches
+
+import { rest } from './restClient';
+import { ZonesTable, ListingsTable } from './schema';
+import { createLogger } from './logger';
+import { normalizeSearchText, searchWords } from '../utils/arabicText';
+import { DISTRICT_TRANSLITERATIONS } from '../../constants/districts';
+import { fetchBusinessTypes, BusinessTypeDefinition, BusinessTypeLanguage } from './businessTypes';
+import type { BusinessType } from '../context/FilterContext';
+
+const log = createLogger('search');
+
+const INDEX_TTL_MS = 10 * 60 * 1000;
+
+// Titles indexed for suggestions; the feed search itself is not limited by this
+const LISTING_INDEX_LIMIT = 500;
+
+const DEFAULT_SUGGESTION_LIMIT = 8;
+
+// Minimum score for a district to count as what the user meant (a word of its name starts with the text)
+const DISTRICT_MATCH_THRESHOLD = 0.6;
+
+export type SuggestionKind = 'district' | 'businessType' | 'listing';
+
+export interface SearchSuggestion {
+  kind: SuggestionKind;
+  label: string;              // text to show (Arabic name for districts and listings)
+  labels?: Record<BusinessTypeLanguage, string>;  // business types: label per app language
+  score: number;              // 0-1, higher is a better match
+  zoneIds?: number[];         // districts: every zone in the district
+  businessType?: BusinessType;
+  listingId?: number;
+}
+
+interface IndexEntry extends Omit<SearchSuggestion, 'score'> {
+  terms: string[];            // normalized texts the entry can be found by
+}
+
+const KIND_ORDER: Record<SuggestionKind, number> = { district: 0, businessType: 1, listing: 2 };
+
+/**
+ * Scores how well a normalized candidate matches a normalized query
+ * 1 exact, 0.8 prefix, 0.6 a word starts with the query (ignoring ال), 0.4 substring, 0 no match
+ */
+export const scoreMatch = (candidate: string, query: string): number => {
+  if (!query || !candidate) return 0;
+
+  // "العليا" typed against "عليا" (or the reverse) is still a word-prefix match
+  const queries = query.includes(' ') ? [query] : searchWords(query);
+  let best = 0;
+
+  for (const q of queries) {
+    if (candidate === q) return 1;
+    if (candidate.startsWith(q)) best = Math.max(best, 0.8);
+    else if (searchWords(candidate).some(word => word.startsWith(q))) best = Math.max(best, 0.6);
+    else if (candidate.includes(q)) best = Math.max(best, 0.4);
+  }
+
+  return best;
+};
+
+const scoreTerms = (terms: string[], query: string) =>
+  terms.reduce((best, term) => Math.max(best, scoreMatch(term, query)), 0);
+
+const businessTypeEntries = (types: BusinessTypeDefinition[]): IndexEntry[] =>
+  types.map(type => ({
+    kind: 'businessType',
+    label: type.labels.ar,
+    labels: type.labels,
+    businessType: type.id,
+    terms: [type.labels.ar, type.labels.en, type.id].map(normalizeSearchText)
+  }));
+
+const districtTerms = (name: string): string[] => {
+  const normalized = normalizeSearchText(name);
+  const transliterations = Object.entries(DISTRICT_TRANSLITERATIONS)
+    .filter(([arabic]) => normalizeSearchText(arabic) === normalized)
+    .flatMap(([, spellings]) => spellings.map(normalizeSearchText));
+  return [normalized, ...transliterations];
+};
+
+const loadEntries = async (): Promise<IndexEntry[]> => {
+  const [types, zones, listings] = await Promise.all([
+    fetchBusinessTypes(),
+    rest.from(ZonesTable).select('zone_id,district_name').find(),
+    rest.from(ListingsTable).select('Listing_ID,Title,zone_id').order('Listing_ID').limit(LISTING_INDEX_LIMIT).find()
+  ]);
+
+  // One entry per district, covering all of its zones
+  const districts = new Map<string, IndexEntry>();
+  zones.forEach(zone => {
+    if (!zone.district_name) return;
+    const key = normalizeSearchText(zone.district_name);
+    const entry = districts.get(key);
+    if (entry) {
+      entry.zoneIds!.push(zone.zone_id);
+    } else {
+      districts.set(key, {
+        kind: 'district',
+        label: zone.district_name,
+        zoneIds: [zone.zone_id],
+        terms: districtTerms(zone.district_name)
+      });
+    }
+  });
+
+  const listingEntries: IndexEntry[] = listings
+    .filter(listing => listing.Title)
+    .map(listing => ({
+      kind: 'listing',
+      label: listing.Title!,
+      listingId: listing.Listing_ID,
+      zoneIds: listing.zone_id !== null ? [listing.zone_id] : undefined,
+      terms: [normalizeSearchText(listing.Title!)]
+    }));
+
+  return [...districts.values(), ...businessTypeEntries(types), ...listingEntries];
+};
+
+let cachedIndex: { entries: IndexEntry[]; loadedAt: number } | null = null;
+let pendingIndex: Promise<IndexEntry[]> | null = null;
+
+const getIndex = async (): Promise<IndexEntry[]> => {
+  if (cachedIndex && Date.now() - cachedIndex.loadedAt < INDEX_TTL_MS) {
+    return cachedIndex.entries;
+  }
+
+  if (!pendingIndex) {
+    pendingIndex = loadEntries()
+      .then(entries => {
+        cachedIndex = { entries, loadedAt: Date.now() };
+        log.debug(`Search index loaded with ${entries.length} entries`);
+        return entries;
+      })
+      .catch(error => {
+        // The registry keeps its last loaded list, so business types are still suggested while Supabase is unreachable
+        log.warn('Could not load search index:', error);
+        return fetchBusinessTypes().then(businessTypeEntries);
+      })
+      .finally(() => {
+        pendingIndex = null;
+      });
+  }
+
+  return pendingIndex;
+};
+
+// Drops the cached index so the next search reloads districts and titles
+export const invalidateSearchIndex = () => {
+  cachedIndex = null;
+};
+
+// As-you-type suggestions, best match first
+export const getSearchSuggestions = async (
+  text: string,
+  limit = DEFAULT_SUGGESTION_LIMIT
+): Promise<SearchSuggestion[]> => {
+  const query = normalizeSearchText(text);
+  if (!query) return [];
+
+  const entries = await getIndex();
+
+  return entries
+    .map(({ terms, ...entry }) => ({ ...entry, score: scoreTerms(terms, query) }))
+    .filter(suggestion => suggestion.score > 0)
+    .sort((a, b) =>
+      b.score - a.score ||
+      KIND_ORDER[a.kind] - KIND_ORDER[b.kind] ||
+      a.label.length - b.label.length
+    )
+    .slice(0, limit);
+};
+
+// Zones of the districts the text names, in Arabic or transliterated; empty when it names none
+export const resolveDistrictZoneIds = async (text: string): Promise<number[]> => {
+  const query = normalizeSearchText(text);
+  if (!query) return [];
+
+  const entries = await getIndex();
+
+  return entries
+    .filter(entry => entry.kind === 'district' && scoreTerms(entry.terms, query) >= DISTRICT_MATCH_THRESHOLD)
+    .flatMap(entry => entry.zoneIds ?? []);
+};
+
+// Stable sort of items by relevance to the text; items that match none of their texts keep their order at the end
+export const rankBySearch = <T>(items: T[], text: string, textsOf: (item: T) => string[]): T[] => {
+  const query = normalizeSearchText(text);
+  if (!query) return items;
+
+  return items
+    .map((item, position) => ({
+      item,
+      position,
+      score: scoreTerms(textsOf(item).filter(Boolean).map(normalizeSearchText), query)
+    }))
+    .sort((a, b) => b.score - a.score || a.position - b.position)
+    .map(({ item }) => item);
+};
@@ -6,8 +6,21 @@
 import '../utils/polyfills';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { createClient } from '@supabase/supabase-js';
-import { EXPO_PUBLIC_SUPABASE_URL, EXPO_PUBLIC_SUPABASE_ANON_KEY, PLACEHOLDER_IMAGE_URL } from '@config/env';
-import { images } from '../../components/types';
+import { EXPO_PUBLIC_SUPABASE_URL, EXPO_PUBLIC_SUPABASE_ANON_KEY, EXPO_PUBLIC_API_URL } from '@config/env';
+import { images, MarketplaceItem } from '../../components/types';
+import i18n from '../i18n';
+import { rest, RestError, NetworkError, ClientError, QueryBuilder } from './restClient';
+import { reportConnectivity } from './connectivity';
+import { ListingsTable, BusinessesTable, ListingRow } from './schema';
+import { normalizeListingImages } from '../utils/listingImages';
+import { normalizeSearchText, toArabicMatchPattern } from '../utils/arabicText';
+import type { BoundingBox } from '../utils/mapClustering';
+import type { FactorWeights } from '../utils/zoneScoring';
+import type { GeoPoint } from '../utils/geo';
+import { createLogger } from './logger';
+import { toChatMessage } from './chat';
+
+const log = createLogger('supabase');
 
 // 1) Supabase client (from src/utils/supabase.ts) - Client-only initialization
 let supabaseClient: ReturnType<typeof createClient> | null = null;
@@ -61,329 +74,409 @@ export interface UserProfile {
   gender?: string;
   address?: string;
   role: UserRole;
+  phone_verified?: boolean;
   created_at?: string;
   updated_at?: string;
 }
 
+// Session issued by the backend (/auth/login, /auth/register, /auth/refresh)
+export interface AuthSession {
+  access_token: string;
+  refresh_token?: string;
+  expires_at?: number; // Unix time in seconds
+  user: UserProfile | null;
+}
+
+// Pending phone verification code as reported by the backend
+export interface PhoneVerificationState {
+  expires_at: string;
+  attempts_remaining: number;
+  resend_available_at: string;
+}
+
+export interface PhoneVerificationResult {
+  success: boolean;
+  verified?: boolean;
+  verification?: PhoneVerificationState | null;
+  code?: string; // machine-readable reason from the backend, e.g. invalid_code or resend_cooldown
+  attemptsRemaining?: number;
+  retryAfter?: number; // seconds
+  error?: string;
+}
+
+export type SessionChangeEvent = 'signed_in' | 'refreshed' | 'expired' | 'signed_out';
+type SessionListener = (session: AuthSession | null, event: SessionChangeEvent) => void;
+
+// Refresh this many seconds before the access token actually expires
+const SESSION_REFRESH_MARGIN_SECONDS = 60;
+
 // In-memory session storage (mirrors lib/supabase.ts behavior)
-let currentSession: { access_token: string; user: UserProfile | null } | null = null;
+let currentSession: AuthSession | null = null;
+let refreshInFlight: Promise<AuthSession | null> | null = null;
+const sessionListeners = new Set<SessionListener>();
+
+// The backend picks the SMS language (verification and reset codes) from this header
+const backendHeaders = (): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  'Accept-Language': i18n.language || 'ar'
+});
 
-// Basic fetch wrapper for Supabase REST API (verbatim from lib/supabase.ts, with env alias updates)
-export const supabaseApi = {
-  getDefaultHeaders() {
-    return {
-      'apikey': EXPO_PUBLIC_SUPABASE_ANON_KEY,
-      'Content-Type': 'application/json'
-    };
-  },
+// Failed backend call; keeps the status, the machine-readable code (e.g. rate_limited) and Retry-After seconds
+export type BackendError = Error & { status?: number; code?: string; retryAfter?: number };
 
-  async fetchMarketplaces(page = 1, pageSize = 20) {
+const backendError = (response: Response, body: any, fallbackMessage: string): BackendError => {
+  const retryAfter = Number(response.headers.get('Retry-After') ?? body.retry_after);
+  return Object.assign(new Error(body.message || fallbackMessage), {
+    status: response.status,
+    code: body.code as string | undefined,
+    retryAfter: Number.isFinite(retryAfter) ? retryAfter : undefined
+  });
+};
+
+const notifySessionListeners = (event: SessionChangeEvent) => {
+  sessionListeners.forEach(listener => {
     try {
-      console.log('Directly fetching from Businesses table without any fallback');
-      return await this.fetchBusinesses(page, pageSize);
+      listener(currentSession, event);
     } catch (error) {
-      console.error('Error fetching from Businesses table:', error);
-      throw error;
+      log.error('Session listener error:', error);
     }
-  },
+  });
+};
 
-  async fetchListings(page = 1, pageSize = 20) {
-    try {
-      const startRange = (page - 1) * pageSize;
+// Bounds are inclusive unless minExclusive is set; rows where the column is null never match
+export interface NumberRange {
+  min?: number;
+  max?: number;
+  minExclusive?: boolean;
+}
 
-      console.log('Fetching data from Listings table');
-      console.log('Page:', page, 'Page size:', pageSize, 'Offset:', startRange);
-
-      const response = await fetch(
-        `${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/Listings?select=Listing_ID,Title,Price,Area,Images,zone_id,Latitude,Longitude&order=Listing_ID.asc&limit=${pageSize}&offset=${startRange}`,
-        {
-          method: 'GET',
-          headers: {
-            'apikey': EXPO_PUBLIC_SUPABASE_ANON_KEY,
-            'Authorization': `Bearer ${EXPO_PUBLIC_SUPABASE_ANON_KEY}`,
-            'Content-Type': 'application/json',
-            'Cache-Control': 'no-cache',
-            'Prefer': 'return=representation'
-          }
-        }
-      );
+export type ListingSortField = 'price' | 'area';
+
+// Filters, search and ordering for the listings feed, applied by PostgREST so every page is filtered
+export interface ListingQuery {
+  price?: NumberRange;
+  area?: NumberRange;
+  zoneIds?: number[];
+  text?: string;
+  // Zones of districts the text names (see resolveDistrictZoneIds); listings there match the text too
+  textZoneIds?: number[];
+  // Only listings with coordinates inside the box, e.g. the visible map area
+  bounds?: BoundingBox;
+  sort?: { field: ListingSortField; ascending?: boolean };
+}
 
-      console.log('Listings data response status:', response.status);
+const LISTING_SORT_COLUMNS = { price: 'Price', area: 'Area' } as const;
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Error fetching from Listings table:', errorText);
-        throw new Error(`Error fetching listings data: ${response.status} - ${errorText}`);
-      }
+// Named set of recommendation settings an entrepreneur saved to their account
+export interface RecommendationProfile {
+  id: number;
+  name: string;
+  businessType: string;
+  weights: FactorWeights;
+  budget: number | null;        // yearly rent budget in SAR
+  anchor: GeoPoint | null;      // point the distance factor is measured from
+  updatedAt: string;
+}
 
-      const data = await response.json();
-      console.log('Fetched listings count:', data.length);
+export type RecommendationProfileInput = Omit<RecommendationProfile, 'id' | 'updatedAt'>;
+
+const toRecommendationProfile = (row: any): RecommendationProfile => ({
+  id: row.id,
+  name: row.name,
+  businessType: row.business_type,
+  weights: row.weights ?? {},
+  budget: row.budget ?? null,
+  anchor: row.anchor_latitude != null && row.anchor_longitude != null
+    ? { latitude: row.anchor_latitude, longitude: row.anchor_longitude }
+    : null,
+  updatedAt: row.updated_at
+});
 
-      if (data.length > 0) {
-        console.log('Listing data example:', JSON.stringify(data[0]));
-        console.log('Images field type:', typeof data[0].Images);
-        console.log('Images field value:', data[0].Images);
-        if (data[0].Images) {
-          console.log('Is Images an array?', Array.isArray(data[0].Images));
-          if (Array.isArray(data[0].Images)) {
-            console.log('Images array length:', data[0].Images.length);
-            console.log('First image value:', data[0].Images[0]);
-          } else if (typeof data[0].Images === 'string') {
-            console.log('Images is a string value');
-          }
-        }
+// Where the entrepreneur is with a saved listing
+export type FavoriteStatus = 'saved' | 'contacted' | 'visited' | 'rejected';
 
-        interface ListingData {
-          Listing_ID: number;
-          Title?: string;
-          Price?: number;
-          Area?: number;
-          Images?: string[] | string | any;
-          processedImages?: string[];
-          zone_id?: string;
-          Latitude?: string;
-          Longitude?: string;
-        }
+export const FAVORITE_STATUSES: FavoriteStatus[] = ['saved', 'contacted', 'visited', 'rejected'];
 
-        return data.map((listing: ListingData) => {
-          let imageSource: string;
-
-          console.log(`Listing ${listing.Listing_ID} Images field:`, listing.Images);
-
-          try {
-            if (listing.Images) {
-              if (Array.isArray(listing.Images) && listing.Images.length > 0) {
-                imageSource = listing.Images[0];
-                console.log(`Using image from array for listing ${listing.Listing_ID}:`, imageSource);
-              }
-              else if (typeof listing.Images === 'string') {
-                const imagesString = listing.Images as string;
-                if (imagesString.includes(' | ') || imagesString.includes('|')) {
-                  const imageUrls = imagesString.split(/\s*\|\s*/).filter(url => url.includes('http'));
-                  if (imageUrls.length > 0) {
-                    (listing as any).processedImages = imageUrls;
-                    imageSource = imageUrls[0];
-                    console.log(`Found ${imageUrls.length} pipe-separated images for listing ${listing.Listing_ID}, using first:`, imageSource);
-                  } else {
-                    imageSource = PLACEHOLDER_IMAGE_URL;
-                  }
-                }
-                else if (imagesString.startsWith('[') && imagesString.includes('"')) {
-                  try {
-                    const parsedImages = JSON.parse(imagesString);
-                    if (Array.isArray(parsedImages) && parsedImages.length > 0) {
-                      (listing as any).processedImages = parsedImages;
-                      imageSource = parsedImages[0];
-                      console.log(`Using image from parsed JSON for listing ${listing.Listing_ID}:`, imageSource);
-                    } else {
-                      imageSource = imagesString.includes('http') ? imagesString : PLACEHOLDER_IMAGE_URL;
-                      console.log(`Using direct string for listing ${listing.Listing_ID}:`, imageSource);
-                    }
-                  } catch (e) {
-                    imageSource = imagesString.includes('http') ? imagesString : PLACEHOLDER_IMAGE_URL;
-                    console.log(`Failed to parse JSON, using direct string for listing ${listing.Listing_ID}:`, imageSource);
-                  }
-                } else {
-                  imageSource = imagesString.includes('http') ? imagesString : PLACEHOLDER_IMAGE_URL;
-                  console.log(`Using direct string for listing ${listing.Listing_ID}:`, imageSource);
-                }
-              }
-              else if (typeof listing.Images === 'object' && listing.Images !== null) {
-                try {
-                  const imagesObject = listing.Images as Record<string, any>;
-                  const possibleImageUrl = Object.values(imagesObject).find(val =>
-                    typeof val === 'string' && val.includes('http'));
-
-                  if (possibleImageUrl && typeof possibleImageUrl === 'string') {
-                    imageSource = possibleImageUrl;
-                    console.log(`Using image from object for listing ${listing.Listing_ID}:`, imageSource);
-                  } else {
-                    imageSource = PLACEHOLDER_IMAGE_URL;
-                    console.log(`No valid image URL in object for listing ${listing.Listing_ID}`);
-                  }
-                } catch (error) {
-                  console.error(`Error extracting image from object for listing ${listing.Listing_ID}:`, error);
-                  imageSource = PLACEHOLDER_IMAGE_URL;
-                }
-              } else {
-                imageSource = PLACEHOLDER_IMAGE_URL;
-                console.log(`Unknown Images field format for listing ${listing.Listing_ID}`);
-              }
-            } else {
-              imageSource = PLACEHOLDER_IMAGE_URL;
-              console.log(`No Images field for listing ${listing.Listing_ID}`);
-            }
-          } catch (error) {
-            console.error(`Error processing image for listing ${listing.Listing_ID}:`, error);
-            imageSource = PLACEHOLDER_IMAGE_URL;
-          }
-
-          if (!imageSource || !imageSource.includes('http')) {
-            imageSource = PLACEHOLDER_IMAGE_URL;
-            console.log(`Using fallback image for listing ${listing.Listing_ID} as the extracted URL is invalid`);
-          }
-
-          return {
-            id: listing.Listing_ID.toString(),
-            title: listing.Title || '',
-            price: listing.Price ? `${listing.Price} ريال` : '',
-            size: listing.Area ? `${listing.Area} م²` : null,
-            location: listing.zone_id ? `منطقة ${listing.zone_id}` : '',
-            image: imageSource,
-            businessName: listing.Title || '',
-            businessType: 'property',
-            latitude: listing.Latitude,
-            longitude: listing.Longitude,
-            zone_id: listing.zone_id,
-            originalData: listing
-          };
-        });
-      } else {
-        console.warn('No listings data returned from Supabase');
-        return [];
-      }
+// Private note and status of a saved listing; never part of a shared collection
+export interface FavoriteAnnotation {
+  note: string;
+  status: FavoriteStatus;
+}
+
+// Listing saved to the user's favorites on the server
+export interface ServerFavorite extends FavoriteAnnotation {
+  listingId: string;
+  createdAt: string;
+}
+
+const toServerFavorite = (row: any): ServerFavorite => ({
+  listingId: String(row.listing_id),
+  note: row.note ?? '',
+  status: row.status ?? 'saved',
+  createdAt: row.created_at
+});
+
+// Named group of favorites, e.g. "Olaya shortlist"
+export interface FavoriteCollection {
+  id: number;
+  name: string;
+  listingIds: string[];
+  shareToken: string | null;    // set while the collection is shared as a read-only link
+  updatedAt: string;
+}
+
+const toFavoriteCollection = (row: any): FavoriteCollection => ({
+  id: row.id,
+  name: row.name,
+  listingIds: (row.listing_ids ?? []).map(String),
+  shareToken: row.share_token ?? null,
+  updatedAt: row.updated_at
+});
+
+// What anyone with the link sees: the name and listings, without notes or statuses
+export interface SharedCollection {
+  name: string;
+  updatedAt: string;
+  listings: MarketplaceItem[];
+}
+
+// A chat about one listing between an entrepreneur and the listing's owner, as one side sees it
+export interface Conversation {
+  id: number;
+  listingId: string;
+  listingTitle: string;
+  listingImage: string;           // cover photo, or the placeholder
+  otherRole: UserRole;
+  otherName: string;
+  lastMessage: string | null;
+  lastSenderRole: UserRole | null;
+  lastMessageAt: string | null;
+  unread: number;                 // messages from the other side not read yet
+  createdAt: string;
+}
+
+export interface ChatMessage {
+  id: number;
+  conversationId: number;
+  senderRole: UserRole;
+  body: string;
+  clientId: string;               // chosen by the sending device, so a resend is not stored twice
+  readAt: string | null;          // read receipt, set when the other side opened it
+  createdAt: string;
+}
+
+const toConversation = (row: any): Conversation => ({
+  id: row.id,
+  listingId: String(row.listing_id),
+  listingTitle: row.listing_title ?? '',
+  listingImage: normalizeListingImages(row.listing_images).cover,
+  otherRole: row.other_role,
+  otherName: row.other_name ?? '',
+  lastMessage: row.last_message ?? null,
+  lastSenderRole: row.last_sender_role ?? null,
+  lastMessageAt: row.last_message_at ?? null,
+  unread: row.unread ?? 0,
+  createdAt: row.created_at
+});
+
+const LISTING_CARD_COLUMNS = 'Listing_ID,Title,Price,Area,Images,zone_id,Latitude,Longitude,favorites_count';
+
+const toListingItem = (listing: ListingRow): MarketplaceItem => {
+  const { cover, gallery } = normalizeListingImages(listing.Images);
+
+  return {
+    id: listing.Listing_ID.toString(),
+    title: listing.Title || '',
+    price: listing.Price ? `${listing.Price} ريال` : '',
+    priceValue: listing.Price || null,
+    size: listing.Area ? `${listing.Area} م²` : null,
+    area: listing.Area || null,
+    location: listing.zone_id ? `منطقة ${listing.zone_id}` : '',
+    image: cover,
+    businessName: listing.Title || '',
+    businessType: 'property',
+    latitude: listing.Latitude ?? undefined,
+    longitude: listing.Longitude ?? undefined,
+    zone_id: listing.zone_id ?? undefined,
+    favorites_count: listing.favorites_count,
+    images: gallery,
+    originalData: listing
+  };
+};
+
+type ListingsQueryBuilder = QueryBuilder<ListingRow>;
+
+const applyRange = (
+  builder: ListingsQueryBuilder,
+  column: 'Price' | 'Area',
+  range: NumberRange | undefined
+): ListingsQueryBuilder => {
+  if (!range) return builder;
+  if (range.min !== undefined) {
+    builder = range.minExclusive ? builder.gt(column, range.min) : builder.gte(column, range.min);
+  }
+  if (range.max !== undefined) {
+    builder = builder.lte(column, range.max);
+  }
+  return builder;
+};
+
+const applyListingQuery = (builder: ListingsQueryBuilder, query: ListingQuery): ListingsQueryBuilder => {
+  builder = applyRange(builder, 'Price', query.price);
+  builder = applyRange(builder, 'Area', query.area);
+
+  if (query.zoneIds && query.zoneIds.length > 0) {
+    builder = builder.in('zone_id', query.zoneIds);
+  }
+
+  if (query.bounds) {
+    builder = builder
+      .gte('Latitude', query.bounds.south)
+      .lte('Latitude', query.bounds.north)
+      .gte('Longitude', query.bounds.west)
+      .lte('Longitude', query.bounds.east);
+  }
+
+  const pattern = query.text ? toArabicMatchPattern(query.text) : null;
+  if (pattern) {
+    const conditions = [`Title.imatch.${pattern}`];
+    // A bare number also matches the zone shown as "منطقة N" on the card
+    const digits = normalizeSearchText(query.text!);
+    if (/^\d+$/.test(digits)) {
+      conditions.push(`zone_id.eq.${digits}`);
+    }
+    if (query.textZoneIds && query.textZoneIds.length > 0) {
+      conditions.push(`zone_id.in.(${query.textZoneIds.join(',')})`);
+    }
+    builder = conditions.length > 1 ? builder.or(conditions.join(',')) : builder.imatch('Title', pattern);
+  }
+
+  if (query.sort) {
+    builder = builder.order(LISTING_SORT_COLUMNS[query.sort.field], {
+      ascending: query.sort.ascending ?? true,
+      nullsFirst: false
+    });
+  }
+
+  // Tie-breaker so offset pagination is stable across pages
+  return builder.order('Listing_ID');
+};
+
+// Favorites and chat calls tell a request that never got an answer (NetworkError, kept queued
+// offline) apart from one the backend refused (BackendError with its status)
+const backendFetch = async (path: string, init: RequestInit = {}): Promise<Response> => {
+  try {
+    const response = await supabaseApi.authorizedFetch(path, init);
+    reportConnectivity(true);
+    return response;
+  } catch (error) {
+    reportConnectivity(false);
+    throw new NetworkError((error as Error)?.message || 'Network request failed', { url: `${EXPO_PUBLIC_API_URL}${path}` });
+  }
+};
+
+// Supabase REST reads/writes go through the shared rest client; backend calls use authorizedFetch
+export const supabaseApi = {
+  async fetchMarketplaces(page = 1, pageSize = 20, text?: string) {
+    try {
+      log.debug('Directly fetching from Businesses table without any fallback');
+      return await this.fetchBusinesses(page, pageSize, text);
     } catch (error) {
-      console.error('Error fetching listings:', error);
+      log.error('Error fetching from Businesses table:', error);
       throw error;
     }
   },
 
-  async fetchBusinesses(page = 1, pageSize = 20): Promise<any[]> {
+  async fetchListings(page = 1, pageSize = 20, query: ListingQuery = {}): Promise<MarketplaceItem[]> {
     try {
       const startRange = (page - 1) * pageSize;
 
-      console.log('Directly fetching actual data from Businesses table');
-      console.log('Page:', page, 'Page size:', pageSize, 'Offset:', startRange);
-
-      const response = await fetch(
-        `${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/Businesses?select=business_id,name,rating,user_ratings_total,business_status,latitude,longitude,business_type,popularity_score,zone_id&order=business_id.asc&limit=${pageSize}&offset=${startRange}`,
-        {
-          method: 'GET',
-          headers: {
-            'apikey': EXPO_PUBLIC_SUPABASE_ANON_KEY,
-            'Authorization': `Bearer ${EXPO_PUBLIC_SUPABASE_ANON_KEY}`,
-            'Content-Type': 'application/json',
-            'Cache-Control': 'no-cache',
-            'Prefer': 'return=representation'
-          }
-        }
-      );
-
-      console.log('Business data response status:', response.status);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Error fetching from Businesses table:', errorText);
-        throw new Error(`Error fetching business data: ${response.status} - ${errorText}`);
-      }
+      const data = await applyListingQuery(
+        rest.from(ListingsTable).select(LISTING_CARD_COLUMNS),
+        query
+      )
+        .range(startRange, startRange + pageSize - 1)
+        .find();
 
-      const data = await response.json();
-      console.log('Fetched real businesses count:', data.length);
+      log.info(`Fetched ${data.length} listings (page ${page})`);
 
       if (data.length > 0) {
-        console.log('Real business data example:', JSON.stringify(data[0]));
-        console.log('Database column names in response:', Object.keys(data[0]).join(', '));
+        return data.map(toListingItem);
       } else {
-        console.error('No business data returned from Supabase - table may be empty');
-        console.log('Attempting to query Supabase to see if the Businesses table exists...');
-
-        try {
-          const tableInfoResponse = await fetch(
-            `${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/Businesses?limit=1`,
-            {
-              method: 'GET',
-              headers: {
-                'apikey': EXPO_PUBLIC_SUPABASE_ANON_KEY,
-                'Authorization': `Bearer ${EXPO_PUBLIC_SUPABASE_ANON_KEY}`,
-                'Content-Type': 'application/json'
-              }
-            }
-          );
-
-          console.log('Table check status:', tableInfoResponse.status);
-
-          if (tableInfoResponse.ok) {
-            console.log('Businesses table exists but may be empty');
-            console.log('Attempting to add a sample business record...');
-            const insertResponse = await fetch(
-              `${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/Businesses`,
-              {
-                method: 'POST',
-                headers: {
-                  'apikey': EXPO_PUBLIC_SUPABASE_ANON_KEY,
-                  'Authorization': `Bearer ${EXPO_PUBLIC_SUPABASE_ANON_KEY}`,
-                  'Content-Type': 'application/json',
-                  'Prefer': 'return=representation'
-                },
-                body: JSON.stringify({
-                  "name": 'نضارة الأسطورة للحلاقة',
-                  "rating": '4.5',
-                  "user_ratings_total": '82',
-                  "business_status": 'OPERATIONAL',
-                  "latitude": '24.5254774',
-                  "longitude": '46.6611376',
-                  "business_type": 'barber',
-                  "popularity_score": '369',
-                  "zone_id": '2',
-                  "business_id": '3'
-                })
-              }
-            );
-
-            if (insertResponse.ok) {
-              console.log('Successfully added sample business');
-              return await this.fetchBusinesses(page, pageSize);
-            } else {
-              console.error('Failed to add sample business:', await insertResponse.text());
-            }
-          } else {
-            console.error('Businesses table may not exist or cannot be accessed');
-          }
-        } catch (checkError) {
-          console.error('Error checking Businesses table:', checkError);
-        }
+        log.warn('No listings data returned from Supabase');
+        return [];
       }
+    } catch (error) {
+      log.error('Error fetching listings:', error);
+      throw error;
+    }
+  },
 
-      const formattedData = data.map((business: any) => {
-        console.log(`Business record ${business.business_id}:`, JSON.stringify(business));
+  // Current copies of the given listings, e.g. to refresh saved favorites; missing ids were deleted
+  async fetchListingsByIds(ids: string[]): Promise<MarketplaceItem[]> {
+    const listingIds = ids.map(Number).filter(Number.isInteger);
+    if (listingIds.length === 0) {
+      return [];
+    }
 
-        const businessTypeImages: { [key: string]: string } = {
-          'barber': '../assets/images/dummy1.png',
-          'restaurant': '../assets/images/dummy2.png',
-          'cafe': '../assets/images/dummy3.png',
-          'store': '../assets/images/dummy4.png'
-        };
+    try {
+      const data = await rest
+        .from(ListingsTable)
+        .select(LISTING_CARD_COLUMNS)
+        .in('Listing_ID', listingIds)
+        .find();
+      return data.map(toListingItem);
+    } catch (error) {
+      log.error('Error fetching listings by id:', error);
+      throw error;
+    }
+  },
 
-        const imageKey = business.business_type && businessTypeImages[business.business_type]
-          ? businessTypeImages[business.business_type]
-          : `../assets/images/dummy${Math.floor(Math.random() * 4) + 1}.png`;
+  async fetchBusinesses(page = 1, pageSize = 20, text?: string): Promise<MarketplaceItem[]> {
+    try {
+      const startRange = (page - 1) * pageSize;
 
-        const randomPrice = Math.floor(Math.random() * (100000 - 25000 + 1)) + 25000;
-        const formattedPrice = new Intl.NumberFormat('ar-SA').format(randomPrice);
+      const builder = rest.from(BusinessesTable);
+      const pattern = text ? toArabicMatchPattern(text) : null;
+      if (pattern) {
+        builder.imatch('name', pattern);
+      }
 
-        return {
-          id: business.business_id ? business.business_id.toString() : Math.random().toString(),
-          title: business.rating || '0.0',
-          price: `${formattedPrice} ريال / سنة`,
-          size: business.user_ratings_total ? `تقييمات المستخدمين: ${business.user_ratings_total}` : null,
-          location: `منطقة ${business.zone_id || '1'}`,
-          image: imageKey,
-          businessName: business.name || 'Business',
-          businessType: business.business_type || 'متجر',
-          businessStatus: business.business_status || 'OPERATIONAL',
-          user_ratings_total: business.user_ratings_total,
-          zone_id: business.zone_id,
-          popularity_score: business.popularity_score,
-          latitude: business.latitude,
-          longitude: business.longitude,
-          originalData: business
-        };
-      });
+      const data = await builder
+        .order('business_id')
+        .range(startRange, startRange + pageSize - 1)
+        .find();
 
-      console.log(`Successfully formatted ${formattedData.length} business items from real database data`);
-      return formattedData;
+      log.info(`Fetched ${data.length} businesses (page ${page})`);
+
+      if (data.length === 0) {
+        log.warn('No business data returned from Supabase - table may be empty');
+      }
+
+      return data.map((business): MarketplaceItem => ({
+        id: business.business_id.toString(),
+        business_id: business.business_id,
+        title: business.name || '',
+        // Businesses only carry a price when the rent is known; otherwise the UI shows "price unknown"
+        price: business.rent_price !== null ? `${business.rent_price} ريال / سنة` : '',
+        priceValue: business.rent_price,
+        size: business.area !== null ? `${business.area} م²` : null,
+        area: business.area,
+        location: business.zone_id !== null ? `منطقة ${business.zone_id}` : '',
+        image: normalizeListingImages(null).cover,
+        businessName: business.name || '',
+        businessType: business.business_type || '',
+        businessStatus: business.business_status ?? undefined,
+        rating: business.rating ?? undefined,
+        user_ratings_total: business.user_ratings_total ?? undefined,
+        zone_id: business.zone_id ?? undefined,
+        popularity_score: business.popularity_score ?? undefined,
+        latitude: business.latitude ?? undefined,
+        longitude: business.longitude ?? undefined,
+        originalData: business
+      }));
     } catch (error) {
-      console.error('Error fetching from Businesses table:', error);
+      log.error('Error fetching from Businesses table:', error);
       throw error;
     }
   },
@@ -400,333 +493,329 @@ export const supabaseApi = {
 
   async testConnection() {
     try {
-      console.log('Testing Supabase connectivity to host:', new URL(EXPO_PUBLIC_SUPABASE_URL).host);
-      const response = await fetch(`${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/Businesses?select=business_id&limit=1`, {
-        method: 'GET',
-        headers: {
-          'apikey': EXPO_PUBLIC_SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${EXPO_PUBLIC_SUPABASE_ANON_KEY}`
-        }
-      });
-      console.log('Test connection status:', response.status);
+      log.debug('Testing Supabase connectivity to host:', new URL(EXPO_PUBLIC_SUPABASE_URL).host);
+      await rest.from(BusinessesTable).select('business_id').limit(1).find({ retries: 0 });
       return true;
     } catch (error) {
-      console.log('Fetch error type:', (error as any)?.name || typeof error);
-      console.error('Connection test error:', error);
+      // Any HTTP response means the host is reachable; only network failures count as offline
+      if (error instanceof RestError && !(error instanceof NetworkError)) {
+        return true;
+      }
+      log.error('Connection test error:', error);
       return false;
     }
   },
 
   async signUp(email: string, password: string, userData: Partial<UserProfile> & { role: UserRole }) {
     try {
-      console.log('Starting sign-up process for:', email, 'with role:', userData.role);
-      console.log('User data received:', JSON.stringify({
+      log.debug('Starting sign-up process for:', email, 'with role:', userData.role);
+
+      // The backend creates the profile row, hashes the password and texts the verification code
+      const { user, session } = await this.requestSession('/auth/register', {
+        email,
+        password,
+        role: userData.role,
         name: userData.name,
-        email: userData.email,
         phone: userData.phone,
         dob: userData.dob,
         gender: userData.gender,
         city: userData.city,
         country: userData.country,
         address: userData.address,
-        role: userData.role
-      }));
+        avatar_url: userData.avatar_url
+      });
 
-      const hashPassword = (password: string): string => {
-        const hash = `hash_${password}_${new Date().getTime()}`;
-        console.log('Password hash created (masked):', 'hash_****_' + new Date().getTime());
-        return hash;
+      currentSession = {
+        ...session,
+        user
       };
+      notifySessionListeners('signed_in');
 
-      const passwordHash = hashPassword(password);
-
-      let profileResult;
-
-      if (userData.role === 'entrepreneur') {
-        const entrepreneurData = {
-          name: userData.name!,
-          email: userData.email || email,
-          city: userData.city || '',
-          country: userData.country || 'Saudi Arabia',
-          avatar_url: userData.avatar_url,
-          dob: userData.dob || '',
-          gender: userData.gender || '',
-          address: userData.address || '',
-          password_hash: passwordHash
-        };
-
-        console.log('Creating entrepreneur profile directly:', JSON.stringify({
-          ...entrepreneurData,
-          password_hash: '[REDACTED]'
-        }));
-        profileResult = await this.createEntrepreneurProfileDirectly(entrepreneurData);
-        console.log('Entrepreneur profile created with ID:', profileResult?.id);
-
-        console.log('Note: In production, would store hashed password for user ID:', profileResult?.id);
-      } else if (userData.role === 'owner') {
-        const ownerData = {
-          name: userData.name!,
-          email: userData.email || email,
-          phone: userData.phone || '',
-          city: userData.city || '',
-          country: userData.country || 'Saudi Arabia',
-          avatar_url: userData.avatar_url,
-          dob: userData.dob || '',
-          gender: userData.gender || '',
-          address: userData.address || '',
-          password_hash: passwordHash
-        };
+      log.debug('Sign-up successful, profile ID:', user.id);
 
-        console.log('Creating owner profile directly:', JSON.stringify({
-          ...ownerData,
-          password_hash: '[REDACTED]'
-        }));
-        profileResult = await this.createOwnerProfileDirectly(ownerData);
-        console.log('Owner profile created with ID:', profileResult?.id);
-
-        console.log('Note: In production, would store hashed password for user ID:', profileResult?.id);
-      } else {
-        throw new Error(`Invalid role: ${userData.role}`);
-      }
+      return { success: true, user };
+    } catch (error: any) {
+      log.error('Sign up error:', error);
+      return { success: false, error: error.message, code: error.code, retryAfter: error.retryAfter };
+    }
+  },
 
-      const userProfileId = profileResult?.id || null;
-      if (!userProfileId) {
-        throw new Error('Failed to get user profile ID');
-      }
+  async signIn(email: string, password: string) {
+    try {
+      log.debug('Attempting to sign in with email:', email);
 
-      const simpleToken = 'dummy_access_token_' + new Date().getTime();
+      const { user, session } = await this.requestSession('/auth/login', { email, password });
 
       currentSession = {
-        access_token: simpleToken,
-        user: {
-          ...userData,
-          id: userProfileId,
-          email: email,
-          name: userData.name!,
-          role: userData.role
-        } as UserProfile
+        ...session,
+        user
       };
+      notifySessionListeners('signed_in');
+
+      log.debug('Sign-in successful for user:', user.name);
 
-      return { success: true, user: currentSession.user };
+      return {
+        success: true,
+        user
+      };
     } catch (error: any) {
-      console.error('Sign up error:', error);
-      return { success: false, error: error.message };
+      log.error('Sign in error:', error);
+      return { success: false, error: error.message, code: error.code, retryAfter: error.retryAfter };
     }
   },
 
-  async signIn(email: string, password: string) {
-    try {
-      console.log('Attempting to sign in with email:', email);
+  async requestSession(
+    path: '/auth/login' | '/auth/register',
+    payload: Record<string, unknown>
+  ): Promise<{ user: UserProfile; session: Omit<AuthSession, 'user'> }> {
+    const response = await fetch(`${EXPO_PUBLIC_API_URL}${path}`, {
+      method: 'POST',
+      headers: backendHeaders(),
+      body: JSON.stringify(payload)
+    });
 
-      let userRole: UserRole = 'entrepreneur';
-      let userWithPassword = await this.findUserWithPasswordByEmail(email, userRole);
+    const body = await response.json().catch(() => ({}));
 
-      if (!userWithPassword) {
-        userRole = 'owner';
-        userWithPassword = await this.findUserWithPasswordByEmail(email, userRole);
-      }
+    if (!response.ok || !body.success) {
+      throw backendError(response, body, `Request to ${path} failed with status ${response.status}`);
+    }
 
-      if (!userWithPassword) {
-        throw new Error('User not found. Please check your email or sign up.');
+    return {
+      user: body.user as UserProfile,
+      session: {
+        access_token: body.session.access_token,
+        refresh_token: body.session.refresh_token,
+        expires_at: body.session.expires_at
       }
+    };
+  },
 
-      let passwordValid = false;
+  // Texts a reset code to the phone on file; the response is the same whether or not the email exists
+  async requestPasswordReset(email: string) {
+    try {
+      const response = await fetch(`${EXPO_PUBLIC_API_URL}/auth/forgot-password`, {
+        method: 'POST',
+        headers: backendHeaders(),
+        body: JSON.stringify({ email })
+      });
 
-      if (!userWithPassword.password_hash) {
-        console.error(`Security issue: User ${email} has no password hash set`);
-        passwordValid = true;
-        console.log('WARNING: User logged in without password verification (legacy account)');
-      } else {
-        passwordValid = this.verifyPassword(password, userWithPassword.password_hash);
-        console.log('Password validation result:', passwordValid);
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok || !body.success) {
+        throw backendError(response, body, `Password reset request failed with status ${response.status}`);
       }
 
-      if (!passwordValid) {
-        throw new Error('Invalid password. Please try again.');
-      }
+      return { success: true, message: body.message as string };
+    } catch (error: any) {
+      log.error('Password reset request error:', error);
+      return { success: false, error: error.message, code: error.code, retryAfter: error.retryAfter };
+    }
+  },
 
-      const user: UserProfile = {
-        id: userWithPassword.id,
-        name: userWithPassword.name,
-        email: userWithPassword.email,
-        phone: userWithPassword.phone,
-        city: userWithPassword.city,
-        country: userWithPassword.country,
-        avatar_url: userWithPassword.avatar_url,
-        dob: userWithPassword.dob,
-        gender: userWithPassword.gender,
-        address: userWithPassword.address,
-        created_at: userWithPassword.created_at,
-        updated_at: userWithPassword.updated_at,
-        role: userRole as UserRole
-      };
+  async resetPassword(email: string, code: string, newPassword: string) {
+    try {
+      const response = await fetch(`${EXPO_PUBLIC_API_URL}/auth/reset-password`, {
+        method: 'POST',
+        headers: backendHeaders(),
+        body: JSON.stringify({ email, code, new_password: newPassword })
+      });
 
-      const simpleToken = 'dummy_access_token_' + new Date().getTime();
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok || !body.success) {
+        throw backendError(response, body, `Password reset failed with status ${response.status}`);
+      }
 
-      currentSession = {
-        access_token: simpleToken,
-        user
-      };
+      return { success: true };
+    } catch (error: any) {
+      log.error('Password reset error:', error);
+      return { success: false, error: error.message, code: error.code, retryAfter: error.retryAfter };
+    }
+  },
 
-      console.log('Sign-in successful for user:', user.name);
+  async getVerificationStatus(): Promise<PhoneVerificationResult> {
+    try {
+      const response = await this.authorizedFetch('/auth/verification-status');
+      const body = await response.json().catch(() => ({}));
 
-      return {
-        success: true,
-        user
-      };
+      if (!response.ok || !body.success) {
+        throw new Error(body.message || `Verification status failed with status ${response.status}`);
+      }
+
+      return { success: true, verified: body.verified, verification: body.verification };
     } catch (error: any) {
-      console.error('Sign in error:', error);
+      log.error('Verification status error:', error);
       return { success: false, error: error.message };
     }
   },
 
-  verifyPassword(password: string, storedHash: string): boolean {
+  async resendVerificationCode(): Promise<PhoneVerificationResult> {
     try {
-      if (!storedHash) {
-        console.error('Empty or null password hash provided for verification');
-        return false;
-      }
+      const response = await this.authorizedFetch('/auth/resend-verification', { method: 'POST' });
+      const body = await response.json().catch(() => ({}));
 
-      if (storedHash.startsWith('hash_')) {
-        const hashParts = storedHash.split('_');
-        if (hashParts.length < 2) {
-          console.error('Invalid hash format detected');
-          return false;
-        }
-        const result = hashParts[1] === password;
-        return result;
+      if (!response.ok || !body.success) {
+        const error = backendError(response, body, `Resend failed with status ${response.status}`);
+        return { success: false, code: error.code, retryAfter: error.retryAfter, error: error.message };
       }
 
-      console.error('Unrecognized password hash format');
-      return false;
-    } catch (error) {
-      console.error('Password verification error:', error);
-      return false;
+      return { success: true, verification: body.verification };
+    } catch (error: any) {
+      log.error('Resend verification code error:', error);
+      return { success: false, error: error.message };
     }
   },
 
-  async findUserWithPasswordByEmail(email: string, role: UserRole): Promise<any> {
+  async verifyPhone(code: string): Promise<PhoneVerificationResult> {
     try {
-      const tableName = role === 'entrepreneur' ? 'entrepreneurs' : 'owners';
-      console.log(`Searching for user with email ${email} in ${tableName} table`);
-
-      console.log(`Retrieving user data from ${tableName} table with email: ${email}`);
-
-      const response = await fetch(
-        `${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/${tableName}?email=eq.${encodeURIComponent(email)}`,
-        {
-          method: 'GET',
-          headers: {
-            'apikey': EXPO_PUBLIC_SUPABASE_ANON_KEY,
-            'Authorization': `Bearer ${EXPO_PUBLIC_SUPABASE_ANON_KEY}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
+      const response = await this.authorizedFetch('/auth/verify-phone', {
+        method: 'POST',
+        body: JSON.stringify({ code })
+      });
+      const body = await response.json().catch(() => ({}));
 
-      if (!response.ok) {
-        console.error(`Error searching ${tableName}:`, await response.text());
-        return null;
+      if (!response.ok || !body.success) {
+        const error = backendError(response, body, `Verification failed with status ${response.status}`);
+        return {
+          success: false,
+          code: error.code,
+          retryAfter: error.retryAfter,
+          attemptsRemaining: body.attempts_remaining,
+          error: error.message
+        };
       }
 
-      const users = await response.json();
-      console.log(`Found ${users.length} users in ${tableName} table`);
-
-      if (users && users.length > 0) {
-        if (users[0].password_hash) {
-          console.log(`User ${email} has a password hash`);
-        } else {
-          console.warn(`WARNING: User ${email} has NO password hash`);
-        }
-        return users[0];
+      if (currentSession?.user) {
+        currentSession.user = { ...currentSession.user, phone_verified: true };
       }
 
-      return null;
-    } catch (error) {
-      console.error(`Error finding user in ${role} table:`, error);
-      return null;
+      return { success: true, verified: true };
+    } catch (error: any) {
+      log.error('Verify phone error:', error);
+      return { success: false, error: error.message };
     }
   },
 
-  async findUserByEmail(email: string, role: UserRole): Promise<UserProfile | null> {
-    try {
-      const tableName = role === 'entrepreneur' ? 'entrepreneurs' : 'owners';
-      console.log(`Searching for user with email ${email} in ${tableName} table`);
-
-      const response = await fetch(
-        `${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/${tableName}?email=eq.${encodeURIComponent(email)}`,
-        {
-          method: 'GET',
-          headers: {
-            'apikey': EXPO_PUBLIC_SUPABASE_ANON_KEY,
-            'Authorization': `Bearer ${EXPO_PUBLIC_SUPABASE_ANON_KEY}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
+  async refreshSession(): Promise<AuthSession | null> {
+    // Share a single refresh between concurrent callers so the refresh token is only spent once
+    if (refreshInFlight) {
+      return refreshInFlight;
+    }
 
-      if (!response.ok) {
-        console.error(`Error searching ${tableName}:`, await response.text());
-        return null;
-      }
+    const refreshToken = currentSession?.refresh_token;
+    if (!refreshToken) {
+      this.expireSession();
+      return null;
+    }
 
-      const users = await response.json();
-      console.log(`Found ${users.length} users in ${tableName} table:`, JSON.stringify(users));
+    refreshInFlight = (async () => {
+      try {
+        const response = await fetch(`${EXPO_PUBLIC_API_URL}/auth/refresh`, {
+          method: 'POST',
+          headers: backendHeaders(),
+          body: JSON.stringify({ refresh_token: refreshToken })
+        });
 
-      if (users && users.length > 0) {
-        const userData = users[0];
+        if (response.status === 401) {
+          log.debug('Refresh token rejected, ending session');
+          this.expireSession();
+          return null;
+        }
 
-        return {
-          id: userData.id,
-          name: userData.name,
-          email: userData.email,
-          phone: userData.phone,
-          city: userData.city,
-          country: userData.country,
-          avatar_url: userData.avatar_url,
-          created_at: userData.created_at,
-          updated_at: userData.updated_at,
-          role: role
+        const body = await response.json();
+        if (!response.ok || !body.success) {
+          throw new Error(body.message || `Session refresh failed with status ${response.status}`);
+        }
+
+        currentSession = {
+          ...body.session,
+          user: currentSession?.user ?? null
         };
+        notifySessionListeners('refreshed');
+        return currentSession;
+      } finally {
+        refreshInFlight = null;
       }
+    })();
 
-      return null;
-    } catch (error) {
-      console.error(`Error finding user in ${role} table:`, error);
+    return refreshInFlight;
+  },
+
+  async getAccessToken(): Promise<string | null> {
+    if (!currentSession) {
       return null;
     }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (currentSession.expires_at && currentSession.expires_at - now <= SESSION_REFRESH_MARGIN_SECONDS) {
+      const refreshed = await this.refreshSession();
+      return refreshed?.access_token ?? null;
+    }
+
+    return currentSession.access_token;
+  },
+
+  // fetch against the backend with the session's access token attached
+  async authorizedFetch(path: string, init: RequestInit = {}): Promise<Response> {
+    const send = (token: string | null) =>
+      fetch(`${EXPO_PUBLIC_API_URL}${path}`, {
+        ...init,
+        headers: {
+          ...backendHeaders(),
+          ...(init.headers as Record<string, string> | undefined),
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {})
+        }
+      });
+
+    const response = await send(await this.getAccessToken());
+
+    // The token can still expire between our check and the server's; retry once after refreshing
+    if (response.status === 401 && currentSession?.refresh_token) {
+      const refreshed = await this.refreshSession();
+      if (refreshed) {
+        return send(refreshed.access_token);
+      }
+    }
+
+    return response;
+  },
+
+  expireSession() {
+    if (!currentSession) {
+      return;
+    }
+    currentSession = null;
+    notifySessionListeners('expired');
+  },
+
+  onSessionChange(listener: SessionListener) {
+    sessionListeners.add(listener);
+    return () => {
+      sessionListeners.delete(listener);
+    };
   },
 
   async signOut() {
     try {
-      console.log('Signing out user...');
-
-      if (currentSession?.access_token) {
-        try {
-          const response = await fetch(`${EXPO_PUBLIC_SUPABASE_URL}/auth/v1/logout`, {
-            method: 'POST',
-            headers: {
-              'apikey': EXPO_PUBLIC_SUPABASE_ANON_KEY,
-              'Authorization': `Bearer ${currentSession.access_token}`,
-              'Content-Type': 'application/json'
-            }
-          });
-
-          console.log('Logout API response status:', response.status);
-        } catch (apiError) {
-          console.error('Error calling logout API:', apiError);
-        }
-      } else {
-        console.log('No active session token found, still proceeding with local logout');
+      log.debug('Signing out user...');
+
+      // Revoke the refresh token on the backend so a copy of it cannot renew the session.
+      // Not awaited: signing out must work offline, and the token expires on its own anyway
+      const refreshToken = currentSession?.refresh_token;
+      if (refreshToken) {
+        fetch(`${EXPO_PUBLIC_API_URL}/auth/logout`, {
+          method: 'POST',
+          headers: backendHeaders(),
+          body: JSON.stringify({ refresh_token: refreshToken })
+        }).catch(error => log.warn('Could not revoke refresh token:', error.message));
       }
 
-      console.log('Clearing session data');
+      log.debug('Clearing session data');
       currentSession = null;
+      notifySessionListeners('signed_out');
 
-      console.log('User successfully signed out');
+      log.debug('User successfully signed out');
       return { success: true };
     } catch (error: any) {
-      console.error('Sign out error:', error);
+      log.error('Sign out error:', error);
       currentSession = null;
       return { success: false, error: error.message };
     }
@@ -736,647 +825,403 @@ export const supabaseApi = {
     return currentSession;
   },
 
-  setSession(session: { access_token: string; user: UserProfile | null }) {
+  setSession(session: AuthSession) {
     currentSession = session;
     return currentSession;
   },
 
-  async createEntrepreneurProfile(profileData: {
-    name: string;
-    email: string;
-    city: string;
-    country: string;
-    avatar_url?: string;
-  }, token: string) {
+  async getUserProfile(): Promise<UserProfile> {
     try {
-      const entrepreneurData = {
-        name: profileData.name,
-        email: profileData.email,
-        city: profileData.city || 'Riyadh',
-        country: profileData.country || 'Saudi Arabia',
-        avatar_url: profileData.avatar_url
-      };
-
-      const response = await fetch(`${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/entrepreneurs`, {
-        method: 'POST',
-        headers: {
-          'apikey': EXPO_PUBLIC_SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-          'Prefer': 'return=representation'
-        },
-        body: JSON.stringify(entrepreneurData)
-      });
+      const response = await this.authorizedFetch('/auth/user');
+      const body = await response.json().catch(() => ({}));
 
-      const responseText = await response.text();
-      console.log('Create entrepreneur response status:', response.status);
-      console.log('Create entrepreneur response:', responseText);
-
-      if (!response.ok) {
-        throw new Error(`Failed to create entrepreneur profile: ${responseText}`);
+      if (!response.ok || !body.success) {
+        throw new Error(body.message || 'User profile not found');
       }
 
-      try {
-        const parsed = JSON.parse(responseText);
-        if (Array.isArray(parsed) && parsed.length > 0) {
-          return parsed[0];
-        }
-        return parsed;
-      } catch (e) {
-        console.log('Error parsing entrepreneur response:', e);
-        return { ...entrepreneurData };
+      if (currentSession) {
+        currentSession.user = body.user;
       }
+
+      return body.user as UserProfile;
     } catch (error: any) {
-      console.error('Create entrepreneur profile error:', error);
+      log.error('Get user profile error:', error);
       throw error;
     }
   },
 
-  async createEntrepreneurProfileDirectly(profileData: {
-    name: string;
-    email: string;
-    city: string;
-    country: string;
-    avatar_url?: string;
-    password_hash?: string;
-    dob?: string | null;
-    gender?: string | null;
-    address?: string | null;
-  }) {
+  async updateProfile(profileData: Partial<UserProfile>): Promise<UserProfile> {
     try {
-      if (!profileData.name || !profileData.email) {
-        throw new Error('Name and email are required fields for entrepreneur profiles');
-      }
-
-      if (!profileData.password_hash) {
-        throw new Error('Password hash is required for entrepreneur account creation');
-      }
-
-      console.log('Processing entrepreneur profile data:', {
-        name: profileData.name,
-        email: profileData.email,
-        city: profileData.city,
-        country: profileData.country,
-        dob: profileData.dob ? 'provided' : 'not provided',
-        gender: profileData.gender ? 'provided' : 'not provided',
-        address: profileData.address ? 'provided' : 'not provided',
-        password_hash: profileData.password_hash ? 'provided' : 'not provided'
+      const response = await this.authorizedFetch('/auth/profile', {
+        method: 'PATCH',
+        body: JSON.stringify(profileData)
       });
+      const body = await response.json().catch(() => ({}));
 
-      const entrepreneurData = {
-        name: profileData.name,
-        email: profileData.email,
-        city: profileData.city || 'Riyadh',
-        country: profileData.country || 'Saudi Arabia',
-        avatar_url: profileData.avatar_url,
-        dob: profileData.dob || '',
-        gender: profileData.gender || '',
-        address: profileData.address || '',
-        password_hash: profileData.password_hash
-      };
+      if (!response.ok || !body.success) {
+        throw new Error(body.message || `Failed to update profile (status ${response.status})`);
+      }
 
-      console.log('Sending entrepreneur data to Supabase:', JSON.stringify({
-        ...entrepreneurData,
-        password_hash: '[REDACTED]'
-      }));
+      if (currentSession) {
+        currentSession.user = body.user;
+      }
 
-      const response = await fetch(`${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/entrepreneurs`, {
-        method: 'POST',
-        headers: {
-          'apikey': EXPO_PUBLIC_SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${EXPO_PUBLIC_SUPABASE_ANON_KEY}`,
-          'Content-Type': 'application/json',
-          'Prefer': 'return=representation'
-        },
-        body: JSON.stringify(entrepreneurData)
-      });
+      return body.user as UserProfile;
+    } catch (error: any) {
+      log.error('Update profile error:', error);
+      throw error;
+    }
+  },
 
-      const responseText = await response.text();
-      console.log('Direct entrepreneur creation status:', response.status);
+  async getRecommendationProfiles(): Promise<RecommendationProfile[]> {
+    try {
+      const response = await this.authorizedFetch('/api/recommendation-profiles');
+      const body = await response.json().catch(() => ({}));
 
-      if (!response.ok) {
-        throw new Error(`Failed to create entrepreneur profile directly: ${responseText}`);
+      if (!response.ok || !body.success) {
+        throw backendError(response, body, `Loading profiles failed with status ${response.status}`);
       }
 
-      try {
-        const parsed = JSON.parse(responseText);
-        console.log('Entrepreneur profile created successfully. Response:', JSON.stringify(parsed));
-
-        if (Array.isArray(parsed) && parsed.length > 0) {
-          return parsed[0];
-        }
-        return parsed;
-      } catch (e) {
-        console.log('Error parsing entrepreneur response:', e);
-        return { id: new Date().getTime(), ...entrepreneurData };
-      }
+      return (body.profiles as any[]).map(toRecommendationProfile);
     } catch (error: any) {
-      console.error('Direct entrepreneur profile creation error:', error);
+      log.error('Get recommendation profiles error:', error);
       throw error;
     }
   },
 
-  async createOwnerProfile(profileData: {
-    name: string;
-    email: string;
-    phone?: string;
-    city: string;
-    country: string;
-    avatar_url?: string;
-  }, token: string) {
+  // Saving under an existing name replaces that profile
+  async saveRecommendationProfile(profile: RecommendationProfileInput): Promise<RecommendationProfile> {
     try {
-      const ownerData = {
-        name: profileData.name,
-        email: profileData.email,
-        phone: profileData.phone || '',
-        city: profileData.city || 'Riyadh',
-        country: profileData.country || 'Saudi Arabia',
-        avatar_url: profileData.avatar_url
-      };
-
-      const response = await fetch(`${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/owners`, {
+      const response = await this.authorizedFetch('/api/recommendation-profiles', {
         method: 'POST',
-        headers: {
-          'apikey': EXPO_PUBLIC_SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-          'Prefer': 'return=representation'
-        },
-        body: JSON.stringify(ownerData)
+        body: JSON.stringify({
+          name: profile.name,
+          business_type: profile.businessType,
+          weights: profile.weights,
+          budget: profile.budget,
+          anchor_latitude: profile.anchor?.latitude ?? null,
+          anchor_longitude: profile.anchor?.longitude ?? null
+        })
       });
+      const body = await response.json().catch(() => ({}));
 
-      const responseText = await response.text();
-      console.log('Create owner response status:', response.status);
-      console.log('Create owner response:', responseText);
-
-      if (!response.ok) {
-        throw new Error(`Failed to create owner profile: ${responseText}`);
+      if (!response.ok || !body.success) {
+        throw backendError(response, body, `Saving profile failed with status ${response.status}`);
       }
 
-      try {
-        return JSON.parse(responseText);
-      } catch (e) {
-        console.log('Error parsing owner response:', e);
-        return [{ id: 0, ...ownerData }];
-      }
+      return toRecommendationProfile(body.profile);
     } catch (error: any) {
-      console.error('Create owner profile error:', error);
+      log.error('Save recommendation profile error:', error);
       throw error;
     }
   },
 
-  async createOwnerProfileDirectly(profileData: {
-    name: string;
-    email: string;
-    phone?: string;
-    city: string;
-    country: string;
-    avatar_url?: string;
-    password_hash?: string;
-    dob?: string | null;
-    gender?: string | null;
-    address?: string | null;
-  }) {
+  async deleteRecommendationProfile(id: number): Promise<void> {
     try {
-      if (!profileData.password_hash) {
-        throw new Error('Password hash is required for owner account creation');
+      const response = await this.authorizedFetch(`/api/recommendation-profiles/${id}`, { method: 'DELETE' });
+      const body = await response.json().catch(() => ({}));
+
+      if (!response.ok || !body.success) {
+        throw backendError(response, body, `Deleting profile failed with status ${response.status}`);
       }
+    } catch (error: any) {
+      log.error('Delete recommendation profile error:', error);
+      throw error;
+    }
+  },
 
-      const ownerData = {
-        name: profileData.name,
-        email: profileData.email,
-        phone: profileData.phone || '',
-        city: profileData.city || 'Riyadh',
-        country: profileData.country || 'Saudi Arabia',
-        avatar_url: profileData.avatar_url,
-        dob: profileData.dob || '',
-        gender: profileData.gender || '',
-        address: profileData.address || '',
-        password_hash: profileData.password_hash
-      };
+  async getFavorites(): Promise<ServerFavorite[]> {
+    const response = await backendFetch('/api/favorites');
+    const body = await response.json().catch(() => ({}));
 
-      console.log('Creating owner account with data:', {
-        ...ownerData,
-        password_hash: '[REDACTED]'
-      });
+    if (!response.ok || !body.success) {
+      throw backendError(response, body, `Loading favorites failed with status ${response.status}`);
+    }
 
-      const response = await fetch(`${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/owners`, {
-        method: 'POST',
-        headers: {
-          'apikey': EXPO_PUBLIC_SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${EXPO_PUBLIC_SUPABASE_ANON_KEY}`,
-          'Content-Type': 'application/json',
-          'Prefer': 'return=representation'
-        },
-        body: JSON.stringify(ownerData)
-      });
+    return (body.favorites as any[]).map(toServerFavorite);
+  },
 
-      const responseText = await response.text();
-      console.log('Direct owner creation status:', response.status);
-      console.log('Direct owner creation response:', responseText);
+  // Adding and removing are idempotent, so replaying a queued operation twice is harmless
+  async addToFavorites(listingId: string): Promise<void> {
+    const response = await backendFetch(`/api/favorites/${encodeURIComponent(listingId)}`, { method: 'PUT' });
+    const body = await response.json().catch(() => ({}));
 
-      if (!response.ok) {
-        throw new Error(`Failed to create owner profile directly: ${responseText}`);
-      }
+    if (!response.ok || !body.success) {
+      throw backendError(response, body, `Adding favorite failed with status ${response.status}`);
+    }
+  },
 
-      console.log('Owner profile created with password hash');
+  async removeFromFavorites(listingId: string): Promise<void> {
+    const response = await backendFetch(`/api/favorites/${encodeURIComponent(listingId)}`, { method: 'DELETE' });
+    const body = await response.json().catch(() => ({}));
 
-      try {
-        const parsed = JSON.parse(responseText);
-        console.log('Owner profile created successfully with fields:', Object.keys(parsed[0] || parsed).join(', '));
+    if (!response.ok || !body.success) {
+      throw backendError(response, body, `Removing favorite failed with status ${response.status}`);
+    }
+  },
 
-        if (Array.isArray(parsed) && parsed.length > 0) {
-          return parsed[0];
-        }
-        return parsed;
-      } catch (e) {
-        console.log('Error parsing owner response:', e);
-        return { ...ownerData };
-      }
-    } catch (error: any) {
-      console.error('Direct owner profile creation error:', error);
-      throw error;
+  // Adds favorites saved only on this device and returns the merged list
+  async mergeFavorites(listingIds: string[]): Promise<ServerFavorite[]> {
+    const response = await backendFetch('/api/favorites/merge', {
+      method: 'POST',
+      body: JSON.stringify({ listing_ids: listingIds.map(Number) })
+    });
+    const body = await response.json().catch(() => ({}));
+
+    if (!response.ok || !body.success) {
+      throw backendError(response, body, `Merging favorites failed with status ${response.status}`);
     }
+
+    return (body.favorites as any[]).map(toServerFavorite);
   },
 
-  async getUserProfile(token: string) {
-    try {
-      let response = await fetch(`${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/entrepreneurs?select=*`, {
-        method: 'GET',
-        headers: {
-          'apikey': EXPO_PUBLIC_SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
+  async updateFavorite(listingId: string, changes: Partial<FavoriteAnnotation>): Promise<void> {
+    const response = await backendFetch(`/api/favorites/${encodeURIComponent(listingId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes)
+    });
+    const body = await response.json().catch(() => ({}));
 
-      if (response.ok) {
-        const entrepreneurs = await response.json();
-        if (entrepreneurs && entrepreneurs.length > 0) {
-          const userData = entrepreneurs[0];
-          return {
-            id: userData.id,
-            name: userData.name,
-            email: userData.email,
-            city: userData.city,
-            country: userData.country,
-            avatar_url: userData.avatar_url,
-            created_at: userData.created_at,
-            updated_at: userData.updated_at,
-            role: 'entrepreneur' as UserRole
-          };
-        }
-      }
+    if (!response.ok || !body.success) {
+      throw backendError(response, body, `Updating favorite failed with status ${response.status}`);
+    }
+  },
 
-      response = await fetch(`${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/owners?select=*`, {
-        method: 'GET',
-        headers: {
-          'apikey': EXPO_PUBLIC_SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
+  async getFavoriteCollections(): Promise<FavoriteCollection[]> {
+    try {
+      const response = await backendFetch('/api/favorite-collections');
+      const body = await response.json().catch(() => ({}));
 
-      if (response.ok) {
-        const owners = await response.json();
-        if (owners && owners.length > 0) {
-          const userData = owners[0];
-          return {
-            id: userData.id,
-            name: userData.name,
-            email: userData.email,
-            phone: userData.phone,
-            city: userData.city,
-            country: userData.country,
-            avatar_url: userData.avatar_url,
-            created_at: userData.created_at,
-            updated_at: userData.updated_at,
-            role: 'owner' as UserRole
-          };
-        }
+      if (!response.ok || !body.success) {
+        throw backendError(response, body, `Loading collections failed with status ${response.status}`);
       }
 
-      throw new Error('User profile not found');
+      return (body.collections as any[]).map(toFavoriteCollection);
     } catch (error: any) {
-      console.error('Get user profile error:', error);
+      log.error('Get favorite collections error:', error);
       throw error;
     }
   },
 
-  async updateProfileAvatar(id: number, role: UserRole, avatarUrl: string) {
+  async createFavoriteCollection(name: string): Promise<FavoriteCollection> {
     try {
-      const tableName = role === 'entrepreneur' ? 'entrepreneurs' : 'owners';
-      const updateData = { avatar_url: avatarUrl, updated_at: new Date().toISOString() };
-
-      const response = await fetch(`${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/${tableName}?id=eq.${id}`, {
-        method: 'PATCH',
-        headers: {
-          'apikey': EXPO_PUBLIC_SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${EXPO_PUBLIC_SUPABASE_ANON_KEY}`,
-          'Content-Type': 'application/json',
-          'Prefer': 'return=representation'
-        },
-        body: JSON.stringify(updateData)
+      const response = await backendFetch('/api/favorite-collections', {
+        method: 'POST',
+        body: JSON.stringify({ name })
       });
+      const body = await response.json().catch(() => ({}));
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to update avatar: ${errorText}`);
-      }
-
-      if (currentSession && currentSession.user) {
-        currentSession.user.avatar_url = avatarUrl;
+      if (!response.ok || !body.success) {
+        throw backendError(response, body, `Creating collection failed with status ${response.status}`);
       }
 
-      return true;
+      return toFavoriteCollection(body.collection);
     } catch (error: any) {
-      console.error('Update avatar error:', error);
+      log.error('Create favorite collection error:', error);
       throw error;
     }
   },
 
-  async updateEntrepreneurProfile(id: number, profileData: Partial<UserProfile>, token: string) {
+  async renameFavoriteCollection(id: number, name: string): Promise<FavoriteCollection> {
     try {
-      const response = await fetch(`${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/entrepreneurs?id=eq.${id}`, {
+      const response = await backendFetch(`/api/favorite-collections/${id}`, {
         method: 'PATCH',
-        headers: {
-          'apikey': EXPO_PUBLIC_SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-          'Prefer': 'return=representation'
-        },
-        body: JSON.stringify(profileData)
+        body: JSON.stringify({ name })
       });
+      const body = await response.json().catch(() => ({}));
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to update entrepreneur profile: ${errorText}`);
-      }
-
-      if (currentSession?.user) {
-        currentSession.user = { ...currentSession.user, ...profileData };
+      if (!response.ok || !body.success) {
+        throw backendError(response, body, `Renaming collection failed with status ${response.status}`);
       }
 
-      return await response.json();
+      return toFavoriteCollection(body.collection);
     } catch (error: any) {
-      console.error('Update entrepreneur profile error:', error);
+      log.error('Rename favorite collection error:', error);
       throw error;
     }
   },
 
-  async updateOwnerProfile(id: number, profileData: Partial<UserProfile>, token: string) {
+  async deleteFavoriteCollection(id: number): Promise<void> {
     try {
-      const response = await fetch(`${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/owners?id=eq.${id}`, {
-        method: 'PATCH',
-        headers: {
-          'apikey': EXPO_PUBLIC_SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-          'Prefer': 'return=representation'
-        },
-        body: JSON.stringify(profileData)
-      });
+      const response = await backendFetch(`/api/favorite-collections/${id}`, { method: 'DELETE' });
+      const body = await response.json().catch(() => ({}));
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to update owner profile: ${errorText}`);
+      if (!response.ok || !body.success) {
+        throw backendError(response, body, `Deleting collection failed with status ${response.status}`);
       }
-
-      if (currentSession?.user) {
-        currentSession.user = { ...currentSession.user, ...profileData };
-      }
-
-      return await response.json();
     } catch (error: any) {
-      console.error('Update owner profile error:', error);
+      log.error('Delete favorite collection error:', error);
       throw error;
     }
   },
 
-  async addToFavorites(userId: number, businessId: number) {
-    if (!userId || !businessId) {
-      throw new Error('User ID and Business ID are required');
-    }
-
+  async setFavoriteCollectionListing(id: number, listingId: string, included: boolean): Promise<void> {
     try {
-      const exists = await this.checkFavoriteExists(userId, businessId);
-      if (exists) {
-        return { success: true, message: 'Already in favorites' };
+      const response = await backendFetch(
+        `/api/favorite-collections/${id}/listings/${encodeURIComponent(listingId)}`,
+        { method: included ? 'PUT' : 'DELETE' }
+      );
+      const body = await response.json().catch(() => ({}));
+
+      if (!response.ok || !body.success) {
+        throw backendError(response, body, `Updating collection failed with status ${response.status}`);
       }
+    } catch (error: any) {
+      log.error('Update favorite collection listing error:', error);
+      throw error;
+    }
+  },
 
-      const response = await fetch(`${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/favorites`, {
-        method: 'POST',
-        headers: {
-          ...this.getDefaultHeaders(),
-          'Prefer': 'return=minimal'
-        },
-        body: JSON.stringify({
-          entrepreneur_id: userId,
-          shop_id: businessId,
-          created_at: new Date().toISOString()
-        })
+  // Sharing again after unsharing issues a new token, so the old link stops working
+  async setFavoriteCollectionShared(id: number, shared: boolean): Promise<FavoriteCollection> {
+    try {
+      const response = await backendFetch(`/api/favorite-collections/${id}/share`, {
+        method: shared ? 'POST' : 'DELETE'
       });
+      const body = await response.json().catch(() => ({}));
 
-      if (!response.ok) {
-        throw new Error(`Failed to add favorite: ${response.statusText}`);
+      if (!response.ok || !body.success) {
+        throw backendError(response, body, `Sharing collection failed with status ${response.status}`);
       }
 
-      await this.incrementBusinessFavoritesCount(businessId);
-
-      return { success: true };
-    } catch (error) {
-      console.error('Error adding to favorites:', error);
-      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      return toFavoriteCollection(body.collection);
+    } catch (error: any) {
+      log.error('Share favorite collection error:', error);
+      throw error;
     }
   },
 
-  async removeFromFavorites(userId: number, businessId: number) {
-    if (!userId || !businessId) {
-      throw new Error('User ID and Business ID are required');
-    }
-
+  // Name of the user's private Supabase Realtime channel for chat events
+  async getChatTopic(): Promise<string> {
     try {
-      const response = await fetch(
-        `${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/favorites?entrepreneur_id=eq.${userId}&shop_id=eq.${businessId}`,
-        {
-          method: 'DELETE',
-          headers: this.getDefaultHeaders()
-        }
-      );
+      const response = await backendFetch('/api/chat/realtime');
+      const body = await response.json().catch(() => ({}));
 
-      if (!response.ok) {
-        throw new Error(`Failed to remove favorite: ${response.statusText}`);
+      if (!response.ok || !body.success) {
+        throw backendError(response, body, `Loading chat channel failed with status ${response.status}`);
       }
 
-      await this.decrementBusinessFavoritesCount(businessId);
-
-      return { success: true };
-    } catch (error) {
-      console.error('Error removing from favorites:', error);
-      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      return body.topic;
+    } catch (error: any) {
+      log.error('Get chat topic error:', error);
+      throw error;
     }
   },
 
-  async checkFavoriteExists(userId: number, businessId: number): Promise<boolean> {
+  async getConversations(): Promise<Conversation[]> {
     try {
-      const response = await fetch(
-        `${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/favorites?entrepreneur_id=eq.${userId}&shop_id=eq.${businessId}`,
-        {
-          method: 'GET',
-          headers: this.getDefaultHeaders()
-        }
-      );
+      const response = await backendFetch('/api/conversations');
+      const body = await response.json().catch(() => ({}));
 
-      if (!response.ok) {
-        throw new Error(`Failed to check favorite: ${response.statusText}`);
+      if (!response.ok || !body.success) {
+        throw backendError(response, body, `Loading conversations failed with status ${response.status}`);
       }
 
-      const data = await response.json();
-      return data.length > 0;
-    } catch (error) {
-      console.error('Error checking favorite:', error);
-      return false;
+      return (body.conversations as any[]).map(toConversation);
+    } catch (error: any) {
+      log.error('Get conversations error:', error);
+      throw error;
     }
   },
 
-  async getUserFavorites(userId: number) {
+  // Starts the chat with a listing's owner, or returns the one already started
+  async openConversation(listingId: string): Promise<Conversation> {
     try {
-      const favoritesResponse = await fetch(
-        `${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/favorites?entrepreneur_id=eq.${userId}&select=shop_id`,
-        {
-          method: 'GET',
-          headers: this.getDefaultHeaders()
-        }
-      );
+      const response = await backendFetch('/api/conversations', {
+        method: 'POST',
+        body: JSON.stringify({ listing_id: Number(listingId) })
+      });
+      const body = await response.json().catch(() => ({}));
 
-      if (!favoritesResponse.ok) {
-        throw new Error(`Failed to fetch favorites: ${favoritesResponse.statusText}`);
+      if (!response.ok || !body.success) {
+        throw backendError(response, body, `Opening conversation failed with status ${response.status}`);
       }
 
-      const favorites = await favoritesResponse.json();
-      const businessIds = favorites.map((fav: any) => fav.shop_id);
-
-      if (businessIds.length === 0) {
-        return [];
-      }
+      return toConversation(body.conversation);
+    } catch (error: any) {
+      log.error('Open conversation error:', error);
+      throw error;
+    }
+  },
 
-      const businessesQuery = businessIds.map((id: number) => `business_id=eq.${id}`).join(',');
-      const businessesResponse = await fetch(
-        `${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/businesses?${businessesQuery}`,
-        {
-          method: 'GET',
-          headers: this.getDefaultHeaders()
-        }
-      );
+  // Latest messages, or the page before the message id `before`, oldest first
+  async getMessages(conversationId: number, before?: number): Promise<{ conversation: Conversation; messages: ChatMessage[] }> {
+    try {
+      const query = before ? `?before=${before}` : '';
+      const response = await backendFetch(`/api/conversations/${conversationId}/messages${query}`);
+      const body = await response.json().catch(() => ({}));
 
-      if (!businessesResponse.ok) {
-        throw new Error(`Failed to fetch business details: ${businessesResponse.statusText}`);
+      if (!response.ok || !body.success) {
+        throw backendError(response, body, `Loading messages failed with status ${response.status}`);
       }
 
-      return await businessesResponse.json();
-    } catch (error) {
-      console.error('Error getting user favorites:', error);
+      return {
+        conversation: toConversation(body.conversation),
+        messages: (body.messages as any[]).map(toChatMessage)
+      };
+    } catch (error: any) {
+      log.error('Get messages error:', error);
       throw error;
     }
   },
 
-  async getBusinessFavoritesCount(businessId: number): Promise<number> {
+  async sendMessage(conversationId: number, text: string, clientId: string): Promise<ChatMessage> {
     try {
-      try {
-        const response = await fetch(
-          `${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/shops?shop_id=eq.${businessId}&select=favorites_count`,
-          {
-            method: 'GET',
-            headers: this.getDefaultHeaders()
-          }
-        );
-
-        if (response.ok) {
-          const data = await response.json();
-          if (data.length > 0 && data[0].favorites_count !== undefined) {
-            return data[0].favorites_count || 0;
-          }
-        }
-      } catch (innerError) {
-        console.log('Could not get favorites_count from shops table, falling back to count method');
-      }
-
-      const countResponse = await fetch(
-        `${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/favorites?shop_id=eq.${businessId}&select=shop_id`,
-        {
-          method: 'GET',
-          headers: this.getDefaultHeaders()
-        }
-      );
+      const response = await backendFetch(`/api/conversations/${conversationId}/messages`, {
+        method: 'POST',
+        body: JSON.stringify({ body: text, client_id: clientId })
+      });
+      const body = await response.json().catch(() => ({}));
 
-      if (!countResponse.ok) {
-        throw new Error(`Failed to count favorites: ${countResponse.statusText}`);
+      if (!response.ok || !body.success) {
+        throw backendError(response, body, `Sending message failed with status ${response.status}`);
       }
 
-      const favoritesData = await countResponse.json();
-      return favoritesData.length;
-    } catch (error) {
-      console.error('Error getting business favorites count:', error);
-      return 0;
+      return toChatMessage(body.message);
+    } catch (error: any) {
+      log.error('Send message error:', error);
+      throw error;
     }
   },
 
-  async incrementBusinessFavoritesCount(businessId: number) {
+  // Read receipt for the other side's messages up to and including `upTo`
+  async markConversationRead(conversationId: number, upTo: number): Promise<void> {
     try {
-      const currentCount = await this.getBusinessFavoritesCount(businessId);
-
-      const response = await fetch(
-        `${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/shops?shop_id=eq.${businessId}`,
-        {
-          method: 'PATCH',
-          headers: {
-            ...this.getDefaultHeaders(),
-            'Prefer': 'return=minimal'
-          },
-          body: JSON.stringify({
-            favorites_count: currentCount + 1
-          })
-        }
-      );
+      const response = await backendFetch(`/api/conversations/${conversationId}/read`, {
+        method: 'POST',
+        body: JSON.stringify({ up_to: upTo })
+      });
+      const body = await response.json().catch(() => ({}));
 
-      if (!response.ok) {
-        throw new Error(`Failed to increment favorites count: ${response.statusText}`);
+      if (!response.ok || !body.success) {
+        throw backendError(response, body, `Marking conversation read failed with status ${response.status}`);
       }
-
-      return { success: true };
-    } catch (error) {
-      console.error('Error incrementing favorites count:', error);
-      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    } catch (error: any) {
+      log.error('Mark conversation read error:', error);
+      throw error;
     }
   },
 
-  async decrementBusinessFavoritesCount(businessId: number) {
+  // Read-only view behind a share link; needs no account
+  async getSharedCollection(token: string): Promise<SharedCollection> {
     try {
-      const currentCount = await this.getBusinessFavoritesCount(businessId);
-      const newCount = Math.max(0, currentCount - 1);
-
-      const response = await fetch(
-        `${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/shops?shop_id=eq.${businessId}`,
-        {
-          method: 'PATCH',
-          headers: {
-            ...this.getDefaultHeaders(),
-            'Prefer': 'return=minimal'
-          },
-          body: JSON.stringify({
-            favorites_count: newCount
-          })
-        }
-      );
+      const response = await fetch(`${EXPO_PUBLIC_API_URL}/api/shared-collections/${encodeURIComponent(token)}`, {
+        headers: backendHeaders()
+      });
+      const body = await response.json().catch(() => ({}));
 
-      if (!response.ok) {
-        throw new Error(`Failed to decrement favorites count: ${response.statusText}`);
+      if (!response.ok || !body.success) {
+        throw backendError(response, body, `Loading shared collection failed with status ${response.status}`);
       }
 
-      return { success: true };
-    } catch (error) {
-      console.error('Error decrementing favorites count:', error);
-      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      return {
+        name: body.collection.name,
+        updatedAt: body.collection.updated_at,
+        listings: ListingsTable.parseMany(body.collection.listings).map(toListingItem)
+      };
+    } catch (error: any) {
+      log.error('Get shared collection error:', error);
+      throw error;
     }
   },
 };
@@ -1392,42 +1237,33 @@ export interface MarketplaceCreate {
 
 export const setupSupabase = async () => {
   try {
-    console.log('Setting up Supabase connection and tables...');
+    log.debug('Setting up Supabase connection and tables...');
 
     const connected = await supabaseApi.testConnection();
     if (!connected) {
       throw new Error('Could not connect to Supabase');
     }
 
-    const checkTableResponse = await fetch(
-      `${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/Businesses?limit=1`,
-      {
-        method: 'GET',
-        headers: {
-          'apikey': EXPO_PUBLIC_SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${EXPO_PUBLIC_SUPABASE_ANON_KEY}`,
-          'Content-Type': 'application/json'
-        }
+    let businessData: unknown[];
+    try {
+      businessData = await rest.from(BusinessesTable).limit(1).find();
+    } catch (checkError) {
+      if (checkError instanceof ClientError && (checkError.status === 404 || checkError.status === 400)) {
+        log.warn('Businesses table might not exist, attempting to load mock data...');
+        return false;
       }
-    );
-
-    console.log('Business table check status:', checkTableResponse.status);
-
-    if (checkTableResponse.status === 404 || checkTableResponse.status === 400) {
-      console.log('Businesses table might not exist, attempting to load mock data...');
-      return false;
+      throw checkError;
     }
 
-    const businessData = await checkTableResponse.json();
-    if (!businessData || businessData.length === 0) {
-      console.log('No business data found in the table, attempting to load mock data...');
+    if (businessData.length === 0) {
+      log.warn('No business data found in the table, attempting to load mock data...');
       return false;
     }
 
-    console.log('Supabase setup completed successfully. Business data available.');
+    log.debug('Supabase setup completed successfully. Business data available.');
     return true;
   } catch (error) {
-    console.error('Error setting up Supabase:', error);
+    log.error('Error setting up Supabase:', error);
     return false;
   }
 };
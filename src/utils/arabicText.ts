@@ -0,0 +1,91 @@
+// arabicText.ts - Normalization used to match what users type against stored Arabic names
+//
+// People type the same word many ways: with or without tashkeel, أ/إ/آ or plain ا, ة or ه,
+// ى or ي, Arabic-Indic or Western digits. Both sides of a comparison go through
+// normalizeSearchText so those differences do not matter.
+
+// Harakat, superscript alef and Quranic marks
+const TASHKEEL_PATTERN = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED]/g;
+const TATWEEL_PATTERN = /\u0640/g;
+
+// Punctuation (Latin and Arabic) and regex syntax are treated as word breaks
+const SEPARATOR_PATTERN = /[\s.,;:!?'"()[\]{}\-_/\\|*+^$\u060C\u061B\u061F\u066B\u066C]+/g;
+
+const LETTER_VARIANTS: Record<string, string> = {
+  'أ': 'ا',
+  'إ': 'ا',
+  'آ': 'ا',
+  'ٱ': 'ا',
+  'ة': 'ه',
+  'ى': 'ي',
+  'ئ': 'ي',
+  'ؤ': 'و'
+};
+
+const LETTER_VARIANT_PATTERN = new RegExp(`[${Object.keys(LETTER_VARIANTS).join('')}]`, 'g');
+
+// Arabic-Indic (٠-٩) and Extended Arabic-Indic (۰-۹) digits
+const EASTERN_DIGIT_PATTERN = /[\u0660-\u0669\u06F0-\u06F9]/g;
+
+const toWesternDigit = (digit: string) => {
+  const code = digit.charCodeAt(0);
+  return String(code >= 0x06F0 ? code - 0x06F0 : code - 0x0660);
+};
+
+// Latin transliterations are written with and without the article: "Al-Olaya", "El Olaya", "Olaya"
+const LATIN_ARTICLE_PATTERN = /(^|\s)(al|el)\s+(?=[a-z])/g;
+
+export const normalizeSearchText = (text: string): string =>
+  text
+    .replace(TASHKEEL_PATTERN, '')
+    .replace(TATWEEL_PATTERN, '')
+    .replace(LETTER_VARIANT_PATTERN, letter => LETTER_VARIANTS[letter])
+    .replace(EASTERN_DIGIT_PATTERN, toWesternDigit)
+    .toLowerCase()
+    .replace(SEPARATOR_PATTERN, ' ')
+    .trim()
+    .replace(LATIN_ARTICLE_PATTERN, '$1');
+
+// Words of an already normalized text, each also without a leading Arabic article (ال)
+export const searchWords = (normalized: string): string[] =>
+  normalized
+    .split(' ')
+    .filter(Boolean)
+    .flatMap(word => (word.startsWith('ال') && word.length > 3 ? [word, word.slice(2)] : [word]));
+
+// Every stored spelling a normalized letter may stand for
+const LETTER_CLASSES: Record<string, string> = {
+  'ا': 'اأإآٱ',
+  'ه': 'هة',
+  'ي': 'يىئ',
+  'و': 'وؤ'
+};
+
+const DIGIT_CLASS = (digit: string) =>
+  `${digit}${String.fromCharCode(0x0660 + Number(digit))}${String.fromCharCode(0x06F0 + Number(digit))}`;
+
+// Tashkeel and tatweel may appear between any two stored letters
+const OPTIONAL_MARKS = '[\u064B-\u065F\u0670\u0640]*';
+
+/**
+ * Builds a POSIX regular expression (for PostgREST `imatch`) that finds the text inside stored
+ * values regardless of tashkeel, letter variants or digit script.
+ * The pattern avoids backslashes and commas so it can be used inside an or=(...) filter.
+ * Returns null when nothing searchable is left after normalization.
+ */
+export const toArabicMatchPattern = (text: string): string | null => {
+  const normalized = normalizeSearchText(text);
+  if (!normalized) {
+    return null;
+  }
+
+  const parts = Array.from(normalized).map(char => {
+    if (char === ' ') return ' +';
+    if (LETTER_CLASSES[char]) return `[${LETTER_CLASSES[char]}]`;
+    if (/[0-9]/.test(char)) return `[${DIGIT_CLASS(char)}]`;
+    // Regex syntax was removed as a separator, so anything else matches itself
+    return char;
+  });
+
+  return parts.join(OPTIONAL_MARKS);
+};
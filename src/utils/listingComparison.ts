@@ -0,0 +1,105 @@
+// listingComparison.ts - Lines up 2 to 4 listings with their zone's recommendation data
+//
+// The comparison screen shows one column per listing and one row per figure. Each row marks the
+// listing that does best on it (cheapest, largest, best zone score, fewest competitors), so
+// figures are compared as numbers and unknown values never win.
+
+import type { MarketplaceItem } from '../../components/types';
+import type { ZoneRecommendation } from './zoneRecommendations';
+
+export const MIN_COMPARED = 2;
+export const MAX_COMPARED = 4;
+
+export interface ComparedListing {
+  item: MarketplaceItem;
+  pricePerSqm: number | null;         // yearly rent per m² in SAR; null when price or area is unknown
+  zone: ZoneRecommendation | null;    // the zone's score for the selected business type, if it was ranked
+}
+
+export type ComparisonFigure = 'price' | 'pricePerSqm' | 'area' | 'zoneScore' | 'competitors';
+
+// Whether a lower or higher value is the better one on each row
+const PREFERS_LOWER: Record<ComparisonFigure, boolean> = {
+  price: true,
+  pricePerSqm: true,
+  area: false,
+  zoneScore: false,
+  competitors: true
+};
+
+/**
+ * Listing ids from the screen's `ids` parameter, in order, without repeats
+ * @param param Comma separated ids (or the array expo-router gives for repeated params)
+ * @returns At most MAX_COMPARED ids
+ */
+export const parseComparisonIds = (param: string | string[] | undefined): string[] => {
+  const values = Array.isArray(param) ? param : [param ?? ''];
+  const ids = values
+    .flatMap(value => value.split(','))
+    .map(id => id.trim())
+    .filter(id => id.length > 0);
+  return [...new Set(ids)].slice(0, MAX_COMPARED);
+};
+
+export const pricePerSqm = (item: MarketplaceItem): number | null =>
+  item.priceValue && item.area && item.area > 0 ? item.priceValue / item.area : null;
+
+/**
+ * Pairs each listing with its zone's recommendation, in the order the ids were chosen
+ * @param ids Listing ids in display order; ids without a loaded listing are left out
+ * @param items Loaded listings, in any order
+ * @param zones Zone recommendations for the selected business type (empty when none is selected)
+ */
+export const buildComparison = (
+  ids: string[],
+  items: MarketplaceItem[],
+  zones: ZoneRecommendation[]
+): ComparedListing[] => {
+  const itemsById = new Map(items.map(item => [item.id, item]));
+  const zonesById = new Map(zones.map(zone => [zone.zone_id, zone]));
+
+  return ids
+    .map(id => itemsById.get(id))
+    .filter((item): item is MarketplaceItem => item !== undefined)
+    .map(item => ({
+      item,
+      pricePerSqm: pricePerSqm(item),
+      zone: item.zone_id !== undefined ? zonesById.get(item.zone_id) ?? null : null
+    }));
+};
+
+export const figureValue = (listing: ComparedListing, figure: ComparisonFigure): number | null => {
+  switch (figure) {
+    case 'price':
+      return listing.item.priceValue ?? null;
+    case 'pricePerSqm':
+      return listing.pricePerSqm;
+    case 'area':
+      return listing.item.area ?? null;
+    case 'zoneScore':
+      return listing.zone?.zone_score ?? null;
+    case 'competitors':
+      return listing.zone?.number_of_same_type_businesses ?? null;
+  }
+};
+
+/**
+ * Ids of the listings with the best value on a row
+ * @returns Every listing tied for best; empty when fewer than two listings have the figure
+ */
+export const bestOnFigure = (listings: ComparedListing[], figure: ComparisonFigure): string[] => {
+  const known = listings
+    .map(listing => ({ id: listing.item.id, value: figureValue(listing, figure) }))
+    .filter((entry): entry is { id: string; value: number } => entry.value !== null);
+  if (known.length < 2) {
+    return [];
+  }
+
+  const values = known.map(entry => entry.value);
+  const best = PREFERS_LOWER[figure] ? Math.min(...values) : Math.max(...values);
+  // Nothing stands out when every listing has the same value
+  if (values.every(value => value === best)) {
+    return [];
+  }
+  return known.filter(entry => entry.value === best).map(entry => entry.id);
+};
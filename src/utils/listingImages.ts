@@ -0,0 +1,80 @@
+// listingImages.ts - Turns the Listings.Images column into a photo gallery
+//
+// The column has been filled by several importers, so one value may be:
+// - an array of URLs (possibly nested or containing blanks)
+// - a pipe, comma or newline separated string of URLs
+// - a JSON-encoded array or object stored as text
+// - an object whose values are URLs (e.g. {"0": "...", "1": "..."})
+
+import { PLACEHOLDER_IMAGE_URL } from '@config/env';
+
+export interface ListingImages {
+  cover: string;      // first photo, or the placeholder when there is none
+  gallery: string[];  // every valid photo in order, never empty (falls back to [cover])
+  hasPhotos: boolean; // false when the gallery is only the placeholder
+}
+
+const URL_PATTERN = /^https?:\/\/[^\s"'<>|]+$/i;
+
+// Separators seen in imported data; a comma only splits when another URL follows
+const SEPARATOR_PATTERN = /\s*\|\s*|[\r\n]+|\s*,\s*(?=["']?https?:\/\/)/i;
+
+const MAX_DEPTH = 4;
+
+const collectCandidates = (value: unknown, depth = 0): string[] => {
+  if (value === null || value === undefined || depth > MAX_DEPTH) {
+    return [];
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap(entry => collectCandidates(entry, depth + 1));
+  }
+
+  if (typeof value === 'object') {
+    return Object.values(value as Record<string, unknown>).flatMap(entry => collectCandidates(entry, depth + 1));
+  }
+
+  if (typeof value !== 'string') {
+    return [];
+  }
+
+  const text = value.trim();
+  if (text.startsWith('[') || text.startsWith('{')) {
+    try {
+      return collectCandidates(JSON.parse(text), depth + 1);
+    } catch {
+      // Not JSON after all; strip the brackets and treat it as a separated list
+      return collectCandidates(text.replace(/^[[{]|[\]}]$/g, ''), depth + 1);
+    }
+  }
+
+  return text.split(SEPARATOR_PATTERN);
+};
+
+// Trims whitespace and stray quotes left over from hand-edited JSON
+const cleanUrl = (candidate: string): string | null => {
+  const url = candidate.trim().replace(/^["']+|["']+$/g, '').trim();
+  return URL_PATTERN.test(url) ? url : null;
+};
+
+export const normalizeListingImages = (
+  raw: unknown,
+  placeholder: string = PLACEHOLDER_IMAGE_URL
+): ListingImages => {
+  const seen = new Set<string>();
+  const photos: string[] = [];
+
+  for (const candidate of collectCandidates(raw)) {
+    const url = cleanUrl(candidate);
+    if (url && !seen.has(url)) {
+      seen.add(url);
+      photos.push(url);
+    }
+  }
+
+  if (photos.length === 0) {
+    return { cover: placeholder, gallery: [placeholder], hasPhotos: false };
+  }
+
+  return { cover: photos[0], gallery: photos, hasPhotos: true };
+};
@@ -0,0 +1,97 @@
+// mapClustering.ts - Grid clustering of map pins and region helpers for the map tab
+//
+// Pins are grouped into a grid whose cell size follows the zoom level (a fraction of the
+// visible region). Cells are anchored to 0,0 rather than the viewport, so clusters stay put
+// while the user pans and only regroup when the zoom changes.
+
+export interface MapRegion {
+  latitude: number;
+  longitude: number;
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+export interface BoundingBox {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface MapPoint<T> {
+  latitude: number;
+  longitude: number;
+  item: T;
+}
+
+export interface MapCluster<T> {
+  id: string;
+  latitude: number;     // mean position of the pins in the cluster
+  longitude: number;
+  items: T[];
+  stacked: boolean;     // every pin has the same position (e.g. units in one building), so zooming never splits it
+}
+
+// Cells per side of the visible region; higher means smaller clusters
+const DEFAULT_GRID_SIZE = 6;
+
+// Closest zoom the map moves to when splitting a cluster, about 200 m across
+export const MIN_REGION_DELTA = 0.002;
+
+export const regionToBounds = (region: MapRegion): BoundingBox => ({
+  north: region.latitude + region.latitudeDelta / 2,
+  south: region.latitude - region.latitudeDelta / 2,
+  east: region.longitude + region.longitudeDelta / 2,
+  west: region.longitude - region.longitudeDelta / 2
+});
+
+// Region centered on a cluster, zoomed in far enough to split it
+export const zoomIntoCluster = (cluster: MapCluster<unknown>, region: MapRegion, factor = 3): MapRegion => ({
+  latitude: cluster.latitude,
+  longitude: cluster.longitude,
+  latitudeDelta: Math.max(region.latitudeDelta / factor, MIN_REGION_DELTA),
+  longitudeDelta: Math.max(region.longitudeDelta / factor, MIN_REGION_DELTA)
+});
+
+// Whether tapping the cluster should zoom in; otherwise its pins are shown together in the preview
+export const canZoomIntoCluster = (cluster: MapCluster<unknown>, region: MapRegion): boolean =>
+  cluster.items.length > 1 && !cluster.stacked && region.latitudeDelta > MIN_REGION_DELTA;
+
+export const clusterPoints = <T>(
+  points: MapPoint<T>[],
+  region: MapRegion,
+  gridSize = DEFAULT_GRID_SIZE
+): MapCluster<T>[] => {
+  const cellLat = region.latitudeDelta / gridSize;
+  const cellLng = region.longitudeDelta / gridSize;
+  const cells = new Map<string, { latSum: number; lngSum: number; items: T[]; first: MapPoint<T>; stacked: boolean }>();
+
+  points.forEach(point => {
+    const key = `${Math.floor(point.latitude / cellLat)}:${Math.floor(point.longitude / cellLng)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.latSum += point.latitude;
+      cell.lngSum += point.longitude;
+      cell.items.push(point.item);
+      cell.stacked = cell.stacked
+        && point.latitude === cell.first.latitude
+        && point.longitude === cell.first.longitude;
+    } else {
+      cells.set(key, {
+        latSum: point.latitude,
+        lngSum: point.longitude,
+        items: [point.item],
+        first: point,
+        stacked: true
+      });
+    }
+  });
+
+  return Array.from(cells.entries()).map(([key, cell]) => ({
+    id: key,
+    latitude: cell.latSum / cell.items.length,
+    longitude: cell.lngSum / cell.items.length,
+    items: cell.items,
+    stacked: cell.stacked
+  }));
+};
@@ -0,0 +1,23 @@
+import type { TFunction } from 'i18next';
+
+// Codes the backend uses on 429 responses
+const RATE_LIMIT_CODES = ['rate_limited', 'account_locked', 'resend_cooldown', 'sms_rate_limited'];
+
+export const isRateLimited = (code?: string): boolean => !!code && RATE_LIMIT_CODES.includes(code);
+
+/**
+ * Localized "try again in ..." message for a rate-limited backend response
+ * @returns null when the result was not rate limited
+ */
+export const getRateLimitMessage = (t: TFunction, code?: string, retryAfter?: number): string | null => {
+  if (!isRateLimited(code)) return null;
+
+  const seconds = Math.max(1, Math.ceil(retryAfter ?? 60));
+  const time = seconds >= 60
+    ? t('auth.waitMinutes', { count: Math.ceil(seconds / 60) })
+    : t('auth.waitSeconds', { count: seconds });
+
+  return code === 'account_locked'
+    ? t('auth.accountLocked', { time })
+    : t('auth.rateLimited', { time });
+};
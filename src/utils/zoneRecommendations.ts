@@ -1,276 +1,323 @@
 // zoneRecommendations.ts - Algorithm for recommending the best zones for different business types
+//
+// Zones are scored by the backend (GET /api/recommendations/:businessType), which caches results and
+// answers repeat requests with 304 Not Modified. Its answers are kept in the offline cache, so the
+// last ranking for the same options is still there after a restart with no network. Only when the
+// backend cannot be reached and nothing is saved does the app download the zone tables and score them itself.
 
 import { BusinessType as FilterBusinessType } from '../context/FilterContext';
-import { EXPO_PUBLIC_SUPABASE_URL, EXPO_PUBLIC_SUPABASE_ANON_KEY } from '@config/env';
-
-// Define weights for different business types
-// These weights determine how important each factor is for each business type
-const WEIGHTS: Record<string, { w_pop: number; w_rat: number; w_comp: number }> = {
-  barber: { w_pop: 0.40, w_rat: 0.20, w_comp: 0.40 },
-  gym: { w_pop: 0.30, w_rat: 0.40, w_comp: 0.30 },
-  gas_station: { w_pop: 0.50, w_rat: 0.30, w_comp: 0.20 },
-  laundry: { w_pop: 0.50, w_rat: 0.10, w_comp: 0.40 },
-  pharmacy: { w_pop: 0.40, w_rat: 0.40, w_comp: 0.20 },
-  supermarket: { w_pop: 0.60, w_rat: 0.20, w_comp: 0.20 },
-  none: { w_pop: 0.33, w_rat: 0.33, w_comp: 0.33 }
-};
+import { rest, NetworkError } from '@lib/restClient';
+import { EXPO_PUBLIC_API_URL, EXPO_PUBLIC_REST_TIMEOUT_MS } from '@config/env';
+import { ZonesTable, CompetitorsTable, ListingsTable, BusinessesTable, BusinessRow } from '@lib/schema';
+import { createLogger } from '@lib/logger';
+import { reportConnectivity } from '@lib/connectivity';
+import { readCache, writeCache } from '@lib/offlineCache';
+import { fetchBusinessTypes, matchBusinessType, isComplement } from '@lib/businessTypes';
+import { scoreZones, FactorWeights, ZoneScoreExplanation, SCORING_FACTORS } from './zoneScoring';
+import { distanceKm, GeoPoint } from './geo';
 
-// Database table interfaces
+const log = createLogger('zoneRecommendations');
 
-interface Zone {
-  zone_id: number;
-  total_popularity_score: number;
-  total_user_ratings: number;
-  number_of_businesses: number;
-  latitude_center: number;
-  longitude_center: number;
-  district_name: string;
-}
-
-interface Competitor {
-  zone_id: number;
-  business_type: string;
-  number_of_same_type_businesses: number;
-}
+// Used when the business type is not in the registry: every factor counts equally
+const EQUAL_WEIGHTS: FactorWeights = { popularity: 1, ratings: 1, competition: 1 };
 
 // Interface for zone recommendation results
 export interface ZoneRecommendation {
   zone_id: number;
-  zone_score: number;
+  zone_score: number;                   // 0-100, relative to the other zones
+  explanation: ZoneScoreExplanation;    // normalized factors, contributions and confidence
   total_popularity_score: number;
   total_user_ratings: number;
   number_of_same_type_businesses: number;
+  listing_count: number;                // listings currently available in the zone
   district_name?: string;
   latitude_center?: number;
   longitude_center?: number;
 }
 
-// Get default headers for Supabase API calls
-const getDefaultHeaders = () => {
-  return {
-    'apikey': EXPO_PUBLIC_SUPABASE_ANON_KEY,
-    'Authorization': `Bearer ${EXPO_PUBLIC_SUPABASE_ANON_KEY}`,
-    'Content-Type': 'application/json'
-  };
-};
-
-/**
- * Normalize business type for database matching
- * @param businessType The business type to normalize
- * @returns Normalized business type string
- */
-const normalizeBusinessType = (businessType: string): string => {
-  if (!businessType || businessType === 'none') return 'none';
-
-  const businessTypeMap: Record<string, string> = {
-    'Barber': 'barber',
-    'Gym': 'gym',
-    'Gas Station': 'gas_station',
-    'Laundry': 'laundry',
-    'Pharmacy': 'pharmacy',
-    'Supermarket': 'supermarket'
-  };
-
-  if (businessTypeMap[businessType]) {
-    return businessTypeMap[businessType];
-  }
+// Changes to the business type's scoring chosen by the user (weight tuning panel or a saved profile)
+export interface RecommendationOptions {
+  weights?: FactorWeights | null;   // replaces the business type's weights
+  budget?: number | null;           // yearly rent budget in SAR
+  anchor?: GeoPoint | null;         // point the distance factor is measured from
+}
 
-  const businessTypeLower = businessType.toLowerCase();
-  for (const [key, value] of Object.entries(businessTypeMap)) {
-    if (key.toLowerCase() === businessTypeLower) {
-      return value;
-    }
-  }
+// Zones returned when the caller does not ask for a specific number
+const DEFAULT_TOP_ZONES = 5;
 
-  return businessType.toLowerCase().replace(/\s+/g, '_');
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
 };
 
 /**
- * Fetch and calculate zone recommendations
+ * Score zones on the device, the same way the backend does (see backend/utils/zoneScoring.js)
  * @param businessType Type of business to recommend zones for
+ * @param limit Number of top zones to return
  * @returns Promise with recommended zones
  */
-export const fetchZoneRecommendations = async (
-  businessType: FilterBusinessType
+const scoreZonesLocally = async (
+  businessType: FilterBusinessType,
+  limit: number,
+  { weights: customWeights, budget, anchor }: RecommendationOptions
 ): Promise<ZoneRecommendation[]> => {
-  try {
-    // Skip if no business type selected
-    if (businessType === 'none') {
-      return [];
-    }
-    
-    // Get the normalized business type for database matching
-    const normalizedType = normalizeBusinessType(businessType);
-    console.log(`Fetching recommendations for business type: '${businessType}'`);
-    
-    const weights = WEIGHTS[normalizedType] || WEIGHTS.none;
-    
-    // 1. Fetch all zones
-    const zonesResponse = await fetch(
-      `${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/Zones?select=*`,
-      { method: 'GET', headers: getDefaultHeaders() }
-    );
-    
-    if (!zonesResponse.ok) {
-      console.error('Error fetching zones data:', zonesResponse.statusText);
-      return [];
+  log.debug(`Scoring zones locally for business type: '${businessType}'`);
+
+  // 1-4. Fetch the registry, zones, competitor counts and listings (for zone information) together
+  const [types, zones, allCompetitors, listings] = await Promise.all([
+    fetchBusinessTypes(),
+    rest.from(ZonesTable).find(),
+    rest.from(CompetitorsTable).find(),
+    rest.from(ListingsTable).select('Listing_ID,zone_id,Price,Area').find()
+  ]);
+
+  const type = matchBusinessType(types, businessType);
+  if (!type) {
+    log.warn(`Business type '${businessType}' is not in the registry, weighting factors equally`);
+  }
+  const weights = customWeights ?? type?.weights ?? EQUAL_WEIGHTS;
+
+  // Every business in the city is a large download, so it is only made when complements are weighed
+  const countsComplements = !!type && type.complements.length > 0 && (weights.complementary ?? 0) > 0;
+  const businesses: Pick<BusinessRow, 'zone_id' | 'business_type'>[] = countsComplements
+    ? await rest.from(BusinessesTable).select('business_id,zone_id,business_type').find()
+    : [];
+  const complementsByZone: Record<number, number> = {};
+  businesses.forEach(business => {
+    if (business.zone_id === null || !isComplement(type!, business.business_type)) return;
+    complementsByZone[business.zone_id] = (complementsByZone[business.zone_id] || 0) + 1;
+  });
+
+  // Competitor rows use Google place types or legacy names; the registry maps them to ids
+  const typeIdOf = (value: string) => matchBusinessType(types, value)?.id ?? value;
+  const targetId = typeIdOf(businessType);
+
+  // Count listings per zone so the screen can say how many are available, and collect their rents
+  const listingsByZone: Record<number, number> = {};
+  const rentsByZone: Record<number, number[]> = {};
+  const pricesPerSqmByZone: Record<number, number[]> = {};
+  listings.forEach(listing => {
+    const zoneId = listing.zone_id;
+    if (zoneId === null) return;
+    if (!listingsByZone[zoneId]) {
+      listingsByZone[zoneId] = 0;
     }
-    
-    const zones: Zone[] = await zonesResponse.json();
-    
-    // 2. Fetch competitor data
-    const competitorsResponse = await fetch(
-      `${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/Competitors?select=*`,
-      { method: 'GET', headers: getDefaultHeaders() }
-    );
-    
-    if (!competitorsResponse.ok) {
-      console.error('Error fetching competitors data:', competitorsResponse.statusText);
-      return [];
+    listingsByZone[zoneId]++;
+    if (listing.Price && listing.Price > 0) {
+      (rentsByZone[zoneId] = rentsByZone[zoneId] || []).push(listing.Price);
+      if (listing.Area && listing.Area > 0) {
+        (pricesPerSqmByZone[zoneId] = pricesPerSqmByZone[zoneId] || []).push(listing.Price / listing.Area);
+      }
     }
-    
-    const allCompetitors: Competitor[] = await competitorsResponse.json();
-
-    // 3. Fetch listings data to get zone information
-    const listingsResponse = await fetch(
-      `${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/Listings?select=*`,
-      { method: 'GET', headers: getDefaultHeaders() }
-    );
-    
-    if (!listingsResponse.ok) {
-      console.error('Error fetching listings data:', listingsResponse.statusText);
-      return [];
+  });
+
+  // 5. Build a map for fast competitor lookup by zone and business type
+  // (several aliases of one type in a zone are added together)
+  const competitorsByZone: Record<number, Record<string, number>> = {};
+
+  allCompetitors.forEach(comp => {
+    const compTypeId = typeIdOf(comp.business_type);
+    if (!competitorsByZone[comp.zone_id]) {
+      competitorsByZone[comp.zone_id] = {};
     }
-    
-    const listings = await listingsResponse.json();
-    
-    // Count listings per zone to use as a popularity factor
-    const listingsByZone: Record<number, number> = {};
-    listings.forEach((listing: any) => {
-      const zoneId = typeof listing.zone_id === 'string' ? parseInt(listing.zone_id) : listing.zone_id;
-      if (!listingsByZone[zoneId]) {
-        listingsByZone[zoneId] = 0;
-      }
-      listingsByZone[zoneId]++;
-    });
-    
-    // 4. Build a map for fast competitor lookup by zone and business type
-    const competitorsByZone: Record<number, Record<string, number>> = {};
-    
-    allCompetitors.forEach(comp => {
-      const normalizedCompType = normalizeBusinessType(comp.business_type);
-      if (!competitorsByZone[comp.zone_id]) {
-        competitorsByZone[comp.zone_id] = {};
-      }
-      competitorsByZone[comp.zone_id][normalizedCompType] = comp.number_of_same_type_businesses;
-    });
-    
-    // 5. Calculate scores for each zone
-    const zoneScores = zones.map(zone => {
-      const zoneCompetitors = competitorsByZone[zone.zone_id] || {};
-      const competitorCount = zoneCompetitors[normalizedType] || 0;
-      
-      // Use listing count as a factor in popularity
-      const listingCount = listingsByZone[zone.zone_id] || 0;
-      const adjustedPopularityScore = zone.total_popularity_score + (listingCount * 0.5);
-      
-      const zone_score = (
-        weights.w_pop * (adjustedPopularityScore || 0) +
-        weights.w_rat * (zone.total_user_ratings || 0) -
-        weights.w_comp * competitorCount
-      );
-      
-      return {
-        zone_id: zone.zone_id,
-        zone_score,
-        total_popularity_score: adjustedPopularityScore || 0,
-        total_user_ratings: zone.total_user_ratings || 0,
-        number_of_same_type_businesses: competitorCount,
-        district_name: zone.district_name,
-        latitude_center: zone.latitude_center,
-        longitude_center: zone.longitude_center,
-        listing_count: listingCount // Add listing count for reference
-      };
+    competitorsByZone[comp.zone_id][compTypeId] =
+      (competitorsByZone[comp.zone_id][compTypeId] || 0) + comp.number_of_same_type_businesses;
+  });
+
+  const competitorCount = (zoneId: number) => (competitorsByZone[zoneId] || {})[targetId] || 0;
+
+  // 6. Score zones against each other on normalized factors
+  const scored = scoreZones(
+    zones.map(zone => ({
+      zone_id: zone.zone_id,
+      popularity: zone.total_popularity_score,
+      ratings: zone.total_user_ratings,
+      competitors: competitorCount(zone.zone_id),
+      sampleSize: zone.number_of_businesses,
+      rent: rentsByZone[zone.zone_id] ? median(rentsByZone[zone.zone_id]) : null,
+      pricePerSqm: pricesPerSqmByZone[zone.zone_id] ? median(pricesPerSqmByZone[zone.zone_id]) : null,
+      complementary: countsComplements ? complementsByZone[zone.zone_id] || 0 : null,
+      distanceKm: anchor && zone.latitude_center !== null && zone.longitude_center !== null
+        ? distanceKm(anchor, { latitude: zone.latitude_center, longitude: zone.longitude_center })
+        : null
+    })),
+    weights,
+    { budget }
+  );
+
+  // 7. Take the top zones (scoreZones sorts best first) and attach zone details
+  const zonesById = new Map(zones.map(zone => [zone.zone_id, zone]));
+  const topRecommendations: ZoneRecommendation[] = scored.slice(0, limit).map(({ zone_id, score, explanation }) => {
+    const zone = zonesById.get(zone_id)!;
+    return {
+      zone_id,
+      zone_score: score,
+      explanation,
+      total_popularity_score: zone.total_popularity_score,
+      total_user_ratings: zone.total_user_ratings,
+      number_of_same_type_businesses: competitorCount(zone_id),
+      listing_count: listingsByZone[zone_id] || 0,
+      district_name: zone.district_name ?? undefined,
+      latitude_center: zone.latitude_center ?? undefined,
+      longitude_center: zone.longitude_center ?? undefined
+    };
+  });
+
+  return topRecommendations;
+};
+
+interface ServerResponse {
+  etag: string | null;
+  zones: ZoneRecommendation[];
+}
+
+// Last response per business type, zone count and options, revalidated with its ETag
+const serverResponses = new Map<string, ServerResponse>();
+
+const offlineCacheKey = (key: string) => `recommendations:${key}`;
+
+// From memory, or from the offline cache after a restart
+const storedResponse = async (key: string): Promise<ServerResponse | undefined> => {
+  if (!serverResponses.has(key)) {
+    const stored = await readCache<ServerResponse>(offlineCacheKey(key));
+    if (stored) serverResponses.set(key, stored.value);
+  }
+  return serverResponses.get(key);
+};
+
+type ServerZone = Omit<ZoneRecommendation, 'district_name' | 'latitude_center' | 'longitude_center'> & {
+  district_name: string | null;
+  latitude_center: number | null;
+  longitude_center: number | null;
+};
+
+const fromServer = (zone: ServerZone): ZoneRecommendation => ({
+  zone_id: zone.zone_id,
+  zone_score: zone.zone_score,
+  explanation: zone.explanation,
+  total_popularity_score: zone.total_popularity_score,
+  total_user_ratings: zone.total_user_ratings,
+  number_of_same_type_businesses: zone.number_of_same_type_businesses,
+  listing_count: zone.listing_count,
+  district_name: zone.district_name ?? undefined,
+  latitude_center: zone.latitude_center ?? undefined,
+  longitude_center: zone.longitude_center ?? undefined
+});
+
+// Query string for the endpoint; also the cache key, so equal options share one cached response
+const recommendationParams = (limit: number, { weights, budget, anchor }: RecommendationOptions) => {
+  const params = new URLSearchParams({ count: String(limit) });
+  if (weights) {
+    params.set('weights', SCORING_FACTORS
+      .filter(factor => weights[factor] !== undefined)
+      .map(factor => `${factor}:${weights[factor]}`)
+      .join(','));
+  }
+  if (budget && budget > 0) params.set('budget', String(budget));
+  if (anchor) {
+    params.set('lat', String(anchor.latitude));
+    params.set('lng', String(anchor.longitude));
+  }
+  return params.toString();
+};
+
+const requestRecommendations = async (businessType: string, query: string): Promise<ZoneRecommendation[]> => {
+  const key = `${businessType}?${query}`;
+  const cached = await storedResponse(key);
+  const url = `${EXPO_PUBLIC_API_URL}/api/recommendations/${encodeURIComponent(businessType)}?${query}`;
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, EXPO_PUBLIC_REST_TIMEOUT_MS);
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: { 'Accept': 'application/json', ...(cached?.etag ? { 'If-None-Match': cached.etag } : {}) },
+      signal: controller.signal
     });
-    
-    // 6. Sort zones by score (highest first) and take top 5
-    const topRecommendations = zoneScores
-      .sort((a, b) => b.zone_score - a.zone_score)
-      .slice(0, 5);
-    
-    console.log(`Found ${topRecommendations.length} recommended zones for ${businessType}`);
-    
-    return topRecommendations;
+    reportConnectivity(true);
   } catch (error) {
-    console.error('Error in fetchZoneRecommendations:', error);
-    return [];
+    reportConnectivity(false);
+    const message = timedOut ? 'Recommendations request timed out' : (error as Error)?.message || 'Network request failed';
+    throw new NetworkError(message, { url, timedOut });
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (response.status === 304 && cached) {
+    return cached.zones;
+  }
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok || !body?.success) {
+    throw new Error(body?.error || `Recommendations request failed with status ${response.status}`);
   }
+
+  const zones = (body.recommendations as ServerZone[]).map(fromServer);
+  const fresh = { etag: response.headers.get('ETag'), zones };
+  serverResponses.set(key, fresh);
+  await writeCache(offlineCacheKey(key), fresh);
+  return zones;
 };
 
 /**
- * Fetch all listings and prioritize those in recommended zones
- * @param businessType Type of business to recommend listings for
- * @returns Promise with listings sorted by zone recommendation score
+ * The last zones the backend sent for these arguments, if any, to show while fetching fresh ones
+ * @returns Saved zones, or null when this query has not been answered before
  */
-export const fetchRecommendedListings = async (businessType: FilterBusinessType): Promise<any[]> => {
+export const readCachedZoneRecommendations = async (
+  businessType: FilterBusinessType,
+  limit = DEFAULT_TOP_ZONES,
+  options: RecommendationOptions = {}
+): Promise<ZoneRecommendation[] | null> => {
+  if (businessType === 'none') {
+    return null;
+  }
+  const stored = await storedResponse(`${businessType}?${recommendationParams(limit, options)}`);
+  return stored?.zones ?? null;
+};
+
+/**
+ * Fetch the top zones for a business type, best first
+ * @param businessType Type of business to recommend zones for
+ * @param limit Number of top zones to return
+ * @param options Custom weights, rent budget and distance anchor
+ * @returns Promise with recommended zones; rejects when the backend answers with an error
+ */
+export const fetchZoneRecommendations = async (
+  businessType: FilterBusinessType,
+  limit = DEFAULT_TOP_ZONES,
+  options: RecommendationOptions = {}
+): Promise<ZoneRecommendation[]> => {
+  // Skip if no business type selected
+  if (businessType === 'none') {
+    return [];
+  }
+
+  const query = recommendationParams(limit, options);
+
   try {
-    // Skip if no business type selected
-    if (businessType === 'none') {
-      return [];
-    }
-    
-    // 1. Get zone recommendations
-    const zoneRecommendations = await fetchZoneRecommendations(businessType);
-    
-    if (zoneRecommendations.length === 0) {
-      return [];
+    const zones = await requestRecommendations(businessType, query);
+    log.debug(`Found ${zones.length} recommended zones for ${businessType}`);
+    return zones;
+  } catch (error) {
+    if (!(error instanceof NetworkError)) {
+      log.error('Error in fetchZoneRecommendations:', error);
+      throw error;
     }
-    
-    // 2. Fetch all listings
-    const listingsResponse = await fetch(
-      `${EXPO_PUBLIC_SUPABASE_URL}/rest/v1/Listings?select=*`,
-      { method: 'GET', headers: getDefaultHeaders() }
-    );
-    
-    if (!listingsResponse.ok) {
-      console.error('Error fetching listings:', listingsResponse.statusText);
-      return [];
+
+    // Offline: the last answer from the backend is better than rescoring, if we have one
+    const cached = await storedResponse(`${businessType}?${query}`);
+    if (cached) {
+      log.warn('Backend unreachable, using the last recommendations it sent');
+      return cached.zones;
     }
-    
-    const listings = await listingsResponse.json();
-    
-    // 3. Tag listings with recommendation info
-    const scoredListings = listings.map((listing: any) => {
-      // Handle zone_id being string or number
-      const listingZoneId = typeof listing.zone_id === 'string' ? parseInt(listing.zone_id) : listing.zone_id;
-      
-      // Check if this listing is in a recommended zone
-      const zoneRec = zoneRecommendations.find(zone => zone.zone_id === listingZoneId);
-      const isInRecommendedZone = !!zoneRec;
-      
-      return {
-        ...listing,
-        recommendationScore: zoneRec ? zoneRec.zone_score : 0,
-        isInRecommendedZone,
-        businessType
-      };
-    });
-    
-    // 4. Sort listings - recommended zones first, then by recommendation score
-    return scoredListings.sort((a: any, b: any) => {
-      // First prioritize recommended zones
-      if (a.isInRecommendedZone && !b.isInRecommendedZone) return -1;
-      if (!a.isInRecommendedZone && b.isInRecommendedZone) return 1;
-      
-      // If both are in recommended zones, sort by score
-      if (a.isInRecommendedZone && b.isInRecommendedZone) {
-        return b.recommendationScore - a.recommendationScore;
-      }
-      
-      return 0;
-    });
-  } catch (error) {
-    console.error('Error in fetchRecommendedListings:', error);
-    return [];
+
+    log.warn('Backend unreachable, scoring zones on the device');
+    return scoreZonesLocally(businessType, limit, options);
   }
 };
@@ -0,0 +1,227 @@
+// zoneScoring.ts - Normalized, explainable scoring of zones for a business type
+//
+// Each factor is rescaled to 0-1 across the zones being compared, so a column with large raw
+// numbers (e.g. rating counts in the thousands) cannot drown out the others. Competition is
+// inverted: fewer same-type businesses is better. The score is the weighted sum on a 0-100
+// scale, and every zone carries the numbers that produced it.
+//
+// Factors are pluggable: each one is an entry in FACTOR_DEFINITIONS that says how to read it from a
+// zone and whether lower is better, and only counts when given a weight (by the business type in the
+// registry or by the user). A zone with no data for a factor gets the neutral value, and a factor no
+// zone has data for (e.g. distance without a chosen point) is left out so its weight goes to the rest.
+//
+// The backend scores zones with a copy of this model (backend/utils/zoneScoring.js); keep them in step.
+// __tests__/utils/zoneScoring.test.ts runs both on the same fixtures and fails when they disagree.
+
+export type ScoringFactor =
+  | 'popularity'
+  | 'ratings'
+  | 'competition'
+  | 'rent'
+  | 'pricePerSqm'
+  | 'complementary'
+  | 'distance';
+
+// Missing factors weigh 0
+export type FactorWeights = Partial<Record<ScoringFactor, number>>;
+
+export type Normalization = 'minMax' | 'zScore';
+
+export type ConfidenceLevel = 'low' | 'medium' | 'high';
+
+export interface ZoneFactorInput {
+  zone_id: number;
+  popularity: number;     // total popularity of the zone's businesses
+  ratings: number;        // total user ratings in the zone
+  competitors: number;    // businesses of the same type in the zone
+  sampleSize: number;     // businesses the zone figures are based on
+  rent?: number | null;   // median yearly rent of the zone's listings (SAR), null without listings
+  pricePerSqm?: number | null;    // median yearly rent per m² of the zone's listings, null without areas
+  complementary?: number | null;  // businesses that bring customers to this type (e.g. supermarkets for a gym)
+  distanceKm?: number | null;     // from the user's chosen point, null without one
+}
+
+export interface FactorExplanation {
+  raw: number | null;     // value from the database, null when the zone has none
+  normalized: number;     // 0-1 relative to the other zones, 1 is best (competition already inverted)
+  weight: number;         // share of the score, weights sum to 1
+  contribution: number;   // points added to the 0-100 score: normalized * weight * 100
+}
+
+export interface ZoneScoreExplanation {
+  factors: Record<ScoringFactor, FactorExplanation>;
+  confidence: number;     // 0-1, grows with sample size
+  confidenceLevel: ConfidenceLevel;
+  sampleSize: number;
+}
+
+export interface ScoredZone {
+  zone_id: number;
+  score: number;          // 0-100
+  explanation: ZoneScoreExplanation;
+}
+
+export interface ScoringOptions {
+  normalization?: Normalization;
+  budget?: number | null;  // yearly rent budget; without one, cheaper zones simply score higher
+}
+
+export interface FactorDefinition {
+  value: (zone: ZoneFactorInput) => number | null;   // null when the zone has no data for it
+  lowerIsBetter: boolean;
+}
+
+const finite = (value: number) => (Number.isFinite(value) ? value : 0);
+
+const known = (value: number | null | undefined) =>
+  value !== null && value !== undefined && Number.isFinite(value) ? value : null;
+
+// Adding a factor: an entry here, its field on ZoneFactorInput, and weights for it in the registry
+export const FACTOR_DEFINITIONS: Record<ScoringFactor, FactorDefinition> = {
+  popularity: { value: zone => finite(zone.popularity), lowerIsBetter: false },
+  ratings: { value: zone => finite(zone.ratings), lowerIsBetter: false },
+  competition: { value: zone => finite(zone.competitors), lowerIsBetter: true },
+  rent: { value: zone => known(zone.rent), lowerIsBetter: true },
+  pricePerSqm: { value: zone => known(zone.pricePerSqm), lowerIsBetter: true },
+  complementary: { value: zone => known(zone.complementary), lowerIsBetter: false },
+  distance: { value: zone => known(zone.distanceKm), lowerIsBetter: true }
+};
+
+export const SCORING_FACTORS = Object.keys(FACTOR_DEFINITIONS) as ScoringFactor[];
+
+// Factors every business type weighs; the others are opt-in
+export const BASE_FACTORS: ScoringFactor[] = ['popularity', 'ratings', 'competition'];
+
+// Sample size at which confidence reaches 0.5
+const CONFIDENCE_HALF_SAMPLE = 10;
+
+const CONFIDENCE_LEVELS: { min: number; level: ConfidenceLevel }[] = [
+  { min: 0.7, level: 'high' },
+  { min: 0.4, level: 'medium' },
+  { min: 0, level: 'low' }
+];
+
+// Value given to every zone when a factor does not vary, so it neither helps nor hurts
+const NEUTRAL = 0.5;
+
+export const normalizeMinMax = (values: number[]): number[] => {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (!(max > min)) {
+    return values.map(() => NEUTRAL);
+  }
+  return values.map(value => (value - min) / (max - min));
+};
+
+// z-scores mapped to 0-1 with a logistic curve close to the normal CDF
+export const normalizeZScore = (values: number[]): number[] => {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  const deviation = Math.sqrt(variance);
+  if (!(deviation > 0)) {
+    return values.map(() => NEUTRAL);
+  }
+  return values.map(value => 1 / (1 + Math.exp(-1.702 * ((value - mean) / deviation))));
+};
+
+const NORMALIZERS: Record<Normalization, (values: number[]) => number[]> = {
+  minMax: normalizeMinMax,
+  zScore: normalizeZScore
+};
+
+export const confidenceFor = (sampleSize: number): { confidence: number; confidenceLevel: ConfidenceLevel } => {
+  const n = Math.max(0, finite(sampleSize));
+  const confidence = n / (n + CONFIDENCE_HALF_SAMPLE);
+  const { level } = CONFIDENCE_LEVELS.find(entry => confidence >= entry.min)!;
+  return { confidence, confidenceLevel: level };
+};
+
+const weightOf = (weights: FactorWeights, factor: ScoringFactor) => Math.max(0, finite(weights[factor] ?? 0));
+
+// Scales weights to sum to 1; all-zero weights count the base factors equally
+export const normalizeWeights = (weights: FactorWeights): Record<ScoringFactor, number> => {
+  const total = SCORING_FACTORS.reduce((sum, factor) => sum + weightOf(weights, factor), 0);
+  return SCORING_FACTORS.reduce((result, factor) => {
+    result[factor] = total > 0
+      ? weightOf(weights, factor) / total
+      : BASE_FACTORS.includes(factor) ? 1 / BASE_FACTORS.length : 0;
+    return result;
+  }, {} as Record<ScoringFactor, number>);
+};
+
+ // Normalizes the known values and gives unknown ones the neutral value
+const normalizeKnown = (values: (number | null)[], normalize: (values: number[]) => number[]) => {
+  const known = values.filter((value): value is number => value !== null);
+  const normalized = known.length > 0 ? normalize(known) : [];
+  let next = 0;
+  return values.map(value => (value === null ? NEUTRAL : normalized[next++]));
+};
+
+// With a budget, a zone is fully affordable at or under it and loses value linearly up to twice it
+const affordability = (rent: number | null, budget: number) => {
+  if (rent === null) return NEUTRAL;
+  if (rent <= budget) return 1;
+  return Math.max(0, 1 - (rent - budget) / budget);
+};
+
+/**
+ * Scores zones against each other; the result is sorted best first
+ * (ties go to the zone with more confidence)
+ */
+export const scoreZones = (
+  zones: ZoneFactorInput[],
+  weights: FactorWeights,
+  { normalization = 'minMax', budget = null }: ScoringOptions = {}
+): ScoredZone[] => {
+  if (zones.length === 0) {
+    return [];
+  }
+
+  const normalize = NORMALIZERS[normalization];
+
+  const rawByFactor = SCORING_FACTORS.reduce((result, factor) => {
+    result[factor] = zones.map(zone => FACTOR_DEFINITIONS[factor].value(zone));
+    return result;
+  }, {} as Record<ScoringFactor, (number | null)[]>);
+
+  // Factors with no data in any zone would only add the same neutral points to every zone
+  const available = SCORING_FACTORS.reduce((result, factor) => {
+    result[factor] = rawByFactor[factor].some(value => value !== null) ? weights[factor] : 0;
+    return result;
+  }, {} as FactorWeights);
+  const shares = normalizeWeights(available);
+
+  const normalizedByFactor = SCORING_FACTORS.reduce((result, factor) => {
+    const raw = rawByFactor[factor];
+    if (factor === 'rent' && budget && budget > 0) {
+      result[factor] = raw.map(value => affordability(value, budget));
+      return result;
+    }
+    const values = normalizeKnown(raw, normalize);
+    result[factor] = FACTOR_DEFINITIONS[factor].lowerIsBetter ? values.map(value => 1 - value) : values;
+    return result;
+  }, {} as Record<ScoringFactor, number[]>);
+
+  return zones
+    .map((zone, index) => {
+      const factors = SCORING_FACTORS.reduce((result, factor) => {
+        const normalized = normalizedByFactor[factor][index];
+        result[factor] = {
+          raw: rawByFactor[factor][index],
+          normalized,
+          weight: shares[factor],
+          contribution: normalized * shares[factor] * 100
+        };
+        return result;
+      }, {} as Record<ScoringFactor, FactorExplanation>);
+
+      const score = SCORING_FACTORS.reduce((sum, factor) => sum + factors[factor].contribution, 0);
+
+      return {
+        zone_id: zone.zone_id,
+        score,
+        explanation: { factors, sampleSize: zone.sampleSize, ...confidenceFor(zone.sampleSize) }
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.explanation.confidence - a.explanation.confidence);
+};